@@ -29,6 +29,7 @@ self.addEventListener("push", (event) => {
     badge: data.badge || "/favicon.ico",
     tag: data.tag || "default",
     requireInteraction: data.requireInteraction || false,
+    actions: data.actions || [],
     data: data.data || {},
   };
 
@@ -43,8 +44,11 @@ self.addEventListener("notificationclick", (event) => {
 
   event.notification.close();
 
-  // Get the URL from notification data
-  const urlToOpen = event.notification.data?.url || "/";
+  // Get the URL from notification data; an action button (e.g. accept/decline a job offer) is handled by the page
+  const baseUrl = event.notification.data?.url || "/";
+  const urlToOpen = event.action
+    ? `${baseUrl}${baseUrl.includes("?") ? "&" : "?"}respond=${encodeURIComponent(event.action)}`
+    : baseUrl;
 
   event.waitUntil(
     clients.matchAll({ type: "window", includeUncontrolled: true }).then((clientList) => {
@@ -0,0 +1,256 @@
+// Local stand-in for the Vipps MobilePay ePayment API, for development and tests.
+//
+//   MOBILEPAY_API_BASE=http://localhost:4010 (in the app's env)
+//   npm run mock:mobilepay
+//
+// Serves the endpoints src/server/mobilePay.ts calls, plus a landing page at
+// /landing/<reference> with Approve and Reject buttons standing in for the app.
+// With MOBILEPAY_MOCK_WEBHOOK_URL set, every change is also sent there as a
+// webhook signed with MOBILEPAY_WEBHOOK_SECRET, like the real service does.
+
+import { createServer } from "node:http";
+import { createHash, createHmac, randomUUID } from "node:crypto";
+
+const PORT = Number(process.env.MOBILEPAY_MOCK_PORT || 4010);
+const WEBHOOK_URL = process.env.MOBILEPAY_MOCK_WEBHOOK_URL || "";
+const WEBHOOK_SECRET = process.env.MOBILEPAY_WEBHOOK_SECRET || "";
+const MSN = process.env.MOBILEPAY_MERCHANT_SERIAL_NUMBER || "123456";
+
+const payments = new Map(); // reference -> payment
+const replays = new Map(); // idempotency key -> { status, body }
+
+const zero = (currency) => ({ currency, value: 0 });
+
+function problem(res, status, title, detail) {
+  send(res, status, { type: "about:blank", title, status, detail });
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const raw = Buffer.concat(chunks).toString("utf8");
+  if (!raw) return {};
+  if ((req.headers["content-type"] || "").includes("application/json")) return JSON.parse(raw);
+  return Object.fromEntries(new URLSearchParams(raw));
+}
+
+function publicView(payment) {
+  const view = { ...payment };
+  delete view.returnUrl;
+  return view;
+}
+
+async function notify(payment, name, amount) {
+  if (!WEBHOOK_URL) return;
+
+  const body = JSON.stringify({
+    msn: MSN,
+    reference: payment.reference,
+    pspReference: randomUUID(),
+    name,
+    amount,
+    timestamp: new Date().toISOString(),
+    success: true,
+  });
+
+  const url = new URL(WEBHOOK_URL);
+  const date = new Date().toUTCString();
+  const contentHash = createHash("sha256").update(body, "utf8").digest("base64");
+  const signed = `POST\n${url.pathname}${url.search}\n${date};${url.host};${contentHash}`;
+  const signature = createHmac("sha256", WEBHOOK_SECRET).update(signed, "utf8").digest("base64");
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-ms-date": date,
+        "x-ms-content-sha256": contentHash,
+        Authorization: `HMAC-SHA256 SignedHeaders=x-ms-date;host;x-ms-content-sha256&Signature=${signature}`,
+      },
+      body,
+    });
+    console.log(`webhook ${name} ${payment.reference} -> ${response.status}`);
+  } catch (error) {
+    console.error(`webhook ${name} ${payment.reference} failed:`, error.message);
+  }
+}
+
+// Replays the first response for a repeated Idempotency-Key
+async function idempotent(req, res, run) {
+  const key = req.headers["idempotency-key"];
+  if (!key) return problem(res, 400, "Bad Request", "Idempotency-Key header is required");
+
+  if (!replays.has(key)) {
+    const result = await run();
+    if (result.status < 300) replays.set(key, result);
+    return send(res, result.status, result.body);
+  }
+
+  const { status, body } = replays.get(key);
+  send(res, status, body);
+}
+
+function landingPage(payment) {
+  const euros = (payment.amount.value / 100).toFixed(2);
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>MobilePay (mock)</title>
+<style>body{font-family:sans-serif;max-width:360px;margin:64px auto;text-align:center}button{font-size:18px;padding:12px 24px;margin:8px}</style>
+</head><body>
+<h1>MobilePay (mock)</h1>
+<p>${payment.paymentDescription || "Payment"}</p>
+<p style="font-size:32px">&euro;${euros}</p>
+<form method="post" action="/landing/${payment.reference}/approve"><button>Approve</button></form>
+<form method="post" action="/landing/${payment.reference}/reject"><button>Reject</button></form>
+</body></html>`;
+}
+
+async function handle(req, res) {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const parts = url.pathname.split("/").filter(Boolean);
+
+  if (req.method === "POST" && url.pathname === "/accesstoken/get") {
+    if (!req.headers.client_id || !req.headers.client_secret) {
+      return problem(res, 401, "Unauthorized", "client_id and client_secret headers are required");
+    }
+    return send(res, 200, { token_type: "Bearer", expires_in: "3600", access_token: `mock-${randomUUID()}` });
+  }
+
+  // Customer-facing pages standing in for the MobilePay app
+  if (parts[0] === "landing") {
+    const payment = payments.get(parts[1]);
+    if (!payment) return problem(res, 404, "Not Found", "Unknown payment");
+
+    if (req.method === "GET" && parts.length === 2) {
+      res.writeHead(200, { "Content-Type": "text/html" });
+      return res.end(landingPage(payment));
+    }
+
+    if (req.method === "POST" && (parts[2] === "approve" || parts[2] === "reject")) {
+      if (payment.state === "CREATED") {
+        if (parts[2] === "approve") {
+          payment.state = "AUTHORIZED";
+          payment.aggregate.authorizedAmount = { ...payment.amount };
+          await notify(payment, "AUTHORIZED", payment.amount);
+        } else {
+          payment.state = "ABORTED";
+          await notify(payment, "ABORTED", payment.amount);
+        }
+      }
+      res.writeHead(303, { Location: payment.returnUrl });
+      return res.end();
+    }
+  }
+
+  if (parts[0] !== "epayment" || parts[1] !== "v1" || parts[2] !== "payments") {
+    return problem(res, 404, "Not Found", `No route for ${req.method} ${url.pathname}`);
+  }
+
+  if (!(req.headers.authorization || "").startsWith("Bearer ")) {
+    return problem(res, 401, "Unauthorized", "Bearer token is required");
+  }
+
+  const body = req.method === "POST" ? await readBody(req) : {};
+  const reference = parts[3] ? decodeURIComponent(parts[3]) : null;
+  const action = parts[4];
+
+  if (req.method === "POST" && !reference) {
+    return idempotent(req, res, async () => {
+      if (!body.reference || !body.amount?.value || !body.returnUrl) {
+        return { status: 400, body: { title: "Bad Request", detail: "reference, amount and returnUrl are required" } };
+      }
+      if (payments.has(body.reference)) {
+        return { status: 409, body: { title: "Conflict", detail: `Reference ${body.reference} is already used` } };
+      }
+
+      const currency = body.amount.currency;
+      payments.set(body.reference, {
+        reference: body.reference,
+        state: "CREATED",
+        amount: body.amount,
+        aggregate: {
+          authorizedAmount: zero(currency),
+          cancelledAmount: zero(currency),
+          capturedAmount: zero(currency),
+          refundedAmount: zero(currency),
+        },
+        pspReference: randomUUID(),
+        paymentDescription: body.paymentDescription,
+        returnUrl: body.returnUrl,
+      });
+
+      return { status: 201, body: { reference: body.reference, redirectUrl: `http://${req.headers.host}/landing/${body.reference}` } };
+    });
+  }
+
+  const payment = reference ? payments.get(reference) : null;
+  if (!payment) return problem(res, 404, "Not Found", `Payment ${reference} not found`);
+
+  if (req.method === "GET" && !action) {
+    return send(res, 200, publicView(payment));
+  }
+
+  if (req.method !== "POST") {
+    return problem(res, 405, "Method Not Allowed", `${req.method} is not supported here`);
+  }
+
+  const { aggregate } = payment;
+  const value = body.modificationAmount?.value || 0;
+
+  switch (action) {
+    case "capture":
+      return idempotent(req, res, async () => {
+        const capturable = aggregate.authorizedAmount.value - aggregate.capturedAmount.value - aggregate.cancelledAmount.value;
+        if (payment.state !== "AUTHORIZED" || value <= 0 || value > capturable) {
+          return { status: 400, body: { title: "Bad Request", detail: `Cannot capture ${value}; ${capturable} is capturable` } };
+        }
+        aggregate.capturedAmount.value += value;
+        await notify(payment, "CAPTURED", body.modificationAmount);
+        return { status: 200, body: publicView(payment) };
+      });
+
+    case "cancel":
+      return idempotent(req, res, async () => {
+        if (payment.state === "CREATED") {
+          payment.state = "TERMINATED";
+          await notify(payment, "TERMINATED", payment.amount);
+        } else if (payment.state === "AUTHORIZED") {
+          const remaining = aggregate.authorizedAmount.value - aggregate.capturedAmount.value - aggregate.cancelledAmount.value;
+          aggregate.cancelledAmount.value += remaining;
+          await notify(payment, "CANCELLED", { currency: payment.amount.currency, value: remaining });
+        } else {
+          return { status: 400, body: { title: "Bad Request", detail: `Cannot cancel a ${payment.state} payment` } };
+        }
+        return { status: 200, body: publicView(payment) };
+      });
+
+    case "refund":
+      return idempotent(req, res, async () => {
+        const refundable = aggregate.capturedAmount.value - aggregate.refundedAmount.value;
+        if (value <= 0 || value > refundable) {
+          return { status: 400, body: { title: "Bad Request", detail: `Cannot refund ${value}; ${refundable} is refundable` } };
+        }
+        aggregate.refundedAmount.value += value;
+        await notify(payment, "REFUNDED", body.modificationAmount);
+        // Modifications answer with the pspReference of the operation itself
+        return { status: 200, body: { ...publicView(payment), pspReference: randomUUID() } };
+      });
+
+    default:
+      return problem(res, 404, "Not Found", `Unknown action ${action}`);
+  }
+}
+
+createServer((req, res) => {
+  handle(req, res).catch((error) => {
+    console.error(error);
+    problem(res, 500, "Internal Server Error", error.message);
+  });
+}).listen(PORT, () => {
+  console.log(`MobilePay mock listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Bookmark, MapPin } from "lucide-react";
+import { addressService, type ResolvedPlace, type SavedAddress } from "@/services/addressService";
+
+interface AddressAutocompleteProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void; // free typing; the previously picked place no longer applies
+  onSelect: (place: ResolvedPlace) => void;
+  savedAddresses?: SavedAddress[];
+  placeholder?: string;
+  required?: boolean;
+}
+
+type Option = { key: string; title: string; subtitle?: string; saved: boolean; place: ResolvedPlace };
+
+export function AddressAutocomplete({
+  id,
+  value,
+  onChange,
+  onSelect,
+  savedAddresses = [],
+  placeholder,
+  required,
+}: AddressAutocompleteProps) {
+  const [open, setOpen] = useState(false);
+  const [suggestions, setSuggestions] = useState<ResolvedPlace[]>([]);
+  const [highlighted, setHighlighted] = useState(0);
+  const [dirty, setDirty] = useState(false);
+
+  // Only look up what the user typed, not addresses filled in by a selection
+  useEffect(() => {
+    if (!dirty || value.trim().length < 3) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const results = await addressService.suggest(value);
+      if (!cancelled) setSuggestions(results);
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [value, dirty]);
+
+  const query = value.trim().toLowerCase();
+  const options: Option[] = [
+    ...savedAddresses
+      .filter((saved) => !dirty || !query ||
+        saved.label.toLowerCase().includes(query) ||
+        saved.address.toLowerCase().includes(query))
+      .map((saved) => ({
+        key: `saved-${saved.id}`,
+        title: saved.label,
+        subtitle: saved.address,
+        saved: true,
+        place: addressService.toPlace(saved),
+      })),
+    ...suggestions.map((place, index) => ({
+      key: `suggestion-${index}`,
+      title: place.address,
+      saved: false,
+      place,
+    })),
+  ];
+
+  const select = (option: Option) => {
+    onSelect(option.place);
+    setDirty(false);
+    setOpen(false);
+    setSuggestions([]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open || options.length === 0) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % options.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + options.length) % options.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      select(options[highlighted]);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setDirty(true);
+          setOpen(true);
+          setHighlighted(0);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        required={required}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={open && options.length > 0}
+        aria-controls={`${id}-options`}
+      />
+
+      {open && options.length > 0 && (
+        <ul
+          id={`${id}-options`}
+          role="listbox"
+          className="absolute z-50 mt-1 w-full max-h-72 overflow-auto rounded-md border bg-white dark:bg-gray-900 shadow-lg"
+        >
+          {options.map((option, index) => (
+            <li
+              key={option.key}
+              role="option"
+              aria-selected={index === highlighted}
+              // mousedown fires before the input blurs and closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(option);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`flex items-start gap-2 px-3 py-2 text-sm cursor-pointer ${
+                index === highlighted ? "bg-navy-900/10" : ""
+              }`}
+            >
+              {option.saved
+                ? <Bookmark className="h-4 w-4 mt-0.5 text-navy-900 shrink-0" />
+                : <MapPin className="h-4 w-4 mt-0.5 text-gray-400 shrink-0" />}
+              <div className="min-w-0">
+                <p className="font-medium truncate">{option.title}</p>
+                {option.subtitle && <p className="text-xs text-muted-foreground truncate">{option.subtitle}</p>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useState, useEffect } from "react";
+import { Loader2, Plus, Trash2, CalendarOff } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { WEEKDAYS, WEEKDAY_LABELS, timeToMinutes } from "@/lib/shifts";
+import { availabilityService, type ShiftInput, type TimeOffRow } from "@/services/availabilityService";
+
+interface AvailabilityCalendarProps {
+  transporterId: string;
+  onChange?: () => void; // after the calendar was saved
+}
+
+// Shift draft; the id only keys the form rows
+type ShiftDraft = ShiftInput & { id: number };
+
+// "08:00:00" -> "08:00"; the end of the day is shown as 00:00
+const toInputTime = (value: string) => (value.startsWith("24") ? "00:00" : value.slice(0, 5));
+
+export function AvailabilityCalendar({ transporterId, onChange }: AvailabilityCalendarProps) {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [shifts, setShifts] = useState<ShiftDraft[]>([]);
+  const [nextShiftId, setNextShiftId] = useState(0);
+  const [timeOff, setTimeOff] = useState<TimeOffRow[]>([]);
+  const [timeOffForm, setTimeOffForm] = useState({ startsOn: "", endsOn: "", reason: "" });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    availabilityService.getCalendar(transporterId).then((calendar) => {
+      if (cancelled) return;
+      setShifts(calendar.shifts.map((shift, index) => ({
+        id: index,
+        weekday: shift.weekday,
+        startsAt: toInputTime(shift.starts_at),
+        endsAt: toInputTime(shift.ends_at),
+      })));
+      setNextShiftId(calendar.shifts.length);
+      setTimeOff(calendar.timeOff);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [transporterId]);
+
+  const addShift = (weekday: number) => {
+    setShifts((current) => [...current, { id: nextShiftId, weekday, startsAt: "08:00", endsAt: "16:00" }]);
+    setNextShiftId(nextShiftId + 1);
+  };
+
+  const updateShift = (id: number, changes: Partial<ShiftInput>) => {
+    setShifts((current) => current.map((shift) => (shift.id === id ? { ...shift, ...changes } : shift)));
+  };
+
+  const removeShift = (id: number) => {
+    setShifts((current) => current.filter((shift) => shift.id !== id));
+  };
+
+  const handleSaveShifts = async () => {
+    const invalid = shifts.find((shift) => {
+      const end = shift.endsAt === "00:00" ? 24 * 60 : timeToMinutes(shift.endsAt);
+      return !shift.startsAt || !shift.endsAt || end <= timeToMinutes(shift.startsAt);
+    });
+    if (invalid) {
+      toast({
+        title: "Check your shifts",
+        description: `A ${WEEKDAY_LABELS[invalid.weekday]} shift ends before it starts. Split shifts past midnight into two days.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const result = await availabilityService.saveShifts(transporterId, shifts);
+    setSaving(false);
+
+    if (!result.success) {
+      toast({ title: "Could not save your hours", description: result.error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Working hours saved",
+      description: shifts.length > 0
+        ? "You'll only get job offers during your shifts."
+        : "Without shifts you can get job offers any time you're online.",
+    });
+    onChange?.();
+  };
+
+  const handleAddTimeOff = async () => {
+    if (!timeOffForm.startsOn || !timeOffForm.endsOn || timeOffForm.endsOn < timeOffForm.startsOn) {
+      toast({ title: "Check the dates", description: "Pick a first and a last day off.", variant: "destructive" });
+      return;
+    }
+
+    const result = await availabilityService.addTimeOff(transporterId, timeOffForm);
+    if (!result.success || !result.data) {
+      toast({ title: "Could not add time off", description: result.error, variant: "destructive" });
+      return;
+    }
+
+    setTimeOff((current) => [...current, result.data].sort((a, b) => a.starts_on.localeCompare(b.starts_on)));
+    setTimeOffForm({ startsOn: "", endsOn: "", reason: "" });
+    onChange?.();
+  };
+
+  const handleRemoveTimeOff = async (timeOffId: string) => {
+    if (!(await availabilityService.removeTimeOff(timeOffId))) {
+      toast({ title: "Could not remove time off", description: "Please try again.", variant: "destructive" });
+      return;
+    }
+
+    setTimeOff((current) => current.filter((block) => block.id !== timeOffId));
+    onChange?.();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Working Hours</CardTitle>
+          <CardDescription>
+            Your weekly shifts (Finnish time). You can only go online during a shift, and you go offline when it ends.
+            Leave the week empty to work whenever you're online.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {WEEKDAYS.map((weekday) => (
+            <div key={weekday} className="flex flex-col gap-2 sm:flex-row sm:items-start">
+              <span className="w-28 pt-2 text-sm font-medium">{WEEKDAY_LABELS[weekday]}</span>
+              <div className="flex-1 space-y-2">
+                {shifts.filter((shift) => shift.weekday === weekday).map((shift) => (
+                  <div key={shift.id} className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      value={shift.startsAt}
+                      onChange={(e) => updateShift(shift.id, { startsAt: e.target.value })}
+                      className="w-32"
+                    />
+                    <span className="text-muted-foreground">–</span>
+                    <Input
+                      type="time"
+                      value={shift.endsAt}
+                      onChange={(e) => updateShift(shift.id, { endsAt: e.target.value })}
+                      className="w-32"
+                    />
+                    <Button variant="ghost" size="icon" onClick={() => removeShift(shift.id)} title="Remove shift">
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" onClick={() => addShift(weekday)}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add shift
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <Separator />
+
+          <Button onClick={handleSaveShifts} disabled={saving} className="w-full">
+            {saving ? "Saving..." : "Save Working Hours"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Time Off</CardTitle>
+          <CardDescription>Days you don't work, e.g. a vacation. You get no job offers and can't claim jobs on them.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {timeOff.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No time off planned.</p>
+          ) : (
+            <ul className="space-y-2">
+              {timeOff.map((block) => (
+                <li key={block.id} className="flex items-center justify-between rounded-md border p-3 text-sm">
+                  <span className="flex items-center gap-2">
+                    <CalendarOff className="h-4 w-4 text-muted-foreground" />
+                    {block.starts_on === block.ends_on ? block.starts_on : `${block.starts_on} – ${block.ends_on}`}
+                    {block.reason && <span className="text-muted-foreground">({block.reason})</span>}
+                  </span>
+                  <Button variant="ghost" size="icon" onClick={() => handleRemoveTimeOff(block.id)} title="Remove time off">
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <Separator />
+
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+            <div className="space-y-1">
+              <Label htmlFor="timeOffStart">First day</Label>
+              <Input
+                id="timeOffStart"
+                type="date"
+                value={timeOffForm.startsOn}
+                onChange={(e) => setTimeOffForm({ ...timeOffForm, startsOn: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="timeOffEnd">Last day</Label>
+              <Input
+                id="timeOffEnd"
+                type="date"
+                value={timeOffForm.endsOn}
+                min={timeOffForm.startsOn || undefined}
+                onChange={(e) => setTimeOffForm({ ...timeOffForm, endsOn: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="timeOffReason">Note (optional)</Label>
+              <Input
+                id="timeOffReason"
+                value={timeOffForm.reason}
+                onChange={(e) => setTimeOffForm({ ...timeOffForm, reason: e.target.value })}
+                placeholder="Vacation"
+              />
+            </div>
+          </div>
+          <Button variant="outline" onClick={handleAddTimeOff} className="w-full">
+            <Plus className="h-4 w-4 mr-1" />
+            Add Time Off
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
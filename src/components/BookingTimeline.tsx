@@ -0,0 +1,86 @@
+import { useState, useEffect } from "react";
+import { Loader2 } from "lucide-react";
+import { bookingService, type BookingEvent } from "@/services/bookingService";
+import { BOOKING_STATUS_LABELS } from "@/lib/bookingStatus";
+
+interface BookingTimelineProps {
+  bookingId: string;
+  status?: string | null; // reload when the booking moves on
+}
+
+const ACTOR_ROLE_LABELS: Record<string, string> = {
+  consumer: "Customer",
+  transporter: "Driver",
+  admin: "Support",
+};
+
+export function BookingTimeline({ bookingId, status }: BookingTimelineProps) {
+  const [events, setEvents] = useState<BookingEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    bookingService.getBookingEvents(bookingId).then((history) => {
+      if (cancelled) return;
+      setEvents(history);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bookingId, status]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground py-2">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading history...
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground py-2">No history recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-4">
+      {events.map((event, index) => {
+        const latest = index === events.length - 1;
+        const actor = event.actor_name || (event.actor_role ? ACTOR_ROLE_LABELS[event.actor_role] : null);
+
+        return (
+          <li key={event.id} className="ml-4">
+            <span
+              className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white dark:border-gray-900 ${
+                event.to_status === "cancelled" || event.to_status === "expired"
+                  ? "bg-red-500"
+                  : latest
+                  ? "bg-navy-900"
+                  : "bg-gray-300"
+              }`}
+            />
+            <p className="text-sm font-medium text-foreground">
+              {event.from_status ? BOOKING_STATUS_LABELS[event.to_status] : "Booking created"}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {event.created_at
+                ? new Date(event.created_at).toLocaleString("en-GB", {
+                    day: "2-digit",
+                    month: "short",
+                    hour: "2-digit",
+                    minute: "2-digit"
+                  })
+                : ""}
+              {actor && ` · ${actor}${event.actor_role && event.actor_name ? ` (${ACTOR_ROLE_LABELS[event.actor_role] || event.actor_role})` : ""}`}
+            </p>
+            {event.reason && <p className="text-xs text-gray-600 dark:text-gray-400 mt-0.5">{event.reason}</p>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
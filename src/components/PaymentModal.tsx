@@ -1,25 +1,34 @@
 import { useState, useEffect } from "react";
+import { Elements, CardElement, useStripe, useElements } from "@stripe/react-stripe-js";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { CreditCard, Smartphone, Lock, Trash2, Check } from "lucide-react";
+import { CreditCard, Smartphone, Lock, Trash2, Check, Wallet } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { paymentService } from "@/services/paymentService";
+import { paymentService, type PaymentAuthorization } from "@/services/paymentService";
 import { savedPaymentMethodService } from "@/services/savedPaymentMethodService";
+import { walletService } from "@/services/walletService";
 import { supabase } from "@/integrations/supabase/client";
 import { Checkbox } from "@/components/ui/checkbox";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { getStripe, TEST_PAYMENT_METHOD } from "@/lib/stripe";
 
 interface PaymentModalProps {
   open: boolean;
   onClose: () => void;
   bookingId: string;
   amount: number;
+  discount?: number; // promotion discount already taken off the amount
   onSuccess: () => void;
 }
 
+type PaymentMethod = "card" | "mobilepay" | "wallet";
+
+// Card and MobilePay payments have a minimum charge, so a split leaves at least this much for them
+const MIN_PROVIDER_CHARGE = 0.5;
+
 interface SavedCard {
   id: string;
   card_brand: string;
@@ -31,16 +40,28 @@ interface SavedCard {
   stripe_payment_method_id: string;
 }
 
-export function PaymentModal({ open, onClose, bookingId, amount, onSuccess }: PaymentModalProps) {
+export function PaymentModal(props: PaymentModalProps) {
+  return (
+    <Elements stripe={getStripe()}>
+      <PaymentForm {...props} />
+    </Elements>
+  );
+}
+
+function PaymentForm({ open, onClose, bookingId, amount, discount, onSuccess }: PaymentModalProps) {
   const { toast } = useToast();
+  // Null without a publishable key: the offline stand-in is paid with the test card
+  const stripe = useStripe();
+  const elements = useElements();
   const [loading, setLoading] = useState(false);
-  const [paymentMethod, setPaymentMethod] = useState<"card" | "mobilepay">("card");
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("card");
+
+  // Wallet credit available for this booking, and whether it pays part of a card or MobilePay payment
+  const [walletBalance, setWalletBalance] = useState(0);
+  const [useWallet, setUseWallet] = useState(false);
   
   // Card payment states
-  const [cardNumber, setCardNumber] = useState("");
   const [cardholderName, setCardholderName] = useState("");
-  const [expiryDate, setExpiryDate] = useState("");
-  const [cvc, setCvc] = useState("");
   const [saveCard, setSaveCard] = useState(false);
   
   // Saved cards states
@@ -62,6 +83,14 @@ export function PaymentModal({ open, onClose, bookingId, amount, onSuccess }: Pa
 
       setUserId(user.id);
 
+      const wallet = await walletService.getWallet(user.id);
+      const available = walletService.availableFor(wallet, bookingId);
+      setWalletBalance(available);
+      setUseWallet(available > 0);
+      if (available >= amount) {
+        setPaymentMethod("wallet");
+      }
+
       // Fetch saved payment methods
       const { data: cards, error } = await savedPaymentMethodService.getUserPaymentMethods(user.id);
       
@@ -79,41 +108,99 @@ export function PaymentModal({ open, onClose, bookingId, amount, onSuccess }: Pa
     }
   };
 
-  const formatCardNumber = (value: string) => {
-    const cleaned = value.replace(/\D/g, "");
-    const groups = cleaned.match(/.{1,4}/g);
-    return groups ? groups.join(" ") : cleaned;
-  };
+  // The wallet covers the whole booking on its own, or part of it next to a card or MobilePay
+  const walletCovers = walletBalance > 0 && Math.round(walletBalance * 100) >= Math.round(amount * 100);
+  const splitting = useWallet && walletBalance > 0 && !walletCovers;
+  const walletShare = Math.max(Math.min(walletBalance, amount - MIN_PROVIDER_CHARGE), 0);
+  const walletPart = splitting ? walletShare : 0;
+  const chargeAmount = amount - walletPart;
+
+  /**
+   * Hold the booking total on the card (charged on delivery) and have the server
+   * verify it with Stripe. Without a saved method the card comes from the
+   * CardElement, or is the test card when Stripe.js is not configured.
+   */
+  const authorizeCard = async (paymentMethodId?: string): Promise<PaymentAuthorization> => {
+    const intentResult = await paymentService.authorizeCardPayment(
+      bookingId,
+      paymentMethodId || (stripe ? undefined : TEST_PAYMENT_METHOD),
+      splitting
+    );
+
+    if (!intentResult.success || !intentResult.data) {
+      throw new Error(intentResult.error || "Payment initialization failed");
+    }
 
-  const formatExpiryDate = (value: string) => {
-    const cleaned = value.replace(/\D/g, "");
-    if (cleaned.length >= 2) {
-      return cleaned.slice(0, 2) + "/" + cleaned.slice(2, 4);
+    const intent = intentResult.data;
+    if (stripe && intent.clientSecret) {
+      if (intent.status === "requires_action") {
+        // 3-D Secure for a saved card
+        const { error } = await stripe.confirmCardPayment(intent.clientSecret);
+        if (error) throw new Error(error.message);
+      } else if (intent.status === "requires_payment_method") {
+        const card = elements?.getElement(CardElement);
+        if (!card) throw new Error("Card form is not ready");
+
+        const { error } = await stripe.confirmCardPayment(intent.clientSecret, {
+          payment_method: { card, billing_details: { name: cardholderName } },
+        });
+        if (error) throw new Error(error.message);
+      }
     }
-    return cleaned;
-  };
 
-  const handleCardNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const formatted = formatCardNumber(e.target.value);
-    if (formatted.replace(/\s/g, "").length <= 16) {
-      setCardNumber(formatted);
+    const confirmResult = await paymentService.confirmPayment(bookingId);
+    if (!confirmResult.success || !confirmResult.data) {
+      throw new Error(confirmResult.error || "Payment confirmation failed");
     }
+
+    return confirmResult.data;
   };
 
-  const handleExpiryChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const formatted = formatExpiryDate(e.target.value);
-    if (formatted.replace("/", "").length <= 4) {
-      setExpiryDate(formatted);
+  /**
+   * Save the card from the CardElement through a SetupIntent (or the test card
+   * without Stripe.js). The server checks the setup with Stripe before saving,
+   * and hands back the already saved card for a card number saved before.
+   */
+  const saveNewCard = async (): Promise<SavedCard> => {
+    const setupResult = await savedPaymentMethodService.startCardSetup(stripe ? undefined : TEST_PAYMENT_METHOD);
+    if (setupResult.error || !setupResult.data) {
+      throw new Error(setupResult.error || "Could not save the card");
+    }
+
+    const setup = setupResult.data;
+    if (stripe && setup.clientSecret && setup.status !== "succeeded") {
+      const card = elements?.getElement(CardElement);
+      if (!card) throw new Error("Card form is not ready");
+
+      const { error } = await stripe.confirmCardSetup(setup.clientSecret, {
+        payment_method: { card, billing_details: { name: cardholderName } },
+      });
+      if (error) throw new Error(error.message);
     }
-  };
 
-  const handleCvcChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value.replace(/\D/g, "");
-    if (value.length <= 3) {
-      setCvc(value);
+    const saveResult = await savedPaymentMethodService.saveCard(setup.setupIntentId, cardholderName);
+    if (saveResult.error || !saveResult.data) {
+      throw new Error(saveResult.error || "Could not save the card");
     }
+
+    const { card, duplicate } = saveResult.data;
+    if (!duplicate) {
+      setSavedCards((cards) => [card as SavedCard, ...cards]);
+    }
+
+    toast({
+      title: "💳 Card Saved",
+      description: duplicate
+        ? `This card is already saved as ${card.card_brand} ••••${card.card_last4}`
+        : "Your card has been saved for future use",
+    });
+
+    return card as SavedCard;
   };
 
+  const paidFromWallet = (authorization: PaymentAuthorization) =>
+    authorization.walletAmount > 0 ? `; €${authorization.walletAmount.toFixed(2)} is paid from your wallet` : "";
+
   const handlePayWithSavedCard = async () => {
     if (!selectedSavedCard || !userId) {
       toast({
@@ -130,30 +217,11 @@ export function PaymentModal({ open, onClose, bookingId, amount, onSuccess }: Pa
       const savedCard = savedCards.find((card) => card.id === selectedSavedCard);
       if (!savedCard) throw new Error("Card not found");
 
-      // Create payment intent with saved payment method
-      const intentResult = await paymentService.createStripePaymentIntent(
-        bookingId,
-        amount,
-        savedCard.stripe_payment_method_id
-      );
-
-      if (intentResult.error) {
-        throw new Error(intentResult.error);
-      }
-
-      // Simulate payment processing
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-
-      // Confirm payment
-      const confirmResult = await paymentService.confirmPayment(bookingId);
-
-      if (confirmResult.error) {
-        throw new Error(confirmResult.error);
-      }
+      const authorization = await authorizeCard(savedCard.stripe_payment_method_id);
 
       toast({
-        title: "✅ Payment Successful!",
-        description: `Paid €${amount.toFixed(2)} with ${savedCard.card_brand} ••••${savedCard.card_last4}`,
+        title: "✅ Payment Authorized",
+        description: `€${authorization.amount.toFixed(2)} is held on ${savedCard.card_brand} ••••${savedCard.card_last4} and charged when your move is delivered${paidFromWallet(authorization)}`,
       });
 
       onSuccess();
@@ -171,7 +239,7 @@ export function PaymentModal({ open, onClose, bookingId, amount, onSuccess }: Pa
   };
 
   const handlePayWithNewCard = async () => {
-    if (!cardNumber || !cardholderName || !expiryDate || !cvc) {
+    if (!cardholderName) {
       toast({
         title: "❌ Missing Information",
         description: "Please fill in all card details",
@@ -183,66 +251,18 @@ export function PaymentModal({ open, onClose, bookingId, amount, onSuccess }: Pa
     setLoading(true);
 
     try {
-      const cleanCardNumber = cardNumber.replace(/\s/g, "");
-      const [expMonth, expYear] = expiryDate.split("/");
-
-      // Create payment intent
-      const intentResult = await paymentService.createStripePaymentIntent(bookingId, amount);
-
-      if (intentResult.error) {
-        throw new Error(intentResult.error);
-      }
-
-      // Simulate payment processing
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-
-      // If user wants to save the card
+      // A card to keep is saved first and then pays like any saved card
+      let authorization: PaymentAuthorization;
       if (saveCard && userId) {
-        // Get card brand from card number (simple detection)
-        const cardBrand = cleanCardNumber.startsWith("4") ? "visa" : "mastercard";
-        const last4 = cleanCardNumber.slice(-4);
-        const fullExpYear = parseInt("20" + expYear);
-
-        // Check for duplicates
-        const { exists } = await savedPaymentMethodService.checkDuplicateCard(
-          userId,
-          last4,
-          parseInt(expMonth),
-          fullExpYear
-        );
-
-        if (!exists) {
-          // Save payment method (in production, this would be Stripe's payment method token)
-          const mockPaymentMethodId = `pm_${Math.random().toString(36).substring(7)}`;
-          
-          await savedPaymentMethodService.savePaymentMethod({
-            user_id: userId,
-            stripe_payment_method_id: mockPaymentMethodId,
-            card_brand: cardBrand,
-            card_last4: last4,
-            card_exp_month: parseInt(expMonth),
-            card_exp_year: fullExpYear,
-            cardholder_name: cardholderName,
-            is_default: savedCards.length === 0, // First card is default
-          });
-
-          toast({
-            title: "💳 Card Saved",
-            description: "Your card has been saved for future use",
-          });
-        }
-      }
-
-      // Confirm payment
-      const confirmResult = await paymentService.confirmPayment(bookingId);
-
-      if (confirmResult.error) {
-        throw new Error(confirmResult.error);
+        const card = await saveNewCard();
+        authorization = await authorizeCard(card.stripe_payment_method_id);
+      } else {
+        authorization = await authorizeCard();
       }
 
       toast({
-        title: "✅ Payment Successful!",
-        description: `Paid €${amount.toFixed(2)}`,
+        title: "✅ Payment Authorized",
+        description: `€${authorization.amount.toFixed(2)} is held on your card and charged when your move is delivered${paidFromWallet(authorization)}`,
       });
 
       onSuccess();
@@ -263,7 +283,7 @@ export function PaymentModal({ open, onClose, bookingId, amount, onSuccess }: Pa
     if (!userId) return;
 
     try {
-      const { error } = await savedPaymentMethodService.deletePaymentMethod(cardId, userId);
+      const { error } = await savedPaymentMethodService.deletePaymentMethod(cardId);
 
       if (error) throw new Error(error);
 
@@ -321,29 +341,44 @@ export function PaymentModal({ open, onClose, bookingId, amount, onSuccess }: Pa
     setLoading(true);
 
     try {
-      const result = await paymentService.createMobilePayPayment(bookingId, amount);
+      const result = await paymentService.createMobilePayPayment(bookingId, splitting);
 
-      if (result.error) {
-        throw new Error(result.error);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "MobilePay initialization failed");
       }
 
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+      // MobilePay returns the user to /payment/callback, which waits for the result
+      window.location.href = result.data.redirectUrl;
+    } catch (error) {
+      console.error("MobilePay error:", error);
+      toast({
+        title: "❌ Payment Failed",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
+      setLoading(false);
+    }
+  };
 
-      const confirmResult = await paymentService.confirmPayment(bookingId);
+  const handlePayWithWallet = async () => {
+    setLoading(true);
+
+    try {
+      const result = await paymentService.payWithWallet(bookingId);
 
-      if (confirmResult.error) {
-        throw new Error(confirmResult.error);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Wallet payment failed");
       }
 
       toast({
-        title: "✅ Payment Successful!",
-        description: `Paid €${amount.toFixed(2)} with MobilePay`,
+        title: "✅ Paid from Wallet",
+        description: `€${result.data.walletAmount.toFixed(2)} of your wallet credit pays for this move`,
       });
 
       onSuccess();
       onClose();
     } catch (error) {
-      console.error("MobilePay error:", error);
+      console.error("Wallet payment error:", error);
       toast({
         title: "❌ Payment Failed",
         description: error instanceof Error ? error.message : "Something went wrong",
@@ -354,6 +389,21 @@ export function PaymentModal({ open, onClose, bookingId, amount, onSuccess }: Pa
     }
   };
 
+  // Offered next to a card or MobilePay when the wallet can't pay the whole booking
+  const walletSplitOption = walletBalance > 0 && !walletCovers && (
+    <div className="flex items-center space-x-2 rounded-lg border p-3">
+      <Checkbox
+        id={`useWallet-${paymentMethod}`}
+        checked={useWallet}
+        onCheckedChange={(checked) => setUseWallet(checked as boolean)}
+        disabled={loading}
+      />
+      <Label htmlFor={`useWallet-${paymentMethod}`} className="text-sm font-normal cursor-pointer">
+        Use €{walletShare.toFixed(2)} of your wallet credit
+      </Label>
+    </div>
+  );
+
   const getCardIcon = (brand: string) => {
     const brandLower = brand.toLowerCase();
     if (brandLower === "visa") return "💳";
@@ -377,11 +427,19 @@ export function PaymentModal({ open, onClose, bookingId, amount, onSuccess }: Pa
           <div className="rounded-lg bg-gradient-to-r from-blue-500 to-purple-600 p-6 text-center text-white">
             <p className="text-sm font-medium opacity-90">Total Amount</p>
             <p className="mt-2 text-4xl font-bold">€{amount.toFixed(2)}</p>
+            {discount > 0 && (
+              <p className="mt-1 text-sm opacity-90">Includes your €{discount.toFixed(2)} discount</p>
+            )}
+            {walletPart > 0 && paymentMethod !== "wallet" && (
+              <p className="mt-1 text-sm opacity-90">
+                €{walletPart.toFixed(2)} from your wallet, €{chargeAmount.toFixed(2)} to pay now
+              </p>
+            )}
           </div>
 
           {/* Payment Method Tabs */}
-          <Tabs value={paymentMethod} onValueChange={(v) => setPaymentMethod(v as "card" | "mobilepay")}>
-            <TabsList className="grid w-full grid-cols-2">
+          <Tabs value={paymentMethod} onValueChange={(v) => setPaymentMethod(v as PaymentMethod)}>
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="card" className="flex items-center gap-2">
                 <CreditCard className="h-4 w-4" />
                 Card Payment
@@ -390,10 +448,16 @@ export function PaymentModal({ open, onClose, bookingId, amount, onSuccess }: Pa
                 <Smartphone className="h-4 w-4" />
                 MobilePay
               </TabsTrigger>
+              <TabsTrigger value="wallet" className="flex items-center gap-2">
+                <Wallet className="h-4 w-4" />
+                Wallet
+              </TabsTrigger>
             </TabsList>
 
             {/* Card Payment Tab */}
             <TabsContent value="card" className="space-y-4 mt-4">
+              {walletSplitOption}
+
               {/* Saved Cards Section */}
               {savedCards.length > 0 && !useNewCard && (
                 <div className="space-y-3">
@@ -471,7 +535,7 @@ export function PaymentModal({ open, onClose, bookingId, amount, onSuccess }: Pa
                     ) : (
                       <>
                         <Lock className="mr-2 h-4 w-4" />
-                        Pay €{amount.toFixed(2)}
+                        Pay €{chargeAmount.toFixed(2)}
                       </>
                     )}
                   </Button>
@@ -502,39 +566,19 @@ export function PaymentModal({ open, onClose, bookingId, amount, onSuccess }: Pa
                     />
                   </div>
 
-                  <div>
-                    <Label htmlFor="cardNumber">Card Number</Label>
-                    <Input
-                      id="cardNumber"
-                      placeholder="1234 5678 9012 3456"
-                      value={cardNumber}
-                      onChange={handleCardNumberChange}
-                      disabled={loading}
-                    />
-                  </div>
-
-                  <div className="grid grid-cols-2 gap-4">
+                  {stripe ? (
                     <div>
-                      <Label htmlFor="expiry">Expiry Date</Label>
-                      <Input
-                        id="expiry"
-                        placeholder="MM/YY"
-                        value={expiryDate}
-                        onChange={handleExpiryChange}
-                        disabled={loading}
-                      />
+                      <Label>Card Details</Label>
+                      {/* Card data goes straight to Stripe and never touches our servers */}
+                      <div className="rounded-md border border-input bg-background px-3 py-3">
+                        <CardElement options={{ hidePostalCode: true, disabled: loading }} />
+                      </div>
                     </div>
-                    <div>
-                      <Label htmlFor="cvc">CVC</Label>
-                      <Input
-                        id="cvc"
-                        placeholder="123"
-                        value={cvc}
-                        onChange={handleCvcChange}
-                        disabled={loading}
-                      />
+                  ) : (
+                    <div className="rounded-lg border border-dashed p-4 text-sm text-muted-foreground">
+                      Test mode: payments are authorized with Stripe&apos;s test Visa ending in 4242.
                     </div>
-                  </div>
+                  )}
 
                   {/* Save Card Checkbox */}
                   <div className="flex items-center space-x-2">
@@ -562,7 +606,7 @@ export function PaymentModal({ open, onClose, bookingId, amount, onSuccess }: Pa
                     ) : (
                       <>
                         <Lock className="mr-2 h-4 w-4" />
-                        Pay €{amount.toFixed(2)}
+                        Pay €{chargeAmount.toFixed(2)}
                       </>
                     )}
                   </Button>
@@ -572,6 +616,8 @@ export function PaymentModal({ open, onClose, bookingId, amount, onSuccess }: Pa
 
             {/* MobilePay Tab */}
             <TabsContent value="mobilepay" className="space-y-4 mt-4">
+              {walletSplitOption}
+
               <div className="rounded-lg border p-6 text-center space-y-4">
                 <div className="text-6xl">📱</div>
                 <h3 className="font-semibold text-lg">Pay with MobilePay</h3>
@@ -597,11 +643,60 @@ export function PaymentModal({ open, onClose, bookingId, amount, onSuccess }: Pa
                 ) : (
                   <>
                     <Smartphone className="mr-2 h-4 w-4" />
-                    Pay €{amount.toFixed(2)} with MobilePay
+                    Pay €{chargeAmount.toFixed(2)} with MobilePay
                   </>
                 )}
               </Button>
             </TabsContent>
+
+            {/* Wallet Tab */}
+            <TabsContent value="wallet" className="space-y-4 mt-4">
+              <div className="rounded-lg border p-6 text-center space-y-2">
+                <Wallet className="mx-auto h-10 w-10 text-primary" />
+                <p className="text-sm text-muted-foreground">Wallet credit</p>
+                <p className="text-3xl font-bold">€{walletBalance.toFixed(2)}</p>
+                {!walletCovers && (
+                  <p className="text-sm text-muted-foreground">
+                    {walletBalance > 0
+                      ? `Your credit doesn't cover the whole move. Use it together with a card or MobilePay for the remaining €${(amount - walletShare).toFixed(2)}.`
+                      : "You have no wallet credit yet. Credit from referrals and refunds shows up here."}
+                  </p>
+                )}
+              </div>
+
+              {walletCovers ? (
+                <Button
+                  onClick={handlePayWithWallet}
+                  disabled={loading}
+                  className="w-full"
+                  size="lg"
+                >
+                  {loading ? (
+                    <>
+                      <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent" />
+                      Processing Payment...
+                    </>
+                  ) : (
+                    <>
+                      <Wallet className="mr-2 h-4 w-4" />
+                      Pay €{amount.toFixed(2)} from Wallet
+                    </>
+                  )}
+                </Button>
+              ) : walletBalance > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setUseWallet(true);
+                    setPaymentMethod("card");
+                  }}
+                  className="w-full"
+                >
+                  <CreditCard className="mr-2 h-4 w-4" />
+                  Pay the rest by card
+                </Button>
+              )}
+            </TabsContent>
           </Tabs>
 
           {/* Security Notice */}
@@ -1,12 +1,14 @@
-import { useState, useEffect, useCallback } from "react";
-import { GoogleMap, LoadScript, Marker, DirectionsRenderer } from "@react-google-maps/api";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { GoogleMap, LoadScript, Marker, Polyline } from "@react-google-maps/api";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { MapPin, Navigation, Package } from "lucide-react";
 import { locationService } from "@/services/locationService";
+import { bookingService, type BookingStop } from "@/services/bookingService";
 import type { Database } from "@/integrations/supabase/types";
 
 type Booking = Database["public"]["Tables"]["bookings"]["Row"];
+type Waypoint = { lat: number; lng: number };
 
 interface TrackingMapProps {
   booking: Booking;
@@ -24,16 +26,27 @@ const defaultCenter = {
   lng: 24.9384,
 };
 
+// Minimum time between route refreshes while the driver is moving
+const ROUTE_REFRESH_MS = 30000;
+
+const formatDuration = (minutes: number) => {
+  const rounded = Math.max(1, Math.round(minutes));
+  if (rounded < 60) return `${rounded} min`;
+  return `${Math.floor(rounded / 60)} h ${rounded % 60} min`;
+};
+
 export function TrackingMap({ booking, userRole }: TrackingMapProps) {
-  const [map, setMap] = useState<google.maps.Map | null>(null);
+  const [, setMap] = useState<google.maps.Map | null>(null);
   const [transporterLocation, setTransporterLocation] = useState<{
     lat: number;
     lng: number;
   } | null>(null);
-  const [directions, setDirections] = useState<google.maps.DirectionsResult | null>(null);
+  const [routePath, setRoutePath] = useState<{ lat: number; lng: number }[]>([]);
   const [estimatedTime, setEstimatedTime] = useState<string>("");
   const [distance, setDistance] = useState<string>("");
   const [isLoaded, setIsLoaded] = useState(false);
+  const [stops, setStops] = useState<BookingStop[]>([]);
+  const lastRouteAt = useRef(0);
 
   // Validate and convert coordinates
   const pickupLocation = booking.pickup_lat && booking.pickup_lng ? {
@@ -51,6 +64,11 @@ export function TrackingMap({ booking, userRole }: TrackingMapProps) {
     !(pickupLocation.lat === 60.1699 && pickupLocation.lng === 24.9384) &&
     !(dropoffLocation.lat === 60.1699 && dropoffLocation.lng === 24.9384);
 
+  // Stop progress moves the booking status, so reload stops whenever it changes
+  useEffect(() => {
+    bookingService.getBookingStops(booking.id).then(setStops);
+  }, [booking.id, booking.status]);
+
   useEffect(() => {
     const fetchLocation = async () => {
       const location = await locationService.getLatestLocation(booking.id);
@@ -92,37 +110,47 @@ export function TrackingMap({ booking, userRole }: TrackingMapProps) {
     }
   }, [booking.id, booking.status]);
 
+  // Remaining stops in order; bookings without stops head for the pickup until the items are on board, then the dropoff
+  const headingToPickup = booking.status === "accepted" || booking.status === "en_route_pickup";
+  const remaining: Waypoint[] = stops.length > 0
+    ? stops
+        .filter((stop) => stop.status !== "completed")
+        .map((stop) => ({ lat: Number(stop.lat), lng: Number(stop.lng) }))
+    : [headingToPickup ? pickupLocation : dropoffLocation].filter(Boolean);
+  const remainingKey = remaining.map((point) => `${point.lat},${point.lng}`).join("|");
+
+  // Rebuilt every render; the route effect reads it here and reruns on remainingKey
+  const remainingRef = useRef(remaining);
+  remainingRef.current = remaining;
+
+  useEffect(() => {
+    lastRouteAt.current = 0;
+  }, [remainingKey]);
+
   useEffect(() => {
     if (
-      isLoaded &&
-      map && 
-      transporterLocation && 
-      dropoffLocation &&
-      (booking.status === "en_route_pickup" || 
-       booking.status === "picked_up" || 
-       booking.status === "en_route_dropoff")
+      !transporterLocation ||
+      remainingRef.current.length === 0 ||
+      !(booking.status === "en_route_pickup" ||
+        booking.status === "picked_up" ||
+        booking.status === "en_route_dropoff")
     ) {
-      const directionsService = new google.maps.DirectionsService();
-
-      directionsService.route(
-        {
-          origin: transporterLocation,
-          destination: dropoffLocation,
-          travelMode: google.maps.TravelMode.DRIVING,
-        },
-        (result, status) => {
-          if (status === google.maps.DirectionsStatus.OK && result) {
-            setDirections(result);
-            const route = result.routes[0];
-            if (route.legs[0]) {
-              setEstimatedTime(route.legs[0].duration?.text || "");
-              setDistance(route.legs[0].distance?.text || "");
-            }
-          }
-        }
-      );
+      return;
     }
-  }, [isLoaded, map, transporterLocation, booking.status, dropoffLocation]);
+
+    if (Date.now() - lastRouteAt.current < ROUTE_REFRESH_MS) return;
+    lastRouteAt.current = Date.now();
+
+    locationService
+      .getRoute([transporterLocation, ...remainingRef.current])
+      .then((route) => {
+        if (!route) return;
+        setRoutePath(route.geometry);
+        // ETA is to the next stop; distance covers the rest of the route
+        setEstimatedTime(formatDuration(route.legs[0]?.durationMinutes ?? route.durationMinutes));
+        setDistance(`${route.distanceKm.toFixed(1)} km`);
+      });
+  }, [transporterLocation, booking.status, remainingKey]);
 
   const onLoad = useCallback((mapInstance: google.maps.Map) => {
     setMap(mapInstance);
@@ -200,7 +228,7 @@ export function TrackingMap({ booking, userRole }: TrackingMapProps) {
             {estimatedTime && (
               <Badge variant="outline" className="flex items-center gap-1">
                 <Navigation className="w-3 h-3" />
-                ETA: {estimatedTime}
+                {stops.length > 2 ? "Next stop" : "ETA"}: {estimatedTime}
               </Badge>
             )}
             {distance && (
@@ -226,7 +254,26 @@ export function TrackingMap({ booking, userRole }: TrackingMapProps) {
               fullscreenControl: true,
             }}
           >
-            {isLoaded && pickupLocation && (
+            {isLoaded && stops.map((stop) => (
+              <Marker
+                key={stop.id}
+                position={{ lat: Number(stop.lat), lng: Number(stop.lng) }}
+                icon={{
+                  url: `https://maps.google.com/mapfiles/ms/icons/${stop.stop_type === "pickup" ? "green" : "red"}-dot.png`,
+                  scaledSize: new google.maps.Size(40, 40),
+                }}
+                opacity={stop.status === "completed" ? 0.5 : 1}
+                label={{
+                  text: String(stop.position + 1),
+                  color: "white",
+                  fontSize: "12px",
+                  fontWeight: "bold",
+                }}
+                title={stop.address}
+              />
+            ))}
+
+            {isLoaded && stops.length === 0 && pickupLocation && (
               <Marker
                 position={pickupLocation}
                 icon={{
@@ -242,7 +289,7 @@ export function TrackingMap({ booking, userRole }: TrackingMapProps) {
               />
             )}
 
-            {isLoaded && dropoffLocation && (
+            {isLoaded && stops.length === 0 && dropoffLocation && (
               <Marker
                 position={dropoffLocation}
                 icon={{
@@ -275,30 +322,56 @@ export function TrackingMap({ booking, userRole }: TrackingMapProps) {
               />
             )}
 
-            {isLoaded && directions && <DirectionsRenderer directions={directions} />}
+            {isLoaded && routePath.length > 1 && (
+              <Polyline
+                path={routePath}
+                options={{ strokeColor: "#2563eb", strokeOpacity: 0.8, strokeWeight: 5 }}
+              />
+            )}
           </GoogleMap>
         </LoadScript>
 
-        <div className="mt-4 grid grid-cols-2 gap-4 text-sm">
-          <div>
-            <p className="font-semibold text-gray-700 dark:text-gray-300 mb-1">Pickup</p>
-            <p className="text-gray-600 dark:text-gray-400">{booking.pickup_address}</p>
-            {pickupLocation && (
-              <p className="text-xs text-gray-500 mt-1">
-                {pickupLocation.lat.toFixed(6)}, {pickupLocation.lng.toFixed(6)}
-              </p>
-            )}
-          </div>
-          <div>
-            <p className="font-semibold text-gray-700 dark:text-gray-300 mb-1">Dropoff</p>
-            <p className="text-gray-600 dark:text-gray-400">{booking.dropoff_address}</p>
-            {dropoffLocation && (
-              <p className="text-xs text-gray-500 mt-1">
-                {dropoffLocation.lat.toFixed(6)}, {dropoffLocation.lng.toFixed(6)}
-              </p>
-            )}
+        {stops.length > 2 ? (
+          <ol className="mt-4 space-y-2 text-sm">
+            {stops.map((stop) => (
+              <li key={stop.id} className="flex items-start gap-2">
+                <Badge variant={stop.status === "completed" ? "secondary" : "outline"}>{stop.position + 1}</Badge>
+                <div>
+                  <p className="font-semibold text-gray-700 dark:text-gray-300">
+                    {stop.stop_type === "pickup" ? "Pickup" : "Dropoff"}
+                    {stop.status !== "pending" && (
+                      <span className="ml-2 text-xs font-normal text-gray-500">
+                        {stop.status === "completed" ? "Done" : "Driver arrived"}
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-gray-600 dark:text-gray-400">{stop.address}</p>
+                </div>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <div className="mt-4 grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <p className="font-semibold text-gray-700 dark:text-gray-300 mb-1">Pickup</p>
+              <p className="text-gray-600 dark:text-gray-400">{booking.pickup_address}</p>
+              {pickupLocation && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {pickupLocation.lat.toFixed(6)}, {pickupLocation.lng.toFixed(6)}
+                </p>
+              )}
+            </div>
+            <div>
+              <p className="font-semibold text-gray-700 dark:text-gray-300 mb-1">Dropoff</p>
+              <p className="text-gray-600 dark:text-gray-400">{booking.dropoff_address}</p>
+              {dropoffLocation && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {dropoffLocation.lat.toFixed(6)}, {dropoffLocation.lng.toFixed(6)}
+                </p>
+              )}
+            </div>
           </div>
-        </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,17 @@
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "./types";
+
+// Service-role client for API routes only. Never import this from pages or components.
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRoleKey) {
+  throw new Error("Missing Supabase service role environment variables");
+}
+
+export const supabaseAdmin = createClient<Database>(supabaseUrl, serviceRoleKey, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false
+  }
+});
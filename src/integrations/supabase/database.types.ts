@@ -15,38 +15,231 @@ export type Database = {
   }
   public: {
     Tables: {
+      booking_events: {
+        Row: {
+          actor_id: string | null
+          booking_id: string
+          created_at: string | null
+          from_status: Database["public"]["Enums"]["booking_status"] | null
+          id: string
+          reason: string | null
+          to_status: Database["public"]["Enums"]["booking_status"]
+        }
+        Insert: {
+          actor_id?: string | null
+          booking_id: string
+          created_at?: string | null
+          from_status?: Database["public"]["Enums"]["booking_status"] | null
+          id?: string
+          reason?: string | null
+          to_status: Database["public"]["Enums"]["booking_status"]
+        }
+        Update: {
+          actor_id?: string | null
+          booking_id?: string
+          created_at?: string | null
+          from_status?: Database["public"]["Enums"]["booking_status"] | null
+          id?: string
+          reason?: string | null
+          to_status?: Database["public"]["Enums"]["booking_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_events_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_reminders: {
+        Row: {
+          booking_id: string
+          created_at: string | null
+          id: string
+          offset_minutes: number
+          push_sent: boolean
+          recipient_id: string
+        }
+        Insert: {
+          booking_id: string
+          created_at?: string | null
+          id?: string
+          offset_minutes: number
+          push_sent?: boolean
+          recipient_id: string
+        }
+        Update: {
+          booking_id?: string
+          created_at?: string | null
+          id?: string
+          offset_minutes?: number
+          push_sent?: boolean
+          recipient_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_reminders_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_reminders_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_status_transitions: {
+        Row: {
+          from_status: Database["public"]["Enums"]["booking_status"]
+          to_status: Database["public"]["Enums"]["booking_status"]
+        }
+        Insert: {
+          from_status: Database["public"]["Enums"]["booking_status"]
+          to_status: Database["public"]["Enums"]["booking_status"]
+        }
+        Update: {
+          from_status?: Database["public"]["Enums"]["booking_status"]
+          to_status?: Database["public"]["Enums"]["booking_status"]
+        }
+        Relationships: []
+      }
+      booking_stops: {
+        Row: {
+          address: string
+          arrived_at: string | null
+          booking_id: string
+          completed_at: string | null
+          contact_name: string | null
+          contact_phone: string | null
+          created_at: string | null
+          id: string
+          instructions: string | null
+          lat: number
+          lng: number
+          position: number
+          status: Database["public"]["Enums"]["stop_status"]
+          stop_type: Database["public"]["Enums"]["stop_type"]
+        }
+        Insert: {
+          address: string
+          arrived_at?: string | null
+          booking_id: string
+          completed_at?: string | null
+          contact_name?: string | null
+          contact_phone?: string | null
+          created_at?: string | null
+          id?: string
+          instructions?: string | null
+          lat: number
+          lng: number
+          position: number
+          status?: Database["public"]["Enums"]["stop_status"]
+          stop_type: Database["public"]["Enums"]["stop_type"]
+        }
+        Update: {
+          address?: string
+          arrived_at?: string | null
+          booking_id?: string
+          completed_at?: string | null
+          contact_name?: string | null
+          contact_phone?: string | null
+          created_at?: string | null
+          id?: string
+          instructions?: string | null
+          lat?: number
+          lng?: number
+          position?: number
+          status?: Database["public"]["Enums"]["stop_status"]
+          stop_type?: Database["public"]["Enums"]["stop_type"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_stops_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bookings: {
         Row: {
           accepted_at: string | null
           base_price: number
+          cancellation_fee: number | null
+          cancellation_policy_version: number | null
           cancelled_at: string | null
+          cancelled_by: Database["public"]["Enums"]["user_role"] | null
+          claimed_at: string | null
           completed_at: string | null
           consumer_id: string
           consumer_rating: number | null
           consumer_review: string | null
           created_at: string | null
+          discount_amount: number
+          dispatch_after: string | null
+          dispatch_round: number
+          dispatch_started_at: string | null
+          dispatched_at: string | null
           distance_km: number
           distance_price: number
           dropoff_address: string
+          dropoff_floor: number
+          dropoff_has_elevator: boolean
           dropoff_lat: number
           dropoff_lng: number
+          dropoff_service_area_id: string | null
+          estimated_hours: number | null
+          expired_at: string | null
+          extras_breakdown: Json
           extras_price: number | null
+          helper_count: number
           id: string
           item_description: string | null
           item_photos: string[] | null
           item_size: Database["public"]["Enums"]["item_size"]
           item_type: Database["public"]["Enums"]["item_type"] | null
+          item_type_surcharge: number
+          needs_assembly: boolean
+          packing_materials: boolean
           pickup_address: string
+          pickup_floor: number
+          pickup_has_elevator: boolean
           pickup_lat: number
           pickup_lng: number
+          pickup_service_area_id: string | null
           platform_fee: number
+          promotion_id: string | null
+          rebooked_from: string | null
+          refund_amount: number | null
           saved: boolean | null
           scheduled_at: string | null
+          service_area_surcharge: number
           special_instructions: string | null
           status: Database["public"]["Enums"]["booking_status"] | null
+          status_changed_by: string | null
+          status_reason: string | null
+          surge_amount: number
+          tariff_version: number | null
           total_price: number
+          transporter_compensation: number | null
           transporter_earnings: number
           transporter_id: string | null
+          transporter_penalty: number | null
           transporter_rating: number | null
           transporter_review: string | null
           updated_at: string | null
@@ -54,34 +247,66 @@ export type Database = {
         Insert: {
           accepted_at?: string | null
           base_price: number
+          cancellation_fee?: number | null
+          cancellation_policy_version?: number | null
           cancelled_at?: string | null
+          cancelled_by?: Database["public"]["Enums"]["user_role"] | null
+          claimed_at?: string | null
           completed_at?: string | null
           consumer_id: string
           consumer_rating?: number | null
           consumer_review?: string | null
           created_at?: string | null
+          discount_amount?: number
+          dispatch_after?: string | null
+          dispatch_round?: number
+          dispatch_started_at?: string | null
+          dispatched_at?: string | null
           distance_km: number
           distance_price: number
           dropoff_address: string
+          dropoff_floor?: number
+          dropoff_has_elevator?: boolean
           dropoff_lat: number
           dropoff_lng: number
+          dropoff_service_area_id?: string | null
+          estimated_hours?: number | null
+          expired_at?: string | null
+          extras_breakdown?: Json
           extras_price?: number | null
+          helper_count?: number
           id?: string
           item_description?: string | null
           item_photos?: string[] | null
           item_size: Database["public"]["Enums"]["item_size"]
           item_type?: Database["public"]["Enums"]["item_type"] | null
+          item_type_surcharge?: number
+          needs_assembly?: boolean
+          packing_materials?: boolean
           pickup_address: string
+          pickup_floor?: number
+          pickup_has_elevator?: boolean
           pickup_lat: number
           pickup_lng: number
+          pickup_service_area_id?: string | null
           platform_fee: number
+          promotion_id?: string | null
+          rebooked_from?: string | null
+          refund_amount?: number | null
           saved?: boolean | null
           scheduled_at?: string | null
+          service_area_surcharge?: number
           special_instructions?: string | null
           status?: Database["public"]["Enums"]["booking_status"] | null
+          status_changed_by?: string | null
+          status_reason?: string | null
+          surge_amount?: number
+          tariff_version?: number | null
           total_price: number
+          transporter_compensation?: number | null
           transporter_earnings: number
           transporter_id?: string | null
+          transporter_penalty?: number | null
           transporter_rating?: number | null
           transporter_review?: string | null
           updated_at?: string | null
@@ -89,39 +314,78 @@ export type Database = {
         Update: {
           accepted_at?: string | null
           base_price?: number
+          cancellation_fee?: number | null
+          cancellation_policy_version?: number | null
           cancelled_at?: string | null
+          cancelled_by?: Database["public"]["Enums"]["user_role"] | null
+          claimed_at?: string | null
           completed_at?: string | null
           consumer_id?: string
           consumer_rating?: number | null
           consumer_review?: string | null
           created_at?: string | null
+          discount_amount?: number
+          dispatch_after?: string | null
+          dispatch_round?: number
+          dispatch_started_at?: string | null
+          dispatched_at?: string | null
           distance_km?: number
           distance_price?: number
           dropoff_address?: string
+          dropoff_floor?: number
+          dropoff_has_elevator?: boolean
           dropoff_lat?: number
           dropoff_lng?: number
+          dropoff_service_area_id?: string | null
+          estimated_hours?: number | null
+          expired_at?: string | null
+          extras_breakdown?: Json
           extras_price?: number | null
+          helper_count?: number
           id?: string
           item_description?: string | null
           item_photos?: string[] | null
           item_size?: Database["public"]["Enums"]["item_size"]
           item_type?: Database["public"]["Enums"]["item_type"] | null
+          item_type_surcharge?: number
+          needs_assembly?: boolean
+          packing_materials?: boolean
           pickup_address?: string
+          pickup_floor?: number
+          pickup_has_elevator?: boolean
           pickup_lat?: number
           pickup_lng?: number
+          pickup_service_area_id?: string | null
           platform_fee?: number
+          promotion_id?: string | null
+          rebooked_from?: string | null
+          refund_amount?: number | null
           saved?: boolean | null
           scheduled_at?: string | null
+          service_area_surcharge?: number
           special_instructions?: string | null
           status?: Database["public"]["Enums"]["booking_status"] | null
+          status_changed_by?: string | null
+          status_reason?: string | null
+          surge_amount?: number
+          tariff_version?: number | null
           total_price?: number
+          transporter_compensation?: number | null
           transporter_earnings?: number
           transporter_id?: string | null
+          transporter_penalty?: number | null
           transporter_rating?: number | null
           transporter_review?: string | null
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "bookings_cancellation_policy_version_fkey"
+            columns: ["cancellation_policy_version"]
+            isOneToOne: false
+            referencedRelation: "cancellation_policies"
+            referencedColumns: ["version"]
+          },
           {
             foreignKeyName: "bookings_consumer_id_fkey"
             columns: ["consumer_id"]
@@ -129,6 +393,48 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "bookings_dropoff_service_area_id_fkey"
+            columns: ["dropoff_service_area_id"]
+            isOneToOne: false
+            referencedRelation: "service_areas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_pickup_service_area_id_fkey"
+            columns: ["pickup_service_area_id"]
+            isOneToOne: false
+            referencedRelation: "service_areas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_rebooked_from_fkey"
+            columns: ["rebooked_from"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_status_changed_by_fkey"
+            columns: ["status_changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_tariff_version_fkey"
+            columns: ["tariff_version"]
+            isOneToOne: false
+            referencedRelation: "pricing_tariffs"
+            referencedColumns: ["version"]
+          },
           {
             foreignKeyName: "bookings_transporter_id_fkey"
             columns: ["transporter_id"]
@@ -138,47 +444,121 @@ export type Database = {
           },
         ]
       }
-      location_updates: {
+      cancellation_policies: {
+        Row: {
+          consumer_fees: Json
+          created_at: string | null
+          effective_from: string
+          id: string
+          is_active: boolean
+          transporter_compensation_percent: number
+          transporter_penalty: number
+          version: number
+        }
+        Insert: {
+          consumer_fees?: Json
+          created_at?: string | null
+          effective_from?: string
+          id?: string
+          is_active?: boolean
+          transporter_compensation_percent?: number
+          transporter_penalty?: number
+          version: number
+        }
+        Update: {
+          consumer_fees?: Json
+          created_at?: string | null
+          effective_from?: string
+          id?: string
+          is_active?: boolean
+          transporter_compensation_percent?: number
+          transporter_penalty?: number
+          version?: number
+        }
+        Relationships: []
+      }
+      cancellation_settlements: {
         Row: {
+          attempts: number
           booking_id: string
           created_at: string | null
-          heading: number | null
+          last_error: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          booking_id: string
+          created_at?: string | null
+          last_error?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          booking_id?: string
+          created_at?: string | null
+          last_error?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cancellation_settlements_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: true
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dispatch_offers: {
+        Row: {
+          booking_id: string
+          created_at: string | null
+          distance_km: number
+          expires_at: string
           id: string
-          lat: number
-          lng: number
-          speed: number | null
+          push_sent: boolean
+          radius_km: number
+          responded_at: string | null
+          round: number
+          status: Database["public"]["Enums"]["dispatch_offer_status"]
           transporter_id: string
         }
         Insert: {
           booking_id: string
           created_at?: string | null
-          heading?: number | null
+          distance_km: number
+          expires_at: string
           id?: string
-          lat: number
-          lng: number
-          speed?: number | null
+          push_sent?: boolean
+          radius_km: number
+          responded_at?: string | null
+          round: number
+          status?: Database["public"]["Enums"]["dispatch_offer_status"]
           transporter_id: string
         }
         Update: {
           booking_id?: string
           created_at?: string | null
-          heading?: number | null
+          distance_km?: number
+          expires_at?: string
           id?: string
-          lat?: number
-          lng?: number
-          speed?: number | null
+          push_sent?: boolean
+          radius_km?: number
+          responded_at?: string | null
+          round?: number
+          status?: Database["public"]["Enums"]["dispatch_offer_status"]
           transporter_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "location_updates_booking_id_fkey"
+            foreignKeyName: "dispatch_offers_booking_id_fkey"
             columns: ["booking_id"]
             isOneToOne: false
             referencedRelation: "bookings"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "location_updates_transporter_id_fkey"
+            foreignKeyName: "dispatch_offers_transporter_id_fkey"
             columns: ["transporter_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -186,168 +566,929 @@ export type Database = {
           },
         ]
       }
-      messages: {
+      geocode_cache: {
         Row: {
-          booking_id: string
-          content: string
           created_at: string | null
+          formatted_address: string
+          lat: number
+          lng: number
+          normalized_address: string
+          provider: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          formatted_address: string
+          lat: number
+          lng: number
+          normalized_address: string
+          provider: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          formatted_address?: string
+          lat?: number
+          lng?: number
+          normalized_address?: string
+          provider?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      invoice_counters: {
+        Row: {
+          last_number: number
+          year: number
+        }
+        Insert: {
+          last_number?: number
+          year: number
+        }
+        Update: {
+          last_number?: number
+          year?: number
+        }
+        Relationships: []
+      }
+      invoices: {
+        Row: {
+          booking_id: string
+          business_id: string | null
+          company_name: string | null
+          consumer_id: string
+          currency: string
+          customer_email: string | null
+          customer_name: string | null
           id: string
-          message_type: string | null
-          photo_url: string | null
-          read_at: string | null
-          sender_id: string
+          invoice_number: string
+          issued_at: string
+          lines: Json
+          net_amount: number
+          pdf_path: string | null
+          total_amount: number
+          vat_amount: number
         }
         Insert: {
           booking_id: string
-          content: string
+          business_id?: string | null
+          company_name?: string | null
+          consumer_id: string
+          currency?: string
+          customer_email?: string | null
+          customer_name?: string | null
+          id?: string
+          invoice_number: string
+          issued_at?: string
+          lines: Json
+          net_amount: number
+          pdf_path?: string | null
+          total_amount: number
+          vat_amount: number
+        }
+        Update: {
+          booking_id?: string
+          business_id?: string | null
+          company_name?: string | null
+          consumer_id?: string
+          currency?: string
+          customer_email?: string | null
+          customer_name?: string | null
+          id?: string
+          invoice_number?: string
+          issued_at?: string
+          lines?: Json
+          net_amount?: number
+          pdf_path?: string | null
+          total_amount?: number
+          vat_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: true
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_consumer_id_fkey"
+            columns: ["consumer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_entries: {
+        Row: {
+          account: Database["public"]["Enums"]["ledger_account"]
+          amount: number
+          created_at: string | null
+          id: string
+          transaction_id: string
+          transporter_id: string | null
+        }
+        Insert: {
+          account: Database["public"]["Enums"]["ledger_account"]
+          amount: number
           created_at?: string | null
           id?: string
-          message_type?: string | null
-          photo_url?: string | null
+          transaction_id: string
+          transporter_id?: string | null
+        }
+        Update: {
+          account?: Database["public"]["Enums"]["ledger_account"]
+          amount?: number
+          created_at?: string | null
+          id?: string
+          transaction_id?: string
+          transporter_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_entries_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "ledger_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_entries_transporter_id_fkey"
+            columns: ["transporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_transactions: {
+        Row: {
+          booking_id: string | null
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          id: string
+          idempotency_key: string
+          payout_id: string | null
+          transporter_id: string
+          type: Database["public"]["Enums"]["ledger_transaction_type"]
+        }
+        Insert: {
+          booking_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          idempotency_key: string
+          payout_id?: string | null
+          transporter_id: string
+          type: Database["public"]["Enums"]["ledger_transaction_type"]
+        }
+        Update: {
+          booking_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          idempotency_key?: string
+          payout_id?: string | null
+          transporter_id?: string
+          type?: Database["public"]["Enums"]["ledger_transaction_type"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_transactions_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_transactions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_transactions_payout_id_fkey"
+            columns: ["payout_id"]
+            isOneToOne: false
+            referencedRelation: "payouts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_transactions_transporter_id_fkey"
+            columns: ["transporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      location_updates: {
+        Row: {
+          booking_id: string
+          created_at: string | null
+          heading: number | null
+          id: string
+          lat: number
+          lng: number
+          speed: number | null
+          transporter_id: string
+        }
+        Insert: {
+          booking_id: string
+          created_at?: string | null
+          heading?: number | null
+          id?: string
+          lat: number
+          lng: number
+          speed?: number | null
+          transporter_id: string
+        }
+        Update: {
+          booking_id?: string
+          created_at?: string | null
+          heading?: number | null
+          id?: string
+          lat?: number
+          lng?: number
+          speed?: number | null
+          transporter_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "location_updates_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "location_updates_transporter_id_fkey"
+            columns: ["transporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          booking_id: string
+          content: string
+          created_at: string | null
+          id: string
+          message_type: string | null
+          photo_url: string | null
+          read_at: string | null
+          sender_id: string
+        }
+        Insert: {
+          booking_id: string
+          content: string
+          created_at?: string | null
+          id?: string
+          message_type?: string | null
+          photo_url?: string | null
           read_at?: string | null
           sender_id: string
         }
         Update: {
-          booking_id?: string
-          content?: string
+          booking_id?: string
+          content?: string
+          created_at?: string | null
+          id?: string
+          message_type?: string | null
+          photo_url?: string | null
+          read_at?: string | null
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_events: {
+        Row: {
+          created_at: string | null
+          error: string | null
+          event_id: string
+          event_type: string
+          id: string
+          payload: Json
+          payment_id: string | null
+          processed_at: string | null
+          provider: Database["public"]["Enums"]["payment_provider"]
+        }
+        Insert: {
+          created_at?: string | null
+          error?: string | null
+          event_id: string
+          event_type: string
+          id?: string
+          payload: Json
+          payment_id?: string | null
+          processed_at?: string | null
+          provider: Database["public"]["Enums"]["payment_provider"]
+        }
+        Update: {
+          created_at?: string | null
+          error?: string | null
+          event_id?: string
+          event_type?: string
+          id?: string
+          payload?: Json
+          payment_id?: string | null
+          processed_at?: string | null
+          provider?: Database["public"]["Enums"]["payment_provider"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_events_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          authorized_at: string | null
+          booking_id: string
+          captured_amount: number
+          captured_at: string | null
+          created_at: string | null
+          currency: string | null
+          id: string
+          provider: Database["public"]["Enums"]["payment_provider"]
+          provider_reference: string | null
+          refund_amount: number | null
+          status: Database["public"]["Enums"]["payment_status"] | null
+          stripe_payment_intent_id: string | null
+          updated_at: string | null
+          wallet_amount: number
+          wallet_refund_amount: number
+        }
+        Insert: {
+          amount: number
+          authorized_at?: string | null
+          booking_id: string
+          captured_amount?: number
+          captured_at?: string | null
+          created_at?: string | null
+          currency?: string | null
+          id?: string
+          provider?: Database["public"]["Enums"]["payment_provider"]
+          provider_reference?: string | null
+          refund_amount?: number | null
+          status?: Database["public"]["Enums"]["payment_status"] | null
+          stripe_payment_intent_id?: string | null
+          updated_at?: string | null
+          wallet_amount?: number
+          wallet_refund_amount?: number
+        }
+        Update: {
+          amount?: number
+          authorized_at?: string | null
+          booking_id?: string
+          captured_amount?: number
+          captured_at?: string | null
+          created_at?: string | null
+          currency?: string | null
+          id?: string
+          provider?: Database["public"]["Enums"]["payment_provider"]
+          provider_reference?: string | null
+          refund_amount?: number | null
+          status?: Database["public"]["Enums"]["payment_status"] | null
+          stripe_payment_intent_id?: string | null
+          updated_at?: string | null
+          wallet_amount?: number
+          wallet_refund_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: true
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payout_batches: {
+        Row: {
+          completed_at: string | null
+          created_at: string | null
+          id: string
+          message_id: string
+          pain001_xml: string | null
+          payout_count: number
+          period_end: string
+          settled_at: string | null
+          status: Database["public"]["Enums"]["payout_batch_status"]
+          total_amount: number
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string | null
+          id?: string
+          message_id: string
+          pain001_xml?: string | null
+          payout_count?: number
+          period_end: string
+          settled_at?: string | null
+          status?: Database["public"]["Enums"]["payout_batch_status"]
+          total_amount?: number
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string | null
+          id?: string
+          message_id?: string
+          pain001_xml?: string | null
+          payout_count?: number
+          period_end?: string
+          settled_at?: string | null
+          status?: Database["public"]["Enums"]["payout_batch_status"]
+          total_amount?: number
+        }
+        Relationships: []
+      }
+      payouts: {
+        Row: {
+          amount: number
+          batch_id: string
+          beneficiary_name: string
+          created_at: string | null
+          end_to_end_id: string
+          failure_reason: string | null
+          iban: string
+          id: string
+          paid_at: string | null
+          status: Database["public"]["Enums"]["payout_status"]
+          transporter_id: string
+        }
+        Insert: {
+          amount: number
+          batch_id: string
+          beneficiary_name: string
+          created_at?: string | null
+          end_to_end_id: string
+          failure_reason?: string | null
+          iban: string
+          id?: string
+          paid_at?: string | null
+          status?: Database["public"]["Enums"]["payout_status"]
+          transporter_id: string
+        }
+        Update: {
+          amount?: number
+          batch_id?: string
+          beneficiary_name?: string
+          created_at?: string | null
+          end_to_end_id?: string
+          failure_reason?: string | null
+          iban?: string
+          id?: string
+          paid_at?: string | null
+          status?: Database["public"]["Enums"]["payout_status"]
+          transporter_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payouts_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "payout_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payouts_transporter_id_fkey"
+            columns: ["transporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pricing_tariffs: {
+        Row: {
+          base_fee: number
+          created_at: string | null
+          distance_bands: Json
+          effective_from: string
+          extras_rates: Json
+          id: string
+          is_active: boolean
+          item_type_rules: Json
+          minimum_fare: number
+          platform_fee_percent: number
+          size_multipliers: Json
+          version: number
+        }
+        Insert: {
+          base_fee: number
+          created_at?: string | null
+          distance_bands: Json
+          effective_from?: string
+          extras_rates?: Json
+          id?: string
+          is_active?: boolean
+          item_type_rules?: Json
+          minimum_fare?: number
+          platform_fee_percent: number
+          size_multipliers: Json
+          version: number
+        }
+        Update: {
+          base_fee?: number
+          created_at?: string | null
+          distance_bands?: Json
+          effective_from?: string
+          extras_rates?: Json
+          id?: string
+          is_active?: boolean
+          item_type_rules?: Json
+          minimum_fare?: number
+          platform_fee_percent?: number
+          size_multipliers?: Json
+          version?: number
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          business_id: string | null
+          company_name: string | null
+          created_at: string | null
+          email: string | null
+          full_name: string | null
+          id: string
+          is_online: boolean | null
+          language: string | null
+          phone: string | null
+          referral_code: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          updated_at: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          business_id?: string | null
+          company_name?: string | null
+          created_at?: string | null
+          email?: string | null
+          full_name?: string | null
+          id: string
+          is_online?: boolean | null
+          language?: string | null
+          phone?: string | null
+          referral_code?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          business_id?: string | null
+          company_name?: string | null
+          created_at?: string | null
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          is_online?: boolean | null
+          language?: string | null
+          phone?: string | null
+          referral_code?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      promotion_redemptions: {
+        Row: {
+          amount: number
+          booking_id: string
+          created_at: string | null
+          id: string
+          promotion_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          booking_id: string
+          created_at?: string | null
+          id?: string
+          promotion_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          booking_id?: string
+          created_at?: string | null
+          id?: string
+          promotion_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotion_redemptions_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: true
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotion_redemptions_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotion_redemptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      promotions: {
+        Row: {
+          code: string
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          discount_type: Database["public"]["Enums"]["promotion_type"]
+          expires_at: string | null
+          id: string
+          is_active: boolean
+          max_discount: number | null
+          per_user_limit: number | null
+          starts_at: string
+          usage_limit: number | null
+          value: number
+        }
+        Insert: {
+          code: string
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          discount_type: Database["public"]["Enums"]["promotion_type"]
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_discount?: number | null
+          per_user_limit?: number | null
+          starts_at?: string
+          usage_limit?: number | null
+          value: number
+        }
+        Update: {
+          code?: string
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          discount_type?: Database["public"]["Enums"]["promotion_type"]
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_discount?: number | null
+          per_user_limit?: number | null
+          starts_at?: string
+          usage_limit?: number | null
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string | null
+          endpoint: string
+          id: string
+          p256dh: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string | null
+          endpoint: string
+          id?: string
+          p256dh: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string | null
+          endpoint?: string
+          id?: string
+          p256dh?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      referrals: {
+        Row: {
+          created_at: string | null
+          id: string
+          referee_id: string
+          referee_reward: number
+          referrer_id: string
+          referrer_reward: number
+          rewarded_at: string | null
+          rewarded_booking_id: string | null
+          status: Database["public"]["Enums"]["referral_status"]
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          referee_id: string
+          referee_reward: number
+          referrer_id: string
+          referrer_reward: number
+          rewarded_at?: string | null
+          rewarded_booking_id?: string | null
+          status?: Database["public"]["Enums"]["referral_status"]
+        }
+        Update: {
           created_at?: string | null
           id?: string
-          message_type?: string | null
-          photo_url?: string | null
-          read_at?: string | null
-          sender_id?: string
+          referee_id?: string
+          referee_reward?: number
+          referrer_id?: string
+          referrer_reward?: number
+          rewarded_at?: string | null
+          rewarded_booking_id?: string | null
+          status?: Database["public"]["Enums"]["referral_status"]
         }
         Relationships: [
           {
-            foreignKeyName: "messages_booking_id_fkey"
-            columns: ["booking_id"]
-            isOneToOne: false
-            referencedRelation: "bookings"
+            foreignKeyName: "referrals_referee_id_fkey"
+            columns: ["referee_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "messages_sender_id_fkey"
-            columns: ["sender_id"]
+            foreignKeyName: "referrals_referrer_id_fkey"
+            columns: ["referrer_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "referrals_rewarded_booking_id_fkey"
+            columns: ["rewarded_booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      payments: {
+      refunds: {
         Row: {
           amount: number
           booking_id: string
+          completed_at: string | null
           created_at: string | null
-          currency: string | null
+          error: string | null
           id: string
-          refund_amount: number | null
-          status: Database["public"]["Enums"]["payment_status"] | null
-          stripe_payment_intent_id: string
-          updated_at: string | null
+          initiated_by: string | null
+          note: string | null
+          payment_id: string
+          provider: Database["public"]["Enums"]["payment_provider"]
+          provider_reference: string | null
+          reason: Database["public"]["Enums"]["refund_reason"]
+          status: Database["public"]["Enums"]["refund_status"]
         }
         Insert: {
           amount: number
           booking_id: string
+          completed_at?: string | null
           created_at?: string | null
-          currency?: string | null
+          error?: string | null
           id?: string
-          refund_amount?: number | null
-          status?: Database["public"]["Enums"]["payment_status"] | null
-          stripe_payment_intent_id: string
-          updated_at?: string | null
+          initiated_by?: string | null
+          note?: string | null
+          payment_id: string
+          provider: Database["public"]["Enums"]["payment_provider"]
+          provider_reference?: string | null
+          reason: Database["public"]["Enums"]["refund_reason"]
+          status?: Database["public"]["Enums"]["refund_status"]
         }
         Update: {
           amount?: number
           booking_id?: string
+          completed_at?: string | null
           created_at?: string | null
-          currency?: string | null
+          error?: string | null
           id?: string
-          refund_amount?: number | null
-          status?: Database["public"]["Enums"]["payment_status"] | null
-          stripe_payment_intent_id?: string
-          updated_at?: string | null
+          initiated_by?: string | null
+          note?: string | null
+          payment_id?: string
+          provider?: Database["public"]["Enums"]["payment_provider"]
+          provider_reference?: string | null
+          reason?: Database["public"]["Enums"]["refund_reason"]
+          status?: Database["public"]["Enums"]["refund_status"]
         }
         Relationships: [
           {
-            foreignKeyName: "payments_booking_id_fkey"
+            foreignKeyName: "refunds_booking_id_fkey"
             columns: ["booking_id"]
             isOneToOne: false
             referencedRelation: "bookings"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "refunds_initiated_by_fkey"
+            columns: ["initiated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refunds_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      profiles: {
-        Row: {
-          avatar_url: string | null
-          created_at: string | null
-          email: string | null
-          full_name: string | null
-          id: string
-          is_online: boolean | null
-          language: string | null
-          phone: string | null
-          role: Database["public"]["Enums"]["user_role"]
-          updated_at: string | null
-        }
-        Insert: {
-          avatar_url?: string | null
-          created_at?: string | null
-          email?: string | null
-          full_name?: string | null
-          id: string
-          is_online?: boolean | null
-          language?: string | null
-          phone?: string | null
-          role?: Database["public"]["Enums"]["user_role"]
-          updated_at?: string | null
-        }
-        Update: {
-          avatar_url?: string | null
-          created_at?: string | null
-          email?: string | null
-          full_name?: string | null
-          id?: string
-          is_online?: boolean | null
-          language?: string | null
-          phone?: string | null
-          role?: Database["public"]["Enums"]["user_role"]
-          updated_at?: string | null
-        }
-        Relationships: []
-      }
-      push_subscriptions: {
+      saved_addresses: {
         Row: {
-          auth: string
+          address: string
           created_at: string | null
-          endpoint: string
           id: string
-          p256dh: string
+          label: string
+          lat: number
+          lng: number
+          place_token: string
           updated_at: string | null
           user_id: string
         }
         Insert: {
-          auth: string
+          address: string
           created_at?: string | null
-          endpoint: string
           id?: string
-          p256dh: string
+          label: string
+          lat: number
+          lng: number
+          place_token: string
           updated_at?: string | null
           user_id: string
         }
         Update: {
-          auth?: string
+          address?: string
           created_at?: string | null
-          endpoint?: string
           id?: string
-          p256dh?: string
+          label?: string
+          lat?: number
+          lng?: number
+          place_token?: string
           updated_at?: string | null
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "push_subscriptions_user_id_fkey"
+            foreignKeyName: "saved_addresses_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -360,12 +1501,14 @@ export type Database = {
           card_brand: string
           card_exp_month: number
           card_exp_year: number
+          card_fingerprint: string | null
           card_last4: string
           cardholder_name: string
           created_at: string | null
           id: string
           is_default: boolean
           stripe_payment_method_id: string
+          stripe_setup_intent_id: string | null
           updated_at: string | null
           user_id: string
         }
@@ -373,12 +1516,14 @@ export type Database = {
           card_brand: string
           card_exp_month: number
           card_exp_year: number
+          card_fingerprint?: string | null
           card_last4: string
           cardholder_name: string
           created_at?: string | null
           id?: string
           is_default?: boolean
           stripe_payment_method_id: string
+          stripe_setup_intent_id?: string | null
           updated_at?: string | null
           user_id: string
         }
@@ -386,12 +1531,14 @@ export type Database = {
           card_brand?: string
           card_exp_month?: number
           card_exp_year?: number
+          card_fingerprint?: string | null
           card_last4?: string
           cardholder_name?: string
           created_at?: string | null
           id?: string
           is_default?: boolean
           stripe_payment_method_id?: string
+          stripe_setup_intent_id?: string | null
           updated_at?: string | null
           user_id?: string
         }
@@ -405,6 +1552,62 @@ export type Database = {
           },
         ]
       }
+      service_areas: {
+        Row: {
+          created_at: string | null
+          geojson: Json
+          id: string
+          is_active: boolean
+          name: string
+          surcharge: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          geojson: Json
+          id?: string
+          is_active?: boolean
+          name: string
+          surcharge?: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          geojson?: Json
+          id?: string
+          is_active?: boolean
+          name?: string
+          surcharge?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      stripe_customers: {
+        Row: {
+          created_at: string | null
+          customer_id: string
+          profile_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          customer_id: string
+          profile_id: string
+        }
+        Update: {
+          created_at?: string | null
+          customer_id?: string
+          profile_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stripe_customers_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transporter_applications: {
         Row: {
           address_city: string | null
@@ -537,7 +1740,6 @@ export type Database = {
       transporter_availability: {
         Row: {
           id: string
-          is_online: boolean | null
           last_location_lat: number | null
           last_location_lng: number | null
           transporter_id: string
@@ -545,7 +1747,6 @@ export type Database = {
         }
         Insert: {
           id?: string
-          is_online?: boolean | null
           last_location_lat?: number | null
           last_location_lng?: number | null
           transporter_id: string
@@ -553,7 +1754,6 @@ export type Database = {
         }
         Update: {
           id?: string
-          is_online?: boolean | null
           last_location_lat?: number | null
           last_location_lng?: number | null
           transporter_id?: string
@@ -569,12 +1769,222 @@ export type Database = {
           },
         ]
       }
+      transporter_shifts: {
+        Row: {
+          created_at: string | null
+          ends_at: string
+          id: string
+          starts_at: string
+          transporter_id: string
+          weekday: number
+        }
+        Insert: {
+          created_at?: string | null
+          ends_at: string
+          id?: string
+          starts_at: string
+          transporter_id: string
+          weekday: number
+        }
+        Update: {
+          created_at?: string | null
+          ends_at?: string
+          id?: string
+          starts_at?: string
+          transporter_id?: string
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transporter_shifts_transporter_id_fkey"
+            columns: ["transporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transporter_time_off: {
+        Row: {
+          created_at: string | null
+          ends_on: string
+          id: string
+          reason: string | null
+          starts_on: string
+          transporter_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          ends_on: string
+          id?: string
+          reason?: string | null
+          starts_on: string
+          transporter_id: string
+        }
+        Update: {
+          created_at?: string | null
+          ends_on?: string
+          id?: string
+          reason?: string | null
+          starts_on?: string
+          transporter_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transporter_time_off_transporter_id_fkey"
+            columns: ["transporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wallet_transactions: {
+        Row: {
+          amount: number
+          booking_id: string | null
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          id: string
+          idempotency_key: string
+          referral_id: string | null
+          type: Database["public"]["Enums"]["wallet_transaction_type"]
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          booking_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          idempotency_key: string
+          referral_id?: string | null
+          type: Database["public"]["Enums"]["wallet_transaction_type"]
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          booking_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          idempotency_key?: string
+          referral_id?: string | null
+          type?: Database["public"]["Enums"]["wallet_transaction_type"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wallet_transactions_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wallet_transactions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wallet_transactions_referral_id_fkey"
+            columns: ["referral_id"]
+            isOneToOne: false
+            referencedRelation: "referrals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wallet_transactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_dispatch_offer: {
+        Args: { p_booking_id: string; p_transporter_id: string }
+        Returns: undefined
+      }
+      booking_is_paid: {
+        Args: { p_booking_id: string }
+        Returns: boolean
+      }
+      dispatch_acceptance_rates: {
+        Args: { p_since?: string }
+        Returns: {
+          accepted: number
+          declined: number
+          expired: number
+          transporter_id: string
+        }[]
+      }
+      issue_invoice: {
+        Args: {
+          p_booking_id: string
+          p_business_id: string
+          p_company_name: string
+          p_consumer_id: string
+          p_customer_email: string
+          p_customer_name: string
+          p_lines: Json
+          p_net_amount: number
+          p_total_amount: number
+          p_vat_amount: number
+        }
+        Returns: string
+      }
+      post_ledger_transaction: {
+        Args: {
+          p_booking_id?: string
+          p_created_by?: string
+          p_description?: string
+          p_entries: Json
+          p_idempotency_key: string
+          p_payout_id?: string
+          p_transporter_id: string
+          p_type: Database["public"]["Enums"]["ledger_transaction_type"]
+        }
+        Returns: string
+      }
+      redeem_promotion: {
+        Args: {
+          p_amount: number
+          p_booking_id: string
+          p_promotion_id: string
+          p_user_id: string
+        }
+        Returns: string
+      }
+      reserve_payment_refund: {
+        Args: { p_payment_id: string; p_refund: number; p_wallet_refund: number }
+        Returns: {
+          previous_refund: number
+          previous_wallet_refund: number
+        }[]
+      }
+      transporter_balances: {
+        Args: { p_transporter_id?: string }
+        Returns: {
+          in_transit: number
+          owed: number
+          transporter_id: string
+        }[]
+      }
+      wallet_set_hold: {
+        Args: { p_amount: number; p_booking_id: string; p_user_id: string }
+        Returns: number
+      }
     }
     Enums: {
       application_status: "pending" | "approved" | "rejected"
@@ -586,6 +1996,13 @@ export type Database = {
         | "en_route_dropoff"
         | "delivered"
         | "cancelled"
+        | "expired"
+      dispatch_offer_status:
+        | "offered"
+        | "accepted"
+        | "closed"
+        | "declined"
+        | "expired"
       item_size: "small" | "medium" | "large"
       item_type:
         | "small_furniture"
@@ -593,9 +2010,52 @@ export type Database = {
         | "appliances"
         | "fragile"
         | "home_move"
-      payment_status: "pending" | "succeeded" | "failed" | "refunded"
+      ledger_account:
+        | "customer_funds"
+        | "platform_revenue"
+        | "transporter_payable"
+        | "payouts_in_transit"
+        | "bank"
+        | "promotions"
+      ledger_transaction_type:
+        | "earning"
+        | "compensation"
+        | "penalty"
+        | "adjustment"
+        | "payout"
+        | "payout_settled"
+        | "payout_returned"
+      payment_provider: "stripe" | "mobilepay" | "wallet"
+      payment_status:
+        | "pending"
+        | "authorized"
+        | "succeeded"
+        | "failed"
+        | "refunded"
+        | "cancelled"
+      payout_batch_status: "created" | "settled"
+      payout_status: "pending" | "paid" | "returned"
+      promotion_type: "percentage" | "fixed" | "first_ride"
+      referral_status: "pending" | "rewarded"
+      refund_reason:
+        | "cancellation"
+        | "late_arrival"
+        | "damaged_items"
+        | "service_issue"
+        | "duplicate_charge"
+        | "goodwill"
+        | "other"
+      refund_status: "pending" | "succeeded" | "failed"
+      stop_status: "pending" | "arrived" | "completed"
+      stop_type: "pickup" | "dropoff"
       user_role: "consumer" | "transporter" | "admin"
       vehicle_type: "van" | "stw" | "truck"
+      wallet_transaction_type:
+        | "referral_reward"
+        | "top_up"
+        | "payment"
+        | "payment_release"
+        | "refund"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -732,6 +2192,14 @@ export const Constants = {
         "en_route_dropoff",
         "delivered",
         "cancelled",
+        "expired",
+      ],
+      dispatch_offer_status: [
+        "offered",
+        "accepted",
+        "closed",
+        "declined",
+        "expired",
       ],
       item_size: ["small", "medium", "large"],
       item_type: [
@@ -741,9 +2209,57 @@ export const Constants = {
         "fragile",
         "home_move",
       ],
-      payment_status: ["pending", "succeeded", "failed", "refunded"],
+      ledger_account: [
+        "customer_funds",
+        "platform_revenue",
+        "transporter_payable",
+        "payouts_in_transit",
+        "bank",
+        "promotions",
+      ],
+      ledger_transaction_type: [
+        "earning",
+        "compensation",
+        "penalty",
+        "adjustment",
+        "payout",
+        "payout_settled",
+        "payout_returned",
+      ],
+      payment_provider: ["stripe", "mobilepay", "wallet"],
+      payment_status: [
+        "pending",
+        "authorized",
+        "succeeded",
+        "failed",
+        "refunded",
+        "cancelled",
+      ],
+      payout_batch_status: ["created", "settled"],
+      payout_status: ["pending", "paid", "returned"],
+      promotion_type: ["percentage", "fixed", "first_ride"],
+      referral_status: ["pending", "rewarded"],
+      refund_reason: [
+        "cancellation",
+        "late_arrival",
+        "damaged_items",
+        "service_issue",
+        "duplicate_charge",
+        "goodwill",
+        "other",
+      ],
+      refund_status: ["pending", "succeeded", "failed"],
+      stop_status: ["pending", "arrived", "completed"],
+      stop_type: ["pickup", "dropoff"],
       user_role: ["consumer", "transporter", "admin"],
       vehicle_type: ["van", "stw", "truck"],
+      wallet_transaction_type: [
+        "referral_reward",
+        "top_up",
+        "payment",
+        "payment_release",
+        "refund",
+      ],
     },
   },
 } as const
@@ -0,0 +1,35 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type BookingStatus = Database["public"]["Enums"]["booking_status"];
+
+// Allowed status changes. The booking_status_transitions table enforced by the
+// bookings trigger holds the same pairs; change both together.
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  pending: ["accepted", "cancelled", "expired"], // expired: nobody accepted in time
+  accepted: ["en_route_pickup", "cancelled", "pending"], // pending: released by the scheduler
+  en_route_pickup: ["picked_up", "cancelled"],
+  picked_up: ["en_route_dropoff"],
+  en_route_dropoff: ["delivered"],
+  delivered: [],
+  cancelled: [],
+  expired: [],
+};
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  pending: "Waiting for transporter",
+  accepted: "Accepted",
+  en_route_pickup: "On the way to pickup",
+  picked_up: "Picked up",
+  en_route_dropoff: "On the way to dropoff",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+  expired: "Expired",
+};
+
+export function canTransition(from: BookingStatus, to: BookingStatus): boolean {
+  return BOOKING_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function isFinalStatus(status: BookingStatus): boolean {
+  return BOOKING_TRANSITIONS[status]?.length === 0;
+}
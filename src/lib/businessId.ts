@@ -0,0 +1,32 @@
+// Finnish business ID (Y-tunnus) helpers shared by the profile form and the invoice renderer
+
+const WEIGHTS = [7, 9, 10, 5, 8, 4, 2];
+
+export function normalizeBusinessId(value: string): string {
+  const compact = value.replace(/\s+/g, "");
+  // Old seven-digit IDs are written with a leading zero
+  return /^\d{6}-\d$/.test(compact) ? `0${compact}` : compact;
+}
+
+/**
+ * Format 1234567-8 with the check digit: the weighted sum of the first seven
+ * digits mod 11 gives 0, or 11 minus the remainder (a remainder of 1 is never issued)
+ */
+export function isValidBusinessId(value: string): boolean {
+  const id = normalizeBusinessId(value);
+  if (!/^\d{7}-\d$/.test(id)) {
+    return false;
+  }
+
+  const remainder = WEIGHTS.reduce((sum, weight, index) => sum + weight * Number(id[index]), 0) % 11;
+  if (remainder === 1) {
+    return false;
+  }
+
+  return Number(id[8]) === (remainder === 0 ? 0 : 11 - remainder);
+}
+
+// The EU VAT number of a Finnish business: FI and the ID without the hyphen
+export function toVatNumber(businessId: string): string {
+  return `FI${normalizeBusinessId(businessId).replace("-", "")}`;
+}
@@ -0,0 +1,86 @@
+// GeoJSON helpers shared by the pricing engine and the admin service-area editor
+
+export type Position = [number, number]; // [lng, lat], GeoJSON order
+
+export interface PolygonGeometry {
+  type: "Polygon";
+  coordinates: Position[][]; // outer ring first, then holes
+}
+
+export interface MultiPolygonGeometry {
+  type: "MultiPolygon";
+  coordinates: Position[][][];
+}
+
+export type AreaGeometry = PolygonGeometry | MultiPolygonGeometry;
+
+export interface LatLngLiteral {
+  lat: number;
+  lng: number;
+}
+
+export function isAreaGeometry(value: unknown): value is AreaGeometry {
+  const geometry = value as AreaGeometry;
+  return !!geometry &&
+    (geometry.type === "Polygon" || geometry.type === "MultiPolygon") &&
+    Array.isArray(geometry.coordinates) &&
+    geometry.coordinates.length > 0;
+}
+
+const polygonsOf = (geometry: AreaGeometry): Position[][][] =>
+  geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+
+// Ray casting; points exactly on an edge may fall either way
+function ringContains(ring: Position[], point: LatLngLiteral): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const crosses = (yi > point.lat) !== (yj > point.lat) &&
+      point.lng < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+function ringArea(ring: Position[]): number {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[j][0] + ring[i][0]) * (ring[j][1] - ring[i][1]);
+  }
+  return Math.abs(area / 2);
+}
+
+export function geometryContains(geometry: AreaGeometry, point: LatLngLiteral): boolean {
+  return polygonsOf(geometry).some(([outer, ...holes]) =>
+    ringContains(outer, point) && !holes.some((hole) => ringContains(hole, point))
+  );
+}
+
+/**
+ * Planar area in square degrees; only meaningful for comparing nearby zones
+ */
+export function geometryArea(geometry: AreaGeometry): number {
+  return polygonsOf(geometry).reduce(
+    (sum, [outer, ...holes]) => sum + ringArea(outer) - holes.reduce((h, hole) => h + ringArea(hole), 0),
+    0
+  );
+}
+
+// Map editor path -> closed GeoJSON polygon
+export function pathToPolygon(path: LatLngLiteral[]): PolygonGeometry {
+  const ring: Position[] = path.map((point) => [point.lng, point.lat]);
+  const [first] = ring;
+  const last = ring[ring.length - 1];
+  if (first && (first[0] !== last[0] || first[1] !== last[1])) {
+    ring.push([first[0], first[1]]);
+  }
+  return { type: "Polygon", coordinates: [ring] };
+}
+
+// Outer rings as map paths (the closing point is dropped)
+export function geometryToPaths(geometry: AreaGeometry): LatLngLiteral[][] {
+  return polygonsOf(geometry).map(([outer]) =>
+    outer.slice(0, -1).map(([lng, lat]) => ({ lat, lng }))
+  );
+}
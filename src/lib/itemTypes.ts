@@ -0,0 +1,31 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type ItemType = Database["public"]["Enums"]["item_type"];
+export type VehicleType = Database["public"]["Enums"]["vehicle_type"];
+
+export const ITEM_TYPES: ItemType[] = [
+  "small_furniture",
+  "large_furniture",
+  "appliances",
+  "fragile",
+  "home_move",
+];
+
+export const ITEM_TYPE_LABELS: Record<ItemType, string> = {
+  small_furniture: "Small furniture",
+  large_furniture: "Large furniture",
+  appliances: "Appliances",
+  fragile: "Fragile items",
+  home_move: "Home move",
+};
+
+// Which item types each vehicle class can carry
+export const VEHICLE_ITEM_TYPES: Record<VehicleType, ItemType[]> = {
+  stw: ["small_furniture", "fragile"],
+  van: ["small_furniture", "large_furniture", "appliances", "fragile"],
+  truck: ["small_furniture", "large_furniture", "appliances", "fragile", "home_move"],
+};
+
+export function isItemType(value: unknown): value is ItemType {
+  return ITEM_TYPES.includes(value as ItemType);
+}
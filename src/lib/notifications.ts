@@ -0,0 +1,260 @@
+// Push notification payloads, shared by the browser service and server-side senders
+
+export interface NotificationPayload {
+  title: string;
+  body: string;
+  icon?: string;
+  badge?: string;
+  data?: Record<string, unknown>;
+  tag?: string;
+  requireInteraction?: boolean;
+  actions?: { action: string; title: string }[]; // buttons; the chosen one is passed to the page as ?respond=
+}
+
+// Notification event handlers for different scenarios
+export const notificationHandlers = {
+  /**
+   * Exclusive job offer (for transporter), answered from the notification
+   */
+  jobOffer: (bookingId: string, pickup: string, dropoff: string, distanceKm: number, seconds: number) => ({
+    title: "🚚 New Job Offer!",
+    body: `From ${pickup} to ${dropoff} (${distanceKm.toFixed(1)} km from you). Respond within ${seconds} s.`,
+    icon: "/favicon.ico",
+    tag: `booking-${bookingId}`,
+    requireInteraction: true,
+    actions: [
+      { action: "accept", title: "Accept" },
+      { action: "decline", title: "Decline" },
+    ],
+    data: {
+      type: "job_offer",
+      bookingId,
+      url: `/transporter/dashboard?offer=${bookingId}`,
+    },
+  }),
+
+  /**
+   * Booking accepted (for consumer)
+   */
+  bookingAccepted: (transporterName: string) => ({
+    title: "✅ Booking Accepted!",
+    body: `${transporterName} has accepted your booking request`,
+    icon: "/favicon.ico",
+    tag: "booking-accepted",
+    data: {
+      type: "booking_accepted",
+      url: "/consumer/dashboard",
+    },
+  }),
+
+  /**
+   * Upcoming scheduled move (for consumer)
+   */
+  scheduledMoveReminder: (bookingId: string, startsIn: string, time: string, transporterName: string | null) => ({
+    title: "📅 Your Move Is Coming Up",
+    body: transporterName
+      ? `${transporterName} will pick up your items in ${startsIn} (${time}).`
+      : `Your move starts in ${startsIn} (${time}). We're still finding you a transporter.`,
+    icon: "/favicon.ico",
+    tag: `reminder-${bookingId}`,
+    data: {
+      type: "scheduled_reminder",
+      bookingId,
+      url: "/consumer/dashboard",
+    },
+  }),
+
+  /**
+   * Upcoming scheduled job (for transporter)
+   */
+  scheduledJobReminder: (bookingId: string, pickup: string, startsIn: string, time: string) => ({
+    title: "📅 Upcoming Job",
+    body: `Pickup at ${pickup} in ${startsIn} (${time}). Start the trip from your dashboard.`,
+    icon: "/favicon.ico",
+    tag: `reminder-${bookingId}`,
+    data: {
+      type: "scheduled_reminder",
+      bookingId,
+      url: "/transporter/dashboard",
+    },
+  }),
+
+  /**
+   * Scheduled job taken back because the trip was not started (for transporter)
+   */
+  claimReleased: (bookingId: string, pickup: string) => ({
+    title: "⏰ Job Released",
+    body: `You didn't start the trip to ${pickup} in time, so the job is being offered to other transporters.`,
+    icon: "/favicon.ico",
+    tag: `booking-${bookingId}`,
+    data: {
+      type: "claim_released",
+      bookingId,
+      url: "/transporter/dashboard",
+    },
+  }),
+
+  /**
+   * The transporter did not show up and a new one is being found (for consumer)
+   */
+  findingNewTransporter: (bookingId: string) => ({
+    title: "🔄 Finding You a New Transporter",
+    body: "Your transporter couldn't make it. We're offering your move to transporters nearby now.",
+    icon: "/favicon.ico",
+    tag: `booking-${bookingId}`,
+    requireInteraction: true,
+    data: {
+      type: "transporter_released",
+      bookingId,
+      url: "/consumer/dashboard",
+    },
+  }),
+
+  /**
+   * Transporter en route to pickup (for consumer)
+   */
+  enRouteToPickup: (transporterName: string, eta: string) => ({
+    title: "🚗 Transporter En Route!",
+    body: `${transporterName} is on the way to pick up. ETA: ${eta}`,
+    icon: "/favicon.ico",
+    tag: "en-route-pickup",
+    requireInteraction: true,
+    data: {
+      type: "en_route_pickup",
+      url: "/consumer/dashboard",
+    },
+  }),
+
+  /**
+   * Item picked up (for consumer)
+   */
+  itemPickedUp: (transporterName: string) => ({
+    title: "📦 Item Picked Up!",
+    body: `${transporterName} has picked up your item and is heading to the destination`,
+    icon: "/favicon.ico",
+    tag: "picked-up",
+    data: {
+      type: "picked_up",
+      url: "/consumer/dashboard",
+    },
+  }),
+
+  /**
+   * Transporter en route to dropoff (for consumer)
+   */
+  enRouteToDropoff: (transporterName: string, eta: string) => ({
+    title: "🚚 On the Way to Destination!",
+    body: `${transporterName} is delivering your item. ETA: ${eta}`,
+    icon: "/favicon.ico",
+    tag: "en-route-dropoff",
+    data: {
+      type: "en_route_dropoff",
+      url: "/consumer/dashboard",
+    },
+  }),
+
+  /**
+   * Item delivered (for consumer)
+   */
+  itemDelivered: () => ({
+    title: "🎉 Item Delivered!",
+    body: "Your item has been successfully delivered. Please rate your experience!",
+    icon: "/favicon.ico",
+    tag: "delivered",
+    requireInteraction: true,
+    data: {
+      type: "delivered",
+      url: "/consumer/dashboard",
+    },
+  }),
+
+  /**
+   * New chat message (for both)
+   */
+  newChatMessage: (senderName: string, message: string) => ({
+    title: `💬 ${senderName}`,
+    body: message.length > 50 ? message.substring(0, 50) + "..." : message,
+    icon: "/favicon.ico",
+    tag: "chat-message",
+    data: {
+      type: "chat_message",
+      url: "/consumer/dashboard",
+    },
+  }),
+
+  /**
+   * Payment successful (for consumer)
+   */
+  paymentSuccessful: (amount: number) => ({
+    title: "💳 Payment Successful",
+    body: `Your payment of €${amount.toFixed(2)} has been processed`,
+    icon: "/favicon.ico",
+    tag: "payment-success",
+    data: {
+      type: "payment_success",
+      url: "/consumer/dashboard",
+    },
+  }),
+
+  /**
+   * Earning received (for transporter)
+   */
+  earningReceived: (amount: number) => ({
+    title: "💰 Earning Received!",
+    body: `You've earned €${amount.toFixed(2)} from a completed delivery`,
+    icon: "/favicon.ico",
+    tag: "earning-received",
+    data: {
+      type: "earning_received",
+      url: "/transporter/dashboard",
+    },
+  }),
+
+  /**
+   * No transporter accepted in time (for consumer); tapping opens the move ready to rebook
+   */
+  bookingExpired: (bookingId: string, suggestedPrice: number | null) => ({
+    title: "⌛ No Transporter Available",
+    body: suggestedPrice !== null
+      ? `Nobody could take your move this time and your payment hold was released. Tap to rebook with priority for €${suggestedPrice.toFixed(2)}.`
+      : "Nobody could take your move this time and your payment hold was released. Tap to rebook.",
+    icon: "/favicon.ico",
+    tag: `booking-${bookingId}`,
+    requireInteraction: true,
+    data: {
+      type: "booking_expired",
+      bookingId,
+      url: `/consumer/book-move?rebook=${bookingId}`,
+    },
+  }),
+
+  /**
+   * Shift over or a day off started (for transporter); taken offline by the shifts cron
+   */
+  shiftEnded: (timeOff: boolean) => ({
+    title: "🌙 You're Offline",
+    body: timeOff
+      ? "Your time off has started, so you won't get new job offers. Jobs you've accepted stay yours."
+      : "Your shift has ended, so you won't get new job offers. Jobs you've accepted stay yours.",
+    icon: "/favicon.ico",
+    tag: "shift-ended",
+    data: {
+      type: "shift_ended",
+      url: "/transporter/profile",
+    },
+  }),
+
+  /**
+   * Booking cancelled (for both)
+   */
+  bookingCancelled: (reason: string) => ({
+    title: "❌ Booking Cancelled",
+    body: reason || "The booking has been cancelled",
+    icon: "/favicon.ico",
+    tag: "booking-cancelled",
+    data: {
+      type: "booking_cancelled",
+      url: "/consumer/dashboard",
+    },
+  }),
+};
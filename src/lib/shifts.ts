@@ -0,0 +1,125 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type ShiftRow = Database["public"]["Tables"]["transporter_shifts"]["Row"];
+export type TimeOffRow = Database["public"]["Tables"]["transporter_time_off"]["Row"];
+
+// A transporter's working hours. Without shifts they are available all week,
+// except on their days off.
+export interface ShiftCalendar {
+  shifts: Pick<ShiftRow, "weekday" | "starts_at" | "ends_at">[];
+  timeOff: Pick<TimeOffRow, "starts_on" | "ends_on">[];
+}
+
+export interface Availability {
+  available: boolean;
+  until: Date | null; // when the shift in progress ends; null if not within the next week
+  reason?: "OFF_SHIFT" | "TIME_OFF"; // why they are not available
+}
+
+// Shift times and days off are wall-clock times here
+export const SHIFT_TIME_ZONE = "Europe/Helsinki";
+
+// ISO weekdays, 1 = Monday
+export const WEEKDAYS = [1, 2, 3, 4, 5, 6, 7];
+
+export const WEEKDAY_LABELS: Record<number, string> = {
+  1: "Monday",
+  2: "Tuesday",
+  3: "Wednesday",
+  4: "Thursday",
+  5: "Friday",
+  6: "Saturday",
+  7: "Sunday",
+};
+
+// How far ahead a shift in progress is followed into the next ones
+const HORIZON_DAYS = 7;
+const MINUTES_PER_DAY = 24 * 60;
+
+const localFormat = new Intl.DateTimeFormat("en-CA", {
+  timeZone: SHIFT_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  weekday: "short",
+  hour: "2-digit",
+  minute: "2-digit",
+  hourCycle: "h23",
+});
+
+const WEEKDAY_NUMBERS: Record<string, number> = { Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6, Sun: 7 };
+
+// Local date (YYYY-MM-DD), ISO weekday and minutes past midnight of a moment
+export function localTime(at: Date): { date: string; weekday: number; minutes: number } {
+  const parts = Object.fromEntries(localFormat.formatToParts(at).map((part) => [part.type, part.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAY_NUMBERS[parts.weekday],
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+// "08:30:00" -> 510; "24:00:00" is midnight at the end of the day
+export const timeToMinutes = (value: string) => {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const addDays = (date: string, days: number) => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().slice(0, 10);
+};
+
+const isDayOff = (calendar: ShiftCalendar, date: string) =>
+  calendar.timeOff.some((block) => block.starts_on <= date && date <= block.ends_on);
+
+/**
+ * Whether the calendar has the transporter working at `at`, and until when.
+ * Back-to-back shifts, also across midnight, count as one.
+ */
+export function availabilityAt(calendar: ShiftCalendar, at: Date): Availability {
+  const local = localTime(at);
+  if (isDayOff(calendar, local.date)) {
+    return { available: false, until: null, reason: "TIME_OFF" };
+  }
+
+  // Working periods from local midnight today, in minutes
+  const periods: [number, number][] = [];
+  for (let day = 0; day <= HORIZON_DAYS; day++) {
+    if (isDayOff(calendar, addDays(local.date, day))) continue;
+
+    const weekday = ((local.weekday - 1 + day) % 7) + 1;
+    const hours = calendar.shifts.length > 0
+      ? calendar.shifts
+        .filter((shift) => shift.weekday === weekday)
+        .map((shift) => [timeToMinutes(shift.starts_at), timeToMinutes(shift.ends_at)])
+      : [[0, MINUTES_PER_DAY]];
+
+    for (const [start, end] of hours) {
+      periods.push([day * MINUTES_PER_DAY + start, day * MINUTES_PER_DAY + end]);
+    }
+  }
+  periods.sort((a, b) => a[0] - b[0]);
+
+  let end: number | null = null;
+  for (const [start, stop] of periods) {
+    if (end === null) {
+      if (start <= local.minutes && local.minutes < stop) end = stop;
+    } else if (start <= end) {
+      end = Math.max(end, stop);
+    } else {
+      break;
+    }
+  }
+
+  if (end === null) {
+    return { available: false, until: null, reason: "OFF_SHIFT" };
+  }
+  if (end >= (HORIZON_DAYS + 1) * MINUTES_PER_DAY) {
+    return { available: true, until: null };
+  }
+
+  const minuteStart = Math.floor(at.getTime() / 60000) * 60000;
+  return { available: true, until: new Date(minuteStart + (end - local.minutes) * 60 * 1000) };
+}
@@ -0,0 +1,22 @@
+import { loadStripe, type Stripe } from "@stripe/stripe-js";
+
+// Stripe's test Visa; used instead of Stripe.js when running against the offline stand-in
+export const TEST_PAYMENT_METHOD = "pm_card_visa";
+
+let stripePromise: Promise<Stripe | null> | null = null;
+
+/**
+ * Stripe.js, or null when NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY is not set
+ * (the server then confirms payments with the test card)
+ */
+export function getStripe(): Promise<Stripe | null> | null {
+  const publishableKey = process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY;
+  if (!publishableKey) {
+    return null;
+  }
+
+  if (!stripePromise) {
+    stripePromise = loadStripe(publishableKey);
+  }
+  return stripePromise;
+}
@@ -10,6 +10,11 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { paymentService, type RefundDestination, type RefundReason } from "@/services/paymentService";
+import { payoutService } from "@/services/payoutService";
+import { walletService } from "@/services/walletService";
 import { 
   Package, 
   Users, 
@@ -37,7 +42,11 @@ import {
   Filter,
   Ban,
   Pencil,
-  Star
+  Star,
+  RotateCcw,
+  Banknote,
+  Tag,
+  Wallet
 } from "lucide-react";
 import type { Database } from "@/integrations/supabase/types";
 import { formatDistanceToNow } from "date-fns";
@@ -76,12 +85,29 @@ type Booking = Database["public"]["Tables"]["bookings"]["Row"] & {
   transporter?: { id: string; full_name: string | null; email: string | null } | null;
 };
 
+type Payment = Database["public"]["Tables"]["payments"]["Row"];
+type PayoutBatch = Database["public"]["Tables"]["payout_batches"]["Row"];
+type Refund = Database["public"]["Tables"]["refunds"]["Row"] & {
+  initiator?: { full_name: string | null; email: string | null } | null;
+};
+
+const REFUND_REASON_LABELS: Record<RefundReason, string> = {
+  cancellation: "Cancellation",
+  late_arrival: "Late arrival",
+  damaged_items: "Damaged items",
+  service_issue: "Service issue",
+  duplicate_charge: "Duplicate charge",
+  goodwill: "Goodwill",
+  other: "Other",
+};
+
 type UserWithStats = Profile & {
   total_bookings?: number;
   total_earnings?: number;
   average_rating?: number;
   phone_number?: string;
   is_online?: boolean;
+  offers?: { accepted: number; declined: number; expired: number }; // job offers answered, for the acceptance rate
   status?: "online" | "busy" | "offline";
   current_job?: {
     id: string;
@@ -148,6 +174,29 @@ export default function AdminDashboard() {
   const [deleteUserId, setDeleteUserId] = useState<string | null>(null);
   const [deleteUserConfirmOpen, setDeleteUserConfirmOpen] = useState(false);
 
+  // Refund State
+  const [refundBooking, setRefundBooking] = useState<Booking | null>(null);
+  const [refundPayment, setRefundPayment] = useState<Payment | null>(null);
+  const [refundHistory, setRefundHistory] = useState<Refund[]>([]);
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundReason, setRefundReason] = useState<RefundReason>("late_arrival");
+  const [refundNote, setRefundNote] = useState("");
+  const [refundDestination, setRefundDestination] = useState<RefundDestination>("original");
+  const [refundError, setRefundError] = useState<string | null>(null);
+  const [isRefunding, setIsRefunding] = useState(false);
+
+  // Wallet Top-up State
+  const [topUpConsumer, setTopUpConsumer] = useState<UserWithStats | null>(null);
+  const [topUpAmount, setTopUpAmount] = useState("");
+  const [topUpNote, setTopUpNote] = useState("");
+  const [topUpError, setTopUpError] = useState<string | null>(null);
+  const [isToppingUp, setIsToppingUp] = useState(false);
+
+  // Payouts State
+  const [payoutBatches, setPayoutBatches] = useState<PayoutBatch[]>([]);
+  const [payoutMessage, setPayoutMessage] = useState<string | null>(null);
+  const [isRunningPayouts, setIsRunningPayouts] = useState(false);
+
   useEffect(() => {
     loadDashboardData();
     
@@ -202,7 +251,8 @@ export default function AdminDashboard() {
         loadApplicationsData(),
         loadBookingsData(),
         loadUsersData(),
-        loadActivityData()
+        loadActivityData(),
+        loadPayoutBatchesData()
       ]);
 
     } catch (error) {
@@ -307,6 +357,55 @@ export default function AdminDashboard() {
     setAllBookings(data || []);
   }
 
+  async function loadPayoutBatchesData() {
+    const { data } = await supabase
+      .from("payout_batches")
+      .select("*")
+      .order("period_end", { ascending: false })
+      .limit(12);
+
+    setPayoutBatches(data || []);
+  }
+
+  async function runPayouts() {
+    setIsRunningPayouts(true);
+    const result = await payoutService.runWeeklyBatch();
+    if (result.success && result.data) {
+      const { batch, created, skipped } = result.data;
+      setPayoutMessage(
+        created
+          ? `Created ${batch.payout_count} payouts totalling €${Number(batch.total_amount).toFixed(2)}` +
+            (skipped.length > 0 ? `; ${skipped.length} skipped (missing or invalid IBAN)` : "")
+          : `Today's batch already exists (${batch.payout_count} payouts)`
+      );
+      await loadPayoutBatchesData();
+    } else {
+      setPayoutMessage(result.error || "Payout batch failed");
+    }
+    setIsRunningPayouts(false);
+  }
+
+  async function settlePayoutBatch(batchId: string) {
+    const result = await payoutService.settleBatch(batchId);
+    if (result.success) {
+      await loadPayoutBatchesData();
+    } else {
+      alert(result.error || "Failed to mark the batch as paid");
+    }
+  }
+
+  function downloadPain001(batch: PayoutBatch) {
+    if (!batch.pain001_xml) return;
+
+    const blob = new Blob([batch.pain001_xml], { type: "application/xml" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${batch.message_id}.xml`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
   async function loadUsersData() {
     // Load consumers with stats
     const { data: consumerData } = await supabase
@@ -343,6 +442,15 @@ export default function AdminDashboard() {
       .eq("role", "transporter")
       .order("created_at", { ascending: false });
 
+    // Declined and timed-out job offers count against the acceptance rate
+    const { data: offerStats } = await supabase.rpc("dispatch_acceptance_rates", {});
+    const offersByTransporter = new Map(
+      (offerStats || []).map((row) => [
+        row.transporter_id,
+        { accepted: Number(row.accepted), declined: Number(row.declined), expired: Number(row.expired) },
+      ])
+    );
+
     if (transporterData) {
       const transportersWithStats = await Promise.all(
         transporterData.map(async (user: any) => {
@@ -384,6 +492,7 @@ export default function AdminDashboard() {
             total_bookings: totalBookings,
             total_earnings: totalEarnings,
             average_rating: 0,
+            offers: offersByTransporter.get(user.id),
             status,
             current_job: currentJob
           };
@@ -586,6 +695,99 @@ export default function AdminDashboard() {
     }
   }
 
+  async function loadRefundDetails(bookingId: string) {
+    const [{ data: payment }, { data: refunds }] = await Promise.all([
+      supabase
+        .from("payments")
+        .select("*")
+        .eq("booking_id", bookingId)
+        .maybeSingle(),
+      supabase
+        .from("refunds")
+        .select(`
+          *,
+          initiator:profiles!refunds_initiated_by_fkey(full_name, email)
+        `)
+        .eq("booking_id", bookingId)
+        .order("created_at", { ascending: false }),
+    ]);
+
+    setRefundPayment(payment);
+    setRefundHistory(refunds || []);
+  }
+
+  async function openRefundDialog(booking: Booking) {
+    setRefundBooking(booking);
+    setRefundPayment(null);
+    setRefundHistory([]);
+    setRefundAmount("");
+    setRefundReason("late_arrival");
+    setRefundNote("");
+    setRefundDestination("original");
+    setRefundError(null);
+    await loadRefundDetails(booking.id);
+  }
+
+  async function submitRefund() {
+    if (!refundBooking) return;
+
+    const amount = Number(refundAmount);
+    if (!amount || amount <= 0) {
+      setRefundError("Enter an amount to refund");
+      return;
+    }
+
+    setIsRefunding(true);
+    setRefundError(null);
+
+    const result = await paymentService.processRefund(
+      refundBooking.id,
+      amount,
+      refundReason,
+      refundNote || undefined,
+      refundDestination
+    );
+    if (result.success) {
+      setRefundAmount("");
+      setRefundNote("");
+      await loadRefundDetails(refundBooking.id);
+    } else {
+      setRefundError(result.error || "Refund failed");
+    }
+
+    setIsRefunding(false);
+  }
+
+  function openTopUpDialog(consumer: UserWithStats) {
+    setTopUpConsumer(consumer);
+    setTopUpAmount("");
+    setTopUpNote("");
+    setTopUpError(null);
+  }
+
+  async function submitTopUp() {
+    if (!topUpConsumer) return;
+
+    const amount = Number(topUpAmount);
+    if (!amount || amount <= 0) {
+      setTopUpError("Enter an amount to add");
+      return;
+    }
+
+    setIsToppingUp(true);
+    setTopUpError(null);
+
+    const result = await walletService.topUp(topUpConsumer.id, amount, topUpNote || undefined);
+    if (result.success) {
+      setTopUpConsumer(null);
+      alert(`€${amount.toFixed(2)} added to ${topUpConsumer.full_name || topUpConsumer.email}'s wallet`);
+    } else {
+      setTopUpError(result.error || "Top-up failed");
+    }
+
+    setIsToppingUp(false);
+  }
+
   async function handleLogout() {
     await supabase.auth.signOut();
     router.push("/auth/login");
@@ -682,6 +884,22 @@ export default function AdminDashboard() {
     setUserDetailsOpen(true);
   }
 
+  function renderAcceptance(offers?: UserWithStats["offers"]) {
+    const answered = offers ? offers.accepted + offers.declined + offers.expired : 0;
+    if (!offers || answered === 0) {
+      return <span className="text-gray-400">No offers</span>;
+    }
+
+    return (
+      <div>
+        <div className="font-medium">{Math.round((offers.accepted / answered) * 100)}%</div>
+        <div className="text-xs text-gray-500">
+          {offers.accepted}/{answered} · {offers.declined} declined · {offers.expired} timed out
+        </div>
+      </div>
+    );
+  }
+
   function exportUsers(type: "consumers" | "transporters") {
     const data = type === "consumers" ? consumers : transporters;
     const csv = [
@@ -727,10 +945,22 @@ export default function AdminDashboard() {
     transporter.email?.toLowerCase().includes(transporterSearchTerm.toLowerCase())
   );
 
+  // Paid by card or MobilePay and from the wallet, minus everything refunded so far to either
+  const refundPaid = refundPayment
+    ? Number(refundPayment.captured_amount) + Number(refundPayment.wallet_amount || 0)
+    : 0;
+  const refundRefunded = refundPayment
+    ? Number(refundPayment.refund_amount || 0) + Number(refundPayment.wallet_refund_amount || 0)
+    : 0;
+  const refundableBalance = refundPayment?.status === "succeeded" || refundPayment?.status === "refunded"
+    ? Math.max(refundPaid - refundRefunded, 0)
+    : 0;
+
   const getStatusBadgeVariant = (status: string) => {
     switch (status) {
       case "delivered": return "default";
       case "cancelled": return "destructive";
+      case "expired": return "destructive";
       case "pending": return "secondary";
       default: return "outline";
     }
@@ -776,6 +1006,14 @@ export default function AdminDashboard() {
               <p className="text-gray-600 dark:text-gray-400 mt-1">Manage VANGO platform</p>
             </div>
             <div className="flex items-center gap-4">
+              <Button variant="outline" onClick={() => router.push("/admin/service-areas")}>
+                <MapPin className="w-4 h-4 mr-2" />
+                Service Areas
+              </Button>
+              <Button variant="outline" onClick={() => router.push("/admin/promotions")}>
+                <Tag className="w-4 h-4 mr-2" />
+                Promotions
+              </Button>
               <Button variant="outline" onClick={handleLogout}>
                 <LogOut className="w-4 h-4 mr-2" />
                 Log Out
@@ -884,13 +1122,15 @@ export default function AdminDashboard() {
 
           {/* Tabs */}
           <Tabs defaultValue="activity" className="space-y-4">
-            <TabsList className="grid w-full grid-cols-6">
+            <TabsList className="grid w-full grid-cols-8">
               <TabsTrigger value="activity">Feed</TabsTrigger>
               <TabsTrigger value="roster">Roster</TabsTrigger>
+              <TabsTrigger value="bookings">Bookings</TabsTrigger>
               <TabsTrigger value="transporters">Transporters ({stats.totalTransporters})</TabsTrigger>
               <TabsTrigger value="consumers">Consumers ({stats.totalConsumers})</TabsTrigger>
               <TabsTrigger value="applications">Applications ({stats.pendingApplications})</TabsTrigger>
               <TabsTrigger value="reviews">Reviews</TabsTrigger>
+              <TabsTrigger value="payouts">Payouts</TabsTrigger>
             </TabsList>
 
             {/* Activity Feed Tab */}
@@ -1151,6 +1391,7 @@ export default function AdminDashboard() {
                           <SelectItem value="en_route_dropoff">En Route (Dropoff)</SelectItem>
                           <SelectItem value="delivered">Delivered</SelectItem>
                           <SelectItem value="cancelled">Cancelled</SelectItem>
+                          <SelectItem value="expired">Expired</SelectItem>
                         </SelectContent>
                       </Select>
                     </div>
@@ -1167,12 +1408,13 @@ export default function AdminDashboard() {
                             <TableHead>Route</TableHead>
                             <TableHead>Price</TableHead>
                             <TableHead>Status</TableHead>
+                            <TableHead>Actions</TableHead>
                           </TableRow>
                         </TableHeader>
                         <TableBody>
                           {filteredBookings.length === 0 ? (
                             <TableRow>
-                              <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                              <TableCell colSpan={8} className="text-center py-8 text-gray-500">
                                 No bookings found
                               </TableCell>
                             </TableRow>
@@ -1203,6 +1445,14 @@ export default function AdminDashboard() {
                                     {booking.status.replace(/_/g, " ")}
                                   </Badge>
                                 </TableCell>
+                                <TableCell>
+                                  {(booking.status === "delivered" || booking.status === "cancelled") && (
+                                    <Button variant="outline" size="sm" onClick={() => openRefundDialog(booking)}>
+                                      <RotateCcw className="w-4 h-4 mr-1" />
+                                      Refund
+                                    </Button>
+                                  )}
+                                </TableCell>
                               </TableRow>
                             ))
                           )}
@@ -1281,6 +1531,9 @@ export default function AdminDashboard() {
                                     <Button variant="ghost" size="sm" onClick={() => viewUserDetails(consumer)}>
                                       <Eye className="h-4 w-4" />
                                     </Button>
+                                    <Button variant="ghost" size="sm" onClick={() => openTopUpDialog(consumer)} title="Top up wallet">
+                                      <Wallet className="h-4 w-4" />
+                                    </Button>
                                     <Button variant="ghost" size="sm" onClick={() => suspendUser(consumer.id)}>
                                       <Ban className="h-4 w-4" />
                                     </Button>
@@ -1334,13 +1587,14 @@ export default function AdminDashboard() {
                             <TableHead>Joined</TableHead>
                             <TableHead>Completed Jobs</TableHead>
                             <TableHead>Total Earnings</TableHead>
+                            <TableHead>Acceptance</TableHead>
                             <TableHead>Actions</TableHead>
                           </TableRow>
                         </TableHeader>
                         <TableBody>
                           {filteredTransporters.length === 0 ? (
                             <TableRow>
-                              <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                              <TableCell colSpan={8} className="text-center py-8 text-gray-500">
                                 No transporters found
                               </TableCell>
                             </TableRow>
@@ -1363,6 +1617,9 @@ export default function AdminDashboard() {
                                 <TableCell className="font-semibold">
                                   €{(transporter.total_earnings || 0).toFixed(2)}
                                 </TableCell>
+                                <TableCell>
+                                  {renderAcceptance(transporter.offers)}
+                                </TableCell>
                                 <TableCell>
                                   <div className="flex gap-2">
                                     <Button variant="ghost" size="sm" onClick={() => viewUserDetails(transporter)}>
@@ -1609,6 +1866,86 @@ export default function AdminDashboard() {
               </Card>
             </TabsContent>
 
+            {/* Payouts Tab */}
+            <TabsContent value="payouts">
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>Payout Batches</CardTitle>
+                      <CardDescription>
+                        Weekly SEPA transfers to transporters, created every Monday. Upload the pain.001 file to the bank, then mark the batch paid.
+                      </CardDescription>
+                    </div>
+                    <Button onClick={runPayouts} disabled={isRunningPayouts}>
+                      <Banknote className="w-4 h-4 mr-2" />
+                      {isRunningPayouts ? "Running..." : "Run Payouts Now"}
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {payoutMessage && (
+                    <p className="text-sm text-muted-foreground">{payoutMessage}</p>
+                  )}
+                  <div className="border rounded-lg">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Week</TableHead>
+                          <TableHead>Message ID</TableHead>
+                          <TableHead>Payouts</TableHead>
+                          <TableHead>Total</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {payoutBatches.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                              No payout batches yet
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          payoutBatches.map((batch) => (
+                            <TableRow key={batch.id}>
+                              <TableCell className="text-sm">{new Date(batch.period_end).toLocaleDateString()}</TableCell>
+                              <TableCell className="font-mono text-xs">{batch.message_id}</TableCell>
+                              <TableCell>{batch.payout_count}</TableCell>
+                              <TableCell className="font-semibold">€{Number(batch.total_amount).toFixed(2)}</TableCell>
+                              <TableCell>
+                                {batch.completed_at ? (
+                                  <Badge variant={batch.status === "settled" ? "default" : "secondary"}>
+                                    {batch.status === "settled" ? "paid" : "awaiting bank"}
+                                  </Badge>
+                                ) : (
+                                  <Badge variant="destructive">unfinished</Badge>
+                                )}
+                              </TableCell>
+                              <TableCell className="space-x-2">
+                                {batch.pain001_xml && (
+                                  <Button variant="outline" size="sm" onClick={() => downloadPain001(batch)}>
+                                    <Download className="w-4 h-4 mr-1" />
+                                    pain.001
+                                  </Button>
+                                )}
+                                {batch.status !== "settled" && batch.completed_at && batch.payout_count > 0 && (
+                                  <Button size="sm" onClick={() => settlePayoutBatch(batch.id)}>
+                                    <CheckCircle className="w-4 h-4 mr-1" />
+                                    Mark Paid
+                                  </Button>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
             {/* END OF TABS */}
           </Tabs>
 
@@ -1949,6 +2286,200 @@ export default function AdminDashboard() {
             </DialogContent>
           </Dialog>
 
+          {/* Refund Dialog */}
+          <Dialog open={!!refundBooking} onOpenChange={(open) => !open && setRefundBooking(null)}>
+            <DialogContent className="max-w-lg">
+              <DialogHeader>
+                <DialogTitle>Refund Booking</DialogTitle>
+                <DialogDescription>
+                  Booking <code className="bg-muted px-1 rounded">{refundBooking?.id.slice(0, 8)}</code>
+                  {refundBooking?.consumer?.full_name && ` for ${refundBooking.consumer.full_name}`}
+                </DialogDescription>
+              </DialogHeader>
+
+              {refundPayment && (
+                <div className="grid grid-cols-3 gap-4 text-center">
+                  <div>
+                    <p className="text-xs text-muted-foreground">Paid</p>
+                    <p className="font-semibold">€{refundPaid.toFixed(2)}</p>
+                    {Number(refundPayment.wallet_amount) > 0 && (
+                      <p className="text-xs text-muted-foreground">€{Number(refundPayment.wallet_amount).toFixed(2)} from wallet</p>
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Refunded</p>
+                    <p className="font-semibold">€{refundRefunded.toFixed(2)}</p>
+                    {Number(refundPayment.wallet_refund_amount) > 0 && (
+                      <p className="text-xs text-muted-foreground">€{Number(refundPayment.wallet_refund_amount).toFixed(2)} to wallet</p>
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Refundable</p>
+                    <p className="font-semibold text-green-600">€{refundableBalance.toFixed(2)}</p>
+                  </div>
+                </div>
+              )}
+
+              {refundableBalance > 0 ? (
+                <div className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="refund-amount">Amount (€)</Label>
+                      <Input
+                        id="refund-amount"
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        max={refundableBalance.toFixed(2)}
+                        placeholder={refundableBalance.toFixed(2)}
+                        value={refundAmount}
+                        onChange={(e) => setRefundAmount(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Reason</Label>
+                      <Select value={refundReason} onValueChange={(value) => setRefundReason(value as RefundReason)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(REFUND_REASON_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Refund to</Label>
+                    <Select value={refundDestination} onValueChange={(value) => setRefundDestination(value as RefundDestination)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="original">Original payment method</SelectItem>
+                        <SelectItem value="wallet">Consumer&apos;s wallet</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="refund-note">Note</Label>
+                    <Textarea
+                      id="refund-note"
+                      placeholder="e.g. Transporter arrived 45 minutes late"
+                      value={refundNote}
+                      onChange={(e) => setRefundNote(e.target.value)}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {!refundPayment
+                    ? "No payment has been recorded for this booking."
+                    : refundPayment.status === "authorized"
+                    ? "The payment is only authorized; cancelling the booking releases it without a refund."
+                    : "Nothing left to refund on this booking."}
+                </p>
+              )}
+
+              {refundError && (
+                <p className="text-sm text-red-600 flex items-center gap-1">
+                  <AlertCircle className="w-4 h-4" />
+                  {refundError}
+                </p>
+              )}
+
+              {refundHistory.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-semibold">Refund history</p>
+                  <div className="border rounded-lg divide-y">
+                    {refundHistory.map((refund) => (
+                      <div key={refund.id} className="p-3 text-sm flex justify-between gap-4">
+                        <div>
+                          <p className="font-medium">{REFUND_REASON_LABELS[refund.reason]}</p>
+                          {refund.note && <p className="text-xs text-gray-600">{refund.note}</p>}
+                          <p className="text-xs text-gray-500">
+                            {refund.initiator?.full_name || refund.initiator?.email || "System"}
+                            {refund.created_at && ` · ${formatDistanceToNow(new Date(refund.created_at), { addSuffix: true })}`}
+                          </p>
+                        </div>
+                        <div className="text-right">
+                          <p className="font-semibold">€{Number(refund.amount).toFixed(2)}</p>
+                          {refund.provider === "wallet" && <p className="text-xs text-muted-foreground">to wallet</p>}
+                          <Badge variant={refund.status === "failed" ? "destructive" : refund.status === "pending" ? "secondary" : "default"}>
+                            {refund.status}
+                          </Badge>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setRefundBooking(null)}>
+                  Close
+                </Button>
+                {refundableBalance > 0 && (
+                  <Button onClick={submitRefund} disabled={isRefunding || !refundAmount}>
+                    {isRefunding ? "Refunding..." : `Refund €${Number(refundAmount || 0).toFixed(2)}`}
+                  </Button>
+                )}
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+
+          {/* Wallet Top-up Dialog */}
+          <Dialog open={!!topUpConsumer} onOpenChange={(open) => !open && setTopUpConsumer(null)}>
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>Top Up Wallet</DialogTitle>
+                <DialogDescription>
+                  Credit for {topUpConsumer?.full_name || topUpConsumer?.email}, usable to pay bookings
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="top-up-amount">Amount (€)</Label>
+                  <Input
+                    id="top-up-amount"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={topUpAmount}
+                    onChange={(e) => setTopUpAmount(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="top-up-note">Note</Label>
+                  <Textarea
+                    id="top-up-note"
+                    placeholder="e.g. Goodwill credit for a delayed move"
+                    value={topUpNote}
+                    onChange={(e) => setTopUpNote(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              {topUpError && (
+                <p className="text-sm text-red-600 flex items-center gap-1">
+                  <AlertCircle className="w-4 h-4" />
+                  {topUpError}
+                </p>
+              )}
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setTopUpConsumer(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={submitTopUp} disabled={isToppingUp || !topUpAmount}>
+                  {isToppingUp ? "Adding..." : `Add €${Number(topUpAmount || 0).toFixed(2)}`}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+
           {/* Delete Confirmation Dialog */}
           <Dialog open={deleteConfirmOpen} onOpenChange={setDeleteConfirmOpen}>
             <DialogContent>
@@ -0,0 +1,304 @@
+import { useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Save, Tag } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { authService } from "@/services/authService";
+import { promotionService, type PromotionType, type PromotionWithUsage } from "@/services/promotionService";
+
+const TYPE_LABELS: Record<PromotionType, string> = {
+  percentage: "Percentage",
+  fixed: "Fixed amount",
+  first_ride: "First booking",
+};
+
+const EMPTY_FORM = {
+  code: "",
+  description: "",
+  discountType: "percentage" as PromotionType,
+  value: "",
+  maxDiscount: "",
+  expiresAt: "",
+  usageLimit: "",
+  perUserLimit: "1",
+};
+
+// Empty inputs mean "no limit"
+const optionalNumber = (value: string) => (value.trim() ? Number(value) : null);
+
+const formatValue = (promotion: PromotionWithUsage) =>
+  promotion.discount_type === "fixed"
+    ? `€${Number(promotion.value).toFixed(2)}`
+    : `${Number(promotion.value)}%${promotion.max_discount != null ? ` (max €${Number(promotion.max_discount).toFixed(2)})` : ""}`;
+
+export default function PromotionsAdmin() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [promotions, setPromotions] = useState<PromotionWithUsage[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const loadPromotions = async () => {
+    setPromotions(await promotionService.getAll());
+  };
+
+  useEffect(() => {
+    loadPromotions();
+  }, []);
+
+  const handleCreate = async () => {
+    const value = Number(form.value);
+    if (!/^[A-Za-z0-9_-]{3,32}$/.test(form.code.trim()) || !(value > 0)) {
+      toast({
+        title: "Missing details",
+        description: "Use a code of 3-32 letters, digits, - or _ and a discount above zero.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (form.discountType !== "fixed" && value > 100) {
+      toast({ title: "Invalid discount", description: "A percentage can be at most 100.", variant: "destructive" });
+      return;
+    }
+
+    const session = await authService.getCurrentSession();
+    if (!session?.user) return;
+
+    setSaving(true);
+    const result = await promotionService.create(
+      {
+        code: form.code,
+        description: form.description.trim() || undefined,
+        discountType: form.discountType,
+        value,
+        maxDiscount: optionalNumber(form.maxDiscount),
+        expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : null,
+        usageLimit: optionalNumber(form.usageLimit),
+        perUserLimit: optionalNumber(form.perUserLimit),
+      },
+      session.user.id
+    );
+    setSaving(false);
+
+    if (!result.success) {
+      toast({ title: "Could not save promotion", description: result.error, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Promotion saved", description: `${result.data.code} can be used at checkout now.` });
+    setForm(EMPTY_FORM);
+    await loadPromotions();
+  };
+
+  const handleToggle = async (promotion: PromotionWithUsage, isActive: boolean) => {
+    const result = await promotionService.setActive(promotion.id, isActive);
+    if (!result.success) {
+      toast({ title: "Could not update promotion", description: result.error, variant: "destructive" });
+      return;
+    }
+    setPromotions((current) => current.map((p) => (p.id === promotion.id ? { ...p, is_active: isActive } : p)));
+  };
+
+  const isExpired = (promotion: PromotionWithUsage) =>
+    !!promotion.expires_at && new Date(promotion.expires_at) <= new Date();
+
+  return (
+    <ProtectedRoute allowedRoles={["admin"]}>
+      <div className="min-h-screen bg-gray-50">
+        <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 p-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Promotions</h1>
+              <p className="text-gray-600 dark:text-gray-400 mt-1">
+                Promo codes consumers can enter at checkout. Discounts come out of the platform fee, never the transporter&apos;s earnings.
+              </p>
+            </div>
+            <Button variant="outline" onClick={() => router.push("/admin/dashboard")}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid lg:grid-cols-3 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Tag className="w-5 h-5" />
+                New Promotion
+              </CardTitle>
+              <CardDescription>Leave a limit empty for no limit</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label htmlFor="promoCode">Code</Label>
+                <Input
+                  id="promoCode"
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  placeholder="e.g., SPRING20"
+                />
+              </div>
+              <div>
+                <Label htmlFor="promoDescription">Description</Label>
+                <Input
+                  id="promoDescription"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  placeholder="Internal note, e.g. spring newsletter"
+                />
+              </div>
+              <div>
+                <Label>Type</Label>
+                <Select
+                  value={form.discountType}
+                  onValueChange={(value) => setForm({ ...form, discountType: value as PromotionType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="promoValue">{form.discountType === "fixed" ? "Discount (€)" : "Discount (%)"}</Label>
+                  <Input
+                    id="promoValue"
+                    type="number"
+                    min={0}
+                    step={form.discountType === "fixed" ? "0.5" : "1"}
+                    value={form.value}
+                    onChange={(e) => setForm({ ...form, value: e.target.value })}
+                  />
+                </div>
+                {form.discountType !== "fixed" && (
+                  <div>
+                    <Label htmlFor="promoMax">Max discount (€)</Label>
+                    <Input
+                      id="promoMax"
+                      type="number"
+                      min={0}
+                      step="0.5"
+                      value={form.maxDiscount}
+                      onChange={(e) => setForm({ ...form, maxDiscount: e.target.value })}
+                    />
+                  </div>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="promoExpires">Expires</Label>
+                <Input
+                  id="promoExpires"
+                  type="datetime-local"
+                  value={form.expiresAt}
+                  onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="promoUsage">Total uses</Label>
+                  <Input
+                    id="promoUsage"
+                    type="number"
+                    min={1}
+                    value={form.usageLimit}
+                    onChange={(e) => setForm({ ...form, usageLimit: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="promoPerUser">Uses per consumer</Label>
+                  <Input
+                    id="promoPerUser"
+                    type="number"
+                    min={1}
+                    value={form.perUserLimit}
+                    onChange={(e) => setForm({ ...form, perUserLimit: e.target.value })}
+                  />
+                </div>
+              </div>
+              <Button onClick={handleCreate} disabled={saving} className="w-full">
+                <Save className="w-4 h-4 mr-2" />
+                Save Promotion
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Codes ({promotions.length})</CardTitle>
+              <CardDescription>
+                Uses of cancelled bookings don&apos;t count towards the limits
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Discount</TableHead>
+                    <TableHead>Used</TableHead>
+                    <TableHead>Per consumer</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead>Active</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {promotions.map((promotion) => (
+                    <TableRow key={promotion.id}>
+                      <TableCell>
+                        <p className="font-medium">{promotion.code}</p>
+                        {promotion.description && (
+                          <p className="text-xs text-muted-foreground">{promotion.description}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <p>{formatValue(promotion)}</p>
+                        <p className="text-xs text-muted-foreground">{TYPE_LABELS[promotion.discount_type]}</p>
+                      </TableCell>
+                      <TableCell>
+                        {promotion.redemptions}
+                        {promotion.usage_limit != null && ` / ${promotion.usage_limit}`}
+                      </TableCell>
+                      <TableCell>{promotion.per_user_limit ?? "Unlimited"}</TableCell>
+                      <TableCell>
+                        {promotion.expires_at ? format(new Date(promotion.expires_at), "d.M.yyyy HH:mm") : "Never"}
+                        {isExpired(promotion) && <Badge variant="secondary" className="ml-2">Expired</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={promotion.is_active}
+                          onCheckedChange={(checked) => handleToggle(promotion, checked)}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {promotions.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        No promotions yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
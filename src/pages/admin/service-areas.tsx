@@ -0,0 +1,323 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useRouter } from "next/router";
+import { GoogleMap, LoadScript, DrawingManager, Polygon, type Libraries } from "@react-google-maps/api";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, MapPin, Save, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { geometryToPaths, isAreaGeometry, pathToPolygon, type AreaGeometry, type LatLngLiteral } from "@/lib/geo";
+import { serviceAreaService, type ServiceAreaRow } from "@/services/serviceAreaService";
+
+// Must be a stable reference, LoadScript reloads when it changes
+const MAP_LIBRARIES: Libraries = ["drawing"];
+
+const mapContainerStyle = {
+  width: "100%",
+  height: "600px",
+  borderRadius: "8px",
+};
+
+const defaultCenter = {
+  lat: 60.2055,
+  lng: 24.8,
+};
+
+const pathOf = (polygon: google.maps.Polygon): LatLngLiteral[] =>
+  polygon.getPath().getArray().map((point) => ({ lat: point.lat(), lng: point.lng() }));
+
+export default function ServiceAreasAdmin() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [areas, setAreas] = useState<ServiceAreaRow[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draftPath, setDraftPath] = useState<LatLngLiteral[] | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [draftSurcharge, setDraftSurcharge] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const selectedPolygon = useRef<google.maps.Polygon | null>(null);
+
+  const loadAreas = async () => {
+    setAreas(await serviceAreaService.getAll());
+  };
+
+  useEffect(() => {
+    loadAreas();
+  }, []);
+
+  const handlePolygonComplete = useCallback((polygon: google.maps.Polygon) => {
+    setDraftPath(pathOf(polygon));
+    setSelectedId(null);
+    // The saved zone is re-rendered from the database; drop the drawing overlay
+    polygon.setMap(null);
+  }, []);
+
+  const handleCreate = async () => {
+    if (!draftPath || draftPath.length < 3 || !draftName.trim()) {
+      toast({ title: "Missing details", description: "Draw a zone and give it a name.", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const result = await serviceAreaService.create(draftName.trim(), pathToPolygon(draftPath), draftSurcharge);
+    setSaving(false);
+
+    if (!result.success) {
+      toast({ title: "Could not save zone", description: result.error, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Zone saved", description: `${draftName.trim()} was created inactive. Activate it when ready.` });
+    setDraftPath(null);
+    setDraftName("");
+    setDraftSurcharge(0);
+    await loadAreas();
+  };
+
+  const handleUpdate = async (
+    area: ServiceAreaRow,
+    updates: Parameters<typeof serviceAreaService.update>[1]
+  ) => {
+    const result = await serviceAreaService.update(area.id, updates);
+    if (!result.success) {
+      toast({ title: "Could not update zone", description: result.error, variant: "destructive" });
+      return;
+    }
+    setAreas((current) => current.map((a) => (a.id === area.id ? result.data : a)));
+  };
+
+  const handleSaveShape = async (area: ServiceAreaRow) => {
+    if (!selectedPolygon.current) return;
+    await handleUpdate(area, { geometry: pathToPolygon(pathOf(selectedPolygon.current)) });
+    toast({ title: "Shape saved", description: `${area.name} outline updated.` });
+  };
+
+  const handleDelete = async (area: ServiceAreaRow) => {
+    if (!window.confirm(`Delete the ${area.name} zone? Existing bookings keep their prices.`)) return;
+
+    const result = await serviceAreaService.remove(area.id);
+    if (!result.success) {
+      toast({ title: "Could not delete zone", description: result.error, variant: "destructive" });
+      return;
+    }
+    if (selectedId === area.id) setSelectedId(null);
+    await loadAreas();
+  };
+
+  const apiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || "";
+
+  return (
+    <ProtectedRoute allowedRoles={["admin"]}>
+      <div className="min-h-screen bg-gray-50">
+        <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 p-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Service Areas</h1>
+              <p className="text-gray-600 dark:text-gray-400 mt-1">
+                Bookings are accepted only when pickup and dropoff are inside an active zone
+              </p>
+            </div>
+            <Button variant="outline" onClick={() => router.push("/admin/dashboard")}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MapPin className="w-5 h-5" />
+                Map
+              </CardTitle>
+              <CardDescription>
+                Use the polygon tool to draw a new zone. Select a zone in the list to edit its outline.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!apiKey ? (
+                <div className="text-center py-8 text-gray-500">
+                  <p className="mb-2">Google Maps API key not configured</p>
+                  <p className="text-sm">
+                    Please add NEXT_PUBLIC_GOOGLE_MAPS_API_KEY to your environment variables
+                  </p>
+                </div>
+              ) : (
+                <LoadScript googleMapsApiKey={apiKey} libraries={MAP_LIBRARIES} onLoad={() => setIsLoaded(true)}>
+                  <GoogleMap
+                    mapContainerStyle={mapContainerStyle}
+                    center={defaultCenter}
+                    zoom={10}
+                    options={{ streetViewControl: false, mapTypeControl: false }}
+                  >
+                    {isLoaded && (
+                      <DrawingManager
+                        onPolygonComplete={handlePolygonComplete}
+                        options={{
+                          drawingControl: true,
+                          drawingControlOptions: {
+                            position: google.maps.ControlPosition.TOP_CENTER,
+                            drawingModes: [google.maps.drawing.OverlayType.POLYGON],
+                          },
+                          polygonOptions: { fillColor: "#f59e0b", strokeColor: "#d97706", fillOpacity: 0.3 },
+                        }}
+                      />
+                    )}
+
+                    {isLoaded && areas.filter((area) => isAreaGeometry(area.geojson)).map((area) => {
+                      const selected = area.id === selectedId;
+                      const color = area.is_active ? "#16a34a" : "#6b7280";
+                      return (
+                        <Polygon
+                          key={`${area.id}-${area.updated_at}-${selected}`}
+                          paths={geometryToPaths(area.geojson as unknown as AreaGeometry)}
+                          editable={selected}
+                          onClick={() => setSelectedId(area.id)}
+                          onLoad={(polygon) => {
+                            if (selected) selectedPolygon.current = polygon;
+                          }}
+                          options={{
+                            fillColor: color,
+                            strokeColor: selected ? "#2563eb" : color,
+                            strokeWeight: selected ? 3 : 1,
+                            fillOpacity: area.is_active ? 0.2 : 0.1,
+                          }}
+                        />
+                      );
+                    })}
+
+                    {isLoaded && draftPath && (
+                      <Polygon
+                        paths={draftPath}
+                        options={{ fillColor: "#f59e0b", strokeColor: "#d97706", fillOpacity: 0.3 }}
+                      />
+                    )}
+                  </GoogleMap>
+                </LoadScript>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            {draftPath && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>New Zone</CardTitle>
+                  <CardDescription>{draftPath.length} points drawn</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div>
+                    <Label htmlFor="zoneName">Name</Label>
+                    <Input
+                      id="zoneName"
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      placeholder="e.g., Sipoo"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="zoneSurcharge">Surcharge (€)</Label>
+                    <Input
+                      id="zoneSurcharge"
+                      type="number"
+                      min={0}
+                      step="0.5"
+                      value={draftSurcharge}
+                      onChange={(e) => setDraftSurcharge(Math.max(0, Number(e.target.value) || 0))}
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button onClick={handleCreate} disabled={saving}>
+                      <Save className="w-4 h-4 mr-2" />
+                      Save Zone
+                    </Button>
+                    <Button variant="outline" onClick={() => setDraftPath(null)}>
+                      <X className="w-4 h-4 mr-2" />
+                      Discard
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Zones ({areas.length})</CardTitle>
+                <CardDescription>
+                  Surcharges are added once per distinct zone on a trip
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Zone</TableHead>
+                      <TableHead>Surcharge</TableHead>
+                      <TableHead>Active</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {areas.map((area) => (
+                      <TableRow
+                        key={area.id}
+                        className={area.id === selectedId ? "bg-blue-50" : "cursor-pointer"}
+                        onClick={() => setSelectedId(area.id)}
+                      >
+                        <TableCell className="font-medium">
+                          {area.name}
+                          {!isAreaGeometry(area.geojson) && (
+                            <Badge variant="destructive" className="ml-2">Invalid shape</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            step="0.5"
+                            className="w-20"
+                            defaultValue={Number(area.surcharge)}
+                            onClick={(e) => e.stopPropagation()}
+                            onBlur={(e) => {
+                              const surcharge = Math.max(0, Number(e.target.value) || 0);
+                              if (surcharge !== Number(area.surcharge)) handleUpdate(area, { surcharge });
+                            }}
+                          />
+                        </TableCell>
+                        <TableCell onClick={(e) => e.stopPropagation()}>
+                          <Switch
+                            checked={area.is_active}
+                            onCheckedChange={(checked) => handleUpdate(area, { isActive: checked })}
+                          />
+                        </TableCell>
+                        <TableCell onClick={(e) => e.stopPropagation()}>
+                          <div className="flex gap-1">
+                            {area.id === selectedId && (
+                              <Button variant="ghost" size="sm" onClick={() => handleSaveShape(area)} title="Save outline">
+                                <Save className="w-4 h-4" />
+                              </Button>
+                            )}
+                            <Button variant="ghost" size="sm" onClick={() => handleDelete(area)} title="Delete zone">
+                              <Trash2 className="w-4 h-4 text-red-600" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
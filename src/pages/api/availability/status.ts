@@ -0,0 +1,36 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser } from "@/server/auth";
+import { SHIFT_ERROR_STATUS, ShiftError, shifts } from "@/server/shifts";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  try {
+    const { isOnline } = req.body;
+
+    if (typeof isOnline !== "boolean") {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    res.status(200).json(await shifts.setOnline(user.id, isOnline));
+  } catch (error) {
+    if (error instanceof ShiftError) {
+      return res.status(SHIFT_ERROR_STATUS[error.code]).json({ message: error.message, code: error.code });
+    }
+
+    console.error("Error updating online status:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Could not update your status"
+    });
+  }
+}
@@ -0,0 +1,51 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser } from "@/server/auth";
+import { cancellationPolicy, CancellationError, CANCELLATION_ERROR_STATUS } from "@/server/cancellationPolicy";
+import { bookingPayments } from "@/server/bookingPayments";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  try {
+    const { bookingId, reason, quote } = req.body;
+
+    if (!bookingId || !quote?.status || quote.fee == null || quote.transporterPenalty == null) {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    // Fee, refund and compensation are recomputed here; the client only confirms
+    // the quote it showed, and gets a 409 if that is no longer the one that applies
+    const settlement = await cancellationPolicy.cancel(bookingId, user.id, quote, reason);
+
+    // The booking stays cancelled even if the card can't be settled right away;
+    // the settle-cancellations cron retries what didn't go through
+    let refundError: string | undefined;
+    try {
+      await bookingPayments.settleCancellation(settlement, user.id);
+    } catch (error) {
+      console.error("Error settling cancelled booking payment:", error);
+      refundError = error instanceof Error ? error.message : "Refund failed";
+    }
+
+    res.status(200).json({ ...settlement, refundError });
+  } catch (error) {
+    if (error instanceof CancellationError) {
+      return res.status(CANCELLATION_ERROR_STATUS[error.code]).json({ message: error.message, code: error.code });
+    }
+
+    console.error("Error cancelling booking:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Failed to cancel booking"
+    });
+  }
+}
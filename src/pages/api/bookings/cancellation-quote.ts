@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser } from "@/server/auth";
+import { cancellationPolicy, CancellationError, CANCELLATION_ERROR_STATUS } from "@/server/cancellationPolicy";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  try {
+    const { bookingId } = req.body;
+
+    if (!bookingId) {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    const quote = await cancellationPolicy.quote(bookingId, user.id);
+    res.status(200).json(quote);
+  } catch (error) {
+    if (error instanceof CancellationError) {
+      return res.status(CANCELLATION_ERROR_STATUS[error.code]).json({ message: error.message, code: error.code });
+    }
+
+    console.error("Error calculating cancellation fee:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Could not calculate cancellation fee"
+    });
+  }
+}
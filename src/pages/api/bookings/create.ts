@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser } from "@/server/auth";
+import { bookingCreation, BookingCreationError, BOOKING_CREATION_ERROR_STATUS } from "@/server/bookingCreation";
+import { PricingError } from "@/server/pricingEngine";
+import { PROMOTION_ERROR_STATUS, PromotionError } from "@/server/promotions";
+import type { BookingFormData } from "@/services/bookingService";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  try {
+    const formData = req.body as BookingFormData;
+
+    if (!formData.pickupAddress || !formData.dropoffAddress || !formData.itemSize || !formData.itemType) {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    // Price is always recomputed on the server; nothing price-related is taken from the request body
+    const booking = await bookingCreation.create(user.id, formData);
+    res.status(200).json(booking);
+  } catch (error) {
+    if (error instanceof BookingCreationError) {
+      return res.status(BOOKING_CREATION_ERROR_STATUS[error.code]).json({ message: error.message, code: error.code });
+    }
+    if (error instanceof PricingError) {
+      return res.status(422).json({ message: error.message, code: error.code });
+    }
+    if (error instanceof PromotionError) {
+      return res.status(PROMOTION_ERROR_STATUS[error.code]).json({ message: error.message, code: error.code });
+    }
+
+    console.error("Error creating booking:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Failed to create booking"
+    });
+  }
+}
@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { isCronAuthorized } from "@/server/auth";
+import { scheduler } from "@/server/scheduler";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  if (!(await isCronAuthorized(req))) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  // Outside production ?now=<ISO time> runs the jobs as of that moment, for local testing
+  const now = process.env.NODE_ENV !== "production" && typeof req.query.now === "string"
+    ? new Date(req.query.now)
+    : new Date();
+
+  if (isNaN(now.getTime())) {
+    return res.status(400).json({ message: "Invalid now" });
+  }
+
+  try {
+    const result = await scheduler.run(now);
+    if (result.failed.length > 0) {
+      console.warn("Scheduler failed for some bookings:", result.failed);
+    }
+
+    res.status(200).json(result);
+  } catch (error) {
+    console.error("Error running scheduler:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Scheduler failed"
+    });
+  }
+}
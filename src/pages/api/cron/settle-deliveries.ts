@@ -0,0 +1,30 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { isCronAuthorized } from "@/server/auth";
+import { bookingPayments } from "@/server/bookingPayments";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  if (!(await isCronAuthorized(req))) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  try {
+    const result = await bookingPayments.settleDeliveries();
+    if (result.failed.length > 0) {
+      console.warn("Settling failed for some delivered bookings:", result.failed);
+    }
+
+    res.status(200).json(result);
+  } catch (error) {
+    console.error("Error settling delivered bookings:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Settling deliveries failed"
+    });
+  }
+}
@@ -0,0 +1,30 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { isCronAuthorized } from "@/server/auth";
+import { payoutBatches } from "@/server/payoutBatches";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  if (!(await isCronAuthorized(req))) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  try {
+    const result = await payoutBatches.run();
+    if (result.skipped.length > 0) {
+      console.warn("Payouts skipped:", result.skipped);
+    }
+
+    res.status(200).json(result);
+  } catch (error) {
+    console.error("Error running weekly payouts:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Payout batch failed"
+    });
+  }
+}
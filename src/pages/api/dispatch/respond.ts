@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser } from "@/server/auth";
+import { dispatch, DISPATCH_ERROR_STATUS, DispatchError } from "@/server/dispatch";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  try {
+    const { bookingId, response } = req.body;
+
+    if (!bookingId || (response !== "accept" && response !== "decline")) {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    await dispatch.respond(bookingId, user.id, response);
+    res.status(200).json({ success: true });
+  } catch (error) {
+    if (error instanceof DispatchError) {
+      return res.status(DISPATCH_ERROR_STATUS[error.code]).json({ message: error.message, code: error.code });
+    }
+
+    console.error("Error responding to job offer:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Could not answer the job offer"
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser } from "@/server/auth";
+import { geocoder, GeocodingError } from "@/server/geocoding";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  try {
+    const { query } = req.body;
+
+    if (typeof query !== "string") {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    const suggestions = await geocoder.suggest(query);
+
+    res.status(200).json({ suggestions });
+  } catch (error) {
+    if (error instanceof GeocodingError) {
+      return res.status(error.code === "QUOTA" ? 429 : 502).json({ message: error.message, code: error.code });
+    }
+
+    console.error("Error fetching address suggestions:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Address lookup failed"
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser } from "@/server/auth";
+import { invoices, InvoiceError, INVOICE_ERROR_STATUS } from "@/server/invoices";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  try {
+    const { bookingId } = req.body;
+
+    if (!bookingId) {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    // Issued on first download; later downloads get the same invoice and PDF
+    const download = await invoices.getForBooking(bookingId, user.id);
+    res.status(200).json(download);
+  } catch (error) {
+    if (error instanceof InvoiceError) {
+      return res.status(INVOICE_ERROR_STATUS[error.code]).json({ message: error.message, code: error.code });
+    }
+
+    console.error("Error getting invoice:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Could not create the invoice"
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser } from "@/server/auth";
+import { savedCards } from "@/server/savedCards";
+import { PaymentError, PAYMENT_ERROR_STATUS } from "@/server/paymentGateway";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  try {
+    const { savedCardId } = req.body;
+
+    if (!savedCardId) {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    await savedCards.remove(user.id, savedCardId);
+    res.status(200).json({ success: true });
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return res.status(PAYMENT_ERROR_STATUS[error.code]).json({ message: error.message, code: error.code });
+    }
+
+    console.error("Error deleting card:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Could not remove the card"
+    });
+  }
+}
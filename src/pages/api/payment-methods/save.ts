@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser } from "@/server/auth";
+import { savedCards } from "@/server/savedCards";
+import { PaymentError, PAYMENT_ERROR_STATUS } from "@/server/paymentGateway";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  try {
+    const { setupIntentId, cardholderName } = req.body;
+
+    if (!setupIntentId) {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    // Saved from what Stripe reports for the SetupIntent, never from card details in the request
+    const result = await savedCards.save(user.id, setupIntentId, cardholderName || "");
+    res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return res.status(PAYMENT_ERROR_STATUS[error.code]).json({ message: error.message, code: error.code });
+    }
+
+    console.error("Error saving card:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Could not save the card"
+    });
+  }
+}
@@ -0,0 +1,35 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser } from "@/server/auth";
+import { savedCards } from "@/server/savedCards";
+import { PaymentError, PAYMENT_ERROR_STATUS } from "@/server/paymentGateway";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  try {
+    const { paymentMethodId } = req.body || {};
+
+    // paymentMethodId only for the offline test card; real cards are confirmed with Stripe.js
+    const setup = await savedCards.startSetup(user.id, paymentMethodId || undefined);
+    res.status(200).json(setup);
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return res.status(PAYMENT_ERROR_STATUS[error.code]).json({ message: error.message, code: error.code });
+    }
+
+    console.error("Error starting card setup:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Could not start saving the card"
+    });
+  }
+}
@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser } from "@/server/auth";
+import { bookingPayments } from "@/server/bookingPayments";
+import { PaymentError, PAYMENT_ERROR_STATUS } from "@/server/paymentGateway";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  try {
+    const { bookingId } = req.body;
+
+    if (!bookingId) {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    // Reads the PaymentIntent back from Stripe after the client confirmed it
+    const authorization = await bookingPayments.confirm(bookingId, user.id);
+    res.status(200).json(authorization);
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return res.status(PAYMENT_ERROR_STATUS[error.code]).json({ message: error.message, code: error.code });
+    }
+
+    console.error("Error confirming payment:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Payment confirmation failed"
+    });
+  }
+}
@@ -1,4 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser } from "@/server/auth";
+import { bookingPayments } from "@/server/bookingPayments";
+import { PaymentError, PAYMENT_ERROR_STATUS } from "@/server/paymentGateway";
 
 export default async function handler(
   req: NextApiRequest,
@@ -8,35 +11,29 @@ export default async function handler(
     return res.status(405).json({ message: "Method not allowed" });
   }
 
+  const user = await getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
   try {
-    const { bookingId, amount, currency } = req.body;
+    const { bookingId, paymentMethodId, useWallet } = req.body;
 
-    if (!bookingId || !amount) {
+    if (!bookingId) {
       return res.status(400).json({ message: "Missing required fields" });
     }
 
-    // In production, initialize Stripe here
-    // const stripe = require('stripe')(process.env.STRIPE_SECRET_KEY);
-    // const paymentIntent = await stripe.paymentIntents.create({
-    //   amount,
-    //   currency: currency || 'eur',
-    //   metadata: { bookingId }
-    // });
-
-    // For MVP, return mock payment intent
-    const mockPaymentIntent = {
-      id: `pi_${Date.now()}_${Math.random().toString(36).substring(7)}`,
-      clientSecret: `pi_secret_${Math.random().toString(36).substring(7)}`,
-      amount,
-      currency: currency || "eur",
-      status: "requires_payment_method",
-    };
-
-    res.status(200).json(mockPaymentIntent);
+    // The amount comes from the booking's quoted total and the wallet balance, not from the client
+    const authorization = await bookingPayments.authorize(bookingId, user.id, paymentMethodId || undefined, useWallet === true);
+    res.status(200).json(authorization);
   } catch (error) {
+    if (error instanceof PaymentError) {
+      return res.status(PAYMENT_ERROR_STATUS[error.code]).json({ message: error.message, code: error.code });
+    }
+
     console.error("Error creating payment intent:", error);
     res.status(500).json({ 
       message: error instanceof Error ? error.message : "Payment initialization failed" 
     });
   }
-}
\ No newline at end of file
+}
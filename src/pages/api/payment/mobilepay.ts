@@ -1,4 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser } from "@/server/auth";
+import { bookingPayments } from "@/server/bookingPayments";
+import { PaymentError, PAYMENT_ERROR_STATUS } from "@/server/paymentGateway";
 
 export default async function handler(
   req: NextApiRequest,
@@ -8,34 +11,32 @@ export default async function handler(
     return res.status(405).json({ message: "Method not allowed" });
   }
 
+  const user = await getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
   try {
-    const { bookingId, amount, currency } = req.body;
+    const { bookingId, useWallet } = req.body;
 
-    if (!bookingId || !amount) {
+    if (!bookingId) {
       return res.status(400).json({ message: "Missing required fields" });
     }
 
-    // In production, initialize MobilePay here
-    // const mobilepay = require('mobilepay-sdk');
-    // const payment = await mobilepay.createPayment({
-    //   amount,
-    //   currency: currency || 'EUR',
-    //   reference: bookingId,
-    //   redirectUrl: `${process.env.NEXT_PUBLIC_SITE_URL}/payment/callback`
-    // });
-
-    // For MVP, return mock MobilePay payment
-    const mockMobilePayPayment = {
-      paymentId: `mp_${Date.now()}_${Math.random().toString(36).substring(7)}`,
-      redirectUrl: `https://mobilepay.fi/payment-mock?amount=${amount / 100}&ref=${bookingId}`,
-      amount,
-    };
+    // MobilePay sends the customer back here once they approve or abort in the app
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || `http://${req.headers.host}`;
+    const returnUrl = `${siteUrl.replace(/\/$/, "")}/payment/callback?bookingId=${encodeURIComponent(bookingId)}`;
 
-    res.status(200).json(mockMobilePayPayment);
+    const payment = await bookingPayments.startMobilePay(bookingId, user.id, returnUrl, useWallet === true);
+    res.status(200).json(payment);
   } catch (error) {
+    if (error instanceof PaymentError) {
+      return res.status(PAYMENT_ERROR_STATUS[error.code]).json({ message: error.message, code: error.code });
+    }
+
     console.error("Error creating MobilePay payment:", error);
     res.status(500).json({ 
       message: error instanceof Error ? error.message : "MobilePay initialization failed" 
     });
   }
-}
\ No newline at end of file
+}
@@ -1,4 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser } from "@/server/auth";
+import { bookingPayments } from "@/server/bookingPayments";
+import { PaymentError, PAYMENT_ERROR_STATUS } from "@/server/paymentGateway";
 
 export default async function handler(
   req: NextApiRequest,
@@ -8,30 +11,28 @@ export default async function handler(
     return res.status(405).json({ message: "Method not allowed" });
   }
 
+  const user = await getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
   try {
-    const { paymentIntentId, amount } = req.body;
+    const { bookingId, amount, reason, note, destination } = req.body;
 
-    if (!paymentIntentId || !amount) {
+    if (!bookingId || !amount || !reason) {
       return res.status(400).json({ message: "Missing required fields" });
     }
 
-    // In production, process Stripe refund here
-    // const stripe = require('stripe')(process.env.STRIPE_SECRET_KEY);
-    // const refund = await stripe.refunds.create({
-    //   payment_intent: paymentIntentId,
-    //   amount
-    // });
-
-    // For MVP, return mock success
-    res.status(200).json({ 
-      success: true,
-      refundId: `re_${Date.now()}`,
-      amount
-    });
+    const result = await bookingPayments.refund(bookingId, user.id, Number(amount), reason, note, destination || "original");
+    res.status(200).json(result);
   } catch (error) {
+    if (error instanceof PaymentError) {
+      return res.status(PAYMENT_ERROR_STATUS[error.code]).json({ message: error.message, code: error.code });
+    }
+
     console.error("Error processing refund:", error);
     res.status(500).json({ 
       message: error instanceof Error ? error.message : "Refund failed" 
     });
   }
-}
\ No newline at end of file
+}
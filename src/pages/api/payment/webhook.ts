@@ -0,0 +1,65 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { buffer } from "micro";
+import {
+  paymentWebhooks,
+  verifyMobilePayEvent,
+  verifyStripeEvent,
+  WebhookSignatureError,
+} from "@/server/paymentWebhooks";
+
+// Signatures are computed over the exact bytes sent, so the body must stay unparsed
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+const header = (req: NextApiRequest, name: string) => {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  try {
+    const rawBody = (await buffer(req)).toString("utf8");
+    const stripeSignature = header(req, "stripe-signature");
+
+    let result;
+    if (stripeSignature) {
+      result = await paymentWebhooks.handleStripeEvent(verifyStripeEvent(rawBody, stripeSignature));
+    } else if (header(req, "x-ms-content-sha256")) {
+      const event = verifyMobilePayEvent(
+        rawBody,
+        {
+          authorization: header(req, "authorization"),
+          date: header(req, "x-ms-date"),
+          contentHash: header(req, "x-ms-content-sha256"),
+          host: header(req, "host"),
+        },
+        req.url || "/api/payment/webhook"
+      );
+      result = await paymentWebhooks.handleMobilePayEvent(event);
+    } else {
+      return res.status(400).json({ message: "Unrecognised webhook sender" });
+    }
+
+    res.status(200).json({ received: true, duplicate: result.duplicate });
+  } catch (error) {
+    if (error instanceof WebhookSignatureError) {
+      return res.status(400).json({ message: error.message });
+    }
+
+    // A 5xx makes the provider redeliver; the stored event is retried then
+    console.error("Error processing payment webhook:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Webhook processing failed"
+    });
+  }
+}
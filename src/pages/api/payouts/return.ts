@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser } from "@/server/auth";
+import { payoutBatches } from "@/server/payoutBatches";
+import { PayoutError, PAYOUT_ERROR_STATUS } from "@/server/payoutLedger";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  try {
+    const { payoutId, reason } = req.body;
+
+    if (!payoutId || !reason) {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    const payout = await payoutBatches.returnPayout(payoutId, reason, user.id);
+    res.status(200).json(payout);
+  } catch (error) {
+    if (error instanceof PayoutError) {
+      return res.status(PAYOUT_ERROR_STATUS[error.code]).json({ message: error.message, code: error.code });
+    }
+
+    console.error("Error returning payout:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Failed to return payout"
+    });
+  }
+}
@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser } from "@/server/auth";
+import { payoutLedger } from "@/server/payoutLedger";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  try {
+    const summary = await payoutLedger.getTransporterPayouts(user.id);
+    res.status(200).json(summary);
+  } catch (error) {
+    console.error("Error loading payouts:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Failed to load payouts"
+    });
+  }
+}
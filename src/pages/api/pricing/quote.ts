@@ -0,0 +1,61 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser } from "@/server/auth";
+import { bookingExpiry } from "@/server/bookingExpiry";
+import { pricingEngine, PricingError } from "@/server/pricingEngine";
+import { PROMOTION_ERROR_STATUS, PromotionError, promotions } from "@/server/promotions";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  try {
+    const { pickupAddress, dropoffAddress, pickupPlace, dropoffPlace, additionalStops, itemSize, itemType, estimatedHours, extras, promoCode, rebookOf, prioritySurge } = req.body;
+
+    if (!pickupAddress || !dropoffAddress || !itemSize || !itemType) {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    const checkoutCode = promoCode ? await promotions.resolve(promoCode, user.id) : null;
+    const rebooking = await bookingExpiry.rebooking(rebookOf, user.id, prioritySurge !== false);
+
+    const quote = await pricingEngine.quoteTrip({
+      pickupAddress,
+      dropoffAddress,
+      pickupPlace,
+      dropoffPlace,
+      additionalStops,
+      itemSize,
+      itemType,
+      estimatedHours,
+      extras,
+      surgePercent: rebooking.surgePercent,
+      discount: checkoutCode?.kind === "promotion" ? checkoutCode.discount : undefined,
+    });
+
+    res.status(200).json({
+      ...quote,
+      referral: checkoutCode?.kind === "referral" ? checkoutCode.referral : undefined,
+    });
+  } catch (error) {
+    if (error instanceof PricingError) {
+      return res.status(422).json({ message: error.message, code: error.code });
+    }
+    if (error instanceof PromotionError) {
+      return res.status(PROMOTION_ERROR_STATUS[error.code]).json({ message: error.message, code: error.code });
+    }
+
+    console.error("Error calculating quote:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Price calculation failed"
+    });
+  }
+}
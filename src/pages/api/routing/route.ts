@@ -0,0 +1,43 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser } from "@/server/auth";
+import { routePlanner, RoutingError, type LatLng } from "@/server/routing";
+
+const isLatLng = (point: LatLng) =>
+  point && Number.isFinite(Number(point.lat)) && Number.isFinite(Number(point.lng));
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  try {
+    const { waypoints } = req.body;
+
+    if (!Array.isArray(waypoints) || waypoints.length < 2 || !waypoints.every(isLatLng)) {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    const route = await routePlanner.route(
+      waypoints.map((point: LatLng) => ({ lat: Number(point.lat), lng: Number(point.lng) }))
+    );
+
+    res.status(200).json(route);
+  } catch (error) {
+    if (error instanceof RoutingError) {
+      return res.status(502).json({ message: error.message });
+    }
+
+    console.error("Error calculating route:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Route calculation failed"
+    });
+  }
+}
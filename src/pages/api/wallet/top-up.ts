@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser } from "@/server/auth";
+import { PaymentError, PAYMENT_ERROR_STATUS } from "@/server/paymentGateway";
+import { wallet } from "@/server/wallet";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  try {
+    const { userId, amount, note } = req.body;
+
+    if (!userId || !amount) {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    const transaction = await wallet.topUp(userId, Number(amount), note || null, user.id);
+    res.status(200).json(transaction);
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return res.status(PAYMENT_ERROR_STATUS[error.code]).json({ message: error.message, code: error.code });
+    }
+
+    console.error("Error topping up wallet:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Wallet top-up failed"
+    });
+  }
+}
@@ -7,11 +7,15 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { bookingService } from "@/services/bookingService";
-import { geocodingService } from "@/services/geocodingService";
+import { bookingService, type BookingExtras, type PriceBreakdown, type ReferralOffer, type StopInput } from "@/services/bookingService";
 import { authService } from "@/services/authService";
+import { ITEM_TYPES, ITEM_TYPE_LABELS, type ItemType } from "@/lib/itemTypes";
 import { PaymentModal } from "@/components/PaymentModal";
+import { AddressAutocomplete } from "@/components/AddressAutocomplete";
+import { addressService, type ResolvedPlace, type SavedAddress } from "@/services/addressService";
 import {
   MapPin,
   Calendar,
@@ -28,7 +32,11 @@ import {
   X,
   Navigation,
   Sofa,
-  Tv
+  Tv,
+  Users,
+  Plus,
+  Trash2,
+  Tag
 } from "lucide-react";
 
 type DeliverySize = "small" | "medium" | "large";
@@ -75,6 +83,33 @@ const SIZE_OPTIONS = [
   }
 ];
 
+const DEFAULT_EXTRAS: BookingExtras = {
+  pickupFloor: 0,
+  pickupHasElevator: false,
+  dropoffFloor: 0,
+  dropoffHasElevator: false,
+  helperCount: 0,
+  needsAssembly: false,
+  packingMaterials: false,
+};
+
+const MAX_ADDITIONAL_STOPS = 4;
+
+// Stop between the pickup and the final dropoff; the id only keys the form rows
+type StopDraft = StopInput & { id: number };
+
+// Headlines for the address lookup failures returned by the pricing API
+const GEOCODING_ERROR_TITLES: Record<string, string> = {
+  ZERO_RESULTS: "Address not found",
+  OUT_OF_AREA: "Address outside our area",
+  QUOTA: "Address lookup busy",
+  DENIED: "Address lookup unavailable",
+  UNAVAILABLE: "Address lookup unavailable",
+};
+
+// Error codes the pricing API returns for a promo or referral code it won't accept
+const PROMO_ERROR_CODES = new Set(["NOT_FOUND", "INACTIVE", "EXPIRED", "USED_UP", "USER_LIMIT", "FIRST_RIDE_ONLY", "NOT_ALLOWED"]);
+
 export default function BookMove() {
   const router = useRouter();
   const { toast } = useToast();
@@ -85,95 +120,178 @@ export default function BookMove() {
   // Form state
   const [pickupAddress, setPickupAddress] = useState("");
   const [dropoffAddress, setDropoffAddress] = useState("");
+  const [pickupPlace, setPickupPlace] = useState<ResolvedPlace | null>(null);
+  const [dropoffPlace, setDropoffPlace] = useState<ResolvedPlace | null>(null);
+  const [savedAddresses, setSavedAddresses] = useState<SavedAddress[]>([]);
+  const [stops, setStops] = useState<StopDraft[]>([]);
+  const nextStopId = useRef(0);
   const [deliverySize, setDeliverySize] = useState<DeliverySize>("medium");
+  const [itemType, setItemType] = useState<ItemType | null>(null);
+  const [estimatedHours, setEstimatedHours] = useState(2);
   const [itemDescription, setItemDescription] = useState("");
   const [specialInstructions, setSpecialInstructions] = useState("");
   const [scheduledDate, setScheduledDate] = useState("");
   const [scheduledTime, setScheduledTime] = useState("");
   const [useAsap, setUseAsap] = useState(false);
   const [photos, setPhotos] = useState<string[]>([]);
+  const [extras, setExtras] = useState<BookingExtras>(DEFAULT_EXTRAS);
 
   // Price calculation
   const [estimatedPrice, setEstimatedPrice] = useState<number | null>(null);
   const [distance, setDistance] = useState<number | null>(null);
+  const [priceBreakdown, setPriceBreakdown] = useState<PriceBreakdown | null>(null);
+  const [quoteError, setQuoteError] = useState<{ message: string; code?: string } | null>(null);
+
+  // Promo or referral code; only an applied code is sent with the quote
+  const [promoInput, setPromoInput] = useState("");
+  const [promoCode, setPromoCode] = useState("");
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [referral, setReferral] = useState<ReferralOffer | null>(null);
+
+  // Rebooking an expired booking (?rebook=<id>); the priority surcharge can be declined
+  const [rebookOf, setRebookOf] = useState<string | null>(null);
+  const [prioritySurge, setPrioritySurge] = useState(true);
 
   // Payment state
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [createdBookingId, setCreatedBookingId] = useState<string | null>(null);
+  const [bookingDiscount, setBookingDiscount] = useState(0);
 
   useEffect(() => {
     fetchUser();
   }, []);
 
+  useEffect(() => {
+    if (router.isReady && typeof router.query.rebook === "string") {
+      prefillRebooking(router.query.rebook);
+    }
+  }, [router.isReady, router.query.rebook]);
+
   const fetchUser = async () => {
     const session = await authService.getCurrentSession();
     if (session?.user) {
       setUserId(session.user.id);
       setUser(session.user);
+      setSavedAddresses(await addressService.getSavedAddresses(session.user.id));
+    }
+  };
+
+  // Fill the form from an expired booking so it can be rebooked with one tap
+  const prefillRebooking = async (bookingId: string) => {
+    const booking = await bookingService.getBookingById(bookingId);
+    if (!booking || booking.status !== "expired") {
+      return;
+    }
+
+    // The first and last stops are the pickup and final dropoff
+    const bookingStops = await bookingService.getBookingStops(bookingId);
+    const between = bookingStops.slice(1, -1).map((stop, index) => ({
+      id: index + 1,
+      type: stop.stop_type,
+      address: stop.address,
+      contactName: stop.contact_name || undefined,
+      contactPhone: stop.contact_phone || undefined,
+      instructions: stop.instructions || undefined,
+    }));
+    nextStopId.current = between.length;
+
+    setRebookOf(booking.id);
+    setPickupAddress(booking.pickup_address);
+    setDropoffAddress(booking.dropoff_address);
+    setStops(between);
+    setDeliverySize(booking.item_size);
+    setItemType(booking.item_type);
+    if (booking.estimated_hours) {
+      setEstimatedHours(Number(booking.estimated_hours));
     }
+    setItemDescription(booking.item_description || "");
+    setSpecialInstructions(booking.special_instructions || "");
+    setPhotos(booking.item_photos || []);
+    setExtras({
+      pickupFloor: booking.pickup_floor,
+      pickupHasElevator: booking.pickup_has_elevator,
+      dropoffFloor: booking.dropoff_floor,
+      dropoffHasElevator: booking.dropoff_has_elevator,
+      helperCount: booking.helper_count,
+      needsAssembly: booking.needs_assembly,
+      packingMaterials: booking.packing_materials,
+    });
+    setUseAsap(true);
   };
 
-  const calculatePriceFromDistance = (distanceKm: number, size: DeliverySize) => {
-    const sizeMultipliers = {
-      small: 1.0,
-      medium: 1.5,
-      large: 2.0
-    };
+  const addStop = () => {
+    nextStopId.current += 1;
+    setStops((current) => [...current, { id: nextStopId.current, type: "dropoff", address: "" }]);
+  };
 
-    const basePrice = 25 * sizeMultipliers[size];
-    const distancePrice = distanceKm * 2; // 2€ per km
-    return Math.round((basePrice + distancePrice) * 100) / 100;
+  const updateStop = (id: number, changes: Partial<StopInput>) => {
+    setStops((current) => current.map((stop) => (stop.id === id ? { ...stop, ...changes } : stop)));
   };
 
+  const removeStop = (id: number) => {
+    setStops((current) => current.filter((stop) => stop.id !== id));
+  };
+
+  // Only stops with an address are sent; empty rows are still being filled in
+  const additionalStops = (): StopInput[] =>
+    stops
+      .filter((stop) => stop.address.trim())
+      .map((stop) => ({
+        type: stop.type,
+        address: stop.address,
+        place: stop.place,
+        contactName: stop.contactName,
+        contactPhone: stop.contactPhone,
+        instructions: stop.instructions,
+      }));
+
   const calculatePrice = async () => {
-    if (!pickupAddress || !dropoffAddress) {
+    if (!pickupAddress || !dropoffAddress || !itemType) {
       setEstimatedPrice(null);
       setDistance(null);
+      setQuoteError(null);
       return;
     }
 
-    try {
-      console.log("🔍 Calculating price for:", { pickupAddress, dropoffAddress });
-
-      const pickupCoords = await geocodingService.geocodeAddress(pickupAddress);
-      const dropoffCoords = await geocodingService.geocodeAddress(dropoffAddress);
+    console.log("🔍 Calculating price for:", { pickupAddress, dropoffAddress });
+
+    // Same server-side engine that prices the booking, so the quote always matches
+    const result = await bookingService.getQuote({
+      pickupAddress,
+      dropoffAddress,
+      pickupPlace: pickupPlace || undefined,
+      dropoffPlace: dropoffPlace || undefined,
+      additionalStops: additionalStops(),
+      itemSize: deliverySize,
+      itemType,
+      estimatedHours: itemType === "home_move" ? estimatedHours : undefined,
+      extras,
+      promoCode: promoCode || undefined,
+      rebookOf: rebookOf || undefined,
+      prioritySurge,
+    });
 
-      if (!pickupCoords || !dropoffCoords) {
-        console.log("⚠️ Could not geocode addresses - will retry on submit");
-        setEstimatedPrice(null);
-        setDistance(null);
+    if (!result.success || !result.data) {
+      if (result.code && PROMO_ERROR_CODES.has(result.code)) {
+        // Price the move without the code; the recalculation runs when it is cleared
+        setPromoError(result.error);
+        setPromoCode("");
         return;
       }
-
-      console.log("✅ Coordinates:", { pickupCoords, dropoffCoords });
-
-      const calculatedDistance = geocodingService.calculateDistance(
-        pickupCoords.lat,
-        pickupCoords.lng,
-        dropoffCoords.lat,
-        dropoffCoords.lng
-      );
-
-      setDistance(calculatedDistance);
-
-      // Size-based pricing
-      const sizeMultipliers = {
-        small: 1.0,
-        medium: 1.5,
-        large: 2.0
-      };
-
-      const basePrice = 25 * sizeMultipliers[deliverySize];
-      const distancePrice = calculatedDistance * 2;
-      const total = basePrice + distancePrice;
-
-      setEstimatedPrice(total);
-      console.log("💰 Price calculated:", { distance: calculatedDistance, price: total });
-    } catch (error) {
-      console.log("⚠️ Price calculation failed - will retry on submit:", error);
+      console.log("⚠️ Price calculation failed - will retry on submit:", result.error);
       setEstimatedPrice(null);
       setDistance(null);
+      setQuoteError(result.code ? { message: result.error, code: result.code } : null);
+      return;
     }
+
+    setQuoteError(null);
+
+    setDistance(result.data.breakdown.distanceKm);
+    setEstimatedPrice(result.data.breakdown.totalPrice);
+    setPriceBreakdown(result.data.breakdown);
+    setReferral(result.data.referral || null);
+    console.log("💰 Price calculated:", result.data.breakdown);
   };
 
   useEffect(() => {
@@ -181,7 +299,19 @@ export default function BookMove() {
       calculatePrice();
     }, 500);
     return () => clearTimeout(timer);
-  }, [pickupAddress, dropoffAddress, deliverySize]);
+  }, [pickupAddress, dropoffAddress, pickupPlace, dropoffPlace, stops, deliverySize, itemType, estimatedHours, extras, promoCode, rebookOf, prioritySurge]);
+
+  const applyPromoCode = () => {
+    setPromoError(null);
+    setPromoCode(promoInput.trim().toUpperCase());
+  };
+
+  const removePromoCode = () => {
+    setPromoInput("");
+    setPromoCode("");
+    setPromoError(null);
+    setReferral(null);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -206,114 +336,53 @@ export default function BookMove() {
       });
 
       console.log("🚀 Starting booking creation...");
-      console.log("📍 Geocoding pickup address:", pickupAddress);
-      console.log("📍 Geocoding dropoff address:", dropoffAddress);
-
-      // Validate and geocode pickup address with retry
-      let pickupCoords = null;
-      let retries = 2;
-      
-      while (retries > 0 && !pickupCoords) {
-        pickupCoords = await geocodingService.geocodeAddress(pickupAddress);
-        if (!pickupCoords) {
-          retries--;
-          if (retries > 0) {
-            console.log(`⏳ Retrying pickup geocoding... (${retries} attempts left)`);
-            await new Promise(resolve => setTimeout(resolve, 1000));
-          }
-        }
-      }
-
-      if (!pickupCoords) {
-        toast({
-          title: "Pickup Address Not Found",
-          description: `Could not locate "${pickupAddress}". Try: "Mannerheimintie 1, Helsinki" or "Kamppi, Helsinki"`,
-          variant: "destructive"
-        });
-        setLoading(false);
-        return;
-      }
-
-      console.log("✅ Pickup coordinates:", pickupCoords);
-
-      // Validate and geocode dropoff address with retry
-      let dropoffCoords = null;
-      retries = 2;
-      
-      while (retries > 0 && !dropoffCoords) {
-        dropoffCoords = await geocodingService.geocodeAddress(dropoffAddress);
-        if (!dropoffCoords) {
-          retries--;
-          if (retries > 0) {
-            console.log(`⏳ Retrying dropoff geocoding... (${retries} attempts left)`);
-            await new Promise(resolve => setTimeout(resolve, 1000));
-          }
-        }
-      }
-
-      if (!dropoffCoords) {
-        toast({
-          title: "Dropoff Address Not Found",
-          description: `Could not locate "${dropoffAddress}". Try: "Kallio, Helsinki" or "Aleksanterinkatu 52, Helsinki"`,
-          variant: "destructive"
-        });
-        setLoading(false);
-        return;
-      }
-
-      console.log("✅ Dropoff coordinates:", dropoffCoords);
-
-      // Calculate distance and price
-      const calculatedDistance = geocodingService.calculateDistance(
-        pickupCoords.lat,
-        pickupCoords.lng,
-        dropoffCoords.lat,
-        dropoffCoords.lng
-      );
-
-      const sizeMultipliers = {
-        small: 1.0,
-        medium: 1.5,
-        large: 2.0
-      };
 
-      const basePrice = 25 * sizeMultipliers[deliverySize];
-      const distancePrice = calculatedDistance * 2;
-      const total = basePrice + distancePrice;
-
-      console.log("📊 Distance:", calculatedDistance, "km");
-      console.log("💰 Price:", total, "€");
-
-      // Prepare scheduled time
+      // Prepare scheduled time: picked in the consumer's own time zone, sent in UTC
       let scheduledAt: string | undefined;
       if (!useAsap && scheduledDate && scheduledTime) {
-        scheduledAt = `${scheduledDate}T${scheduledTime}:00`;
+        scheduledAt = new Date(`${scheduledDate}T${scheduledTime}:00`).toISOString();
       }
 
-      console.log("📝 Creating booking with data:", {
+      // Picked suggestions and saved addresses carry signed coordinates; anything typed is geocoded on the server
+      const result = await bookingService.createBooking({
         pickupAddress,
-        pickupCoords,
         dropoffAddress,
-        dropoffCoords,
-        deliverySize,
-        scheduledAt
-      });
-
-      const result = await bookingService.createBooking(userId, {
-        pickupAddress,
-        pickupLat: pickupCoords.lat,
-        pickupLng: pickupCoords.lng,
-        dropoffAddress,
-        dropoffLat: dropoffCoords.lat,
-        dropoffLng: dropoffCoords.lng,
+        pickupPlace: pickupPlace || undefined,
+        dropoffPlace: dropoffPlace || undefined,
+        additionalStops: additionalStops(),
         itemSize: deliverySize,
+        itemType,
+        estimatedHours: itemType === "home_move" ? estimatedHours : undefined,
         itemDescription: itemDescription || undefined,
         specialInstructions: specialInstructions || undefined,
         scheduledFor: scheduledAt,
-        itemPhotos: photos.length > 0 ? photos : undefined
+        itemPhotos: photos.length > 0 ? photos : undefined,
+        extras,
+        promoCode: promoCode || undefined,
+        rebookOf: rebookOf || undefined,
+        prioritySurge
       });
 
       if (!result.success || !result.data) {
+        if (result.code && PROMO_ERROR_CODES.has(result.code)) {
+          setPromoError(result.error);
+          setPromoCode("");
+          toast({
+            title: "Code could not be used",
+            description: `${result.error} Check the new price and book again.`,
+            variant: "destructive"
+          });
+          return;
+        }
+        if (result.code) {
+          setQuoteError({ message: result.error, code: result.code });
+          toast({
+            title: GEOCODING_ERROR_TITLES[result.code] || "Booking Failed",
+            description: result.error,
+            variant: "destructive"
+          });
+          return;
+        }
         throw new Error(result.error || "Failed to create booking");
       }
 
@@ -321,7 +390,8 @@ export default function BookMove() {
 
       // Store booking ID and show payment modal
       setCreatedBookingId(result.data.id);
-      setEstimatedPrice(total);
+      setEstimatedPrice(result.data.total_price);
+      setBookingDiscount(Number(result.data.discount_amount) || 0);
       setShowPaymentModal(true);
 
       toast({
@@ -353,15 +423,22 @@ export default function BookMove() {
     if (window.confirm("Are you sure you want to discard this booking? All fields will be cleared.")) {
       setPickupAddress("");
       setDropoffAddress("");
+      setPickupPlace(null);
+      setDropoffPlace(null);
+      setStops([]);
       setDeliverySize("medium");
+      setItemType(null);
+      setEstimatedHours(2);
       setItemDescription("");
       setSpecialInstructions("");
       setScheduledDate("");
       setScheduledTime("");
       setUseAsap(false);
       setPhotos([]);
+      setExtras(DEFAULT_EXTRAS);
       setEstimatedPrice(null);
       setDistance(null);
+      setQuoteError(null);
     }
   };
 
@@ -382,15 +459,22 @@ export default function BookMove() {
     // Reset all fields
     setPickupAddress("");
     setDropoffAddress("");
+    setPickupPlace(null);
+    setDropoffPlace(null);
+    setStops([]);
     setDeliverySize("medium");
+    setItemType(null);
+    setEstimatedHours(2);
     setItemDescription("");
     setSpecialInstructions("");
     setScheduledDate("");
     setScheduledTime("");
     setUseAsap(false);
     setPhotos([]);
+    setExtras(DEFAULT_EXTRAS);
     setEstimatedPrice(null);
     setDistance(null);
+    setQuoteError(null);
     
     toast({
       title: "Form Cleared",
@@ -420,7 +504,63 @@ export default function BookMove() {
             <p className="text-gray-600">Tell us what you need moved and we'll find you a transporter</p>
           </div>
 
+          {rebookOf && (
+            <div className="mb-6 rounded-lg border border-orange-200 bg-orange-50 p-4 text-sm text-orange-800">
+              Nobody accepted your earlier booking in time, so we've filled in its details. Check them and book again.
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-6">
+            {/* Item Type Selection */}
+            <Card className="p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <Boxes className="h-5 w-5 text-navy-900" />
+                <h2 className="text-xl font-semibold">What are you moving?</h2>
+                <span className="text-red-500">*</span>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {ITEM_TYPES.map((type) => (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => setItemType(type)}
+                    className={`px-4 py-2 rounded-full border-2 text-sm font-medium transition-all ${
+                      itemType === type
+                        ? "border-amber-500 bg-amber-50 text-amber-900"
+                        : "border-gray-200 text-gray-700 hover:border-gray-300"
+                    }`}
+                  >
+                    {ITEM_TYPE_LABELS[type]}
+                  </button>
+                ))}
+              </div>
+
+              {itemType === "fragile" && (
+                <p className="text-sm text-gray-500 mt-3">
+                  Fragile items are handled with extra care and include a handling surcharge.
+                </p>
+              )}
+
+              {itemType === "home_move" && (
+                <div className="mt-4 max-w-xs">
+                  <Label htmlFor="estimatedHours">Estimated hours</Label>
+                  <Input
+                    id="estimatedHours"
+                    type="number"
+                    min={1}
+                    max={12}
+                    step={0.5}
+                    value={estimatedHours}
+                    onChange={(e) => setEstimatedHours(Number(e.target.value) || 0)}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Home moves are priced by the hour (billed in half hours, minimum applies)
+                  </p>
+                </div>
+              )}
+            </Card>
+
             {/* Delivery Size Selection */}
             <Card className="p-6">
               <div className="flex items-center gap-2 mb-4">
@@ -538,24 +678,104 @@ export default function BookMove() {
               <div className="space-y-4">
                 <div>
                   <Label htmlFor="pickup">Pickup Address</Label>
-                  <Input
+                  <AddressAutocomplete
                     id="pickup"
                     value={pickupAddress}
-                    onChange={(e) => setPickupAddress(e.target.value)}
+                    onChange={(value) => {
+                      setPickupAddress(value);
+                      setPickupPlace(null);
+                    }}
+                    onSelect={(place) => {
+                      setPickupAddress(place.address);
+                      setPickupPlace(place);
+                    }}
+                    savedAddresses={savedAddresses}
                     placeholder="e.g., Mannerheimintie 1 or Keskusta, Helsinki"
                     required
                   />
                   <p className="text-xs text-muted-foreground mt-1">
-                    💡 Tip: Add "Helsinki" for best results (e.g., "Kamppi, Helsinki")
+                    💡 Tip: Pick a suggestion or one of your saved addresses for exact pricing
                   </p>
                 </div>
 
+                {stops.map((stop, index) => (
+                  <div key={stop.id} className="p-4 rounded-lg border border-gray-200 space-y-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <Label htmlFor={`stop-${stop.id}`}>Stop {index + 2}</Label>
+                      <div className="flex items-center gap-2">
+                        <Select
+                          value={stop.type}
+                          onValueChange={(value) => updateStop(stop.id, { type: value as StopInput["type"] })}
+                        >
+                          <SelectTrigger className="w-32 h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="pickup">Pickup</SelectItem>
+                            <SelectItem value="dropoff">Dropoff</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeStop(stop.id)}
+                          title="Remove stop"
+                        >
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </div>
+                    <AddressAutocomplete
+                      id={`stop-${stop.id}`}
+                      value={stop.address}
+                      onChange={(value) => updateStop(stop.id, { address: value, place: undefined })}
+                      onSelect={(place) => updateStop(stop.id, { address: place.address, place })}
+                      savedAddresses={savedAddresses}
+                      placeholder="Stop address"
+                    />
+                    <div className="grid grid-cols-2 gap-3">
+                      <Input
+                        value={stop.contactName || ""}
+                        onChange={(e) => updateStop(stop.id, { contactName: e.target.value })}
+                        placeholder="Contact name"
+                      />
+                      <Input
+                        type="tel"
+                        value={stop.contactPhone || ""}
+                        onChange={(e) => updateStop(stop.id, { contactPhone: e.target.value })}
+                        placeholder="Contact phone"
+                      />
+                    </div>
+                    <Input
+                      value={stop.instructions || ""}
+                      onChange={(e) => updateStop(stop.id, { instructions: e.target.value })}
+                      placeholder="Instructions for the driver (door code, floor...)"
+                    />
+                  </div>
+                ))}
+
+                {stops.length < MAX_ADDITIONAL_STOPS && (
+                  <Button type="button" variant="outline" size="sm" onClick={addStop}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add stop
+                  </Button>
+                )}
+
                 <div>
                   <Label htmlFor="dropoff">Dropoff Address</Label>
-                  <Input
+                  <AddressAutocomplete
                     id="dropoff"
                     value={dropoffAddress}
-                    onChange={(e) => setDropoffAddress(e.target.value)}
+                    onChange={(value) => {
+                      setDropoffAddress(value);
+                      setDropoffPlace(null);
+                    }}
+                    onSelect={(place) => {
+                      setDropoffAddress(place.address);
+                      setDropoffPlace(place);
+                    }}
+                    savedAddresses={savedAddresses}
                     placeholder="e.g., Kallio, Helsinki or Esplanadi 1"
                     required
                   />
@@ -565,15 +785,210 @@ export default function BookMove() {
                 </div>
               </div>
 
+              {quoteError && (
+                <div
+                  className={`mt-4 p-3 rounded-lg border text-sm ${
+                    quoteError.code === "ZERO_RESULTS" || quoteError.code === "OUT_OF_AREA"
+                      ? "bg-amber-50 border-amber-200 text-amber-800"
+                      : "bg-red-50 border-red-200 text-red-800"
+                  }`}
+                >
+                  <p className="font-medium">{GEOCODING_ERROR_TITLES[quoteError.code] || "Could not price this move"}</p>
+                  <p>{quoteError.message}</p>
+                </div>
+              )}
+
               {/* Distance & Price Estimate */}
               {distance !== null && estimatedPrice !== null && (
                 <div className="mt-4 p-4 bg-navy-900/5 rounded-lg border border-navy-900/20">
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="text-sm text-gray-600">
+                      <Navigation className="h-4 w-4 inline mr-1" />
+                      {distance.toFixed(1)} km
+                    </span>
+                    <span className="text-lg font-bold text-gray-900">
+                      Estimated €{estimatedPrice.toFixed(2)}
+                    </span>
+                  </div>
+                  {priceBreakdown && (priceBreakdown.billedHours || priceBreakdown.itemTypeSurcharge > 0 || priceBreakdown.serviceAreaSurcharge > 0 || priceBreakdown.extras.length > 0 || priceBreakdown.surgeAmount > 0 || priceBreakdown.discount) && (
+                    <ul className="mb-2 space-y-1 text-sm text-gray-600">
+                      {priceBreakdown.billedHours && (
+                        <li className="flex justify-between">
+                          <span>Labour ({priceBreakdown.billedHours} h × €{priceBreakdown.hourlyRate?.toFixed(2)})</span>
+                          <span>€{priceBreakdown.basePrice.toFixed(2)}</span>
+                        </li>
+                      )}
+                      {priceBreakdown.itemTypeSurcharge > 0 && itemType && (
+                        <li className="flex justify-between">
+                          <span>{ITEM_TYPE_LABELS[itemType]} handling</span>
+                          <span>€{priceBreakdown.itemTypeSurcharge.toFixed(2)}</span>
+                        </li>
+                      )}
+                      {priceBreakdown.serviceAreaSurcharge > 0 && (
+                        <li className="flex justify-between">
+                          <span>Zone surcharge</span>
+                          <span>€{priceBreakdown.serviceAreaSurcharge.toFixed(2)}</span>
+                        </li>
+                      )}
+                      {priceBreakdown.extras.map((item) => (
+                        <li key={item.code} className="flex justify-between">
+                          <span>{item.label}{item.quantity > 1 ? ` × ${item.quantity}` : ""}</span>
+                          <span>€{item.amount.toFixed(2)}</span>
+                        </li>
+                      ))}
+                      {priceBreakdown.surgeAmount > 0 && (
+                        <li className="flex justify-between">
+                          <span>
+                            Priority surcharge (+{priceBreakdown.surgePercent}%){" "}
+                            <button type="button" className="underline" onClick={() => setPrioritySurge(false)}>
+                              Remove
+                            </button>
+                          </span>
+                          <span>€{priceBreakdown.surgeAmount.toFixed(2)}</span>
+                        </li>
+                      )}
+                      {priceBreakdown.discount && (
+                        <li className="flex justify-between text-green-700">
+                          <span>{priceBreakdown.discount.label}</span>
+                          <span>-€{priceBreakdown.discount.amount.toFixed(2)}</span>
+                        </li>
+                      )}
+                    </ul>
+                  )}
+                  {referral && (
+                    <p className="mb-2 text-sm text-green-700">
+                      🎁 {referral.referrerName || "Your friend"} invited you: you both get €{referral.reward.toFixed(2)} wallet credit once your first move is delivered.
+                    </p>
+                  )}
                   <p className="text-sm text-muted-foreground">
                     💡 Tip: Select the closest match. You can add more details
                     in the notes.
                   </p>
                 </div>
               )}
+
+              {/* Promo or referral code */}
+              <div className="mt-4">
+                <Label htmlFor="promoCode">Promo or referral code</Label>
+                <div className="flex gap-2 mt-1">
+                  <Input
+                    id="promoCode"
+                    value={promoInput}
+                    onChange={(e) => setPromoInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        applyPromoCode();
+                      }
+                    }}
+                    placeholder="e.g., WELCOME10"
+                    className="uppercase"
+                    disabled={!!promoCode}
+                  />
+                  {promoCode ? (
+                    <Button type="button" variant="outline" onClick={removePromoCode}>
+                      <X className="h-4 w-4 mr-1" />
+                      Remove
+                    </Button>
+                  ) : (
+                    <Button type="button" variant="outline" onClick={applyPromoCode} disabled={!promoInput.trim()}>
+                      <Tag className="h-4 w-4 mr-1" />
+                      Apply
+                    </Button>
+                  )}
+                </div>
+                {promoError && <p className="text-sm text-red-600 mt-1">{promoError}</p>}
+                {promoCode && !pickupAddress && (
+                  <p className="text-xs text-muted-foreground mt-1">The code is checked when your move is priced</p>
+                )}
+              </div>
+            </Card>
+
+            {/* Extras */}
+            <Card className="p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <Users className="h-5 w-5 text-navy-900" />
+                <h2 className="text-xl font-semibold">Extra Services</h2>
+                <span className="text-gray-400 text-sm">(Optional)</span>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="pickupFloor">Pickup floor</Label>
+                  <Input
+                    id="pickupFloor"
+                    type="number"
+                    min={0}
+                    max={30}
+                    value={extras.pickupFloor}
+                    onChange={(e) => setExtras({ ...extras, pickupFloor: Number(e.target.value) || 0 })}
+                  />
+                  <div className="flex items-center gap-2 mt-2">
+                    <Checkbox
+                      id="pickupElevator"
+                      checked={extras.pickupHasElevator}
+                      onCheckedChange={(checked) => setExtras({ ...extras, pickupHasElevator: checked === true })}
+                    />
+                    <Label htmlFor="pickupElevator" className="text-sm font-normal">Elevator available</Label>
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor="dropoffFloor">Dropoff floor</Label>
+                  <Input
+                    id="dropoffFloor"
+                    type="number"
+                    min={0}
+                    max={30}
+                    value={extras.dropoffFloor}
+                    onChange={(e) => setExtras({ ...extras, dropoffFloor: Number(e.target.value) || 0 })}
+                  />
+                  <div className="flex items-center gap-2 mt-2">
+                    <Checkbox
+                      id="dropoffElevator"
+                      checked={extras.dropoffHasElevator}
+                      onCheckedChange={(checked) => setExtras({ ...extras, dropoffHasElevator: checked === true })}
+                    />
+                    <Label htmlFor="dropoffElevator" className="text-sm font-normal">Elevator available</Label>
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor="helperCount">Additional helpers</Label>
+                  <Input
+                    id="helperCount"
+                    type="number"
+                    min={0}
+                    max={3}
+                    value={extras.helperCount}
+                    onChange={(e) => setExtras({ ...extras, helperCount: Number(e.target.value) || 0 })}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">On top of the driver (max 3)</p>
+                </div>
+
+                <div className="space-y-3 md:pt-6">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="needsAssembly"
+                      checked={extras.needsAssembly}
+                      onCheckedChange={(checked) => setExtras({ ...extras, needsAssembly: checked === true })}
+                    />
+                    <Label htmlFor="needsAssembly" className="text-sm font-normal">Furniture assembly / disassembly</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="packingMaterials"
+                      checked={extras.packingMaterials}
+                      onCheckedChange={(checked) => setExtras({ ...extras, packingMaterials: checked === true })}
+                    />
+                    <Label htmlFor="packingMaterials" className="text-sm font-normal">Packing materials</Label>
+                  </div>
+                </div>
+              </div>
+
+              <p className="text-xs text-gray-500 mt-3">
+                Stairs are charged per floor only when there is no elevator.
+              </p>
             </Card>
 
             {/* Schedule */}
@@ -682,7 +1097,7 @@ export default function BookMove() {
 
               <Button
                 type="submit"
-                disabled={loading || !pickupAddress || !dropoffAddress || (!useAsap && (!scheduledDate || !scheduledTime))}
+                disabled={loading || !itemType || !pickupAddress || !dropoffAddress || (!useAsap && (!scheduledDate || !scheduledTime))}
                 className="px-8 bg-amber-500 hover:bg-amber-600 text-white hover:scale-105 hover:shadow-lg transition-all duration-200"
               >
                 {loading ? (
@@ -700,12 +1115,13 @@ export default function BookMove() {
             </div>
 
             {/* Helper Text for Disabled Button */}
-            {(!pickupAddress || !dropoffAddress || (!useAsap && (!scheduledDate || !scheduledTime))) && (
+            {(!itemType || !pickupAddress || !dropoffAddress || (!useAsap && (!scheduledDate || !scheduledTime))) && (
               <div className="mt-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
                 <p className="text-sm text-amber-800 font-medium">
                   ⚠️ Please fill in all required fields to confirm your booking:
                 </p>
                 <ul className="mt-2 ml-4 text-sm text-amber-700 list-disc space-y-1">
+                  {!itemType && <li>Choose what you are moving</li>}
                   {!pickupAddress && <li>Pickup address is required</li>}
                   {!dropoffAddress && <li>Dropoff address is required</li>}
                   {!useAsap && !scheduledDate && <li>Select a date (or choose ASAP)</li>}
@@ -733,6 +1149,7 @@ export default function BookMove() {
           onClose={() => setShowPaymentModal(false)}
           bookingId={createdBookingId}
           amount={estimatedPrice}
+          discount={bookingDiscount}
           onSuccess={handlePaymentSuccess}
         />
       )}
@@ -10,7 +10,9 @@ import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { authService } from "@/services/authService";
 import { profileService, type Profile } from "@/services/profileService";
-import { bookingService, type Booking } from "@/services/bookingService";
+import { bookingService, type Booking, type CancellationQuote } from "@/services/bookingService";
+import { invoiceService } from "@/services/invoiceService";
+import { canTransition } from "@/lib/bookingStatus";
 import {
   Package,
   Clock,
@@ -41,10 +43,12 @@ import {
   Trash2,
   Download,
   Save,
-  RefreshCw
+  RefreshCw,
+  History
 } from "lucide-react";
 import { ChatDialog } from "@/components/ChatDialog";
 import { TrackingMap } from "@/components/TrackingMap";
+import { BookingTimeline } from "@/components/BookingTimeline";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
@@ -90,6 +94,13 @@ export default function ConsumerDashboard() {
   const [trackingOpen, setTrackingOpen] = useState(false);
   const [trackingBooking, setTrackingBooking] = useState<Booking | null>(null);
 
+  // Cancellation state: the fee is shown before the consumer confirms
+  const [cancelQuote, setCancelQuote] = useState<CancellationQuote | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+
+  // Status history state
+  const [historyBooking, setHistoryBooking] = useState<Booking | null>(null);
+
   // Review state
   const [reviewBooking, setReviewBooking] = useState<Booking | null>(null);
   const [rating, setRating] = useState(0);
@@ -175,7 +186,7 @@ export default function ConsumerDashboard() {
     } else if (activeTab === "pending") {
       setFilteredBookings(allBookings.filter(b => b.status === "pending"));
     } else if (activeTab === "completed") {
-      setFilteredBookings(allBookings.filter(b => b.status === "delivered" || b.status === "cancelled"));
+      setFilteredBookings(allBookings.filter(b => ["delivered", "cancelled", "expired"].includes(b.status)));
     } else {
       setFilteredBookings(allBookings);
     }
@@ -236,6 +247,7 @@ export default function ConsumerDashboard() {
       in_transit: "bg-purple-100 text-purple-700",
       delivered: "bg-green-100 text-green-700",
       cancelled: "bg-gray-100 text-gray-700",
+      expired: "bg-gray-100 text-gray-700",
     };
     return badges[status as keyof typeof badges] || badges.pending;
   };
@@ -247,6 +259,7 @@ export default function ConsumerDashboard() {
       in_transit: <Navigation className="h-4 w-4" />,
       delivered: <CheckCircle2 className="h-4 w-4" />,
       cancelled: <XCircle className="h-4 w-4" />,
+      expired: <Clock className="h-4 w-4" />,
     };
     return icons[status as keyof typeof icons] || icons.pending;
   };
@@ -258,43 +271,69 @@ export default function ConsumerDashboard() {
       in_transit: "In Transit",
       delivered: "Delivered",
       cancelled: "Cancelled",
+      expired: "No transporter found",
     };
     return labels[status as keyof typeof labels] || status;
   };
 
   const handleCancelBooking = async (bookingId: string) => {
-    const confirmed = window.confirm(
-      "Are you sure you want to cancel this booking? This action cannot be undone."
-    );
-    if (!confirmed) return;
+    const result = await bookingService.getCancellationQuote(bookingId);
+    if (!result.success || !result.data) {
+      toast({
+        title: "Error",
+        description: result.error || "Could not calculate cancellation fee",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setCancelQuote(result.data);
+  };
 
+  const handleConfirmCancel = async () => {
+    if (!cancelQuote) return;
+
+    setCancelling(true);
     try {
-      const success = await bookingService.cancelBooking(bookingId);
-      if (success) {
-        toast({
-          title: "🚫 Booking Cancelled",
-          description: "Your booking has been cancelled successfully",
-        });
+      const result = await bookingService.cancelBooking(cancelQuote, "Cancelled by customer");
+      if (!result.success && result.code === "CONFLICT") {
+        // The fee changed since the dialog opened: show the new one to confirm
+        const requote = await bookingService.getCancellationQuote(cancelQuote.bookingId);
+        setCancelQuote(requote.success ? requote.data : null);
+        toast({ title: "Cancellation fee updated", description: result.error, variant: "destructive" });
+        return;
+      }
+      if (!result.success) {
+        throw new Error(result.error || "Failed to cancel booking");
+      }
+
+      toast({
+        title: "🚫 Booking Cancelled",
+        description: result.refundError
+          ? `Your booking was cancelled, but the refund could not be issued yet: ${result.refundError}`
+          : result.data.refundAmount > 0
+          ? `€${result.data.refundAmount.toFixed(2)} will be refunded to your payment method`
+          : "Your booking has been cancelled successfully",
+        variant: result.refundError ? "destructive" : undefined,
+      });
+      setCancelQuote(null);
+
+      // Refresh bookings list
+      if (profile?.id) {
+        const bookings = await bookingService.getConsumerBookings(profile.id);
+        setAllBookings(bookings);
         
-        // Refresh bookings list
-        if (profile?.id) {
-          const bookings = await bookingService.getConsumerBookings(profile.id);
-          setAllBookings(bookings);
-          
-          // Recalculate stats
-          const completed = bookings.filter(b => b.status === "delivered");
-          const active = bookings.filter(b => ["accepted", "in_transit"].includes(b.status));
-          const pending = bookings.filter(b => b.status === "pending");
-
-          setCompletedCount(completed.length);
-          setActiveCount(active.length);
-          setPendingCount(pending.length);
-
-          const spent = completed.reduce((sum, b) => sum + (b.total_price || 0), 0);
-          setTotalSpent(spent);
-        }
-      } else {
-        throw new Error("Failed to cancel booking");
+        // Recalculate stats
+        const completed = bookings.filter(b => b.status === "delivered");
+        const active = bookings.filter(b => ["accepted", "in_transit"].includes(b.status));
+        const pending = bookings.filter(b => b.status === "pending");
+
+        setCompletedCount(completed.length);
+        setActiveCount(active.length);
+        setPendingCount(pending.length);
+
+        const spent = completed.reduce((sum, b) => sum + (b.total_price || 0), 0);
+        setTotalSpent(spent);
       }
     } catch (error) {
       console.error("Error cancelling booking:", error);
@@ -303,71 +342,33 @@ export default function ConsumerDashboard() {
         description: error instanceof Error ? error.message : "Failed to cancel booking",
         variant: "destructive",
       });
+    } finally {
+      setCancelling(false);
     }
   };
 
-  const handleSaveBookingDetails = (booking: Booking) => {
-    // Create booking receipt/details text
-    const bookingDetails = `
-VANGO - Booking Receipt
-${"=".repeat(50)}
-
-Booking ID: ${booking.id}
-Date: ${new Date(booking.created_at).toLocaleDateString()}
-Status: ${getStatusLabel(booking.status).toUpperCase()}
-
-${"=".repeat(50)}
-PICKUP DETAILS
-${"=".repeat(50)}
-Address: ${booking.pickup_address}
-${booking.scheduled_at ? `Scheduled: ${new Date(booking.scheduled_at).toLocaleString()}` : ""}
-
-${"=".repeat(50)}
-DROPOFF DETAILS
-${"=".repeat(50)}
-Address: ${booking.dropoff_address}
-
-${"=".repeat(50)}
-ITEM DETAILS
-${"=".repeat(50)}
-Description: ${booking.item_description || "N/A"}
-Size: ${booking.item_size?.toUpperCase() || "N/A"}
-${booking.special_instructions ? `Special Instructions: ${booking.special_instructions}` : ""}
-
-${"=".repeat(50)}
-PRICING BREAKDOWN
-${"=".repeat(50)}
-Distance: ${booking.distance_km?.toFixed(2) || "N/A"} km
-Base Price: €${booking.base_price?.toFixed(2) || "0.00"}
-Distance Fee: €${booking.distance_price?.toFixed(2) || "0.00"}
-Extras: €${booking.extras_price?.toFixed(2) || "0.00"}
-${"─".repeat(50)}
-Total: €${booking.total_price?.toFixed(2) || "0.00"}
-
-${booking.transporter_name ? `Transporter: ${booking.transporter_name}` : ""}
-${booking.completed_at ? `Completed: ${new Date(booking.completed_at).toLocaleString()}` : ""}
-${booking.cancelled_at ? `Cancelled: ${new Date(booking.cancelled_at).toLocaleString()}` : ""}
-
-${"=".repeat(50)}
-Thank you for using VANGO!
-Questions? Contact us at support@vango.fi
-${"=".repeat(50)}
-    `.trim();
-
-    // Create blob and download
-    const blob = new Blob([bookingDetails], { type: "text/plain" });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `VANGO-Booking-${booking.id.slice(0, 8)}-${new Date(booking.created_at).toISOString().split("T")[0]}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    window.URL.revokeObjectURL(url);
+  const handleDownloadInvoice = async (booking: Booking) => {
+    const result = await invoiceService.getInvoice(booking.id);
+
+    if (!result.success || !result.data) {
+      toast({
+        title: "❌ Invoice Unavailable",
+        description: result.error || "Could not create the invoice",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // The signed link downloads the PDF
+    window.location.href = result.data.url;
+
+    // Invoiced bookings are kept, so it can no longer be deleted
+    const invoice = { id: result.data.invoice.id };
+    setAllBookings((current) => current.map((b) => (b.id === booking.id ? { ...b, invoice } : b)));
 
     toast({
-      title: "💾 Booking Saved",
-      description: "Booking details downloaded successfully",
+      title: `🧾 Invoice ${result.data.invoice.invoice_number}`,
+      description: "Your invoice is downloading",
     });
   };
 
@@ -401,6 +402,12 @@ ${"=".repeat(50)}
 
         const spent = completed.reduce((sum, b) => sum + (b.total_price || 0), 0);
         setTotalSpent(spent);
+      } else {
+        toast({
+          title: "Error",
+          description: "This booking can't be deleted",
+          variant: "destructive",
+        });
       }
     } catch (error: any) {
       toast({
@@ -469,71 +476,6 @@ ${"=".repeat(50)}
     }
   };
 
-  const handleBookingDetailsDownload = (booking: Booking) => {
-    // Create booking receipt/details text
-    const bookingDetails = `
-VANGO - Booking Receipt
-${"=".repeat(50)}
-
-Booking ID: ${booking.id}
-Date: ${new Date(booking.created_at).toLocaleDateString()}
-Status: ${getStatusLabel(booking.status).toUpperCase()}
-
-${"=".repeat(50)}
-PICKUP DETAILS
-${"=".repeat(50)}
-Address: ${booking.pickup_address}
-${booking.scheduled_at ? `Scheduled: ${new Date(booking.scheduled_at).toLocaleString()}` : ""}
-
-${"=".repeat(50)}
-DROPOFF DETAILS
-${"=".repeat(50)}
-Address: ${booking.dropoff_address}
-
-${"=".repeat(50)}
-ITEM DETAILS
-${"=".repeat(50)}
-Description: ${booking.item_description || "N/A"}
-Size: ${booking.item_size?.toUpperCase() || "N/A"}
-${booking.special_instructions ? `Special Instructions: ${booking.special_instructions}` : ""}
-
-${"=".repeat(50)}
-PRICING BREAKDOWN
-${"=".repeat(50)}
-Distance: ${booking.distance_km?.toFixed(2) || "N/A"} km
-Base Price: €${booking.base_price?.toFixed(2) || "0.00"}
-Distance Fee: €${booking.distance_price?.toFixed(2) || "0.00"}
-Extras: €${booking.extras_price?.toFixed(2) || "0.00"}
-${"─".repeat(50)}
-Total: €${booking.total_price?.toFixed(2) || "0.00"}
-
-${booking.transporter_name ? `Transporter: ${booking.transporter_name}` : ""}
-${booking.completed_at ? `Completed: ${new Date(booking.completed_at).toLocaleString()}` : ""}
-${booking.cancelled_at ? `Cancelled: ${new Date(booking.cancelled_at).toLocaleString()}` : ""}
-
-${"=".repeat(50)}
-Thank you for using VANGO!
-Questions? Contact us at support@vango.fi
-${"=".repeat(50)}
-    `.trim();
-
-    // Create blob and download
-    const blob = new Blob([bookingDetails], { type: "text/plain" });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `VANGO-Booking-${booking.id.slice(0, 8)}-${new Date(booking.created_at).toISOString().split("T")[0]}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    window.URL.revokeObjectURL(url);
-
-    toast({
-      title: "💾 Booking Saved",
-      description: "Booking details downloaded successfully",
-    });
-  };
-
   const handleLogout = async () => {
     try {
       await authService.signOut();
@@ -883,6 +825,7 @@ ${"=".repeat(50)}
                                 {["picked_up", "en_route_pickup", "en_route_dropoff"].includes(booking.status) && <Truck className="h-3 w-3 mr-1" />}
                                 {booking.status === "delivered" && <CheckCircle2 className="h-3 w-3 mr-1" />}
                                 {booking.status === "cancelled" && <X className="h-3 w-3 mr-1" />}
+                                {booking.status === "expired" && <Clock className="h-3 w-3 mr-1" />}
                                 {booking.status.replace("_", " ").toUpperCase()}
                               </span>
                             </div>
@@ -988,8 +931,8 @@ ${"=".repeat(50)}
                           </>
                         )}
 
-                        {/* Pending Booking Actions */}
-                        {booking.status === "pending" && (
+                        {/* Cancel while the policy still allows it */}
+                        {canTransition(booking.status, "cancelled") && (
                           <Button
                             onClick={() => handleCancelBooking(booking.id)}
                             variant="outline"
@@ -1001,8 +944,19 @@ ${"=".repeat(50)}
                         )}
 
                         {/* Completed Booking Actions */}
-                        {(booking.status === "delivered" || booking.status === "cancelled") && (
+                        {["delivered", "cancelled", "expired"].includes(booking.status) && (
                           <div className="flex flex-col gap-2">
+                            {/* Nobody accepted it in time; the form comes back filled in */}
+                            {booking.status === "expired" && (
+                              <Button
+                                onClick={() => router.push(`/consumer/book-move?rebook=${booking.id}`)}
+                                size="sm"
+                                className="w-full"
+                              >
+                                <RefreshCw className="h-4 w-4 mr-2" />
+                                Rebook
+                              </Button>
+                            )}
                             {booking.status === "delivered" && (
                               <>
                                 <Button
@@ -1026,29 +980,43 @@ ${"=".repeat(50)}
                               </>
                             )}
                             
-                            {/* Save & Delete Actions Row */}
+                            {/* Invoice & Delete Actions Row */}
                             <div className="flex gap-2 mt-3">
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                onClick={() => handleSaveBookingDetails(booking)}
-                                className="flex-1 text-navy-900 hover:bg-navy-900/10 border-navy-900/20"
-                              >
-                                <Download className="h-4 w-4 mr-2" />
-                                Receipt
-                              </Button>
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                onClick={() => handleDeleteBooking(booking.id)}
-                                className="flex-1 text-red-600 hover:bg-red-50 border-red-200"
-                              >
-                                <Trash2 className="h-4 w-4 mr-2" />
-                                Delete
-                              </Button>
+                              {(booking.status === "delivered" || Number(booking.cancellation_fee) > 0) && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => handleDownloadInvoice(booking)}
+                                  className="flex-1 text-navy-900 hover:bg-navy-900/10 border-navy-900/20"
+                                >
+                                  <Download className="h-4 w-4 mr-2" />
+                                  Invoice
+                                </Button>
+                              )}
+                              {!booking.refunds?.length && !booking.invoice && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => handleDeleteBooking(booking.id)}
+                                  className="flex-1 text-red-600 hover:bg-red-50 border-red-200"
+                                >
+                                  <Trash2 className="h-4 w-4 mr-2" />
+                                  Delete
+                                </Button>
+                              )}
                             </div>
                           </div>
                         )}
+
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="w-full text-muted-foreground"
+                          onClick={() => setHistoryBooking(booking)}
+                        >
+                          <History className="h-4 w-4 mr-2" />
+                          History
+                        </Button>
                       </div>
                     </div>
                   </Card>
@@ -1183,6 +1151,60 @@ ${"=".repeat(50)}
             </div>
           )}
 
+          {/* Cancellation Dialog */}
+          <Dialog open={!!cancelQuote} onOpenChange={(open) => !open && !cancelling && setCancelQuote(null)}>
+            <DialogContent className="sm:max-w-[425px]">
+              <DialogHeader>
+                <DialogTitle>Cancel Booking?</DialogTitle>
+                <DialogDescription>
+                  {cancelQuote?.fee
+                    ? "A transporter is already assigned, so a cancellation fee applies."
+                    : "You can cancel this booking free of charge."}
+                </DialogDescription>
+              </DialogHeader>
+              {cancelQuote && (
+                <ul className="space-y-1 text-sm">
+                  <li className="flex justify-between">
+                    <span className="text-muted-foreground">Paid</span>
+                    <span>€{cancelQuote.paidAmount.toFixed(2)}</span>
+                  </li>
+                  <li className="flex justify-between">
+                    <span className="text-muted-foreground">Cancellation fee</span>
+                    <span className={cancelQuote.fee > 0 ? "text-red-600" : ""}>€{cancelQuote.fee.toFixed(2)}</span>
+                  </li>
+                  <li className="flex justify-between font-semibold border-t pt-1">
+                    <span>Refund</span>
+                    <span>€{cancelQuote.refundAmount.toFixed(2)}</span>
+                  </li>
+                </ul>
+              )}
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setCancelQuote(null)} disabled={cancelling}>
+                  Keep Booking
+                </Button>
+                <Button variant="destructive" onClick={handleConfirmCancel} disabled={cancelling}>
+                  {cancelling && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Cancel Booking
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+
+          {/* Status History Dialog */}
+          <Dialog open={!!historyBooking} onOpenChange={(open) => !open && setHistoryBooking(null)}>
+            <DialogContent className="sm:max-w-[425px]">
+              <DialogHeader>
+                <DialogTitle>Booking History</DialogTitle>
+                <DialogDescription>
+                  {historyBooking?.pickup_address} → {historyBooking?.dropoff_address}
+                </DialogDescription>
+              </DialogHeader>
+              {historyBooking && (
+                <BookingTimeline bookingId={historyBooking.id} status={historyBooking.status} />
+              )}
+            </DialogContent>
+          </Dialog>
+
           {/* Review Dialog */}
           <Dialog open={!!reviewBooking} onOpenChange={(open) => !open && setReviewBooking(null)}>
             <DialogContent className="sm:max-w-[425px]">
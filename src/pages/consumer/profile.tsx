@@ -11,15 +11,22 @@ import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
-import { User, Mail, Phone, Calendar, Package, CreditCard, Star, MapPin, Clock, ArrowRight, TrendingUp, Save, Home, TruckIcon, Download, Trash2, ChevronLeft, ChevronRight } from "lucide-react";
+import { User, Mail, Phone, Calendar, Package, CreditCard, Star, MapPin, Clock, ArrowRight, TrendingUp, Save, Home, TruckIcon, Download, Trash2, ChevronLeft, ChevronRight, Building2, Hash, Gift, Copy, Wallet } from "lucide-react";
 import { format } from "date-fns";
 import { bookingService } from "@/services/bookingService";
+import { invoiceService } from "@/services/invoiceService";
+import { walletService, type Referral, type Wallet as WalletSummary } from "@/services/walletService";
+import { isValidBusinessId, normalizeBusinessId } from "@/lib/businessId";
+import { addressService, type ResolvedPlace, type SavedAddress } from "@/services/addressService";
+import { AddressAutocomplete } from "@/components/AddressAutocomplete";
 import { useToast } from "@/hooks/use-toast";
 
 type Profile = Database["public"]["Tables"]["profiles"]["Row"];
 // Define the exact shape returned by the join query
 type BookingWithTransporter = Database["public"]["Tables"]["bookings"]["Row"] & {
   transporter: { id: string; full_name: string | null; email: string | null } | null;
+  refunds: { id: string }[];
+  invoice: { id: string } | null;
 };
 // Alias for easier usage
 type Booking = BookingWithTransporter;
@@ -51,7 +58,16 @@ export default function ConsumerProfile() {
   const [formData, setFormData] = useState({
     full_name: "",
     phone: "",
+    company_name: "",
+    business_id: "",
   });
+  const [savedAddresses, setSavedAddresses] = useState<SavedAddress[]>([]);
+  const [newAddressLabel, setNewAddressLabel] = useState("");
+  const [newAddressText, setNewAddressText] = useState("");
+  const [newAddressPlace, setNewAddressPlace] = useState<ResolvedPlace | null>(null);
+  const [isSavingAddress, setIsSavingAddress] = useState(false);
+  const [wallet, setWallet] = useState<WalletSummary>({ balance: 0, transactions: [] });
+  const [referrals, setReferrals] = useState<Referral[]>([]);
   const [activeTab, setActiveTab] = useState("profile");
   const [currentPage, setCurrentPage] = useState(1);
   const bookingsPerPage = 10;
@@ -92,14 +108,22 @@ export default function ConsumerProfile() {
       setFormData({
         full_name: profileData.full_name || "",
         phone: profileData.phone || "",
+        company_name: profileData.company_name || "",
+        business_id: profileData.business_id || "",
       });
 
+      setSavedAddresses(await addressService.getSavedAddresses(session.user.id));
+      setWallet(await walletService.getWallet(session.user.id));
+      setReferrals(await walletService.getReferrals(session.user.id));
+
       // Load bookings with transporter details
       const { data: bookingsData, error: bookingsError } = await supabase
         .from("bookings")
         .select(`
           *,
-          transporter:transporter_id(id, full_name, email)
+          transporter:transporter_id(id, full_name, email),
+          refunds(id),
+          invoice:invoices(id)
         `)
         .eq("consumer_id", session.user.id)
         .order("created_at", { ascending: false });
@@ -133,7 +157,59 @@ export default function ConsumerProfile() {
     }
   };
 
+  const handleAddAddress = async () => {
+    if (!profile || !newAddressLabel.trim() || !newAddressPlace) return;
+
+    setIsSavingAddress(true);
+    const result = await addressService.saveAddress(profile.id, newAddressLabel.trim(), newAddressPlace);
+    setIsSavingAddress(false);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavedAddresses([...savedAddresses, result.data].sort((a, b) => a.label.localeCompare(b.label)));
+    setNewAddressLabel("");
+    setNewAddressText("");
+    setNewAddressPlace(null);
+    toast({
+      title: "Address saved",
+      description: `"${result.data.label}" is now available when booking.`,
+    });
+  };
+
+  const handleDeleteAddress = async (address: SavedAddress) => {
+    if (await addressService.deleteSavedAddress(address.id)) {
+      setSavedAddresses(savedAddresses.filter((a) => a.id !== address.id));
+    }
+  };
+
+  const handleCopyReferralCode = async () => {
+    if (!profile?.referral_code) return;
+    try {
+      await navigator.clipboard.writeText(profile.referral_code);
+      toast({ title: "Code copied", description: "Share it with a friend who is moving" });
+    } catch {
+      toast({ title: "Could not copy", description: profile.referral_code, variant: "destructive" });
+    }
+  };
+
   const handleSaveProfile = async () => {
+    const businessId = formData.business_id.trim();
+    if (businessId && !isValidBusinessId(businessId)) {
+      alert("Please enter a valid Business ID (Y-tunnus), e.g. 1234567-8");
+      return;
+    }
+    if (businessId && !formData.company_name.trim()) {
+      alert("Please enter the company name for your Business ID");
+      return;
+    }
+
     setIsSaving(true);
     try {
       const { data: { session } } = await supabase.auth.getSession();
@@ -144,6 +220,8 @@ export default function ConsumerProfile() {
         .update({
           full_name: formData.full_name,
           phone: formData.phone,
+          company_name: formData.company_name.trim() || null,
+          business_id: businessId ? normalizeBusinessId(businessId) : null,
         })
         .eq("id", session.user.id);
 
@@ -158,68 +236,28 @@ export default function ConsumerProfile() {
     }
   };
 
-  const handleSaveBookingDetails = (booking: BookingWithTransporter) => {
-    // Create booking receipt/details text
-    const bookingDetails = `
-VANGO - Booking Receipt
-${"=".repeat(50)}
-
-Booking ID: ${booking.id}
-Date: ${new Date(booking.created_at).toLocaleDateString()}
-Status: ${STATUS_CONFIG[booking.status as keyof typeof STATUS_CONFIG]?.label.toUpperCase() || booking.status.toUpperCase()}
-
-${"=".repeat(50)}
-PICKUP DETAILS
-${"=".repeat(50)}
-Address: ${booking.pickup_address}
-${booking.scheduled_at ? `Scheduled: ${new Date(booking.scheduled_at).toLocaleString()}` : ""}
-
-${"=".repeat(50)}
-DROPOFF DETAILS
-${"=".repeat(50)}
-Address: ${booking.dropoff_address}
-
-${"=".repeat(50)}
-ITEM DETAILS
-${"=".repeat(50)}
-Type: ${booking.item_type || "N/A"}
-Size: ${booking.item_size?.toUpperCase() || "N/A"}
-${booking.special_instructions ? `Special Instructions: ${booking.special_instructions}` : ""}
-
-${"=".repeat(50)}
-PRICING BREAKDOWN
-${"=".repeat(50)}
-Distance: ${booking.distance_km?.toFixed(2) || "N/A"} km
-Base Price: €${booking.base_price?.toFixed(2) || "0.00"}
-Distance Fee: €${booking.distance_price?.toFixed(2) || "0.00"}
-Extras: €${booking.extras_price?.toFixed(2) || "0.00"}
-${"─".repeat(50)}
-Total: €${booking.total_price?.toFixed(2) || "0.00"}
-
-${booking.transporter?.full_name ? `Transporter: ${booking.transporter.full_name}` : ""}
-${booking.completed_at ? `Completed: ${new Date(booking.completed_at).toLocaleString()}` : ""}
-${booking.cancelled_at ? `Cancelled: ${new Date(booking.cancelled_at).toLocaleString()}` : ""}
-
-${"=".repeat(50)}
-Thank you for using VANGO!
-Questions? Contact us at support@vango.fi
-${"=".repeat(50)}
-    `.trim();
-
-    // Create blob and download
-    const blob = new Blob([bookingDetails], { type: "text/plain" });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `VANGO-Booking-${booking.id.slice(0, 8)}-${new Date(booking.created_at).toISOString().split("T")[0]}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    window.URL.revokeObjectURL(url);
+  const handleDownloadInvoice = async (booking: BookingWithTransporter) => {
+    const result = await invoiceService.getInvoice(booking.id);
+
+    if (!result.success || !result.data) {
+      toast({
+        title: "❌ Invoice Unavailable",
+        description: result.error || "Could not create the invoice",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // The signed link downloads the PDF
+    window.location.href = result.data.url;
+
+    // Invoiced bookings are kept, so it can no longer be deleted
+    const invoice = { id: result.data.invoice.id };
+    setBookings((current) => current.map((b) => (b.id === booking.id ? { ...b, invoice } : b)));
 
     toast({
-      title: "💾 Booking Saved",
-      description: "Booking details downloaded successfully",
+      title: `🧾 Invoice ${result.data.invoice.invoice_number}`,
+      description: "Your invoice is downloading",
     });
   };
 
@@ -240,6 +278,12 @@ ${"=".repeat(50)}
 
         // Reload profile data to refresh bookings list and stats
         await loadProfileData();
+      } else {
+        toast({
+          title: "Error",
+          description: "This booking can't be deleted",
+          variant: "destructive",
+        });
       }
     } catch (error: any) {
       toast({
@@ -396,6 +440,39 @@ ${"=".repeat(50)}
 
                   <Separator />
 
+                  <div>
+                    <p className="text-sm font-medium">Business details</p>
+                    <p className="text-xs text-muted-foreground">Optional: your invoices are addressed to this company</p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="company_name">Company Name</Label>
+                    <div className="flex gap-2">
+                      <Building2 className="h-5 w-5 text-muted-foreground mt-2" />
+                      <Input
+                        id="company_name"
+                        value={formData.company_name}
+                        onChange={(e) => setFormData({ ...formData, company_name: e.target.value })}
+                        placeholder="Company Oy"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="business_id">Business ID (Y-tunnus)</Label>
+                    <div className="flex gap-2">
+                      <Hash className="h-5 w-5 text-muted-foreground mt-2" />
+                      <Input
+                        id="business_id"
+                        value={formData.business_id}
+                        onChange={(e) => setFormData({ ...formData, business_id: e.target.value })}
+                        placeholder="1234567-8"
+                      />
+                    </div>
+                  </div>
+
+                  <Separator />
+
                   <Button
                     onClick={handleSaveProfile}
                     disabled={isSaving}
@@ -405,6 +482,116 @@ ${"=".repeat(50)}
                   </Button>
                 </CardContent>
               </Card>
+
+              <Card className="mt-6">
+                <CardHeader>
+                  <CardTitle>Address Book</CardTitle>
+                  <CardDescription>Saved places appear first when you book a move</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {savedAddresses.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No saved addresses yet.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {savedAddresses.map((address) => (
+                        <div key={address.id} className="flex items-center justify-between rounded-lg border p-3">
+                          <div className="flex gap-2 min-w-0">
+                            <Home className="h-5 w-5 text-muted-foreground shrink-0" />
+                            <div className="min-w-0">
+                              <p className="font-medium">{address.label}</p>
+                              <p className="text-sm text-muted-foreground truncate">{address.address}</p>
+                            </div>
+                          </div>
+                          <Button variant="ghost" size="sm" onClick={() => handleDeleteAddress(address)}>
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <Separator />
+
+                  <div className="grid gap-3 md:grid-cols-[1fr_2fr_auto] md:items-end">
+                    <div className="space-y-2">
+                      <Label htmlFor="address_label">Label</Label>
+                      <Input
+                        id="address_label"
+                        value={newAddressLabel}
+                        onChange={(e) => setNewAddressLabel(e.target.value)}
+                        placeholder="Home, Storage unit..."
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="address_search">Address</Label>
+                      <AddressAutocomplete
+                        id="address_search"
+                        value={newAddressText}
+                        onChange={(value) => {
+                          setNewAddressText(value);
+                          setNewAddressPlace(null);
+                        }}
+                        onSelect={(place) => {
+                          setNewAddressText(place.address);
+                          setNewAddressPlace(place);
+                        }}
+                        placeholder="Start typing and pick a suggestion"
+                      />
+                    </div>
+                    <Button
+                      onClick={handleAddAddress}
+                      disabled={isSavingAddress || !newAddressLabel.trim() || !newAddressPlace}
+                    >
+                      <MapPin className="h-4 w-4 mr-2" />
+                      Save
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card className="mt-6">
+                <CardHeader>
+                  <CardTitle>Invite Friends</CardTitle>
+                  <CardDescription>
+                    A friend enters your code when booking their first move. Once it is delivered, you both get wallet credit.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="rounded-lg border p-4">
+                      <p className="text-sm text-muted-foreground flex items-center gap-2">
+                        <Gift className="h-4 w-4" />
+                        Your referral code
+                      </p>
+                      <div className="mt-2 flex items-center gap-2">
+                        <span className="text-2xl font-bold tracking-widest">{profile?.referral_code || "-"}</span>
+                        {profile?.referral_code && (
+                          <Button variant="ghost" size="sm" onClick={handleCopyReferralCode} title="Copy code">
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                      <p className="mt-2 text-sm text-muted-foreground">
+                        {referrals.length} {referrals.length === 1 ? "friend" : "friends"} joined,{" "}
+                        {referrals.filter((referral) => referral.status === "rewarded").length} rewarded
+                      </p>
+                    </div>
+                    <div className="rounded-lg border p-4">
+                      <p className="text-sm text-muted-foreground flex items-center gap-2">
+                        <Wallet className="h-4 w-4" />
+                        Wallet credit
+                      </p>
+                      <p className="mt-2 text-2xl font-bold">€{wallet.balance.toFixed(2)}</p>
+                      {wallet.transactions.slice(0, 3).map((transaction) => (
+                        <p key={transaction.id} className="text-sm text-muted-foreground flex justify-between">
+                          <span className="truncate">{transaction.description || "Credit"}</span>
+                          <span>{Number(transaction.amount) > 0 ? "+" : "-"}€{Math.abs(Number(transaction.amount)).toFixed(2)}</span>
+                        </p>
+                      ))}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
             </TabsContent>
 
             {/* History Tab */}
@@ -501,24 +688,28 @@ ${"=".repeat(50)}
                                 <>
                                   <Separator className="my-3" />
                                   <div className="flex gap-2 w-full">
-                                    <Button
-                                      variant="outline"
-                                      size="sm"
-                                      onClick={() => handleSaveBookingDetails(booking)}
-                                      className="flex-1 text-navy-900 hover:bg-navy-900/10 border-navy-900/20"
-                                    >
-                                      <Download className="h-4 w-4 mr-2" />
-                                      Receipt
-                                    </Button>
-                                    <Button
-                                      variant="outline"
-                                      size="sm"
-                                      onClick={() => handleDeleteBooking(booking.id)}
-                                      className="flex-1 text-red-600 hover:bg-red-50 border-red-200"
-                                    >
-                                      <Trash2 className="h-4 w-4 mr-2" />
-                                      Delete
-                                    </Button>
+                                    {(booking.status === "delivered" || Number(booking.cancellation_fee) > 0) && (
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => handleDownloadInvoice(booking)}
+                                        className="flex-1 text-navy-900 hover:bg-navy-900/10 border-navy-900/20"
+                                      >
+                                        <Download className="h-4 w-4 mr-2" />
+                                        Invoice
+                                      </Button>
+                                    )}
+                                    {booking.refunds.length === 0 && !booking.invoice && (
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => handleDeleteBooking(booking.id)}
+                                        className="flex-1 text-red-600 hover:bg-red-50 border-red-200"
+                                      >
+                                        <Trash2 className="h-4 w-4 mr-2" />
+                                        Delete
+                                      </Button>
+                                    )}
                                   </div>
                                 </>
                               )}
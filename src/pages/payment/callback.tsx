@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { SEO } from "@/components/SEO";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle2, Clock, Loader2, XCircle } from "lucide-react";
+import { paymentService, type PaymentSummary } from "@/services/paymentService";
+
+const POLL_INTERVAL_MS = 2000;
+const MAX_POLLS = 60; // about two minutes; the webhook still settles it after that
+
+type Outcome = "waiting" | "paid" | "failed" | "timeout";
+
+function outcomeFor(payment: PaymentSummary | null | undefined): Outcome {
+  switch (payment?.status) {
+    case "authorized":
+    case "succeeded":
+      return "paid";
+    case "failed":
+    case "cancelled":
+      return "failed";
+    default:
+      return "waiting";
+  }
+}
+
+export default function PaymentCallbackPage() {
+  const router = useRouter();
+  const bookingId = typeof router.query.bookingId === "string" ? router.query.bookingId : null;
+  const [outcome, setOutcome] = useState<Outcome>("waiting");
+  const [amount, setAmount] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!bookingId) return;
+
+    let cancelled = false;
+    let polls = 0;
+    let timer: ReturnType<typeof setTimeout>;
+
+    // The user may land here before MobilePay has told us anything, so poll
+    const poll = async () => {
+      const result = await paymentService.getPaymentStatus(bookingId);
+      if (cancelled) return;
+
+      const next = outcomeFor(result.data);
+      if (result.data) setAmount(result.data.amount);
+
+      if (next !== "waiting") {
+        setOutcome(next);
+      } else if (++polls >= MAX_POLLS) {
+        setOutcome("timeout");
+      } else {
+        timer = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [bookingId]);
+
+  return (
+    <ProtectedRoute allowedRoles={["consumer"]}>
+      <SEO title="Payment - VANGO" />
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <Card className="max-w-md w-full">
+          <CardHeader className="text-center">
+            {outcome === "waiting" && (
+              <>
+                <div className="mx-auto mb-4 w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center">
+                  <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+                </div>
+                <CardTitle>Confirming your payment</CardTitle>
+                <CardDescription>Waiting for MobilePay to confirm the payment...</CardDescription>
+              </>
+            )}
+            {outcome === "paid" && (
+              <>
+                <div className="mx-auto mb-4 w-16 h-16 bg-green-100 rounded-full flex items-center justify-center">
+                  <CheckCircle2 className="w-8 h-8 text-green-600" />
+                </div>
+                <CardTitle>Payment authorized</CardTitle>
+                <CardDescription>
+                  {amount !== null ? `€${amount.toFixed(2)} is reserved` : "The amount is reserved"} in MobilePay and
+                  charged when your move is delivered.
+                </CardDescription>
+              </>
+            )}
+            {outcome === "failed" && (
+              <>
+                <div className="mx-auto mb-4 w-16 h-16 bg-red-100 rounded-full flex items-center justify-center">
+                  <XCircle className="w-8 h-8 text-red-600" />
+                </div>
+                <CardTitle>Payment not completed</CardTitle>
+                <CardDescription>The payment was cancelled or expired in MobilePay. You have not been charged.</CardDescription>
+              </>
+            )}
+            {outcome === "timeout" && (
+              <>
+                <div className="mx-auto mb-4 w-16 h-16 bg-yellow-100 rounded-full flex items-center justify-center">
+                  <Clock className="w-8 h-8 text-yellow-600" />
+                </div>
+                <CardTitle>Still waiting for MobilePay</CardTitle>
+                <CardDescription>
+                  MobilePay hasn&apos;t confirmed the payment yet. Your booking updates automatically once it does.
+                </CardDescription>
+              </>
+            )}
+          </CardHeader>
+          {!bookingId && router.isReady && (
+            <CardContent className="text-center text-gray-600">
+              This link is missing its booking. Check your bookings on the dashboard.
+            </CardContent>
+          )}
+          <CardFooter className="flex justify-center">
+            <Link href="/consumer/dashboard">
+              <Button variant={outcome === "waiting" ? "outline" : "default"}>Go to Dashboard</Button>
+            </Link>
+          </CardFooter>
+        </Card>
+      </div>
+    </ProtectedRoute>
+  );
+}
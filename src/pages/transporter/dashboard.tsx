@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { useRouter } from "next/router";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { SEO } from "@/components/SEO";
@@ -8,8 +8,11 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { LocationTracker } from "@/components/LocationTracker";
 import { authService } from "@/services/authService";
+import { locationService } from "@/services/locationService";
 import { profileService, type Profile } from "@/services/profileService";
-import { bookingService, type Booking } from "@/services/bookingService";
+import { bookingService, statusForStops, type Booking, type BookingStop } from "@/services/bookingService";
+import { ITEM_TYPE_LABELS, type ItemType } from "@/lib/itemTypes";
+import { canTransition } from "@/lib/bookingStatus";
 import { 
   Package, 
   Clock, 
@@ -35,14 +38,17 @@ import {
   XCircle,
   Truck,
   Euro,
-  X
+  X,
+  History,
+  Banknote
 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
 import { ChatDialog } from "@/components/ChatDialog";
+import { BookingTimeline } from "@/components/BookingTimeline";
 
 type TabType = "available" | "active" | "completed";
-type BookingStatus = "pending" | "accepted" | "en_route_pickup" | "picked_up" | "en_route_dropoff" | "delivered" | "cancelled";
+type BookingStatus = "pending" | "accepted" | "en_route_pickup" | "picked_up" | "en_route_dropoff" | "delivered" | "cancelled" | "expired";
 
 export default function TransporterDashboard() {
   const router = useRouter();
@@ -53,17 +59,29 @@ export default function TransporterDashboard() {
   const [userName, setUserName] = useState<string>("");
   const [userEmail, setUserEmail] = useState<string>("");
   const [userAvatar, setUserAvatar] = useState<string>("");
+  const [isOnline, setIsOnline] = useState(false);
   const [availableJobs, setAvailableJobs] = useState<Booking[]>([]);
+  const [claimableJobs, setClaimableJobs] = useState<Booking[]>([]);
+  const [handledItemTypes, setHandledItemTypes] = useState<ItemType[]>([]);
+  const [itemTypeFilter, setItemTypeFilter] = useState<ItemType[]>([]);
   const [activeJobs, setActiveJobs] = useState<Booking[]>([]);
+  const [jobStops, setJobStops] = useState<Record<string, BookingStop[]>>({});
+  const [historyJobId, setHistoryJobId] = useState<string | null>(null);
   const [completedJobs, setCompletedJobs] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
   const [userMenuOpen, setUserMenuOpen] = useState(false);
   const [totalEarnings, setTotalEarnings] = useState(0);
   const [completedCount, setCompletedCount] = useState(0);
   const [showUserMenu, setShowUserMenu] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Offers drop off the list once they expire
+  const openOffers = availableJobs.filter(
+    (job) => !job.offer_expires_at || new Date(job.offer_expires_at).getTime() > now
+  );
   
   const stats = {
-    available: availableJobs.length,
+    available: openOffers.length + claimableJobs.length,
     active: activeJobs.length,
     completed: completedJobs.length,
     totalEarnings
@@ -107,6 +125,7 @@ export default function TransporterDashboard() {
         setUserName(userProfile.full_name || "Driver");
         setUserEmail(session.user.email || "");
         setUserAvatar(userProfile.avatar_url || "");
+        setIsOnline(!!userProfile.is_online);
 
         await fetchJobs(session.user.id);
         await fetchStats(session.user.id);
@@ -118,6 +137,22 @@ export default function TransporterDashboard() {
     fetchProfile();
   }, []);
 
+  // While online, keep dispatch up to date with where the transporter is
+  useEffect(() => {
+    if (!userId || !isOnline) return;
+
+    const heartbeat = locationService.startAvailabilityHeartbeat(userId);
+    return () => locationService.stopContinuousTracking(heartbeat);
+  }, [userId, isOnline]);
+
+  // Tick the offer countdown
+  useEffect(() => {
+    if (availableJobs.length === 0) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [availableJobs.length]);
+
   useEffect(() => {
     // Close menu on outside click
     function handleClickOutside(event: MouseEvent) {
@@ -180,23 +215,35 @@ export default function TransporterDashboard() {
     await fetchStats(session.user.id);
   };
 
-  const fetchJobs = async (transporterId?: string) => {
+  const fetchJobs = useCallback(async (transporterId?: string, itemTypes: ItemType[] = itemTypeFilter) => {
     const id = transporterId || userId;
     if (!id) return;
 
     setLoading(true);
 
-    const [available, active, completed] = await Promise.all([
-      bookingService.getAvailableBookings(),
+    // Only offer jobs the transporter's vehicle can carry
+    let typesToShow = itemTypes;
+    if (typesToShow.length === 0) {
+      const handled = await bookingService.getHandledItemTypes(id);
+      setHandledItemTypes(handled);
+      setItemTypeFilter(handled);
+      typesToShow = handled;
+    }
+
+    const [available, claimable, active, completed] = await Promise.all([
+      bookingService.getAvailableBookings(typesToShow),
+      bookingService.getClaimableBookings(typesToShow),
       bookingService.getTransporterBookings(id, ["accepted", "en_route_pickup", "picked_up", "en_route_dropoff"]),
       bookingService.getTransporterBookings(id, ["delivered"])
     ]);
 
+    setJobStops(await bookingService.getStopsForBookings([...available, ...claimable, ...active].map((job) => job.id)));
     setAvailableJobs(available);
+    setClaimableJobs(claimable);
     setActiveJobs(active);
     setCompletedJobs(completed.slice(0, 20)); // Show last 20 completed
     setLoading(false);
-  };
+  }, [userId, itemTypeFilter]);
 
   const fetchStats = async (transporterId: string) => {
     const allCompleted = await bookingService.getTransporterBookings(transporterId, ["delivered"]);
@@ -209,24 +256,108 @@ export default function TransporterDashboard() {
     setCompletedCount(allCompleted.length);
   };
 
-  const handleAcceptJob = async (bookingId: string) => {
-    const success = await bookingService.acceptBooking(bookingId, userId);
-    
-    if (success) {
+  const refreshOffers = useCallback(async () => {
+    const offers = await bookingService.getAvailableBookings(itemTypeFilter);
+    const stops = await bookingService.getStopsForBookings(offers.map((job) => job.id));
+    setJobStops((current) => ({ ...current, ...stops }));
+    setAvailableJobs(offers);
+  }, [itemTypeFilter]);
+
+  const handleAcceptJob = useCallback(async (bookingId: string) => {
+    const result = await bookingService.acceptBooking(bookingId);
+
+    if (!result.success) {
       toast({
-        title: "✅ Job Accepted!",
-        description: "Start your trip when ready",
+        title: "Could not accept job",
+        description: result.error,
+        variant: "destructive",
       });
-      
       await fetchJobs();
-      setActiveTab("active");
+      return;
     }
+
+    toast({
+      title: "✅ Job Accepted!",
+      description: "Start your trip when ready",
+    });
+
+    await fetchJobs();
+    setActiveTab("active");
+  }, [toast, fetchJobs]);
+
+  const handleClaimJob = async (bookingId: string) => {
+    const result = await bookingService.claimBooking(bookingId);
+
+    if (!result.success) {
+      toast({
+        title: "Could not claim job",
+        description: result.error,
+        variant: "destructive",
+      });
+      await fetchJobs();
+      return;
+    }
+
+    toast({
+      title: "📅 Job Claimed",
+      description: "You'll get reminders before it starts. Start the trip on time, or the job goes to someone else.",
+    });
+
+    await fetchJobs();
+    setActiveTab("active");
+  };
+
+  const handleDeclineJob = useCallback(async (bookingId: string) => {
+    const result = await bookingService.declineOffer(bookingId);
+
+    if (!result.success) {
+      toast({
+        title: "Could not decline job",
+        description: result.error,
+        variant: "destructive",
+      });
+    }
+
+    await fetchJobs();
+  }, [toast, fetchJobs]);
+
+  // Offers also arrive by push; poll in case notifications are off
+  useEffect(() => {
+    if (!userId || !isOnline) return;
+
+    const poll = setInterval(refreshOffers, 15000);
+    return () => clearInterval(poll);
+  }, [userId, isOnline, refreshOffers]);
+
+  // Accept or decline straight from the job offer notification
+  useEffect(() => {
+    const { offer, respond } = router.query;
+    if (!userId || typeof offer !== "string" || (respond !== "accept" && respond !== "decline")) return;
+
+    router.replace("/transporter/dashboard", undefined, { shallow: true });
+    if (respond === "accept") {
+      handleAcceptJob(offer);
+    } else {
+      handleDeclineJob(offer);
+    }
+  }, [userId, router, handleAcceptJob, handleDeclineJob]);
+
+  const handleToggleItemType = async (itemType: ItemType) => {
+    const next = itemTypeFilter.includes(itemType)
+      ? itemTypeFilter.filter((type) => type !== itemType)
+      : [...itemTypeFilter, itemType];
+
+    // Keep at least one type selected
+    if (next.length === 0) return;
+
+    setItemTypeFilter(next);
+    await fetchJobs(userId, next);
   };
 
   const handleUpdateStatus = async (bookingId: string, newStatus: BookingStatus) => {
-    const success = await bookingService.updateBookingStatus(bookingId, newStatus);
+    const result = await bookingService.transitionStatus(bookingId, newStatus);
     
-    if (success) {
+    if (result.success) {
       if (newStatus === "delivered") {
         toast({
           title: "🎉 Delivery Complete!",
@@ -238,7 +369,67 @@ export default function TransporterDashboard() {
       } else {
         await fetchJobs();
       }
+    } else {
+      toast({
+        title: "Could not update status",
+        description: result.error,
+        variant: "destructive",
+      });
+      await fetchJobs();
+    }
+  };
+
+  const handleCancelJob = async (booking: Booking, changed?: string) => {
+    const quote = await bookingService.getCancellationQuote(booking.id);
+    if (!quote.success || !quote.data) {
+      toast({ title: "Could not cancel job", description: quote.error, variant: "destructive" });
+      return;
+    }
+    if (changed) {
+      toast({ title: "Cancellation terms updated", description: changed, variant: "destructive" });
+    }
+
+    const penalty = quote.data.transporterPenalty;
+    const confirmed = window.confirm(
+      penalty > 0
+        ? `Cancelling an accepted job carries a €${penalty.toFixed(2)} penalty, deducted from your earnings. The customer is refunded in full. Cancel this job?`
+        : "Cancel this job? The customer is refunded in full."
+    );
+    if (!confirmed) return;
+
+    const result = await bookingService.cancelBooking(quote.data, "Cancelled by transporter");
+    if (!result.success && result.code === "CONFLICT") {
+      // Ask again with the terms that apply now
+      await handleCancelJob(booking, result.error);
+      return;
+    }
+    if (!result.success) {
+      toast({ title: "Could not cancel job", description: result.error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Job Cancelled",
+      description: penalty > 0 ? `A €${penalty.toFixed(2)} penalty was recorded.` : "The customer has been notified.",
+    });
+    await fetchJobs();
+  };
+
+  const handleStopProgress = async (booking: Booking, stop: BookingStop, status: "arrived" | "completed") => {
+    const updated = await bookingService.updateStopStatus(stop.id, status);
+    if (!updated) {
+      toast({ title: "Could not update stop", description: "Please try again.", variant: "destructive" });
+      return;
     }
+
+    const stops = (jobStops[booking.id] || []).map((s) => (s.id === updated.id ? updated : s));
+    const impliedStatus = statusForStops(stops, booking.status);
+    if (impliedStatus) {
+      await handleUpdateStatus(booking.id, impliedStatus);
+      return;
+    }
+
+    setJobStops((current) => ({ ...current, [booking.id]: stops }));
   };
 
   const handleLogout = async () => {
@@ -274,6 +465,20 @@ export default function TransporterDashboard() {
   }
 
   const getNextAction = (booking: Booking) => {
+    const stops = jobStops[booking.id] || [];
+
+    // With stops, the driver advances stop by stop while en route
+    if (stops.length > 0) {
+      switch (booking.status) {
+        case "accepted":
+          return { label: "Start Trip to Pickup", status: "en_route_pickup" as BookingStatus };
+        case "picked_up":
+          return { label: "Start Route to Next Stop", status: "en_route_dropoff" as BookingStatus };
+        default:
+          return null;
+      }
+    }
+
     switch (booking.status) {
       case "accepted":
         return { label: "Start Trip to Pickup", status: "en_route_pickup" as BookingStatus };
@@ -335,7 +540,7 @@ export default function TransporterDashboard() {
             </div>
             <div>
               <h3 className="font-semibold capitalize text-lg text-slate-900">
-                {(booking.item_type || "item").replace("_", " ")}
+                {booking.item_type ? ITEM_TYPE_LABELS[booking.item_type] : "Item"}
               </h3>
               <div className="flex items-center gap-2 mt-1">
                 <Badge className={getSizeBadge(booking.item_size || "small")}>
@@ -373,26 +578,56 @@ export default function TransporterDashboard() {
         <Separator className="my-4" />
 
         {/* Addresses */}
-        <div className="space-y-3">
-          <div className="flex items-start gap-3">
-            <MapPin className="h-5 w-5 text-emerald-600 mt-0.5 flex-shrink-0" />
-            <div className="flex-1">
-              <p className="text-xs text-slate-500 font-medium uppercase tracking-wide mb-1">Pickup</p>
-              <p className="text-sm font-medium text-slate-900">
-                {booking.pickup_address?.replace(/, Finland$/, "") || "Address not provided"}
-              </p>
+        {(jobStops[booking.id] || []).length > 2 ? (
+          <ol className="space-y-3">
+            {jobStops[booking.id].map((stop) => (
+              <li key={stop.id} className="flex items-start gap-3">
+                <MapPin className={`h-5 w-5 mt-0.5 flex-shrink-0 ${stop.stop_type === "pickup" ? "text-emerald-600" : "text-gold-600"}`} />
+                <div className="flex-1">
+                  <p className="text-xs text-slate-500 font-medium uppercase tracking-wide mb-1">
+                    {stop.position + 1}. {stop.stop_type}
+                    {stop.status !== "pending" && (
+                      <span className="ml-2 normal-case">{stop.status === "completed" ? "✓ done" : "arrived"}</span>
+                    )}
+                  </p>
+                  <p className={`text-sm font-medium ${stop.status === "completed" ? "text-slate-400 line-through" : "text-slate-900"}`}>
+                    {stop.address.replace(/, Finland$/, "")}
+                  </p>
+                  {showActions && (stop.contact_name || stop.contact_phone) && (
+                    <p className="text-xs text-slate-600 mt-1 flex items-center gap-1">
+                      <Phone className="w-3 h-3" />
+                      {[stop.contact_name, stop.contact_phone].filter(Boolean).join(" · ")}
+                    </p>
+                  )}
+                  {showActions && stop.instructions && (
+                    <p className="text-xs text-amber-800 mt-1">{stop.instructions}</p>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-start gap-3">
+              <MapPin className="h-5 w-5 text-emerald-600 mt-0.5 flex-shrink-0" />
+              <div className="flex-1">
+                <p className="text-xs text-slate-500 font-medium uppercase tracking-wide mb-1">Pickup</p>
+                <p className="text-sm font-medium text-slate-900">
+                  {booking.pickup_address?.replace(/, Finland$/, "") || "Address not provided"}
+                </p>
+              </div>
             </div>
-          </div>
-          <div className="flex items-start gap-3">
-            <MapPin className="h-5 w-5 text-gold-600 mt-0.5 flex-shrink-0" />
-            <div className="flex-1">
-              <p className="text-xs text-slate-500 font-medium uppercase tracking-wide mb-1">Dropoff</p>
-              <p className="text-sm font-medium text-slate-900">
-                {booking.dropoff_address?.replace(/, Finland$/, "") || "Address not provided"}
-              </p>
+            <div className="flex items-start gap-3">
+              <MapPin className="h-5 w-5 text-gold-600 mt-0.5 flex-shrink-0" />
+              <div className="flex-1">
+                <p className="text-xs text-slate-500 font-medium uppercase tracking-wide mb-1">Dropoff</p>
+                <p className="text-sm font-medium text-slate-900">
+                  {booking.dropoff_address?.replace(/, Finland$/, "") || "Address not provided"}
+                </p>
+              </div>
             </div>
           </div>
-        </div>
+        )}
 
         <Separator className="my-4" />
 
@@ -432,6 +667,26 @@ export default function TransporterDashboard() {
           </span>
         </div>
 
+        {/* Status history (not for jobs still on offer) */}
+        {booking.status !== "pending" && (
+          <div className="mt-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-slate-500 px-0"
+              onClick={() => setHistoryJobId(historyJobId === booking.id ? null : booking.id)}
+            >
+              <History className="w-4 h-4 mr-1" />
+              {historyJobId === booking.id ? "Hide history" : "Show history"}
+            </Button>
+            {historyJobId === booking.id && (
+              <div className="mt-2">
+                <BookingTimeline bookingId={booking.id} status={booking.status} />
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Location Tracker (for active jobs only) */}
         {showActions && isActiveJob(booking.status || "") && (
           <>
@@ -448,15 +703,76 @@ export default function TransporterDashboard() {
         {showActions && (() => {
           const nextAction = getNextAction(booking);
           
+          // Scheduled jobs open to claim; once dispatch starts they come as offers
+          if (booking.status === "pending" && booking.dispatch_after && new Date(booking.dispatch_after).getTime() > now) {
+            return (
+              <div className="mt-4 space-y-2">
+                <p className="text-sm text-center text-slate-600">
+                  Open to claim until{" "}
+                  <span className="font-semibold">
+                    {new Date(booking.dispatch_after).toLocaleString("en-FI", {
+                      month: "short",
+                      day: "numeric",
+                      hour: "2-digit",
+                      minute: "2-digit"
+                    })}
+                  </span>
+                </p>
+                <Button
+                  onClick={() => handleClaimJob(booking.id)}
+                  className="w-full bg-success hover:bg-success/90 text-success-foreground font-semibold shadow-premium hover:shadow-elevated transition-all"
+                  size="lg"
+                >
+                  Claim Job - €{(booking.transporter_earnings || 0).toFixed(2)}
+                </Button>
+              </div>
+            );
+          }
+
           if (booking.status === "pending") {
+            const secondsLeft = booking.offer_expires_at
+              ? Math.max(0, Math.ceil((new Date(booking.offer_expires_at).getTime() - now) / 1000))
+              : null;
+
+            return (
+              <div className="mt-4 space-y-2">
+                {secondsLeft !== null && (
+                  <p className="text-sm text-center text-slate-600">
+                    Offered to you for <span className="font-semibold">{secondsLeft} s</span>
+                    {booking.offer_distance_km != null && ` · ${Number(booking.offer_distance_km).toFixed(1)} km from you`}
+                  </p>
+                )}
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => handleDeclineJob(booking.id)}
+                    size="lg"
+                  >
+                    Decline
+                  </Button>
+                  <Button 
+                    onClick={() => handleAcceptJob(booking.id)}
+                    className="flex-1 bg-success hover:bg-success/90 text-success-foreground font-semibold shadow-premium hover:shadow-elevated transition-all"
+                    size="lg"
+                  >
+                    Accept Job - €{(booking.transporter_earnings || 0).toFixed(2)}
+                  </Button>
+                </div>
+              </div>
+            );
+          }
+
+          const nextStop = (jobStops[booking.id] || []).find((stop) => stop.status !== "completed");
+          if (nextStop && (booking.status === "en_route_pickup" || booking.status === "en_route_dropoff")) {
+            const stopLabel = `${nextStop.stop_type === "pickup" ? "Pickup" : "Dropoff"} at Stop ${nextStop.position + 1}`;
             return (
               <div className="mt-4">
-                <Button 
-                  onClick={() => handleAcceptJob(booking.id)}
-                  className="w-full bg-success hover:bg-success/90 text-success-foreground font-semibold shadow-premium hover:shadow-elevated transition-all"
+                <Button
+                  onClick={() => handleStopProgress(booking, nextStop, nextStop.status === "pending" ? "arrived" : "completed")}
+                  className="w-full bg-accent hover:bg-accent/90 text-accent-foreground font-semibold shadow-premium hover:shadow-elevated transition-all"
                   size="lg"
                 >
-                  Accept Job - €{(booking.transporter_earnings || 0).toFixed(2)}
+                  {nextStop.status === "pending" ? `Arrived — Stop ${nextStop.position + 1}` : `Confirm ${stopLabel}`}
                 </Button>
               </div>
             );
@@ -478,6 +794,18 @@ export default function TransporterDashboard() {
 
           return null;
         })()}
+
+        {showActions && booking.status !== "pending" && canTransition(booking.status, "cancelled") && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleCancelJob(booking)}
+            className="w-full mt-2 text-red-600 hover:text-red-700 hover:bg-red-50"
+          >
+            <XCircle className="w-4 h-4 mr-2" />
+            Cancel Job
+          </Button>
+        )}
       </CardContent>
     </Card>
   );
@@ -581,6 +909,17 @@ export default function TransporterDashboard() {
                         <span>Profile</span>
                       </button>
 
+                      <button
+                        onClick={() => {
+                          router.push("/transporter/payouts");
+                          setUserMenuOpen(false);
+                        }}
+                        className="flex items-center gap-3 w-full px-4 py-2 text-sm text-foreground hover:bg-muted transition-colors"
+                      >
+                        <Banknote className="w-4 h-4" />
+                        <span>Payouts</span>
+                      </button>
+
                       <button
                         onClick={() => {
                           toast({
@@ -706,19 +1045,56 @@ export default function TransporterDashboard() {
             {/* Available Jobs */}
             {activeTab === "available" && (
               <>
-                {availableJobs.length === 0 ? (
+                {handledItemTypes.length > 1 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm text-muted-foreground">Item types:</span>
+                    {handledItemTypes.map((type) => (
+                      <button
+                        key={type}
+                        onClick={() => handleToggleItemType(type)}
+                        className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                          itemTypeFilter.includes(type)
+                            ? "bg-primary text-primary-foreground border-primary"
+                            : "bg-card text-muted-foreground border-border hover:border-primary/50"
+                        }`}
+                      >
+                        {ITEM_TYPE_LABELS[type]}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {openOffers.length === 0 && claimableJobs.length === 0 ? (
                   <Card>
                     <CardContent className="py-12 text-center">
                       <Package className="w-12 h-12 text-gray-400 mx-auto mb-4" />
                       <p className="text-gray-600 text-lg font-medium">No available jobs</p>
-                      <p className="text-gray-500 text-sm mt-2">New jobs will appear here</p>
+                      <p className="text-gray-500 text-sm mt-2">
+                        {isOnline
+                          ? "Jobs near you are offered here, one at a time"
+                          : "Go online in your profile to get jobs near you"}
+                      </p>
                     </CardContent>
                   </Card>
                 ) : (
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    {availableJobs.map(job => renderJobCard(job, true))}
+                    {openOffers.map(job => renderJobCard(job, true))}
                   </div>
                 )}
+
+                {claimableJobs.length > 0 && (
+                  <>
+                    <div>
+                      <h2 className="text-lg font-semibold text-foreground">Scheduled jobs</h2>
+                      <p className="text-sm text-muted-foreground">
+                        Claim a job for later now; you&apos;ll be reminded before it starts
+                      </p>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      {claimableJobs.map(job => renderJobCard(job, true))}
+                    </div>
+                  </>
+                )}
               </>
             )}
 
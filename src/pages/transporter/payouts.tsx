@@ -0,0 +1,216 @@
+import { useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import { format, nextMonday } from "date-fns";
+import { SEO } from "@/components/SEO";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Banknote, CheckCircle2, Clock, Home, Loader2, Send } from "lucide-react";
+import { payoutService, type LedgerLine, type TransporterPayouts } from "@/services/payoutService";
+
+const LINE_LABELS: Record<LedgerLine["type"], string> = {
+  earning: "Job earnings",
+  compensation: "Cancellation compensation",
+  penalty: "Cancellation penalty",
+  adjustment: "Adjustment",
+  payout: "Payout",
+  payout_settled: "Payout paid",
+  payout_returned: "Payout returned by bank",
+};
+
+const formatEur = (amount: number) => `€${amount.toFixed(2)}`;
+
+export default function TransporterPayouts() {
+  const router = useRouter();
+  const [summary, setSummary] = useState<TransporterPayouts | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    payoutService.getMyPayouts().then((result) => {
+      if (result.success && result.data) {
+        setSummary(result.data);
+      } else {
+        setError(result.error || "Failed to load payouts");
+      }
+    });
+  }, []);
+
+  // The settlement itself doesn't change what is owed, so it isn't listed
+  const lines = summary?.lines.filter((line) => line.type !== "payout_settled") || [];
+
+  return (
+    <ProtectedRoute allowedRoles={["transporter"]}>
+      <SEO title="Payouts - VANGO" />
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+        <div className="container mx-auto px-4 py-8">
+          {/* Header */}
+          <div className="flex items-center gap-4 mb-6">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => router.push("/transporter/dashboard")}
+              className="hover:bg-navy-100 dark:hover:bg-navy-800"
+              title="Home"
+            >
+              <Home className="h-5 w-5 text-navy-600 dark:text-navy-400" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold text-navy-900">Payouts</h1>
+              <p className="text-gray-600 mt-2">
+                Earnings are paid to your bank account every Monday; balances under €10 roll over to the next week
+              </p>
+            </div>
+          </div>
+
+          {error && (
+            <Card className="mb-6 border-red-200">
+              <CardContent className="pt-6 text-red-600">{error}</CardContent>
+            </Card>
+          )}
+
+          {!summary && !error ? (
+            <div className="flex justify-center py-16">
+              <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : summary && (
+            <>
+              {/* Balances */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">Pending</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex items-center gap-2">
+                      <Clock className="h-5 w-5 text-yellow-500" />
+                      <span className="text-3xl font-bold">{formatEur(summary.balance.owed)}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Next payout {format(nextMonday(new Date()), "EEEE d MMM")}
+                    </p>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">On the way</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex items-center gap-2">
+                      <Send className="h-5 w-5 text-blue-500" />
+                      <span className="text-3xl font-bold">{formatEur(summary.balance.inTransit)}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-2">Sent to the bank, usually arrives in 1-2 banking days</p>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">Paid out</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex items-center gap-2">
+                      <CheckCircle2 className="h-5 w-5 text-green-500" />
+                      <span className="text-3xl font-bold">{formatEur(summary.balance.paid)}</span>
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+
+              {/* Payouts */}
+              <Card className="mb-8">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Banknote className="h-5 w-5" />
+                    Payout History
+                  </CardTitle>
+                  <CardDescription>Weekly SEPA transfers to your bank account</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {summary.payouts.length === 0 ? (
+                    <p className="text-center py-8 text-gray-500">No payouts yet</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Account</TableHead>
+                          <TableHead>Reference</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead className="text-right">Amount</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {summary.payouts.map((payout) => (
+                          <TableRow key={payout.id}>
+                            <TableCell className="text-sm">
+                              {payout.created_at ? format(new Date(payout.created_at), "d MMM yyyy") : "-"}
+                            </TableCell>
+                            <TableCell className="font-mono text-xs">•••• {payout.iban.slice(-4)}</TableCell>
+                            <TableCell className="font-mono text-xs">{payout.end_to_end_id}</TableCell>
+                            <TableCell>
+                              <Badge
+                                variant={payout.status === "paid" ? "default" : payout.status === "returned" ? "destructive" : "secondary"}
+                                title={payout.failure_reason || undefined}
+                              >
+                                {payout.status === "pending" ? "on the way" : payout.status}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-right font-semibold">{formatEur(Number(payout.amount))}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Ledger */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Activity</CardTitle>
+                  <CardDescription>Everything that changed your balance</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {lines.length === 0 ? (
+                    <p className="text-center py-8 text-gray-500">No activity yet</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Type</TableHead>
+                          <TableHead>Details</TableHead>
+                          <TableHead className="text-right">Amount</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {lines.map((line) => (
+                          <TableRow key={line.id}>
+                            <TableCell className="text-sm">
+                              {line.createdAt ? format(new Date(line.createdAt), "d MMM yyyy") : "-"}
+                            </TableCell>
+                            <TableCell className="text-sm">{LINE_LABELS[line.type]}</TableCell>
+                            <TableCell className="text-sm text-gray-600">
+                              {line.description}
+                              {line.bookingId && <span className="font-mono text-xs ml-2">#{line.bookingId.slice(0, 8)}</span>}
+                            </TableCell>
+                            <TableCell className={`text-right font-semibold ${line.amount < 0 ? "text-red-600" : "text-green-600"}`}>
+                              {line.amount > 0 ? "+" : ""}{formatEur(line.amount)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
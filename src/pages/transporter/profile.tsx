@@ -14,6 +14,10 @@ import { User, Mail, Phone, Calendar, Package, DollarSign, MapPin, Clock, ArrowR
 import { format, startOfMonth, endOfMonth, differenceInMinutes } from "date-fns";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
+import { locationService } from "@/services/locationService";
+import { availabilityService } from "@/services/availabilityService";
+import { availabilityAt } from "@/lib/shifts";
+import { AvailabilityCalendar } from "@/components/AvailabilityCalendar";
 
 type Profile = Database["public"]["Tables"]["profiles"]["Row"];
 type Application = Database["public"]["Tables"]["transporter_applications"]["Row"];
@@ -32,6 +36,7 @@ export default function TransporterProfile() {
   const [profile, setProfile] = useState<Profile | null>(null);
   const [application, setApplication] = useState<Application | null>(null);
   const [isOnline, setIsOnline] = useState(false);
+  const [onlineUntil, setOnlineUntil] = useState<Date | null>(null); // end of the shift in progress
   const [bookings, setBookings] = useState<BookingWithConsumer[]>([]);
   const [stats, setStats] = useState({
     totalJobs: 0,
@@ -80,6 +85,9 @@ export default function TransporterProfile() {
       if (profileData) {
         setProfile(profileData);
         setIsOnline(profileData.is_online || false);
+        if (profileData.is_online) {
+          await refreshOnlineUntil(profileData.id);
+        }
       }
       setFormData({
         full_name: profileData.full_name || "",
@@ -247,6 +255,12 @@ export default function TransporterProfile() {
     }
   };
 
+  // When the calendar takes the transporter offline again
+  const refreshOnlineUntil = async (transporterId: string) => {
+    const calendar = await availabilityService.getCalendar(transporterId);
+    setOnlineUntil(availabilityAt(calendar, new Date()).until);
+  };
+
   const handleOnlineToggle = async (checked: boolean) => {
     const { data: { session } } = await supabase.auth.getSession();
 
@@ -261,13 +275,25 @@ export default function TransporterProfile() {
 
     try {
       setIsOnline(checked);
-      
-      const { error } = await supabase
-        .from("profiles")
-        .update({ is_online: checked })
-        .eq("id", session.user.id);
-        
-      if (error) throw error;
+
+      // Going online is checked against the working hours on the server
+      const result = await availabilityService.setOnline(checked);
+      if (!result.success || !result.data) {
+        setIsOnline(!checked);
+        toast({
+          title: result.code ? "You can't go online now" : "Error",
+          description: result.error,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setOnlineUntil(result.data.onlineUntil ? new Date(result.data.onlineUntil) : null);
+
+      // Dispatch offers jobs near the last reported position, so report it from now
+      if (checked) {
+        await locationService.reportPosition(session.user.id);
+      }
 
       toast({
         title: checked ? "🟢 You're Online" : "⚫ You're Offline",
@@ -491,8 +517,10 @@ export default function TransporterProfile() {
                     )}
                   </CardTitle>
                   <CardDescription className="mt-1">
-                    {isOnline 
-                      ? "You will receive booking requests from customers" 
+                    {isOnline
+                      ? onlineUntil
+                        ? `You will receive booking requests until your shift ends at ${format(onlineUntil, "EEE HH:mm")}`
+                        : "You will receive booking requests from customers"
                       : "You won't receive new booking requests"}
                   </CardDescription>
                 </div>
@@ -570,8 +598,9 @@ export default function TransporterProfile() {
 
           {/* Tabs */}
           <Tabs defaultValue="profile" className="space-y-6">
-            <TabsList className="grid w-full max-w-2xl grid-cols-3">
+            <TabsList className="grid w-full max-w-2xl grid-cols-4">
               <TabsTrigger value="profile">Profile</TabsTrigger>
+              <TabsTrigger value="availability">Availability</TabsTrigger>
               <TabsTrigger value="vehicle">Vehicle Info</TabsTrigger>
               <TabsTrigger value="history">Driving Journal</TabsTrigger>
             </TabsList>
@@ -637,6 +666,16 @@ export default function TransporterProfile() {
               </Card>
             </TabsContent>
 
+            {/* Availability Tab */}
+            <TabsContent value="availability">
+              {profile && (
+                <AvailabilityCalendar
+                  transporterId={profile.id}
+                  onChange={() => isOnline && refreshOnlineUntil(profile.id)}
+                />
+              )}
+            </TabsContent>
+
             {/* Vehicle Tab */}
             <TabsContent value="vehicle">
               <Card>
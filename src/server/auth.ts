@@ -0,0 +1,50 @@
+import type { NextApiRequest } from "next";
+import { timingSafeEqual } from "crypto";
+import type { User } from "@supabase/supabase-js";
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+
+/**
+ * Resolve the signed-in user from the request's "Authorization: Bearer <access token>" header
+ */
+export async function getRequestUser(req: NextApiRequest): Promise<User | null> {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) {
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin.auth.getUser(header.slice("Bearer ".length));
+  if (error || !data.user) {
+    return null;
+  }
+
+  return data.user;
+}
+
+/**
+ * Cron routes: the scheduler sends "Authorization: Bearer <CRON_SECRET>";
+ * admins can also run them by hand
+ */
+export async function isCronAuthorized(req: NextApiRequest): Promise<boolean> {
+  const secret = process.env.CRON_SECRET;
+  const header = req.headers.authorization || "";
+  if (secret) {
+    const expected = Buffer.from(`Bearer ${secret}`);
+    const received = Buffer.from(header);
+    if (expected.length === received.length && timingSafeEqual(expected, received)) {
+      return true;
+    }
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return false;
+  }
+
+  const { data: profile } = await supabaseAdmin
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .maybeSingle();
+
+  return profile?.role === "admin";
+}
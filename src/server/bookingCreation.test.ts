@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import type { BookingFormData } from "@/services/bookingService";
+import type { FakeQuery, FakeSupabase } from "@/test/fakeSupabase";
+import { bookingCreation } from "./bookingCreation";
+import { DEFAULT_GEOCODE_FIXTURES, setGeocodingProvider } from "./geocoding";
+import { setRoutingProvider, stubRoutingProvider } from "./routing";
+
+vi.mock("@/integrations/supabase/admin", async () => {
+  const { createFakeSupabase } = await import("@/test/fakeSupabase");
+  return { supabaseAdmin: createFakeSupabase() };
+});
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+
+const CONSUMER_ID = "consumer-1";
+
+// Central Helsinki, as one rectangle
+const HELSINKI = {
+  id: "area-helsinki",
+  name: "Helsinki",
+  surcharge: 0,
+  geojson: {
+    type: "Polygon",
+    coordinates: [[[24.85, 60.1], [25.0, 60.1], [25.0, 60.25], [24.85, 60.25], [24.85, 60.1]]],
+  },
+};
+
+const TARIFF = {
+  version: 3,
+  base_fee: 25,
+  distance_bands: [{ up_to_km: null, per_km: 2 }],
+  size_multipliers: { small: 1, medium: 1.5, large: 2 },
+  minimum_fare: 25,
+  platform_fee_percent: 20,
+  extras_rates: {},
+  item_type_rules: {},
+};
+
+const BOOKING = {
+  pickupAddress: "Kamppi, Helsinki",
+  dropoffAddress: "Pasila, Helsinki",
+  itemSize: "small",
+  itemType: "small_furniture",
+} as BookingFormData;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+function answer(query: FakeQuery) {
+  switch (`${query.table}.${query.action}`) {
+    case "service_areas.select":
+      return { data: [HELSINKI] };
+    case "pricing_tariffs.select":
+      return { data: TARIFF };
+    case "bookings.insert":
+      return { data: { id: "booking-1", ...(query.values as object) } };
+    default:
+      return undefined;
+  }
+}
+
+describe("bookingCreation.create with the fixture geocoder", () => {
+  beforeEach(() => {
+    db.reset();
+    db.onQuery(answer);
+    vi.stubEnv("GEOCODING_PROVIDER", "fixture");
+    setGeocodingProvider(null);
+    setRoutingProvider(stubRoutingProvider);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setGeocodingProvider(null);
+    setRoutingProvider(null);
+    vi.unstubAllEnvs();
+  });
+
+  it("geocodes both addresses, routes them and stores the server's price", async () => {
+    const kamppi = DEFAULT_GEOCODE_FIXTURES["kamppi, helsinki"];
+    const pasila = DEFAULT_GEOCODE_FIXTURES["pasila, helsinki"];
+    const route = await stubRoutingProvider.route([kamppi, pasila]);
+    const distanceKm = roundCents(route.distanceKm);
+    const totalPrice = roundCents(25 + distanceKm * 2);
+
+    // A price in the request is ignored
+    const booking = await bookingCreation.create(CONSUMER_ID, { ...BOOKING, totalPrice: 1 } as BookingFormData);
+
+    const [insert] = db.queriesOn("bookings", "insert");
+    expect(insert.values).toMatchObject({
+      consumer_id: CONSUMER_ID,
+      pickup_address: kamppi.formattedAddress,
+      pickup_lat: kamppi.lat,
+      pickup_lng: kamppi.lng,
+      dropoff_address: pasila.formattedAddress,
+      dropoff_lat: pasila.lat,
+      dropoff_lng: pasila.lng,
+      pickup_service_area_id: HELSINKI.id,
+      distance_km: distanceKm,
+      total_price: totalPrice,
+      platform_fee: roundCents(totalPrice * 0.2),
+      transporter_earnings: roundCents(totalPrice - roundCents(totalPrice * 0.2)),
+      tariff_version: 3,
+      status: "pending",
+    });
+    expect(booking).toMatchObject({ id: "booking-1", total_price: totalPrice });
+
+    const [stops] = db.queriesOn("booking_stops", "insert");
+    expect(stops.values).toEqual([
+      expect.objectContaining({ booking_id: "booking-1", position: 0, stop_type: "pickup", address: kamppi.formattedAddress }),
+      expect.objectContaining({ booking_id: "booking-1", position: 1, stop_type: "dropoff", address: pasila.formattedAddress }),
+    ]);
+  });
+
+  it("caches the fixture lookups", async () => {
+    await bookingCreation.create(CONSUMER_ID, BOOKING);
+
+    const writes = db.queriesOn("geocode_cache", "upsert").map((query) => query.values);
+    expect(writes).toEqual([
+      expect.objectContaining({ normalized_address: "kamppi, helsinki", provider: "fixture" }),
+      expect.objectContaining({ normalized_address: "pasila, helsinki", provider: "fixture" }),
+    ]);
+  });
+
+  it("refuses an address the geocoder doesn't know", async () => {
+    await expect(
+      bookingCreation.create(CONSUMER_ID, { ...BOOKING, dropoffAddress: "Nowhere 1, Oulu" })
+    ).rejects.toMatchObject({ name: "PricingError", code: "ZERO_RESULTS" });
+
+    expect(db.queriesOn("bookings", "insert")).toHaveLength(0);
+  });
+
+  it("refuses an address outside the service areas", async () => {
+    // Tikkurila, Vantaa is north of the area
+    await expect(
+      bookingCreation.create(CONSUMER_ID, { ...BOOKING, dropoffAddress: "Tikkurila, Vantaa" })
+    ).rejects.toMatchObject({ name: "PricingError", code: "OUT_OF_AREA" });
+
+    expect(db.queriesOn("bookings", "insert")).toHaveLength(0);
+  });
+
+  it("explains a routing failure instead of guessing a distance", async () => {
+    setRoutingProvider({ name: "broken", route: vi.fn(async () => { throw new Error("timeout"); }) });
+
+    await expect(bookingCreation.create(CONSUMER_ID, BOOKING)).rejects.toMatchObject({
+      name: "PricingError",
+      message: "Could not calculate a driving route between these addresses. Please try again.",
+    });
+
+    expect(db.queriesOn("bookings", "insert")).toHaveLength(0);
+  });
+
+  it("removes the booking when its stops can't be stored", async () => {
+    db.onQuery((query) => (query.table === "booking_stops" ? { error: new Error("stops failed") } : answer(query)));
+
+    await expect(bookingCreation.create(CONSUMER_ID, BOOKING)).rejects.toThrow("stops failed");
+
+    const [removed] = db.queriesOn("bookings", "delete");
+    expect(removed.match).toEqual({ id: "booking-1" });
+  });
+
+  it("stores a scheduled time in UTC and opens it to claim", async () => {
+    const scheduledFor = new Date(Date.now() + 3 * 24 * 60 * 60 * 1000);
+    // The same moment as the consumer picked it in Helsinki
+    const helsinki = new Date(scheduledFor.getTime() + 2 * 60 * 60 * 1000).toISOString().replace("Z", "+02:00");
+
+    await bookingCreation.create(CONSUMER_ID, { ...BOOKING, scheduledFor: helsinki });
+
+    const [insert] = db.queriesOn("bookings", "insert");
+    expect(insert.values).toMatchObject({ scheduled_at: scheduledFor.toISOString() });
+    expect((insert.values as { dispatch_after: string }).dispatch_after).toEqual(expect.any(String));
+  });
+
+  it("refuses a scheduled time without its offset", async () => {
+    await expect(
+      bookingCreation.create(CONSUMER_ID, { ...BOOKING, scheduledFor: "2030-03-02T18:00:00" })
+    ).rejects.toMatchObject({ code: "INVALID" });
+
+    expect(db.queriesOn("bookings", "insert")).toHaveLength(0);
+  });
+
+  it("refuses a scheduled time that can't be read", async () => {
+    await expect(
+      bookingCreation.create(CONSUMER_ID, { ...BOOKING, scheduledFor: "tomorrow at six" })
+    ).rejects.toMatchObject({ code: "INVALID" });
+  });
+
+  it("refuses a scheduled time that has passed", async () => {
+    await expect(
+      bookingCreation.create(CONSUMER_ID, { ...BOOKING, scheduledFor: new Date(Date.now() - 60 * 1000).toISOString() })
+    ).rejects.toMatchObject({ code: "NOT_ALLOWED" });
+
+    expect(db.queriesOn("bookings", "insert")).toHaveLength(0);
+  });
+});
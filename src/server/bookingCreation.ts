@@ -0,0 +1,153 @@
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import type { Database, Json } from "@/integrations/supabase/database.types";
+import type { BookingFormData } from "@/services/bookingService";
+import { bookingExpiry } from "./bookingExpiry";
+import { dispatchAfter } from "./dispatch";
+import { normalizeExtras, pricingEngine } from "./pricingEngine";
+import { promotions } from "./promotions";
+
+type BookingRow = Database["public"]["Tables"]["bookings"]["Row"];
+
+export type BookingCreationErrorCode = "INVALID" | "NOT_ALLOWED";
+
+// Errors caused by the consumer's booking request (shown to the user as-is)
+export class BookingCreationError extends Error {
+  code: BookingCreationErrorCode;
+
+  constructor(code: BookingCreationErrorCode, message: string) {
+    super(message);
+    this.name = "BookingCreationError";
+    this.code = code;
+  }
+}
+
+// HTTP status for each error code in the API routes
+export const BOOKING_CREATION_ERROR_STATUS: Record<BookingCreationErrorCode, number> = {
+  INVALID: 400,
+  NOT_ALLOWED: 422,
+};
+
+// An ISO time with its UTC offset, as Date.toISOString() gives; without one it would be read as UTC
+const ISO_WITH_OFFSET = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+function parseScheduledFor(scheduledFor?: string): Date | null {
+  if (!scheduledFor) return null;
+
+  const scheduledAt = new Date(scheduledFor);
+  if (!ISO_WITH_OFFSET.test(scheduledFor) || Number.isNaN(scheduledAt.getTime())) {
+    throw new BookingCreationError("INVALID", "Invalid scheduled time");
+  }
+  if (scheduledAt <= new Date()) {
+    throw new BookingCreationError("NOT_ALLOWED", "The scheduled time has passed. Please pick a later time.");
+  }
+  return scheduledAt;
+}
+
+export const bookingCreation = {
+  /**
+   * Price a consumer's booking request on the server and store it with its
+   * stops, redeeming its promotion or referral code. Dispatch starts once the
+   * payment is authorized (see bookingPayments).
+   */
+  async create(consumerId: string, formData: BookingFormData): Promise<BookingRow> {
+    const scheduledAt = parseScheduledFor(formData.scheduledFor);
+    const extras = normalizeExtras(formData.extras);
+    const checkoutCode = formData.promoCode ? await promotions.resolve(formData.promoCode, consumerId) : null;
+    const rebooking = await bookingExpiry.rebooking(formData.rebookOf, consumerId, formData.prioritySurge !== false);
+
+    const { pickup, dropoff, stops, breakdown } = await pricingEngine.quoteTrip({
+      pickupAddress: formData.pickupAddress,
+      dropoffAddress: formData.dropoffAddress,
+      pickupPlace: formData.pickupPlace,
+      dropoffPlace: formData.dropoffPlace,
+      additionalStops: formData.additionalStops,
+      itemSize: formData.itemSize,
+      itemType: formData.itemType,
+      estimatedHours: formData.estimatedHours,
+      extras,
+      surgePercent: rebooking.surgePercent,
+      discount: checkoutCode?.kind === "promotion" ? checkoutCode.discount : undefined,
+    });
+
+    const { data, error } = await supabaseAdmin
+      .from("bookings")
+      .insert({
+        consumer_id: consumerId,
+        pickup_address: pickup.address,
+        pickup_lat: pickup.lat,
+        pickup_lng: pickup.lng,
+        dropoff_address: dropoff.address,
+        dropoff_lat: dropoff.lat,
+        dropoff_lng: dropoff.lng,
+        item_size: formData.itemSize as "small" | "medium" | "large",
+        item_type: formData.itemType,
+        estimated_hours: breakdown.billedHours,
+        item_description: formData.itemDescription || null,
+        special_instructions: formData.specialInstructions || null,
+        scheduled_at: scheduledAt?.toISOString() ?? null,
+        dispatch_after: dispatchAfter(scheduledAt?.toISOString() ?? null),
+        item_photos: formData.itemPhotos || null,
+        pickup_floor: extras.pickupFloor,
+        pickup_has_elevator: extras.pickupHasElevator,
+        dropoff_floor: extras.dropoffFloor,
+        dropoff_has_elevator: extras.dropoffHasElevator,
+        helper_count: extras.helperCount,
+        needs_assembly: extras.needsAssembly,
+        packing_materials: extras.packingMaterials,
+        extras_breakdown: breakdown.extras as unknown as Json,
+        distance_km: breakdown.distanceKm,
+        base_price: breakdown.basePrice,
+        distance_price: breakdown.distancePrice,
+        item_type_surcharge: breakdown.itemTypeSurcharge,
+        service_area_surcharge: breakdown.serviceAreaSurcharge,
+        pickup_service_area_id: pickup.serviceAreaId,
+        dropoff_service_area_id: dropoff.serviceAreaId,
+        extras_price: breakdown.extrasPrice,
+        surge_amount: breakdown.surgeAmount,
+        rebooked_from: rebooking.rebookedFrom,
+        promotion_id: breakdown.discount && checkoutCode?.kind === "promotion" ? checkoutCode.promotion.id : null,
+        discount_amount: breakdown.discount?.amount ?? 0,
+        total_price: breakdown.totalPrice,
+        platform_fee: breakdown.platformFee,
+        transporter_earnings: breakdown.transporterEarnings,
+        tariff_version: breakdown.tariffVersion,
+        status: "pending",
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    if (checkoutCode) {
+      try {
+        await promotions.redeem(checkoutCode, data.id, consumerId, breakdown.discount?.amount ?? 0);
+      } catch (redeemError) {
+        // Priced with a discount the consumer can no longer get; they can retry without it
+        await supabaseAdmin.from("bookings").delete().eq("id", data.id);
+        throw redeemError;
+      }
+    }
+
+    const { error: stopsError } = await supabaseAdmin
+      .from("booking_stops")
+      .insert(stops.map((stop, position) => ({
+        booking_id: data.id,
+        position,
+        stop_type: stop.type,
+        address: stop.address,
+        lat: stop.lat,
+        lng: stop.lng,
+        contact_name: stop.contactName || null,
+        contact_phone: stop.contactPhone || null,
+        instructions: stop.instructions || null,
+      })));
+
+    if (stopsError) {
+      // A booking without its route cannot be driven; don't leave it behind
+      await supabaseAdmin.from("bookings").delete().eq("id", data.id);
+      throw stopsError;
+    }
+
+    return data;
+  },
+};
@@ -0,0 +1,148 @@
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import type { Database } from "@/integrations/supabase/database.types";
+import { notificationHandlers } from "@/lib/notifications";
+import { bookingPayments } from "./bookingPayments";
+import { sendPush } from "./push";
+
+type BookingRow = Database["public"]["Tables"]["bookings"]["Row"];
+type ExpiringBooking = Pick<BookingRow, "id" | "consumer_id" | "total_price" | "discount_amount" | "surge_amount">;
+
+// How long a pending booking waits for a transporter before it expires, counted
+// from its first offer; one never offered counts from when it was due for
+// dispatch, so an unpaid booking still expires (BOOKING_EXPIRY_MINUTES)
+export const EXPIRY_MINUTES = Number(process.env.BOOKING_EXPIRY_MINUTES) || 60;
+
+// Priority surcharge, in % of the fare, suggested when an expired booking is
+// rebooked; 0 (the default) rebooks at the normal price (BOOKING_REBOOK_SURGE_PERCENT)
+export const REBOOK_SURGE_PERCENT = Math.max(Number(process.env.BOOKING_REBOOK_SURGE_PERCENT) || 0, 0);
+
+// A booking priced as a rebooking of the consumer's expired one
+export interface Rebooking {
+  rebookedFrom: string | null; // null when the booking to rebook isn't the consumer's expired one
+  surgePercent: number;
+}
+
+export interface ExpiryRunResult {
+  expired: string[]; // bookings expired in this run
+  released: number; // EUR of payment holds given back
+  failed: { bookingId: string; error: string }[];
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// The fare of the expired booking raised by the surge, before any discount
+function suggestedPrice(booking: ExpiringBooking): number | null {
+  if (REBOOK_SURGE_PERCENT <= 0) {
+    return null;
+  }
+
+  const fare = Number(booking.total_price) + Number(booking.discount_amount || 0) - Number(booking.surge_amount || 0);
+  return roundCents(fare * (1 + REBOOK_SURGE_PERCENT / 100));
+}
+
+async function expire(booking: ExpiringBooking, result: ExpiryRunResult): Promise<void> {
+  // Only while nobody has accepted it; the trigger closes any open offer
+  const { data: expired, error } = await supabaseAdmin
+    .from("bookings")
+    .update({
+      status: "expired",
+      expired_at: new Date().toISOString(),
+      status_reason: `No transporter accepted the booking within ${EXPIRY_MINUTES} minutes`,
+    })
+    .eq("id", booking.id)
+    .eq("status", "pending")
+    .is("transporter_id", null)
+    .select("id")
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!expired) {
+    return;
+  }
+
+  result.expired.push(booking.id);
+
+  try {
+    result.released = roundCents(result.released + (await bookingPayments.release(booking.id)));
+  } catch (releaseError) {
+    // The booking stays expired; the hold lapses at the provider or is released by an admin
+    console.error(`Releasing the payment of expired booking ${booking.id} failed:`, releaseError);
+    result.failed.push({
+      bookingId: booking.id,
+      error: releaseError instanceof Error ? releaseError.message : "Payment release failed",
+    });
+  }
+
+  try {
+    await sendPush(booking.consumer_id, notificationHandlers.bookingExpired(booking.id, suggestedPrice(booking)));
+  } catch (pushError) {
+    console.error(`Push for expired booking ${booking.id} failed:`, pushError);
+  }
+}
+
+export const bookingExpiry = {
+  /**
+   * Expire every pending booking nobody accepted within the expiry window:
+   * release its payment hold and offer the consumer to rebook. Run by the cron.
+   */
+  async run(): Promise<ExpiryRunResult> {
+    const result: ExpiryRunResult = { expired: [], released: 0, failed: [] };
+    const cutoff = new Date(Date.now() - EXPIRY_MINUTES * 60 * 1000).toISOString();
+
+    // From the first offer; never offered, from dispatch_after for scheduled
+    // bookings and from when they were made for the rest
+    const { data: stale, error } = await supabaseAdmin
+      .from("bookings")
+      .select("id, consumer_id, total_price, discount_amount, surge_amount")
+      .eq("status", "pending")
+      .is("transporter_id", null)
+      .or(
+        `dispatch_started_at.lte.${cutoff},` +
+        `and(dispatch_started_at.is.null,dispatch_after.lte.${cutoff}),` +
+        `and(dispatch_started_at.is.null,dispatch_after.is.null,created_at.lte.${cutoff})`
+      )
+      .order("created_at", { ascending: true })
+      .limit(100);
+
+    if (error) throw error;
+
+    for (const booking of stale || []) {
+      try {
+        await expire(booking, result);
+      } catch (expiryError) {
+        console.error(`Expiry of booking ${booking.id} failed:`, expiryError);
+        result.failed.push({
+          bookingId: booking.id,
+          error: expiryError instanceof Error ? expiryError.message : "Expiry failed",
+        });
+      }
+    }
+
+    return result;
+  },
+
+  /**
+   * How to price a booking that rebooks `bookingId`: with the priority surge
+   * if it is the consumer's own expired booking and they want it
+   */
+  async rebooking(bookingId: string | undefined, userId: string, prioritySurge = true): Promise<Rebooking> {
+    if (!bookingId) {
+      return { rebookedFrom: null, surgePercent: 0 };
+    }
+
+    const { data: booking, error } = await supabaseAdmin
+      .from("bookings")
+      .select("id")
+      .eq("id", bookingId)
+      .eq("consumer_id", userId)
+      .eq("status", "expired")
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!booking) {
+      return { rebookedFrom: null, surgePercent: 0 };
+    }
+
+    return { rebookedFrom: booking.id, surgePercent: prioritySurge ? REBOOK_SURGE_PERCENT : 0 };
+  },
+};
@@ -0,0 +1,309 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import type { FakeQuery, FakeSupabase } from "@/test/fakeSupabase";
+import { bookingPayments } from "./bookingPayments";
+import { dispatch } from "./dispatch";
+import { setMobilePayClient, type MobilePayClient } from "./mobilePay";
+import { createStubGateway, PaymentError, setPaymentGateway, type PaymentGateway } from "./paymentGateway";
+import { wallet } from "./wallet";
+
+vi.mock("@/integrations/supabase/admin", async () => {
+  const { createFakeSupabase } = await import("@/test/fakeSupabase");
+  return { supabaseAdmin: createFakeSupabase() };
+});
+
+vi.mock("./dispatch", () => ({ dispatch: { start: vi.fn(async () => undefined) } }));
+vi.mock("./savedCards", () => ({ ensureCustomer: vi.fn(async () => "cus_consumer") }));
+vi.mock("./wallet", () => ({
+  wallet: {
+    getBalance: vi.fn(async () => 20),
+    setHold: vi.fn(async (_userId: string, _bookingId: string, amount: number) => amount),
+    credit: vi.fn(),
+  },
+}));
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+
+const CONSUMER_ID = "consumer-1";
+const BOOKING = { id: "booking-1", status: "pending", consumer_id: CONSUMER_ID, transporter_id: null, total_price: 50 };
+
+// A pending booking for €50.00 with no payment yet
+function answer(query: FakeQuery) {
+  switch (`${query.table}.${query.action}`) {
+    case "bookings.select":
+      return { data: BOOKING };
+    case "profiles.select":
+      return { data: { role: "consumer" } };
+    default:
+      return undefined;
+  }
+}
+
+describe("bookingPayments.authorize", () => {
+  let gateway: PaymentGateway;
+
+  beforeEach(() => {
+    db.reset();
+    db.onQuery(answer);
+    gateway = createStubGateway();
+    setPaymentGateway(gateway);
+  });
+
+  afterEach(() => {
+    setPaymentGateway(null);
+  });
+
+  it("holds the wallet's share and authorizes the rest on the card", async () => {
+    const authorization = await bookingPayments.authorize("booking-1", CONSUMER_ID, "pm_card_visa", true);
+
+    expect(authorization).toMatchObject({ status: "requires_capture", paymentStatus: "authorized", amount: 30, walletAmount: 20 });
+    expect(wallet.setHold).toHaveBeenCalledWith(CONSUMER_ID, "booking-1", 20);
+    const [payment] = db.queriesOn("payments", "upsert");
+    expect(payment.values).toMatchObject({ provider: "stripe", amount: 30, wallet_amount: 20, status: "authorized" });
+    expect(dispatch.start).toHaveBeenCalledWith("booking-1");
+  });
+
+  it("leaves the wallet untouched when Stripe can't create the intent", async () => {
+    vi.spyOn(gateway, "createIntent").mockRejectedValue(new PaymentError("GATEWAY", "Stripe is unavailable"));
+
+    await expect(bookingPayments.authorize("booking-1", CONSUMER_ID, "pm_card_visa", true)).rejects.toThrow("Stripe is unavailable");
+
+    expect(wallet.setHold).not.toHaveBeenCalled();
+    expect(db.queriesOn("payments", "upsert")).toHaveLength(0);
+  });
+
+  it("leaves the wallet untouched when the intent can't be read back", async () => {
+    vi.spyOn(gateway, "retrieveIntent").mockRejectedValue(new Error("socket hang up"));
+
+    await expect(bookingPayments.authorize("booking-1", CONSUMER_ID, undefined, true)).rejects.toThrow("socket hang up");
+
+    expect(wallet.setHold).not.toHaveBeenCalled();
+  });
+
+  it("gives back the wallet when the hold can't be taken in full", async () => {
+    vi.mocked(wallet.setHold).mockResolvedValueOnce(5);
+
+    await expect(bookingPayments.authorize("booking-1", CONSUMER_ID, "pm_card_visa", true)).rejects.toMatchObject({ code: "CONFLICT" });
+
+    expect(wallet.setHold).toHaveBeenLastCalledWith(CONSUMER_ID, "booking-1", 0);
+    expect(dispatch.start).not.toHaveBeenCalled();
+  });
+});
+
+describe("bookingPayments.authorize over a MobilePay payment", () => {
+  const MOBILEPAY_PAYMENT = {
+    id: "payment-1",
+    booking_id: "booking-1",
+    provider: "mobilepay",
+    provider_reference: "booking-booking-1-mp1",
+    stripe_payment_intent_id: null,
+    amount: 50,
+    status: "pending",
+  };
+
+  // The ePayment as MobilePay reports it
+  const ePayment = (state: string) => ({
+    reference: MOBILEPAY_PAYMENT.provider_reference,
+    state,
+    aggregate: {
+      authorizedAmount: { currency: "EUR", value: state === "AUTHORIZED" ? 5000 : 0 },
+      cancelledAmount: { currency: "EUR", value: 0 },
+      capturedAmount: { currency: "EUR", value: 0 },
+      refundedAmount: { currency: "EUR", value: 0 },
+    },
+  });
+
+  let client: MobilePayClient;
+
+  beforeEach(() => {
+    db.reset();
+    db.onQuery((query) =>
+      query.table === "payments" && query.action === "select" ? { data: MOBILEPAY_PAYMENT } : answer(query)
+    );
+    setPaymentGateway(createStubGateway());
+    client = {
+      getPayment: vi.fn(async () => ePayment("CREATED")),
+      cancel: vi.fn(async () => undefined),
+    } as unknown as MobilePayClient;
+    setMobilePayClient(client);
+  });
+
+  afterEach(() => {
+    setPaymentGateway(null);
+    setMobilePayClient(null);
+  });
+
+  it("cancels the MobilePay payment still waiting in the app before paying by card", async () => {
+    const authorization = await bookingPayments.authorize("booking-1", CONSUMER_ID, "pm_card_visa");
+
+    expect(client.cancel).toHaveBeenCalledWith("booking-booking-1-mp1", "booking-booking-1-cancel-mp1");
+    expect(authorization.paymentStatus).toBe("authorized");
+    const [payment] = db.queriesOn("payments", "upsert");
+    expect(payment.values).toMatchObject({ provider: "stripe", provider_reference: null });
+  });
+
+  it("refuses to pay by card once the MobilePay payment was approved", async () => {
+    vi.mocked(client.getPayment).mockResolvedValue(ePayment("AUTHORIZED") as Awaited<ReturnType<MobilePayClient["getPayment"]>>);
+
+    await expect(bookingPayments.authorize("booking-1", CONSUMER_ID, "pm_card_visa")).rejects.toMatchObject({ code: "CONFLICT" });
+
+    expect(client.cancel).not.toHaveBeenCalled();
+    expect(db.queriesOn("payments", "upsert")).toHaveLength(0);
+    const [recorded] = db.queriesOn("payments", "update");
+    expect(recorded.values).toMatchObject({ status: "authorized" });
+  });
+});
+
+describe("bookingPayments.startMobilePay", () => {
+  beforeEach(() => {
+    db.reset();
+    db.onQuery(answer);
+  });
+
+  afterEach(() => {
+    setMobilePayClient(null);
+  });
+
+  it("leaves the wallet untouched when MobilePay can't create the payment", async () => {
+    setMobilePayClient({
+      createPayment: vi.fn(async () => {
+        throw new PaymentError("GATEWAY", "MobilePay is unavailable");
+      }),
+    } as unknown as MobilePayClient);
+
+    await expect(
+      bookingPayments.startMobilePay("booking-1", CONSUMER_ID, "http://app.test/payment/return", true)
+    ).rejects.toThrow("MobilePay is unavailable");
+
+    expect(wallet.setHold).not.toHaveBeenCalled();
+  });
+});
+
+describe("bookingPayments.refund", () => {
+  const ADMIN_ID = "admin-1";
+  // €50.00 captured: €30.00 on the card and €20.00 from the wallet
+  const CAPTURED_PAYMENT = {
+    id: "payment-1",
+    booking_id: "booking-1",
+    provider: "stripe",
+    stripe_payment_intent_id: "pi_1",
+    provider_reference: null,
+    amount: 30,
+    captured_amount: 30,
+    wallet_amount: 20,
+    refund_amount: 0,
+    wallet_refund_amount: 0,
+    status: "succeeded",
+  };
+
+  let gateway: PaymentGateway;
+
+  beforeEach(() => {
+    // The refunds ledger as the database would keep it
+    const refunds = new Map<string, Record<string, unknown>>();
+    db.reset();
+    db.onQuery((query) => {
+      switch (`${query.table}.${query.action}`) {
+        case "profiles.select":
+          return { data: { role: "admin" } };
+        case "payments.select":
+          return { data: CAPTURED_PAYMENT };
+        case "refunds.insert": {
+          const id = `refund-${refunds.size + 1}`;
+          refunds.set(id, { id, status: "pending", ...(query.values as object) });
+          return { data: refunds.get(id) };
+        }
+        case "refunds.update": {
+          const refund = refunds.get(query.match.id as string);
+          Object.assign(refund, query.values);
+          return { data: refund };
+        }
+        default:
+          return answer(query);
+      }
+    });
+    db.onRpc((name) =>
+      name === "reserve_payment_refund" ? { data: [{ previous_refund: 0, previous_wallet_refund: 0 }] } : undefined
+    );
+    gateway = createStubGateway();
+    vi.spyOn(gateway, "refund").mockImplementation(async (_intentId, amount) => ({ id: "re_1", amount, status: "succeeded" }));
+    setPaymentGateway(gateway);
+    vi.mocked(wallet.credit).mockResolvedValue({ id: "wallet-tx-1" } as Awaited<ReturnType<typeof wallet.credit>>);
+  });
+
+  afterEach(() => {
+    setPaymentGateway(null);
+  });
+
+  it("reserves the refund on the payment before refunding the card", async () => {
+    const result = await bookingPayments.refund("booking-1", ADMIN_ID, 10, "late_arrival");
+
+    expect(db.rpcs).toEqual([
+      { name: "reserve_payment_refund", args: { p_payment_id: "payment-1", p_refund: 10, p_wallet_refund: 0 } },
+    ]);
+    expect(gateway.refund).toHaveBeenCalledWith("pi_1", 1000, "booking-booking-1-refund-0-1000");
+    expect(vi.mocked(db.rpc).mock.invocationCallOrder[0]).toBeLessThan(vi.mocked(gateway.refund).mock.invocationCallOrder[0]);
+    expect(result.refunds).toHaveLength(1);
+    expect(result.refunds[0]).toMatchObject({ amount: 10, provider: "stripe", status: "succeeded", provider_reference: "re_1" });
+  });
+
+  it("refunds the card first and the rest to the wallet", async () => {
+    const result = await bookingPayments.refund("booking-1", ADMIN_ID, 40, "cancellation");
+
+    expect(db.rpcs[0].args).toMatchObject({ p_refund: 30, p_wallet_refund: 10 });
+    expect(gateway.refund).toHaveBeenCalledWith("pi_1", 3000, expect.any(String));
+    expect(wallet.credit).toHaveBeenCalledWith(expect.objectContaining({ userId: CONSUMER_ID, type: "refund", amount: 10 }));
+    expect(result.refunds.map((refund) => [refund.provider, refund.amount])).toEqual([
+      ["stripe", 30],
+      ["wallet", 10],
+    ]);
+  });
+
+  it("credits all of it to the wallet when the wallet is the destination", async () => {
+    await bookingPayments.refund("booking-1", ADMIN_ID, 15, "goodwill", null, "wallet");
+
+    expect(db.rpcs[0].args).toMatchObject({ p_refund: 0, p_wallet_refund: 15 });
+    expect(gateway.refund).not.toHaveBeenCalled();
+    expect(wallet.credit).toHaveBeenCalledWith(expect.objectContaining({ amount: 15 }));
+  });
+
+  it("releases the reservation and marks the refund failed when the card refund fails", async () => {
+    vi.mocked(gateway.refund).mockRejectedValue(new PaymentError("GATEWAY", "Stripe is unavailable"));
+
+    await expect(bookingPayments.refund("booking-1", ADMIN_ID, 10, "late_arrival")).rejects.toThrow("Stripe is unavailable");
+
+    expect(db.rpcs[1]).toMatchObject({ name: "reserve_payment_refund", args: { p_refund: -10 } });
+    const [failed] = db.queriesOn("refunds", "update");
+    expect(failed.values).toMatchObject({ status: "failed", error: "Stripe is unavailable" });
+    expect(wallet.credit).not.toHaveBeenCalled();
+  });
+
+  it("keeps the card refund and releases only the wallet's share when the credit fails", async () => {
+    vi.mocked(wallet.credit).mockRejectedValue(new Error("wallet down"));
+
+    await expect(bookingPayments.refund("booking-1", ADMIN_ID, 40, "cancellation")).rejects.toThrow("wallet down");
+
+    expect(gateway.refund).toHaveBeenCalledTimes(1);
+    expect(db.rpcs[1].args).toMatchObject({ p_wallet_refund: -10 });
+    expect(Math.abs(db.rpcs[1].args.p_refund as number)).toBe(0);
+  });
+
+  it("refuses to refund more than is left of the payment", async () => {
+    await expect(bookingPayments.refund("booking-1", ADMIN_ID, 50.01, "cancellation")).rejects.toMatchObject({
+      code: "NOT_ALLOWED",
+      message: "At most €50.00 can be refunded",
+    });
+
+    expect(db.rpcs).toHaveLength(0);
+    expect(gateway.refund).not.toHaveBeenCalled();
+  });
+
+  it("reports a conflict when another refund took what was left meanwhile", async () => {
+    db.onRpc(() => ({ error: { message: "REFUND_EXCEEDS_PAYMENT" } }));
+
+    await expect(bookingPayments.refund("booking-1", ADMIN_ID, 10, "late_arrival")).rejects.toMatchObject({ code: "CONFLICT" });
+
+    expect(gateway.refund).not.toHaveBeenCalled();
+    expect(db.queriesOn("refunds", "insert")).toHaveLength(0);
+  });
+});
@@ -0,0 +1,1058 @@
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import { Constants, type Database } from "@/integrations/supabase/database.types";
+import { getPaymentGateway, PaymentError, type CardDetails, type GatewayIntent, type IntentStatus } from "./paymentGateway";
+import { ePaymentAmounts, ePaymentStatus, getMobilePayClient, type EPayment } from "./mobilePay";
+import type { CancellationSettlement } from "./cancellationPolicy";
+import { dispatch } from "./dispatch";
+import { payoutLedger } from "./payoutLedger";
+import { MIN_CHARGE } from "./pricingEngine";
+import { promotions } from "./promotions";
+import { ensureCustomer } from "./savedCards";
+import { wallet } from "./wallet";
+
+type PaymentStatus = Database["public"]["Enums"]["payment_status"];
+type PaymentProvider = Database["public"]["Enums"]["payment_provider"];
+type PaymentRow = Database["public"]["Tables"]["payments"]["Row"];
+type PaymentUpdate = Database["public"]["Tables"]["payments"]["Update"];
+type RefundRow = Database["public"]["Tables"]["refunds"]["Row"];
+export type RefundReason = Database["public"]["Enums"]["refund_reason"];
+
+export interface PaymentAuthorization {
+  paymentIntentId: string;
+  clientSecret: string | null; // for confirming with Stripe.js when the status asks for it
+  status: IntentStatus;
+  paymentStatus: PaymentStatus;
+  amount: number; // EUR held on the card
+  walletAmount: number; // EUR paid from the consumer's wallet
+  card: CardDetails | null;
+}
+
+export interface MobilePayStart {
+  reference: string;
+  redirectUrl: string; // send the customer here to approve in the MobilePay app
+}
+
+export interface PaymentSummary {
+  provider: PaymentProvider;
+  status: PaymentStatus;
+  amount: number; // EUR authorized at the provider
+  capturedAmount: number;
+  refundAmount: number;
+  walletAmount: number; // EUR paid from the wallet
+  walletRefundAmount: number; // EUR refunded into the wallet
+}
+
+export interface RefundRequest {
+  reason: RefundReason;
+  note?: string | null;
+  initiatedBy: string | null; // the admin, or whoever cancelled the booking
+}
+
+// Where a refund goes: back the way it was paid (card or MobilePay first, then
+// the wallet share), or all of it into the consumer's wallet
+export type RefundDestination = "original" | "wallet";
+
+export interface RefundResult {
+  refunds: RefundRow[]; // one per destination the money went to
+  payment: PaymentSummary;
+  refundable: number; // EUR still refundable after this refund
+}
+
+export interface DeliveryRunResult {
+  settled: string[]; // delivered bookings whose earnings or capture were still missing
+  failed: { bookingId: string; error: string }[];
+}
+
+export interface CancellationRunResult {
+  settled: string[]; // cancelled bookings whose settlement had failed or never ran
+  failed: { bookingId: string; error: string }[];
+}
+
+export interface CancellationPayment {
+  captured: number; // EUR kept as the cancellation fee
+  released: number; // EUR of the hold given back without a charge
+  refunded: number; // EUR returned from an earlier capture
+}
+
+const PAYMENT_STATUS_BY_INTENT: Partial<Record<IntentStatus, PaymentStatus>> = {
+  requires_capture: "authorized",
+  succeeded: "succeeded",
+  canceled: "cancelled",
+};
+
+// Statuses from which the client still has to confirm the intent
+const UNCONFIRMED: IntentStatus[] = ["requires_payment_method", "requires_confirmation", "requires_action"];
+
+// A booking can be paid again only while nothing is held or charged
+const PAID: PaymentStatus[] = ["authorized", "succeeded", "refunded"];
+
+const toCents = (eur: number) => Math.round(eur * 100);
+const toEur = (cents: number) => cents / 100;
+
+const REFUND_DESTINATIONS: RefundDestination[] = ["original", "wallet"];
+
+// The transporter's app settles a delivery right away; the cron picks up those
+// still unsettled after this long, from as far back as the lookback
+const DELIVERY_GRACE_MINUTES = 10;
+const DELIVERY_LOOKBACK_DAYS = 7;
+
+// /api/bookings/cancel settles a cancellation right away; the cron retries
+// those still queued in cancellation_settlements after this long
+const CANCELLATION_GRACE_MINUTES = 10;
+
+// Stable per booking and step, so a retried request can never authorize, capture or refund twice
+const idempotencyKey = (bookingId: string, step: string) => `booking-${bookingId}-${step}`;
+
+// The payment's id at its provider; the payments check constraint guarantees it is set
+const providerId = (payment: PaymentRow) =>
+  (payment.provider === "mobilepay" ? payment.provider_reference : payment.stripe_payment_intent_id) || "";
+
+async function getPayment(bookingId: string): Promise<PaymentRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from("payments")
+    .select("*")
+    .eq("booking_id", bookingId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+async function getBookingFor(bookingId: string, userId: string) {
+  const [{ data: booking, error }, { data: profile }] = await Promise.all([
+    supabaseAdmin
+      .from("bookings")
+      .select("id, status, consumer_id, transporter_id, total_price")
+      .eq("id", bookingId)
+      .maybeSingle(),
+    supabaseAdmin
+      .from("profiles")
+      .select("role")
+      .eq("id", userId)
+      .maybeSingle(),
+  ]);
+
+  if (error) throw error;
+  if (!booking) {
+    throw new PaymentError("NOT_FOUND", "Booking not found");
+  }
+
+  return { booking, role: profile?.role || null };
+}
+
+// The consumer paying for their own booking while it waits for a transporter
+async function getPayableBooking(bookingId: string, userId: string) {
+  const { booking } = await getBookingFor(bookingId, userId);
+  if (booking.consumer_id !== userId) {
+    throw new PaymentError("FORBIDDEN", "You cannot pay for this booking");
+  }
+  if (booking.status !== "pending") {
+    throw new PaymentError("NOT_ALLOWED", "Only bookings waiting for a transporter can be paid");
+  }
+
+  const payment = await getPayment(bookingId);
+  if (payment?.status && PAID.includes(payment.status)) {
+    throw new PaymentError("CONFLICT", "This booking is already paid");
+  }
+
+  return { booking, payment };
+}
+
+async function getConsumerId(bookingId: string): Promise<string> {
+  const { data, error } = await supabaseAdmin
+    .from("bookings")
+    .select("consumer_id")
+    .eq("id", bookingId)
+    .single();
+
+  if (error) throw error;
+  return data.consumer_id;
+}
+
+/**
+ * The wallet's share of a split payment: all it can cover, but never leaving
+ * the card or MobilePay less than its minimum charge
+ */
+function walletShare(total: number, balance: number): number {
+  const totalCents = toCents(total);
+  const walletCents = Math.min(Math.max(toCents(balance), 0), totalCents);
+  const rest = totalCents - walletCents;
+  if (rest > 0 && rest < toCents(MIN_CHARGE)) {
+    return toEur(Math.max(totalCents - toCents(MIN_CHARGE), 0));
+  }
+  return toEur(walletCents);
+}
+
+/**
+ * Hold `amount` EUR of the consumer's wallet for the booking (releasing any
+ * earlier hold), failing if the wallet was spent since its balance was read
+ */
+async function holdWallet(userId: string, bookingId: string, amount: number): Promise<number> {
+  const held = await wallet.setHold(userId, bookingId, amount);
+  if (toCents(held) !== toCents(amount)) {
+    await wallet.setHold(userId, bookingId, 0);
+    throw new PaymentError("CONFLICT", "Your wallet balance changed. Please try again.");
+  }
+  return held;
+}
+
+// Mirror the intent into the payments row; Stripe is the source of truth for its status
+async function recordIntent(bookingId: string, intent: GatewayIntent, walletAmount?: number): Promise<PaymentStatus> {
+  const status = PAYMENT_STATUS_BY_INTENT[intent.status] || "pending";
+  const now = new Date().toISOString();
+
+  const { error } = await supabaseAdmin
+    .from("payments")
+    .upsert(
+      {
+        booking_id: bookingId,
+        provider: "stripe",
+        stripe_payment_intent_id: intent.id,
+        provider_reference: null,
+        amount: toEur(intent.amount),
+        currency: intent.currency.toUpperCase(),
+        status,
+        captured_amount: toEur(intent.amountReceived),
+        ...(walletAmount !== undefined ? { wallet_amount: walletAmount } : {}),
+        ...(status === "authorized" ? { authorized_at: now } : {}),
+        ...(status === "succeeded" ? { captured_at: now } : {}),
+        updated_at: now,
+      },
+      { onConflict: "booking_id" }
+    );
+
+  if (error) throw error;
+  return status;
+}
+
+// Mirror an ePayment into the payments row; MobilePay is the source of truth for its status
+async function recordEPayment(bookingId: string, payment: EPayment): Promise<PaymentStatus> {
+  const status = ePaymentStatus(payment);
+  const now = new Date().toISOString();
+
+  const { error } = await supabaseAdmin
+    .from("payments")
+    .update({
+      status,
+      ...ePaymentAmounts(payment),
+      ...(status === "authorized" ? { authorized_at: now } : {}),
+      ...(status === "succeeded" ? { captured_at: now } : {}),
+      updated_at: now,
+    })
+    .eq("booking_id", bookingId)
+    .eq("provider_reference", payment.reference);
+
+  if (error) throw error;
+  return status;
+}
+
+/**
+ * Cancel a MobilePay payment still waiting for approval in the app before the
+ * booking is paid by card instead, so it can't be approved afterwards.
+ * Fails with CONFLICT if the consumer approved it meanwhile.
+ */
+async function cancelPendingMobilePay(payment: PaymentRow | null): Promise<void> {
+  if (payment?.provider !== "mobilepay" || payment.status !== "pending") {
+    return;
+  }
+
+  const client = getMobilePayClient();
+  const reference = providerId(payment);
+  const remote = await client.getPayment(reference);
+
+  if (ePaymentStatus(remote) === "authorized") {
+    await recordEPayment(payment.booking_id, remote);
+    throw new PaymentError("CONFLICT", "This booking was just paid with MobilePay.");
+  }
+  if (remote.state === "CREATED") {
+    const attempt = reference.slice(reference.lastIndexOf("-") + 1);
+    await client.cancel(reference, idempotencyKey(payment.booking_id, `cancel-${attempt}`));
+  }
+}
+
+// Capture `amount` EUR of a held payment (all of it when omitted) and release the rest
+async function captureHeld(payment: PaymentRow, amount?: number): Promise<number> {
+  const bookingId = payment.booking_id;
+  const value = toCents(amount ?? Number(payment.amount));
+
+  if (payment.provider === "mobilepay") {
+    const client = getMobilePayClient();
+    const reference = providerId(payment);
+    if (value > 0) {
+      await client.capture(reference, { currency: "EUR", value }, idempotencyKey(bookingId, "capture"));
+    }
+    // MobilePay keeps the remainder reserved until it is cancelled
+    if (value < toCents(Number(payment.amount))) {
+      await client.cancel(reference, idempotencyKey(bookingId, "cancel"));
+    }
+
+    const remote = await client.getPayment(reference);
+    await recordEPayment(bookingId, remote);
+    return ePaymentAmounts(remote).captured_amount;
+  }
+
+  // Stripe releases the uncaptured part of a partial capture itself
+  const gateway = getPaymentGateway();
+  const intent = value > 0
+    ? await gateway.captureIntent(providerId(payment), value, idempotencyKey(bookingId, "capture"))
+    : await gateway.cancelIntent(providerId(payment), idempotencyKey(bookingId, "cancel"));
+
+  await recordIntent(bookingId, intent);
+  return toEur(intent.amountReceived);
+}
+
+// What an authorized payment holds, card or MobilePay and wallet
+const heldCents = (payment: PaymentRow) =>
+  toCents(Number(payment.amount)) + toCents(Number(payment.wallet_amount || 0));
+
+/**
+ * Keep `keep` EUR of an authorized payment and release the rest: the card or
+ * MobilePay hold is captured first, then wallet credit. Returns the EUR kept.
+ */
+async function settleHold(payment: PaymentRow, keep: number): Promise<number> {
+  const walletAmount = Number(payment.wallet_amount || 0);
+  const providerCaptured = payment.provider === "wallet"
+    ? 0
+    : await captureHeld(payment, Math.min(keep, Number(payment.amount)));
+  const walletKept = toEur(Math.min(Math.max(toCents(keep) - toCents(providerCaptured), 0), toCents(walletAmount)));
+
+  if (walletAmount > 0) {
+    await wallet.setHold(await getConsumerId(payment.booking_id), payment.booking_id, walletKept);
+
+    // A wallet-only payment is settled here; card and MobilePay ones by captureHeld
+    const now = new Date().toISOString();
+    const update: PaymentUpdate = { wallet_amount: walletKept, updated_at: now };
+    if (payment.provider === "wallet") {
+      update.status = walletKept > 0 ? "succeeded" : "cancelled";
+      update.captured_at = walletKept > 0 ? now : null;
+    }
+
+    const { error } = await supabaseAdmin
+      .from("payments")
+      .update(update)
+      .eq("id", payment.id);
+
+    if (error) throw error;
+  }
+
+  return toEur(toCents(providerCaptured) + toCents(walletKept));
+}
+
+// A payment never completed may still hold wallet credit. Returns the EUR released.
+async function releaseUnpaid(bookingId: string, payment: PaymentRow | null): Promise<number> {
+  const released = Number(payment?.wallet_amount || 0);
+  await wallet.setHold(await getConsumerId(bookingId), bookingId, 0);
+  return released;
+}
+
+// What the consumer has paid in total, card or MobilePay and wallet, once the payment is captured
+const paidCents = (payment: PaymentRow) =>
+  toCents(Number(payment.captured_amount)) + toCents(Number(payment.wallet_amount || 0));
+
+const refundedCents = (payment: PaymentRow) =>
+  toCents(Number(payment.refund_amount || 0)) + toCents(Number(payment.wallet_refund_amount || 0));
+
+// Record a refund in the refunds ledger before moving the money, and mark how it ended
+async function recordRefund(
+  payment: PaymentRow,
+  cents: number,
+  provider: PaymentProvider,
+  request: RefundRequest,
+  move: () => Promise<string>
+): Promise<RefundRow> {
+  // Written first, so a refund the provider accepted is never missing from the ledger
+  const { data: pending, error: ledgerError } = await supabaseAdmin
+    .from("refunds")
+    .insert({
+      payment_id: payment.id,
+      booking_id: payment.booking_id,
+      amount: toEur(cents),
+      reason: request.reason,
+      note: request.note || null,
+      initiated_by: request.initiatedBy,
+      provider,
+    })
+    .select("*")
+    .single();
+
+  if (ledgerError) throw ledgerError;
+
+  let providerReference: string;
+  try {
+    providerReference = await move();
+  } catch (error) {
+    await supabaseAdmin
+      .from("refunds")
+      .update({
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", pending.id);
+    throw error;
+  }
+
+  const { data: refund, error: refundError } = await supabaseAdmin
+    .from("refunds")
+    .update({ status: "succeeded", provider_reference: providerReference, completed_at: new Date().toISOString() })
+    .eq("id", pending.id)
+    .select("*")
+    .single();
+
+  if (refundError) throw refundError;
+  return refund;
+}
+
+/**
+ * Refund `amount` EUR of a captured payment and add it to the payment's
+ * refund totals. Back the original way, the card or MobilePay gets what it
+ * was charged first and the wallet the rest; to the wallet, all of it is
+ * credited there. Each part is kept in the refunds ledger.
+ */
+async function refundPayment(
+  payment: PaymentRow,
+  amount: number,
+  request: RefundRequest,
+  destination: RefundDestination = "original"
+): Promise<{ payment: PaymentRow; refunds: RefundRow[] }> {
+  const cents = toCents(amount);
+  const remaining = paidCents(payment) - refundedCents(payment);
+  if (cents <= 0 || cents > remaining) {
+    throw new PaymentError("NOT_ALLOWED", `At most €${toEur(remaining).toFixed(2)} can be refunded`);
+  }
+  if (!Constants.public.Enums.refund_reason.includes(request.reason)) {
+    throw new PaymentError("NOT_ALLOWED", "Unknown refund reason");
+  }
+  if (!REFUND_DESTINATIONS.includes(destination)) {
+    throw new PaymentError("NOT_ALLOWED", "Unknown refund destination");
+  }
+
+  const providerLeft = payment.provider === "wallet"
+    ? 0
+    : toCents(Number(payment.captured_amount)) - toCents(Number(payment.refund_amount || 0));
+  const toProvider = destination === "wallet" ? 0 : Math.min(cents, Math.max(providerLeft, 0));
+  const toWallet = cents - toProvider;
+
+  // Added to the totals before any money moves, so a concurrent refund sees it
+  const { alreadyRefunded, alreadyCredited } = await reserveRefund(payment.id, toProvider, toWallet);
+
+  const refunds: RefundRow[] = [];
+  if (toProvider > 0) {
+    // Keyed on what was refunded before, so a retry of this refund replays it
+    // while a later refund of the same amount is a new one
+    const key = idempotencyKey(payment.booking_id, `refund-${alreadyRefunded}-${toProvider}`);
+    try {
+      refunds.push(
+        await recordRefund(payment, toProvider, payment.provider, request, async () =>
+          payment.provider === "mobilepay"
+            ? getMobilePayClient().refund(providerId(payment), { currency: "EUR", value: toProvider }, key)
+            : (await getPaymentGateway().refund(providerId(payment), toProvider, key)).id
+        )
+      );
+    } catch (error) {
+      await releaseRefund(payment.id, toProvider, toWallet);
+      throw error;
+    }
+  }
+
+  if (toWallet > 0) {
+    try {
+      const consumerId = await getConsumerId(payment.booking_id);
+      refunds.push(
+        await recordRefund(payment, toWallet, "wallet", request, async () => {
+          const credit = await wallet.credit({
+            userId: consumerId,
+            type: "refund",
+            amount: toEur(toWallet),
+            description: "Refund for a booking",
+            idempotencyKey: idempotencyKey(payment.booking_id, `refund-wallet-${alreadyCredited}-${toWallet}`),
+            bookingId: payment.booking_id,
+          });
+          return credit.id;
+        })
+      );
+    } catch (error) {
+      // The provider part, if any, went through and stays counted
+      await releaseRefund(payment.id, 0, toWallet);
+      throw error;
+    }
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("payments")
+    .select("*")
+    .eq("id", payment.id)
+    .single();
+
+  if (error) throw error;
+  return { payment: data, refunds };
+}
+
+// Add cents to the payment's refund totals under a row lock; fails if they would
+// go past what was paid, e.g. because another refund got there first
+async function reserveRefund(
+  paymentId: string,
+  toProvider: number,
+  toWallet: number
+): Promise<{ alreadyRefunded: number; alreadyCredited: number }> {
+  const { data, error } = await supabaseAdmin.rpc("reserve_payment_refund", {
+    p_payment_id: paymentId,
+    p_refund: toEur(toProvider),
+    p_wallet_refund: toEur(toWallet),
+  });
+
+  if (error) {
+    if (error.message === "REFUND_EXCEEDS_PAYMENT") {
+      throw new PaymentError("CONFLICT", "The payment was refunded meanwhile. Reload it and try again.");
+    }
+    throw error;
+  }
+
+  return {
+    alreadyRefunded: toCents(Number(data[0].previous_refund)),
+    alreadyCredited: toCents(Number(data[0].previous_wallet_refund)),
+  };
+}
+
+// Take a reservation back after the money could not be moved
+async function releaseRefund(paymentId: string, toProvider: number, toWallet: number): Promise<void> {
+  const { error } = await supabaseAdmin.rpc("reserve_payment_refund", {
+    p_payment_id: paymentId,
+    p_refund: -toEur(toProvider),
+    p_wallet_refund: -toEur(toWallet),
+  });
+
+  if (error) console.error(`Releasing a refund of payment ${paymentId} failed:`, error);
+}
+
+// Book the transporter's earnings and charge the held amount of a delivered booking; safe to repeat
+async function settleDelivery(bookingId: string): Promise<PaymentSummary | null> {
+  // The transporter has earned the job whether or not the charge goes through now
+  await payoutLedger.recordDelivery(bookingId);
+  await promotions.rewardReferral(bookingId).catch((error) => console.error("Error rewarding referral:", error));
+
+  const payment = await getPayment(bookingId);
+  if (!payment || payment.status !== "authorized") {
+    return null;
+  }
+
+  if (payment.provider === "wallet") {
+    const now = new Date().toISOString();
+    const { error } = await supabaseAdmin
+      .from("payments")
+      .update({ status: "succeeded", captured_at: now, updated_at: now })
+      .eq("id", payment.id)
+      .eq("status", "authorized");
+
+    if (error) throw error;
+  } else {
+    await captureHeld(payment);
+  }
+  const captured = await getPayment(bookingId);
+  return captured ? toSummary(captured) : null;
+}
+
+// EUR already refunded for the cancellation, counting refunds whose outcome isn't known yet
+async function cancellationRefunded(bookingId: string): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from("refunds")
+    .select("amount")
+    .eq("booking_id", bookingId)
+    .eq("reason", "cancellation")
+    .neq("status", "failed");
+
+  if (error) throw error;
+  return toEur((data || []).reduce((sum, refund) => sum + toCents(Number(refund.amount)), 0));
+}
+
+// Capture the fee from the hold and release the rest, or refund what was captured
+// beyond it; safe to repeat, as a refund made by an earlier attempt is not made again
+async function settleCancelledPayment(settlement: CancellationSettlement, cancelledBy: string | null): Promise<CancellationPayment> {
+  const result: CancellationPayment = { captured: 0, released: 0, refunded: 0 };
+  const payment = await getPayment(settlement.bookingId);
+
+  if (payment?.status === "authorized") {
+    result.captured = await settleHold(payment, settlement.fee);
+    result.released = toEur(heldCents(payment) - toCents(result.captured));
+  } else if (payment?.status === "succeeded" && settlement.refundAmount > 0) {
+    const left = toEur(toCents(settlement.refundAmount) - toCents(await cancellationRefunded(settlement.bookingId)));
+    if (left > 0) {
+      await refundPayment(payment, left, { reason: "cancellation", initiatedBy: cancelledBy });
+      result.refunded = left;
+    }
+  } else if (!payment || payment.status === "pending" || payment.status === "failed") {
+    result.released = await releaseUnpaid(settlement.bookingId, payment);
+  }
+
+  return result;
+}
+
+// Keep why a cancellation couldn't be settled, for the cron and admins
+async function recordCancellationFailure(bookingId: string, failure: unknown): Promise<void> {
+  const { data } = await supabaseAdmin
+    .from("cancellation_settlements")
+    .select("attempts")
+    .eq("booking_id", bookingId)
+    .maybeSingle();
+
+  const { error } = await supabaseAdmin
+    .from("cancellation_settlements")
+    .update({
+      attempts: (data?.attempts || 0) + 1,
+      last_error: failure instanceof Error ? failure.message : String(failure),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("booking_id", bookingId);
+
+  if (error) console.error(`Recording the failed settlement of booking ${bookingId} failed:`, error);
+}
+
+function toSummary(payment: PaymentRow): PaymentSummary {
+  return {
+    provider: payment.provider,
+    status: payment.status || "pending",
+    amount: Number(payment.amount),
+    capturedAmount: Number(payment.captured_amount),
+    refundAmount: Number(payment.refund_amount || 0),
+    walletAmount: Number(payment.wallet_amount || 0),
+    walletRefundAmount: Number(payment.wallet_refund_amount || 0),
+  };
+}
+
+function toAuthorization(intent: GatewayIntent, paymentStatus: PaymentStatus, walletAmount: number): PaymentAuthorization {
+  return {
+    paymentIntentId: intent.id,
+    clientSecret: intent.clientSecret,
+    status: intent.status,
+    paymentStatus,
+    amount: toEur(intent.amount),
+    walletAmount,
+    card: intent.card,
+  };
+}
+
+export const bookingPayments = {
+  /**
+   * Create (or resume) the booking's PaymentIntent for its quoted total, with
+   * manual capture, for the consumer's Stripe Customer so their saved cards
+   * can pay. With a payment method it is confirmed here; otherwise the client
+   * confirms it with Stripe.js and then calls `confirm`. With `useWallet` the
+   * wallet pays what it can and the card the rest.
+   */
+  async authorize(
+    bookingId: string,
+    userId: string,
+    paymentMethodId?: string,
+    useWallet = false
+  ): Promise<PaymentAuthorization> {
+    const { booking, payment } = await getPayableBooking(bookingId, userId);
+
+    // The card takes over the payments row, which would orphan a MobilePay payment still open
+    await cancelPendingMobilePay(payment);
+
+    const total = Number(booking.total_price);
+    const walletAmount = useWallet ? walletShare(total, await wallet.getBalance(userId, bookingId)) : 0;
+    const amount = toCents(total) - toCents(walletAmount);
+    if (amount <= 0) {
+      throw new PaymentError("NOT_ALLOWED", "Your wallet covers this booking. Pay with your wallet instead.");
+    }
+
+    // A different wallet share is a different amount, so it needs its own intent
+    const gateway = getPaymentGateway();
+    const created = await gateway.createIntent(
+      {
+        amount,
+        currency: "eur",
+        metadata: { bookingId },
+        customerId: await ensureCustomer(userId),
+      },
+      idempotencyKey(bookingId, walletAmount > 0 ? `authorize-wallet-${toCents(walletAmount)}` : "authorize")
+    );
+
+    // A replayed create returns the intent as it was first created
+    let intent = await gateway.retrieveIntent(created.id);
+
+    // Held only once the intent exists, so a failing call to Stripe leaves the wallet as it was
+    await holdWallet(userId, bookingId, walletAmount);
+
+    if (paymentMethodId && UNCONFIRMED.includes(intent.status)) {
+      try {
+        intent = await gateway.confirmIntent(intent.id, paymentMethodId);
+      } catch (error) {
+        if (error instanceof PaymentError && error.code === "DECLINED") {
+          await supabaseAdmin
+            .from("payments")
+            .upsert(
+              {
+                booking_id: bookingId,
+                provider: "stripe",
+                stripe_payment_intent_id: intent.id,
+                provider_reference: null,
+                amount: toEur(intent.amount),
+                wallet_amount: walletAmount,
+                status: "failed",
+                updated_at: new Date().toISOString(),
+              },
+              { onConflict: "booking_id" }
+            );
+        }
+        throw error;
+      }
+    }
+
+    const paymentStatus = await recordIntent(bookingId, intent, walletAmount);
+    if (paymentStatus === "authorized" || paymentStatus === "succeeded") {
+      await dispatch.start(bookingId);
+    }
+
+    return toAuthorization(intent, paymentStatus, walletAmount);
+  },
+
+  /**
+   * Record the outcome after the client confirmed with Stripe.js. The status is
+   * read back from Stripe, never taken from the client.
+   */
+  async confirm(bookingId: string, userId: string): Promise<PaymentAuthorization> {
+    const { booking } = await getBookingFor(bookingId, userId);
+    if (booking.consumer_id !== userId) {
+      throw new PaymentError("FORBIDDEN", "You cannot pay for this booking");
+    }
+
+    const payment = await getPayment(bookingId);
+    if (!payment || payment.provider !== "stripe") {
+      throw new PaymentError("NOT_FOUND", "No card payment started for this booking");
+    }
+
+    const intent = await getPaymentGateway().retrieveIntent(providerId(payment));
+    const paymentStatus = await recordIntent(bookingId, intent);
+
+    if (paymentStatus !== "authorized" && paymentStatus !== "succeeded") {
+      throw new PaymentError("DECLINED", "The payment was not authorized. Please try again.");
+    }
+
+    await dispatch.start(bookingId);
+    return toAuthorization(intent, paymentStatus, Number(payment.wallet_amount || 0));
+  },
+
+  /**
+   * Start a MobilePay ePayment for the booking's quoted total (less the wallet
+   * share with `useWallet`) and return where to send the customer. MobilePay
+   * brings them back to `returnUrl`. A failed or abandoned attempt is retried
+   * under a new reference.
+   */
+  async startMobilePay(bookingId: string, userId: string, returnUrl: string, useWallet = false): Promise<MobilePayStart> {
+    const { booking, payment } = await getPayableBooking(bookingId, userId);
+
+    const total = Number(booking.total_price);
+    const walletAmount = useWallet ? walletShare(total, await wallet.getBalance(userId, bookingId)) : 0;
+    const amount = toCents(total) - toCents(walletAmount);
+    if (amount <= 0) {
+      throw new PaymentError("NOT_ALLOWED", "Your wallet covers this booking. Pay with your wallet instead.");
+    }
+
+    // References can't be reused at MobilePay, so each attempt (and each amount) gets its own
+    const previous = payment?.provider === "mobilepay" ? Number(payment.provider_reference?.match(/-mp(\d+)$/)?.[1] || 0) : 0;
+    const resumable = payment?.provider === "mobilepay" && payment.status === "pending" &&
+      toCents(Number(payment.amount)) === amount;
+    const attempt = resumable ? previous : previous + 1;
+    const reference = `booking-${bookingId}-mp${attempt}`;
+
+    const created = await getMobilePayClient().createPayment(
+      {
+        reference,
+        amount: { currency: "EUR", value: amount },
+        returnUrl,
+        description: "VANGO move",
+      },
+      idempotencyKey(bookingId, `mobilepay-${attempt}`)
+    );
+
+    // As for cards, the wallet is held only once MobilePay took the payment
+    await holdWallet(userId, bookingId, walletAmount);
+
+    const { error } = await supabaseAdmin
+      .from("payments")
+      .upsert(
+        {
+          booking_id: bookingId,
+          provider: "mobilepay",
+          provider_reference: reference,
+          stripe_payment_intent_id: null,
+          amount: toEur(amount),
+          currency: "EUR",
+          status: "pending",
+          captured_amount: 0,
+          refund_amount: 0,
+          wallet_amount: walletAmount,
+          wallet_refund_amount: 0,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "booking_id" }
+      );
+
+    if (error) throw error;
+    return { reference, redirectUrl: created.redirectUrl };
+  },
+
+  /**
+   * Pay the whole booking from the consumer's wallet. The credit is taken
+   * from the wallet now and kept once the booking is delivered.
+   */
+  async payWithWallet(bookingId: string, userId: string): Promise<PaymentSummary> {
+    const { booking } = await getPayableBooking(bookingId, userId);
+
+    const total = Number(booking.total_price);
+    const balance = await wallet.getBalance(userId, bookingId);
+    if (toCents(balance) < toCents(total)) {
+      throw new PaymentError(
+        "NOT_ALLOWED",
+        `Your wallet has €${balance.toFixed(2)}. Pay the rest with a card or MobilePay.`
+      );
+    }
+
+    const walletAmount = await holdWallet(userId, bookingId, total);
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseAdmin
+      .from("payments")
+      .upsert(
+        {
+          booking_id: bookingId,
+          provider: "wallet",
+          stripe_payment_intent_id: null,
+          provider_reference: null,
+          amount: 0,
+          currency: "EUR",
+          status: "authorized",
+          captured_amount: 0,
+          refund_amount: 0,
+          wallet_amount: walletAmount,
+          wallet_refund_amount: 0,
+          authorized_at: now,
+          updated_at: now,
+        },
+        { onConflict: "booking_id" }
+      )
+      .select("*")
+      .single();
+
+    if (error) throw error;
+
+    await dispatch.start(bookingId);
+    return toSummary(data);
+  },
+
+  /**
+   * The booking's payment, for the MobilePay return page. A MobilePay payment
+   * still pending is refreshed from MobilePay, in case its webhook is late.
+   */
+  async getStatus(bookingId: string, userId: string): Promise<PaymentSummary | null> {
+    const { booking, role } = await getBookingFor(bookingId, userId);
+    if (booking.consumer_id !== userId && role !== "admin") {
+      throw new PaymentError("FORBIDDEN", "You cannot view this payment");
+    }
+
+    let payment = await getPayment(bookingId);
+    if (payment?.provider === "mobilepay" && payment.status === "pending") {
+      const status = await recordEPayment(bookingId, await getMobilePayClient().getPayment(providerId(payment)));
+      if (status === "authorized") {
+        await dispatch.start(bookingId);
+      }
+      payment = await getPayment(bookingId);
+    }
+
+    return payment ? toSummary(payment) : null;
+  },
+
+  /**
+   * Charge the held amount once the booking is delivered. Safe to call more
+   * than once; bookings without an authorized payment are left alone.
+   */
+  async capture(bookingId: string, userId: string): Promise<PaymentSummary | null> {
+    const { booking, role } = await getBookingFor(bookingId, userId);
+    const involved = booking.consumer_id === userId || booking.transporter_id === userId || role === "admin";
+    if (!involved) {
+      throw new PaymentError("FORBIDDEN", "You cannot capture this payment");
+    }
+    if (booking.status !== "delivered") {
+      throw new PaymentError("NOT_ALLOWED", "Payments are captured when the booking is delivered");
+    }
+
+    return settleDelivery(bookingId);
+  },
+
+  /**
+   * Settle delivered bookings the transporter's app didn't, e.g. because it
+   * went offline right after delivering: their earnings, referral rewards and
+   * capture. Run by the cron.
+   */
+  async settleDeliveries(now: Date = new Date()): Promise<DeliveryRunResult> {
+    const result: DeliveryRunResult = { settled: [], failed: [] };
+
+    const { data: delivered, error } = await supabaseAdmin
+      .from("bookings")
+      .select("id, transporter_id")
+      .eq("status", "delivered")
+      .gte("completed_at", new Date(now.getTime() - DELIVERY_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString())
+      .lte("completed_at", new Date(now.getTime() - DELIVERY_GRACE_MINUTES * 60 * 1000).toISOString());
+
+    if (error) throw error;
+    if (!delivered || delivered.length === 0) {
+      return result;
+    }
+
+    const ids = delivered.map((booking) => booking.id);
+    const [earnings, held] = await Promise.all([
+      supabaseAdmin
+        .from("ledger_transactions")
+        .select("idempotency_key")
+        .in("idempotency_key", ids.map((id) => `earning-${id}`)),
+      supabaseAdmin
+        .from("payments")
+        .select("booking_id")
+        .in("booking_id", ids)
+        .eq("status", "authorized"),
+    ]);
+
+    if (earnings.error) throw earnings.error;
+    if (held.error) throw held.error;
+
+    const earned = new Set((earnings.data || []).map((row) => row.idempotency_key));
+    const uncaptured = new Set((held.data || []).map((row) => row.booking_id));
+    const unsettled = delivered.filter(
+      (booking) => uncaptured.has(booking.id) || (booking.transporter_id && !earned.has(`earning-${booking.id}`))
+    );
+
+    for (const booking of unsettled) {
+      try {
+        await settleDelivery(booking.id);
+        result.settled.push(booking.id);
+      } catch (settleError) {
+        console.error(`Settling delivered booking ${booking.id} failed:`, settleError);
+        result.failed.push({
+          bookingId: booking.id,
+          error: settleError instanceof Error ? settleError.message : "Settling the delivery failed",
+        });
+      }
+    }
+
+    return result;
+  },
+
+  /**
+   * Settle a cancelled booking: the fee is captured from the hold and the rest
+   * released, or the refund made if the payment was already captured, and the
+   * transporter's compensation or penalty posted. The fee comes from the card
+   * or MobilePay hold first; wallet credit not kept goes back to the wallet.
+   * The cancellation stays queued
+   * in cancellation_settlements until all of it went through, for the cron to retry.
+   */
+  async settleCancellation(settlement: CancellationSettlement, cancelledBy: string | null): Promise<CancellationPayment> {
+    try {
+      const result = await settleCancelledPayment(settlement, cancelledBy);
+      await payoutLedger.recordCancellation(settlement);
+
+      const { error } = await supabaseAdmin
+        .from("cancellation_settlements")
+        .delete()
+        .eq("booking_id", settlement.bookingId);
+
+      if (error) throw error;
+      return result;
+    } catch (error) {
+      await recordCancellationFailure(settlement.bookingId, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Settle cancellations /api/bookings/cancel couldn't, e.g. because the card
+   * provider was down, from the terms recorded on the booking. Run by the cron.
+   */
+  async settleCancellations(now: Date = new Date()): Promise<CancellationRunResult> {
+    const result: CancellationRunResult = { settled: [], failed: [] };
+
+    const { data: queued, error } = await supabaseAdmin
+      .from("cancellation_settlements")
+      .select(`
+        booking_id,
+        booking:bookings!booking_id(cancellation_fee, refund_amount, transporter_compensation, transporter_penalty, status_changed_by)
+      `)
+      .lte("created_at", new Date(now.getTime() - CANCELLATION_GRACE_MINUTES * 60 * 1000).toISOString())
+      .order("created_at");
+
+    if (error) throw error;
+
+    for (const { booking_id: bookingId, booking } of queued || []) {
+      try {
+        await this.settleCancellation(
+          {
+            bookingId,
+            fee: Number(booking?.cancellation_fee || 0),
+            refundAmount: Number(booking?.refund_amount || 0),
+            transporterCompensation: Number(booking?.transporter_compensation || 0),
+            transporterPenalty: Number(booking?.transporter_penalty || 0),
+          },
+          booking?.status_changed_by || null
+        );
+        result.settled.push(bookingId);
+      } catch (settleError) {
+        console.error(`Settling cancelled booking ${bookingId} failed:`, settleError);
+        result.failed.push({
+          bookingId,
+          error: settleError instanceof Error ? settleError.message : "Settling the cancellation failed",
+        });
+      }
+    }
+
+    return result;
+  },
+
+  /**
+   * Give back everything held for a booking that ends without a charge, such
+   * as one that expired before any transporter accepted it. Returns the EUR released.
+   */
+  async release(bookingId: string): Promise<number> {
+    const payment = await getPayment(bookingId);
+
+    if (payment?.status === "authorized") {
+      await settleHold(payment, 0);
+      return toEur(heldCents(payment));
+    }
+    if (!payment || payment.status === "pending" || payment.status === "failed") {
+      return releaseUnpaid(bookingId, payment);
+    }
+    return 0;
+  },
+
+  /**
+   * Refund part or all of a captured payment (admins), for example a partial
+   * refund for a late arrival, back the original way or into the consumer's
+   * wallet. Every refund is kept in the refunds ledger.
+   */
+  async refund(
+    bookingId: string,
+    userId: string,
+    amount: number,
+    reason: RefundReason,
+    note?: string | null,
+    destination: RefundDestination = "original"
+  ): Promise<RefundResult> {
+    const { role } = await getBookingFor(bookingId, userId);
+    if (role !== "admin") {
+      throw new PaymentError("FORBIDDEN", "Only admins can issue refunds");
+    }
+
+    const payment = await getPayment(bookingId);
+    // A payment refunded in full at the provider can still have a wallet share to refund
+    if (!payment || (payment.status !== "succeeded" && payment.status !== "refunded")) {
+      throw new PaymentError("NOT_ALLOWED", "Only captured payments can be refunded");
+    }
+
+    const refunded = await refundPayment(payment, amount, { reason, note, initiatedBy: userId }, destination);
+    return {
+      refunds: refunded.refunds,
+      payment: toSummary(refunded.payment),
+      refundable: toEur(paidCents(refunded.payment) - refundedCents(refunded.payment)),
+    };
+  },
+};
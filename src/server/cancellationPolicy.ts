@@ -0,0 +1,243 @@
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import type { Database, Json } from "@/integrations/supabase/database.types";
+import { canTransition, type BookingStatus } from "@/lib/bookingStatus";
+
+type UserRole = Database["public"]["Enums"]["user_role"];
+
+export type CancellationErrorCode = "NOT_FOUND" | "FORBIDDEN" | "NOT_ALLOWED" | "CONFLICT";
+
+export class CancellationError extends Error {
+  code: CancellationErrorCode;
+
+  constructor(code: CancellationErrorCode, message: string) {
+    super(message);
+    this.name = "CancellationError";
+    this.code = code;
+  }
+}
+
+// HTTP status for each error code in the API routes
+export const CANCELLATION_ERROR_STATUS: Record<CancellationErrorCode, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  NOT_ALLOWED: 422,
+  CONFLICT: 409,
+};
+
+export interface StageFee {
+  percent: number; // of the booking total
+  minimum: number; // EUR
+}
+
+export interface CancellationPolicy {
+  version: number;
+  consumerFees: Partial<Record<BookingStatus, StageFee>>;
+  transporterCompensationPercent: number;
+  transporterPenalty: number;
+}
+
+export interface CancellationInput {
+  status: BookingStatus;
+  totalPrice: number;
+  paidAmount: number; // held on the card, or captured and not yet refunded
+  cancelledBy: UserRole;
+}
+
+export interface CancellationBreakdown {
+  fee: number; // kept from the consumer
+  refundAmount: number;
+  transporterCompensation: number;
+  transporterPenalty: number;
+  policyVersion: number;
+}
+
+export interface CancellationQuote extends CancellationBreakdown {
+  bookingId: string;
+  status: BookingStatus;
+  cancelledBy: UserRole;
+  paidAmount: number;
+  paymentIntentId: string | null;
+}
+
+// What the user saw and confirmed
+export type QuotedCancellation = Pick<CancellationQuote, "status" | "fee" | "transporterPenalty">;
+
+// The money a cancellation moves, as recorded on the booking
+export type CancellationSettlement = Pick<
+  CancellationQuote,
+  "bookingId" | "fee" | "refundAmount" | "transporterCompensation" | "transporterPenalty"
+>;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+function parseConsumerFees(raw: Json): Partial<Record<BookingStatus, StageFee>> {
+  const fees = (raw || {}) as Record<string, { percent?: number; minimum?: number }>;
+  return Object.fromEntries(
+    Object.entries(fees).map(([status, fee]) => [
+      status,
+      { percent: Number(fee?.percent ?? 0), minimum: Number(fee?.minimum ?? 0) },
+    ])
+  );
+}
+
+export const cancellationPolicy = {
+  async getActivePolicy(): Promise<CancellationPolicy> {
+    const { data, error } = await supabaseAdmin
+      .from("cancellation_policies")
+      .select("*")
+      .eq("is_active", true)
+      .lte("effective_from", new Date().toISOString())
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new Error("No active cancellation policy configured");
+
+    return {
+      version: data.version,
+      consumerFees: parseConsumerFees(data.consumer_fees),
+      transporterCompensationPercent: Number(data.transporter_compensation_percent),
+      transporterPenalty: Number(data.transporter_penalty),
+    };
+  },
+
+  /**
+   * Settle a cancellation against a policy. Pure, so the fee shown before
+   * confirming is the fee charged.
+   */
+  calculate(policy: CancellationPolicy, input: CancellationInput): CancellationBreakdown {
+    let fee = 0;
+    let transporterPenalty = 0;
+
+    if (input.cancelledBy === "consumer") {
+      const stage = policy.consumerFees[input.status];
+      if (stage) {
+        fee = Math.min(input.totalPrice, Math.max(stage.minimum, input.totalPrice * (stage.percent / 100)));
+      }
+    } else if (input.cancelledBy === "transporter") {
+      // The consumer did nothing wrong: full refund, and the transporter pays
+      transporterPenalty = policy.transporterPenalty;
+    }
+
+    // Only what was actually paid can be kept or returned
+    fee = roundCents(Math.min(fee, input.paidAmount));
+
+    return {
+      fee,
+      refundAmount: roundCents(Math.max(0, input.paidAmount - fee)),
+      transporterCompensation: roundCents(fee * (policy.transporterCompensationPercent / 100)),
+      transporterPenalty: roundCents(transporterPenalty),
+      policyVersion: policy.version,
+    };
+  },
+
+  /**
+   * What cancelling would cost `userId` right now
+   */
+  async quote(bookingId: string, userId: string): Promise<CancellationQuote> {
+    const [{ data: booking, error }, { data: profile }] = await Promise.all([
+      supabaseAdmin
+        .from("bookings")
+        .select("id, status, consumer_id, transporter_id, total_price")
+        .eq("id", bookingId)
+        .maybeSingle(),
+      supabaseAdmin
+        .from("profiles")
+        .select("role")
+        .eq("id", userId)
+        .maybeSingle(),
+    ]);
+
+    if (error) throw error;
+    if (!booking?.status) {
+      throw new CancellationError("NOT_FOUND", "Booking not found");
+    }
+
+    const role = profile?.role;
+    const involved =
+      (role === "consumer" && booking.consumer_id === userId) ||
+      (role === "transporter" && booking.transporter_id === userId) ||
+      role === "admin";
+    if (!role || !involved) {
+      throw new CancellationError("FORBIDDEN", "You cannot cancel this booking");
+    }
+
+    if (!canTransition(booking.status, "cancelled")) {
+      throw new CancellationError("NOT_ALLOWED", "This booking can no longer be cancelled");
+    }
+
+    const { data: payment } = await supabaseAdmin
+      .from("payments")
+      .select("stripe_payment_intent_id, amount, captured_amount, refund_amount, wallet_amount, wallet_refund_amount, status")
+      .eq("booking_id", bookingId)
+      .in("status", ["authorized", "succeeded"])
+      .maybeSingle();
+
+    // An authorized payment is still only held on the card; the fee is captured from the hold.
+    // Wallet credit paid towards the booking counts either way.
+    const walletPaid = payment ? Number(payment.wallet_amount) - Number(payment.wallet_refund_amount) : 0;
+    const paidAmount = !payment
+      ? 0
+      : payment.status === "authorized"
+      ? roundCents(Number(payment.amount) + walletPaid)
+      : roundCents(Number(payment.captured_amount) - Number(payment.refund_amount || 0) + walletPaid);
+    const policy = await this.getActivePolicy();
+
+    return {
+      bookingId,
+      status: booking.status,
+      cancelledBy: role,
+      paidAmount,
+      paymentIntentId: payment?.stripe_payment_intent_id || null,
+      ...this.calculate(policy, {
+        status: booking.status,
+        totalPrice: Number(booking.total_price),
+        paidAmount,
+        cancelledBy: role,
+      }),
+    };
+  },
+
+  /**
+   * Cancel the booking on the terms the user confirmed, and record the
+   * settlement. The money is moved afterwards by bookingPayments.settleCancellation.
+   */
+  async cancel(bookingId: string, userId: string, quoted: QuotedCancellation, reason?: string): Promise<CancellationQuote> {
+    const quote = await this.quote(bookingId, userId);
+
+    // The booking moved on or the policy changed since the dialog was shown
+    if (
+      quote.status !== quoted.status ||
+      roundCents(Number(quoted.fee)) !== quote.fee ||
+      roundCents(Number(quoted.transporterPenalty)) !== quote.transporterPenalty
+    ) {
+      throw new CancellationError("CONFLICT", "The cancellation terms changed. Please review them and confirm again.");
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("bookings")
+      .update({
+        status: "cancelled",
+        cancelled_at: new Date().toISOString(),
+        status_reason: reason || null,
+        status_changed_by: userId,
+        cancelled_by: quote.cancelledBy,
+        cancellation_fee: quote.fee,
+        refund_amount: quote.refundAmount,
+        transporter_compensation: quote.transporterCompensation,
+        transporter_penalty: quote.transporterPenalty,
+        cancellation_policy_version: quote.policyVersion,
+      })
+      .eq("id", bookingId)
+      .eq("status", quote.status)
+      .select("id");
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new CancellationError("CONFLICT", "The booking changed while cancelling. Please check it and try again.");
+    }
+
+    return quote;
+  },
+};
@@ -0,0 +1,477 @@
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import type { Database } from "@/integrations/supabase/database.types";
+import type { BookingStatus } from "@/lib/bookingStatus";
+import { VEHICLE_ITEM_TYPES } from "@/lib/itemTypes";
+import { notificationHandlers } from "@/lib/notifications";
+import { availabilityAt } from "@/lib/shifts";
+import { sendPush } from "./push";
+import { haversineKm, type LatLng } from "./routing";
+import { shifts } from "./shifts";
+
+type BookingRow = Database["public"]["Tables"]["bookings"]["Row"];
+type PaymentStatus = Database["public"]["Enums"]["payment_status"];
+type DispatchOfferRow = Database["public"]["Tables"]["dispatch_offers"]["Row"];
+type DispatchBooking = Pick<
+  BookingRow,
+  "id" | "consumer_id" | "item_type" | "pickup_address" | "dropoff_address" | "pickup_lat" | "pickup_lng" | "dispatch_round" | "dispatch_started_at"
+>;
+
+// Radius (km around the pickup) of each dispatch round. A round lasts until
+// everyone in it has had an offer; after the last, the widest radius is kept,
+// so transporters who come online later still get the booking.
+export const DISPATCH_RADII_KM = [5, 10, 20, 40];
+
+// How long a transporter has at least to accept or decline an offer (DISPATCH_OFFER_SECONDS)
+export const OFFER_SECONDS = Number(process.env.DISPATCH_OFFER_SECONDS) || 45;
+
+// The dispatch cron runs every minute (vercel.json) and moves timed-out offers on
+const CRON_INTERVAL_MS = 60 * 1000;
+
+// A booking scheduled further ahead than this is left for transporters to claim
+// until this long before it starts, then dispatched (DISPATCH_SCHEDULED_LEAD_MINUTES)
+export const SCHEDULED_LEAD_MINUTES = Number(process.env.DISPATCH_SCHEDULED_LEAD_MINUTES) || 120;
+
+// A transporter whose app hasn't reported a location for this long is not offered anything
+export const LOCATION_MAX_AGE_MINUTES = 60;
+
+// Transporters on the road for a job get no new offers
+const BUSY_STATUSES: BookingStatus[] = ["en_route_pickup", "picked_up", "en_route_dropoff"];
+
+// Bookings are only offered or claimed once their payment is held (or charged)
+const PAID_STATUSES: PaymentStatus[] = ["authorized", "succeeded"];
+
+const KM_PER_DEGREE_LAT = 111.32;
+
+export type OfferResponse = "accept" | "decline";
+
+export type DispatchErrorCode = "NOT_FOUND" | "EXPIRED" | "UNAVAILABLE" | "NOT_ALLOWED";
+
+// Errors answering an offer or claiming a scheduled job (shown to the transporter as-is)
+export class DispatchError extends Error {
+  code: DispatchErrorCode;
+
+  constructor(code: DispatchErrorCode, message: string) {
+    super(message);
+    this.name = "DispatchError";
+    this.code = code;
+  }
+}
+
+// HTTP status for each error code in the API routes
+export const DISPATCH_ERROR_STATUS: Record<DispatchErrorCode, number> = {
+  NOT_FOUND: 404,
+  EXPIRED: 409,
+  UNAVAILABLE: 409,
+  NOT_ALLOWED: 403,
+};
+
+// accept_dispatch_offer raises these
+const RESPOND_ERRORS: Record<string, [DispatchErrorCode, string]> = {
+  OFFER_NOT_OPEN: ["NOT_FOUND", "This job is no longer offered to you."],
+  OFFER_EXPIRED: ["EXPIRED", "This offer has expired."],
+  BOOKING_UNAVAILABLE: ["UNAVAILABLE", "This booking is no longer available."],
+  NOT_APPROVED: ["NOT_ALLOWED", "Only approved transporters can claim jobs."],
+  VEHICLE_UNSUITABLE: ["NOT_ALLOWED", "Your vehicle can't carry this item."],
+  OFF_SHIFT: ["NOT_ALLOWED", "This job starts outside your working hours."],
+  BOOKING_UNPAID: ["UNAVAILABLE", "This booking isn't paid yet."],
+};
+
+const fail = (reason: keyof typeof RESPOND_ERRORS) => new DispatchError(...RESPOND_ERRORS[reason]);
+
+export interface DispatchCandidate {
+  transporterId: string;
+  distanceKm: number;
+}
+
+export interface DispatchRunResult {
+  expired: number; // offers that timed out in this run
+  offers: DispatchOfferRow[]; // offers made in this run
+  failed: { bookingId: string; error: string }[];
+}
+
+export const radiusForRound = (round: number) =>
+  DISPATCH_RADII_KM[Math.min(round, DISPATCH_RADII_KM.length) - 1];
+
+/**
+ * When dispatch should start offering a booking scheduled for `scheduledAt`:
+ * null (at once) unless it starts more than the lead time from now
+ */
+export function dispatchAfter(scheduledAt: string | null, now = new Date()): string | null {
+  if (!scheduledAt) {
+    return null;
+  }
+
+  const start = new Date(new Date(scheduledAt).getTime() - SCHEDULED_LEAD_MINUTES * 60 * 1000);
+  return start > now ? start.toISOString() : null;
+}
+
+// Bookings dispatch may offer now; scheduled ones wait for their dispatch_after
+const isDue = () => `dispatch_after.is.null,dispatch_after.lte.${new Date().toISOString()}`;
+
+async function getPendingBooking(bookingId: string): Promise<DispatchBooking | null> {
+  const { data, error } = await supabaseAdmin
+    .from("bookings")
+    .select("id, consumer_id, item_type, pickup_address, dropoff_address, pickup_lat, pickup_lng, dispatch_round, dispatch_started_at, payment:payments!inner(status)")
+    .eq("id", bookingId)
+    .eq("status", "pending")
+    .is("transporter_id", null)
+    .in("payment.status", PAID_STATUSES)
+    .or(isDue())
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Online, approved transporters within the radius of the pickup whose vehicle
+ * can carry the item, who are working by their calendar, have no other offer
+ * open and were not offered this booking before, nearest first
+ */
+async function findCandidates(booking: DispatchBooking, radiusKm: number): Promise<DispatchCandidate[]> {
+  const pickup: LatLng = { lat: Number(booking.pickup_lat), lng: Number(booking.pickup_lng) };
+  const latDelta = radiusKm / KM_PER_DEGREE_LAT;
+  const lngDelta = radiusKm / (KM_PER_DEGREE_LAT * Math.cos((pickup.lat * Math.PI) / 180));
+  const now = new Date();
+  const freshSince = new Date(now.getTime() - LOCATION_MAX_AGE_MINUTES * 60 * 1000).toISOString();
+
+  // The bounding box narrows the search on idx_availability_location; the radius is checked below
+  const { data: online, error } = await supabaseAdmin
+    .from("transporter_availability")
+    .select("transporter_id, last_location_lat, last_location_lng, profile:profiles!inner(is_online)")
+    .eq("profile.is_online", true)
+    .gte("last_location_lat", pickup.lat - latDelta)
+    .lte("last_location_lat", pickup.lat + latDelta)
+    .gte("last_location_lng", pickup.lng - lngDelta)
+    .lte("last_location_lng", pickup.lng + lngDelta)
+    .gte("updated_at", freshSince);
+
+  if (error) throw error;
+
+  const nearby = (online || [])
+    .map((row) => ({
+      transporterId: row.transporter_id,
+      distanceKm: haversineKm(pickup, { lat: Number(row.last_location_lat), lng: Number(row.last_location_lng) }),
+    }))
+    .filter((candidate) => candidate.distanceKm <= radiusKm && candidate.transporterId !== booking.consumer_id);
+
+  if (nearby.length === 0) {
+    return [];
+  }
+
+  const ids = nearby.map((candidate) => candidate.transporterId);
+  const [applications, busy, offered, holding, calendars] = await Promise.all([
+    supabaseAdmin.from("transporter_applications").select("user_id, vehicle_type").in("user_id", ids).eq("status", "approved"),
+    supabaseAdmin.from("bookings").select("transporter_id").in("transporter_id", ids).in("status", BUSY_STATUSES),
+    supabaseAdmin.from("dispatch_offers").select("transporter_id").eq("booking_id", booking.id),
+    supabaseAdmin
+      .from("dispatch_offers")
+      .select("transporter_id")
+      .in("transporter_id", ids)
+      .eq("status", "offered")
+      .gt("expires_at", now.toISOString()),
+    shifts.getCalendars(ids),
+  ]);
+
+  if (applications.error) throw applications.error;
+  if (busy.error) throw busy.error;
+  if (offered.error) throw offered.error;
+  if (holding.error) throw holding.error;
+
+  const vehicles = new Map((applications.data || []).map((application) => [application.user_id, application.vehicle_type || "van"]));
+  const excluded = new Set(
+    [busy.data, offered.data, holding.data].flatMap((rows) => (rows || []).map((row) => row.transporter_id))
+  );
+
+  return nearby
+    .filter((candidate) => {
+      const vehicle = vehicles.get(candidate.transporterId);
+      return vehicle &&
+        !excluded.has(candidate.transporterId) &&
+        availabilityAt(calendars.get(candidate.transporterId), now).available &&
+        (!booking.item_type || VEHICLE_ITEM_TYPES[vehicle].includes(booking.item_type));
+    })
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+}
+
+/**
+ * Time out open offers past their expiry, for one booking or all of them.
+ * Returns how many expired.
+ */
+async function expireOffers(bookingId?: string): Promise<number> {
+  const now = new Date().toISOString();
+  let query = supabaseAdmin
+    .from("dispatch_offers")
+    .update({ status: "expired", responded_at: now })
+    .eq("status", "offered")
+    .lte("expires_at", now);
+
+  if (bookingId) {
+    query = query.eq("booking_id", bookingId);
+  }
+
+  const { data, error } = await query.select("id");
+  if (error) throw error;
+  return data?.length || 0;
+}
+
+async function hasOpenOffer(bookingId: string): Promise<boolean> {
+  const { count, error } = await supabaseAdmin
+    .from("dispatch_offers")
+    .select("id", { count: "exact", head: true })
+    .eq("booking_id", bookingId)
+    .eq("status", "offered");
+
+  if (error) throw error;
+  return (count || 0) > 0;
+}
+
+// Offers run until the first cron tick at least OFFER_SECONDS away, so the
+// cron moves an offer on as it expires instead of up to a minute later
+function offerExpiry(now = Date.now()): Date {
+  return new Date(Math.ceil((now + OFFER_SECONDS * 1000) / CRON_INTERVAL_MS) * CRON_INTERVAL_MS);
+}
+
+async function sendOffer(booking: DispatchBooking, candidate: DispatchCandidate, round: number): Promise<DispatchOfferRow | null> {
+  const now = Date.now();
+  const expiresAt = offerExpiry(now);
+  const { data: offer, error } = await supabaseAdmin
+    .from("dispatch_offers")
+    .insert({
+      booking_id: booking.id,
+      transporter_id: candidate.transporterId,
+      round,
+      radius_km: radiusForRound(round),
+      distance_km: Math.round(candidate.distanceKm * 100) / 100,
+      expires_at: expiresAt.toISOString(),
+    })
+    .select()
+    .single();
+
+  // Another run offered the booking meanwhile (one open offer per booking)
+  if (error?.code === "23505") {
+    return null;
+  }
+  if (error) throw error;
+
+  const payload = notificationHandlers.jobOffer(
+    booking.id,
+    booking.pickup_address,
+    booking.dropoff_address,
+    candidate.distanceKm,
+    Math.round((expiresAt.getTime() - now) / 1000)
+  );
+
+  try {
+    if ((await sendPush(offer.transporter_id, payload)) > 0) {
+      await supabaseAdmin.from("dispatch_offers").update({ push_sent: true }).eq("id", offer.id);
+      offer.push_sent = true;
+    }
+  } catch (pushError) {
+    // The offer stands; the transporter still sees it on their dashboard
+    console.error(`Push for dispatch offer ${offer.id} failed:`, pushError);
+  }
+
+  return offer;
+}
+
+export const dispatch = {
+  /**
+   * Offer a pending booking to the nearest transporter who hasn't had it yet,
+   * widening the radius when nobody is left in the current round. Does nothing
+   * while an offer is open. Returns the offer made, or null.
+   */
+  async advance(bookingId: string): Promise<DispatchOfferRow | null> {
+    await expireOffers(bookingId);
+
+    const booking = await getPendingBooking(bookingId);
+    if (!booking || (await hasOpenOffer(bookingId))) {
+      return null;
+    }
+
+    let round = Math.max(booking.dispatch_round, 1);
+    let candidates = await findCandidates(booking, radiusForRound(round));
+    while (candidates.length === 0 && round < DISPATCH_RADII_KM.length) {
+      round += 1;
+      candidates = await findCandidates(booking, radiusForRound(round));
+    }
+
+    // The expiry window runs from the first offer (see bookingExpiry)
+    const now = new Date().toISOString();
+    const { error } = await supabaseAdmin
+      .from("bookings")
+      .update({ dispatch_round: round, dispatched_at: now, dispatch_started_at: booking.dispatch_started_at || now })
+      .eq("id", booking.id);
+
+    if (error) throw error;
+
+    return candidates.length > 0 ? sendOffer(booking, candidates[0], round) : null;
+  },
+
+  /**
+   * Start offering a booking once its payment is authorized, unless it is
+   * scheduled far enough ahead to be claimed first. A failure is logged and
+   * left to the dispatch cron.
+   */
+  async start(bookingId: string): Promise<void> {
+    try {
+      await dispatch.advance(bookingId);
+    } catch (dispatchError) {
+      console.error(`Dispatch of booking ${bookingId} failed:`, dispatchError);
+    }
+  },
+
+  /**
+   * The transporter's answer to their open offer. Accepting assigns the
+   * booking to them; declining moves it on to the next transporter.
+   */
+  async respond(bookingId: string, transporterId: string, response: OfferResponse): Promise<void> {
+    if (response === "accept") {
+      const { error } = await supabaseAdmin.rpc("accept_dispatch_offer", {
+        p_booking_id: bookingId,
+        p_transporter_id: transporterId,
+      });
+
+      if (error) {
+        if (RESPOND_ERRORS[error.message]) throw fail(error.message);
+        throw error;
+      }
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const { data: declined, error } = await supabaseAdmin
+      .from("dispatch_offers")
+      .update({ status: "declined", responded_at: now })
+      .eq("booking_id", bookingId)
+      .eq("transporter_id", transporterId)
+      .eq("status", "offered")
+      .gt("expires_at", now)
+      .select("id")
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!declined) {
+      throw fail("OFFER_NOT_OPEN");
+    }
+
+    try {
+      await this.advance(bookingId);
+    } catch (dispatchError) {
+      // The decline stands; the dispatch cron moves the booking on
+      console.error(`Dispatch of booking ${bookingId} after a decline failed:`, dispatchError);
+    }
+  },
+
+  /**
+   * Take a scheduled booking that is still open to claim, ahead of dispatch.
+   * The transporter needs an approved application and a vehicle that can carry the item.
+   */
+  async claim(bookingId: string, transporterId: string): Promise<void> {
+    const { data: application, error: applicationError } = await supabaseAdmin
+      .from("transporter_applications")
+      .select("vehicle_type")
+      .eq("user_id", transporterId)
+      .eq("status", "approved")
+      .limit(1)
+      .maybeSingle();
+
+    if (applicationError) throw applicationError;
+    if (!application) {
+      throw fail("NOT_APPROVED");
+    }
+
+    const { data: booking, error: bookingError } = await supabaseAdmin
+      .from("bookings")
+      .select("consumer_id, item_type, scheduled_at, payment:payments(status)")
+      .eq("id", bookingId)
+      .maybeSingle();
+
+    if (bookingError) throw bookingError;
+    if (!booking || booking.consumer_id === transporterId) {
+      throw fail("BOOKING_UNAVAILABLE");
+    }
+    if (!PAID_STATUSES.includes(booking.payment?.status)) {
+      throw fail("BOOKING_UNPAID");
+    }
+
+    if (booking.item_type && !VEHICLE_ITEM_TYPES[application.vehicle_type || "van"].includes(booking.item_type)) {
+      throw fail("VEHICLE_UNSUITABLE");
+    }
+
+    // The job has to start within their working hours and not on a day off
+    const calendar = (await shifts.getCalendars([transporterId])).get(transporterId);
+    if (booking.scheduled_at && !availabilityAt(calendar, new Date(booking.scheduled_at)).available) {
+      throw fail("OFF_SHIFT");
+    }
+
+    // Only while still open to claim; dispatch makes no offers before dispatch_after
+    const now = new Date().toISOString();
+    const { data: claimed, error } = await supabaseAdmin
+      .from("bookings")
+      .update({
+        status: "accepted",
+        transporter_id: transporterId,
+        accepted_at: now,
+        claimed_at: now,
+        status_reason: "Claimed in advance",
+        status_changed_by: transporterId,
+      })
+      .eq("id", bookingId)
+      .eq("status", "pending")
+      .is("transporter_id", null)
+      .gt("dispatch_after", now)
+      .select("id")
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!claimed) {
+      throw fail("BOOKING_UNAVAILABLE");
+    }
+  },
+
+  /**
+   * Time out expired offers and offer every pending booking without an open
+   * offer to its next transporter, once it is due for dispatch. Run by the cron.
+   */
+  async run(): Promise<DispatchRunResult> {
+    const result: DispatchRunResult = { expired: await expireOffers(), offers: [], failed: [] };
+
+    const { data: pending, error } = await supabaseAdmin
+      .from("bookings")
+      .select("id, payment:payments!inner(status)")
+      .eq("status", "pending")
+      .is("transporter_id", null)
+      .in("payment.status", PAID_STATUSES)
+      .or(isDue())
+      .order("dispatched_at", { ascending: true, nullsFirst: true })
+      .limit(100);
+
+    if (error) throw error;
+
+    const ids = (pending || []).map((booking) => booking.id);
+    const { data: open, error: openError } = await supabaseAdmin
+      .from("dispatch_offers")
+      .select("booking_id")
+      .in("booking_id", ids)
+      .eq("status", "offered");
+
+    if (openError) throw openError;
+
+    const offered = new Set((open || []).map((offer) => offer.booking_id));
+    for (const id of ids.filter((bookingId) => !offered.has(bookingId))) {
+      try {
+        const offer = await this.advance(id);
+        if (offer) result.offers.push(offer);
+      } catch (dispatchError) {
+        console.error(`Dispatch of booking ${id} failed:`, dispatchError);
+        result.failed.push({
+          bookingId: id,
+          error: dispatchError instanceof Error ? dispatchError.message : "Dispatch failed",
+        });
+      }
+    }
+
+    return result;
+  },
+};
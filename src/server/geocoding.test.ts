@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { FakeSupabase } from "@/test/fakeSupabase";
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import {
+  createFixtureProvider,
+  DEFAULT_GEOCODE_FIXTURES,
+  geocoder,
+  GeocodingError,
+  getGeocodingProvider,
+  setGeocodingProvider,
+  signPlace,
+  verifyPlace,
+} from "./geocoding";
+
+vi.mock("@/integrations/supabase/admin", async () => {
+  const { createFakeSupabase } = await import("@/test/fakeSupabase");
+  return { supabaseAdmin: createFakeSupabase() };
+});
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+
+describe("createFixtureProvider", () => {
+  const provider = createFixtureProvider();
+
+  it("matches a known address however it is written", async () => {
+    expect(await provider.search("  Kamppi,   HELSINKI ", 5)).toEqual([DEFAULT_GEOCODE_FIXTURES["kamppi, helsinki"]]);
+  });
+
+  it("suggests the fixtures containing a partial query", async () => {
+    const results = await provider.search("helsinki", 3);
+
+    expect(results).toHaveLength(3);
+    expect(results.every((result) => result.formattedAddress.includes("Helsinki"))).toBe(true);
+  });
+
+  it("finds nothing for an unknown address", async () => {
+    expect(await provider.search("Nowhere 1, Oulu", 5)).toEqual([]);
+  });
+});
+
+describe("geocoder", () => {
+  beforeEach(() => {
+    db.reset();
+    vi.stubEnv("GEOCODING_PROVIDER", "fixture");
+    setGeocodingProvider(null);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setGeocodingProvider(null);
+    vi.unstubAllEnvs();
+  });
+
+  it("uses the fixture provider when GEOCODING_PROVIDER=fixture", () => {
+    expect(getGeocodingProvider().name).toBe("fixture");
+  });
+
+  it("geocodes through the provider and caches the result", async () => {
+    const result = await geocoder.geocode("Pasila, Helsinki");
+
+    expect(result).toEqual(DEFAULT_GEOCODE_FIXTURES["pasila, helsinki"]);
+    const [read] = db.queriesOn("geocode_cache", "select");
+    expect(read.match).toEqual({ normalized_address: "pasila, helsinki", provider: "fixture" });
+    const [write] = db.queriesOn("geocode_cache", "upsert");
+    expect(write.values).toMatchObject({
+      normalized_address: "pasila, helsinki",
+      provider: "fixture",
+      lat: 60.1986,
+      lng: 24.9335,
+      formatted_address: "Pasila, Helsinki, Suomi",
+    });
+  });
+
+  it("answers repeat lookups from the cache", async () => {
+    const search = vi.fn();
+    setGeocodingProvider({ name: "fixture", search });
+    db.onQuery((query) =>
+      query.table === "geocode_cache"
+        ? { data: { lat: 60.2, lng: 24.9, formatted_address: "Cached, Helsinki" } }
+        : undefined
+    );
+
+    const result = await geocoder.geocode("Pasila, Helsinki");
+
+    expect(result).toEqual({ lat: 60.2, lng: 24.9, formattedAddress: "Cached, Helsinki" });
+    expect(search).not.toHaveBeenCalled();
+    expect(db.queriesOn("geocode_cache", "upsert")).toHaveLength(0);
+  });
+
+  it("still geocodes when the cache can't be read", async () => {
+    db.onQuery((query) => (query.action === "select" ? { error: { message: "cache down" } } : undefined));
+
+    expect(await geocoder.geocode("Kallio, Helsinki")).toEqual(DEFAULT_GEOCODE_FIXTURES["kallio, helsinki"]);
+  });
+
+  it("reports an unknown address as ZERO_RESULTS", async () => {
+    await expect(geocoder.geocode("Nowhere 1, Oulu")).rejects.toMatchObject({ code: "ZERO_RESULTS" });
+  });
+
+  it("wraps provider failures as UNAVAILABLE", async () => {
+    setGeocodingProvider({ name: "broken", search: vi.fn(async () => { throw new Error("socket hang up"); }) });
+
+    const error = await geocoder.geocode("Kallio, Helsinki").catch((reason) => reason);
+
+    expect(error).toBeInstanceOf(GeocodingError);
+    expect(error.code).toBe("UNAVAILABLE");
+  });
+
+  it("signs suggestions so they can be handed back without a lookup", async () => {
+    const [suggestion] = await geocoder.suggest("tikkurila");
+
+    expect(suggestion).toMatchObject({ address: "Tikkurila, Vantaa, Suomi", lat: 60.2925, lng: 25.044 });
+    expect(verifyPlace(suggestion)).toBe(true);
+    expect(verifyPlace({ ...suggestion, lat: 60.3 })).toBe(false);
+    expect(db.queries).toHaveLength(0);
+  });
+
+  it("doesn't suggest anything for very short queries", async () => {
+    expect(await geocoder.suggest("ka")).toEqual([]);
+  });
+});
+
+describe("signPlace", () => {
+  it("rejects a place without a valid token", () => {
+    const place = signPlace(DEFAULT_GEOCODE_FIXTURES["kamppi, helsinki"]);
+
+    expect(verifyPlace({ ...place, token: "forged" })).toBe(false);
+    expect(verifyPlace({ ...place, address: "Somewhere else" })).toBe(false);
+    expect(verifyPlace(null)).toBe(false);
+  });
+});
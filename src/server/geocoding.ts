@@ -0,0 +1,316 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+
+export interface GeocodeResult {
+  lat: number;
+  lng: number;
+  formattedAddress: string;
+}
+
+// An address with coordinates signed by the server (from a suggestion or the address book)
+export interface ResolvedPlace {
+  address: string;
+  lat: number;
+  lng: number;
+  token: string;
+}
+
+export type GeocodingErrorCode = "ZERO_RESULTS" | "QUOTA" | "DENIED" | "UNAVAILABLE";
+
+export class GeocodingError extends Error {
+  code: GeocodingErrorCode;
+
+  constructor(code: GeocodingErrorCode, message: string) {
+    super(message);
+    this.name = "GeocodingError";
+    this.code = code;
+  }
+}
+
+export interface GeocodingProvider {
+  name: string;
+  // Best matches first; an empty list when nothing matches
+  search(query: string, limit: number): Promise<GeocodeResult[]>;
+}
+
+// Cached lookups are refreshed after this long
+const CACHE_TTL_DAYS = 90;
+
+/**
+ * Cache key: lowercased, single-spaced, without a trailing country
+ */
+export function normalizeAddress(address: string): string {
+  return address
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/\s*,\s*/g, ", ")
+    .replace(/(, )?(finland|suomi)$/, "");
+}
+
+// Bias bare street names towards the Helsinki region
+function withRegionHint(address: string): string {
+  const searchAddress = address.trim();
+  if (!/helsinki|espoo|vantaa|kauniainen|finland|suomi/i.test(searchAddress)) {
+    return `${searchAddress}, Helsinki, Finland`;
+  }
+  if (!/finland|suomi/i.test(searchAddress)) {
+    return `${searchAddress}, Finland`;
+  }
+  return searchAddress;
+}
+
+function httpError(status: number, provider: string): GeocodingError {
+  if (status === 429) return new GeocodingError("QUOTA", `${provider} rate limit exceeded`);
+  if (status === 401 || status === 403) return new GeocodingError("DENIED", `${provider} rejected the request (HTTP ${status})`);
+  return new GeocodingError("UNAVAILABLE", `${provider} request failed with HTTP ${status}`);
+}
+
+/**
+ * Google Geocoding API, called with a server-side key
+ */
+export function createGoogleProvider(apiKey: string): GeocodingProvider {
+  return {
+    name: "google",
+
+    async search(query: string, limit: number): Promise<GeocodeResult[]> {
+      if (!apiKey) {
+        throw new GeocodingError("DENIED", "Google Maps API key not configured");
+      }
+
+      const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(withRegionHint(query))}&key=${apiKey}&region=fi&language=fi`;
+      const response = await fetch(url);
+      if (!response.ok) throw httpError(response.status, "Google");
+
+      const data = await response.json();
+      switch (data.status) {
+        case "OK":
+          return data.results.slice(0, limit).map((result) => ({
+            lat: result.geometry.location.lat,
+            lng: result.geometry.location.lng,
+            formattedAddress: result.formatted_address,
+          }));
+        case "ZERO_RESULTS":
+          return [];
+        case "OVER_QUERY_LIMIT":
+        case "OVER_DAILY_LIMIT":
+          throw new GeocodingError("QUOTA", data.error_message || "Google geocoding quota exceeded");
+        case "REQUEST_DENIED":
+          throw new GeocodingError("DENIED", data.error_message || "Google geocoding request denied");
+        default:
+          throw new GeocodingError("UNAVAILABLE", `Google geocoding failed: ${data.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * OpenStreetMap Nominatim (public instance or self-hosted)
+ */
+export function createNominatimProvider(baseUrl: string): GeocodingProvider {
+  return {
+    name: "nominatim",
+
+    async search(query: string, limit: number): Promise<GeocodeResult[]> {
+      const url = `${baseUrl.replace(/\/$/, "")}/search?q=${encodeURIComponent(withRegionHint(query))}&format=jsonv2&limit=${limit}&countrycodes=fi`;
+      // The public instance requires an identifying User-Agent
+      const response = await fetch(url, { headers: { "User-Agent": "sg-moving-app/1.0" } });
+      if (!response.ok) throw httpError(response.status, "Nominatim");
+
+      const results = await response.json();
+      if (!Array.isArray(results)) return [];
+
+      return results.map((result) => ({
+        lat: Number(result.lat),
+        lng: Number(result.lon),
+        formattedAddress: result.display_name,
+      }));
+    },
+  };
+}
+
+/**
+ * Digitransit (HSL) geocoding, best coverage for the capital region
+ */
+export function createDigitransitProvider(apiKey: string): GeocodingProvider {
+  return {
+    name: "digitransit",
+
+    async search(query: string, limit: number): Promise<GeocodeResult[]> {
+      if (!apiKey) {
+        throw new GeocodingError("DENIED", "Digitransit subscription key not configured");
+      }
+
+      const url = `https://api.digitransit.fi/geocoding/v1/search?text=${encodeURIComponent(query.trim())}&size=${limit}&lang=fi`;
+      const response = await fetch(url, { headers: { "digitransit-subscription-key": apiKey } });
+      if (!response.ok) throw httpError(response.status, "Digitransit");
+
+      const data = await response.json();
+      return (data.features || []).map((feature) => {
+        const [lng, lat] = feature.geometry.coordinates;
+        return { lat, lng, formattedAddress: feature.properties?.label || query };
+      });
+    },
+  };
+}
+
+// Known capital-region addresses for offline development and tests
+export const DEFAULT_GEOCODE_FIXTURES: Record<string, GeocodeResult> = {
+  "mannerheimintie 1, helsinki": { lat: 60.1686, lng: 24.9413, formattedAddress: "Mannerheimintie 1, 00100 Helsinki, Suomi" },
+  "kamppi, helsinki": { lat: 60.1688, lng: 24.9316, formattedAddress: "Kamppi, Helsinki, Suomi" },
+  "pasila, helsinki": { lat: 60.1986, lng: 24.9335, formattedAddress: "Pasila, Helsinki, Suomi" },
+  "tikkurila, vantaa": { lat: 60.2925, lng: 25.0440, formattedAddress: "Tikkurila, Vantaa, Suomi" },
+  "espoo center, espoo": { lat: 60.2052, lng: 24.6522, formattedAddress: "Espoon keskus, Espoo, Suomi" },
+  "kallio, helsinki": { lat: 60.1841, lng: 24.9497, formattedAddress: "Kallio, Helsinki, Suomi" },
+  "hakaniemi, helsinki": { lat: 60.1790, lng: 24.9510, formattedAddress: "Hakaniemi, Helsinki, Suomi" },
+  "isoroobertinkatu 6, helsinki": { lat: 60.1636, lng: 24.9424, formattedAddress: "Iso Roobertinkatu 6, 00120 Helsinki, Suomi" },
+};
+
+/**
+ * Fixture-backed provider; exact matches first, then fixtures containing the query
+ */
+export function createFixtureProvider(
+  fixtures: Record<string, GeocodeResult> = DEFAULT_GEOCODE_FIXTURES
+): GeocodingProvider {
+  return {
+    name: "fixture",
+
+    async search(query: string, limit: number): Promise<GeocodeResult[]> {
+      const key = normalizeAddress(query);
+      if (fixtures[key]) return [fixtures[key]];
+
+      return Object.entries(fixtures)
+        .filter(([address]) => address.includes(key))
+        .slice(0, limit)
+        .map(([, result]) => result);
+    },
+  };
+}
+
+let activeProvider: GeocodingProvider | null = null;
+
+/**
+ * Provider chosen by GEOCODING_PROVIDER ("google" | "nominatim" | "digitransit" | "fixture", default "google")
+ */
+export function getGeocodingProvider(): GeocodingProvider {
+  if (!activeProvider) {
+    switch (process.env.GEOCODING_PROVIDER) {
+      case "nominatim":
+        activeProvider = createNominatimProvider(process.env.NOMINATIM_BASE_URL || "https://nominatim.openstreetmap.org");
+        break;
+      case "digitransit":
+        activeProvider = createDigitransitProvider(process.env.DIGITRANSIT_API_KEY || "");
+        break;
+      case "fixture":
+        activeProvider = createFixtureProvider();
+        break;
+      default:
+        activeProvider = createGoogleProvider(
+          process.env.GOOGLE_MAPS_API_KEY || process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || ""
+        );
+    }
+  }
+  return activeProvider;
+}
+
+// Swap the provider (tests)
+export function setGeocodingProvider(provider: GeocodingProvider | null) {
+  activeProvider = provider;
+}
+
+// Wrap unexpected provider failures (network, bad JSON) in a typed error
+async function searchProvider(provider: GeocodingProvider, query: string, limit: number): Promise<GeocodeResult[]> {
+  try {
+    return await provider.search(query, limit);
+  } catch (error) {
+    if (error instanceof GeocodingError) throw error;
+    console.error("Geocoding error:", error);
+    throw new GeocodingError("UNAVAILABLE", error instanceof Error ? error.message : "Geocoding failed");
+  }
+}
+
+const placeSignature = (address: string, lat: number, lng: number) =>
+  createHmac("sha256", process.env.PLACE_TOKEN_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY || "")
+    .update(`${address}|${lat}|${lng}`)
+    .digest("base64url");
+
+/**
+ * Sign a resolved address so the browser can hand it back without a second lookup
+ */
+export function signPlace(result: GeocodeResult): ResolvedPlace {
+  return {
+    address: result.formattedAddress,
+    lat: result.lat,
+    lng: result.lng,
+    token: placeSignature(result.formattedAddress, result.lat, result.lng),
+  };
+}
+
+export function verifyPlace(place: ResolvedPlace | null | undefined): boolean {
+  if (!place?.token || typeof place.address !== "string") return false;
+
+  const expected = Buffer.from(placeSignature(place.address, Number(place.lat), Number(place.lng)));
+  const actual = Buffer.from(String(place.token));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export const geocoder = {
+  /**
+   * Resolve an address, serving repeat lookups from the geocode_cache table
+   */
+  async geocode(address: string): Promise<GeocodeResult> {
+    const key = normalizeAddress(address);
+    if (!key) {
+      throw new GeocodingError("ZERO_RESULTS", "Address is empty");
+    }
+
+    const provider = getGeocodingProvider();
+    const freshAfter = new Date(Date.now() - CACHE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data: cached, error: cacheError } = await supabaseAdmin
+      .from("geocode_cache")
+      .select("lat, lng, formatted_address")
+      .eq("normalized_address", key)
+      .eq("provider", provider.name)
+      .gte("updated_at", freshAfter)
+      .maybeSingle();
+
+    if (cacheError) {
+      console.error("Error reading geocode cache:", cacheError);
+    } else if (cached) {
+      return { lat: cached.lat, lng: cached.lng, formattedAddress: cached.formatted_address };
+    }
+
+    const [result] = await searchProvider(provider, address, 1);
+    if (!result) {
+      throw new GeocodingError("ZERO_RESULTS", `No results for "${address}"`);
+    }
+
+    const { error: writeError } = await supabaseAdmin
+      .from("geocode_cache")
+      .upsert({
+        normalized_address: key,
+        provider: provider.name,
+        lat: result.lat,
+        lng: result.lng,
+        formatted_address: result.formattedAddress,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: "normalized_address,provider" });
+
+    if (writeError) {
+      console.error("Error writing geocode cache:", writeError);
+    }
+
+    return result;
+  },
+
+  /**
+   * Typeahead suggestions, signed so a picked suggestion is never geocoded again
+   */
+  async suggest(query: string, limit = 5): Promise<ResolvedPlace[]> {
+    if (normalizeAddress(query).length < 3) return [];
+
+    const results = await searchProvider(getGeocodingProvider(), query, limit);
+    return results.map(signPlace);
+  },
+};
@@ -0,0 +1,360 @@
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import type { Database, Json } from "@/integrations/supabase/database.types";
+import { isValidBusinessId, normalizeBusinessId, toVatNumber } from "@/lib/businessId";
+import { A4_WIDTH, renderPdf, type PdfRule, type PdfText } from "./pdf";
+import type { ExtraLineItem } from "./pricingEngine";
+
+type InvoiceRow = Database["public"]["Tables"]["invoices"]["Row"];
+
+// Finnish general VAT rate since 1 September 2024; prices are quoted including VAT
+export const VAT_RATE = 25.5;
+
+const BUCKET = "invoices";
+
+export interface InvoiceLine {
+  description: string;
+  gross: number; // EUR including VAT
+  net: number;
+  vatRate: number; // percent
+  vat: number;
+}
+
+export interface InvoiceDownload {
+  invoice: InvoiceRow;
+  url: string; // signed, short-lived link to the PDF
+}
+
+interface Seller {
+  name: string;
+  businessId: string;
+  address: string | null;
+  email: string;
+}
+
+export type InvoiceErrorCode = "NOT_FOUND" | "FORBIDDEN" | "NOT_ALLOWED";
+
+export class InvoiceError extends Error {
+  code: InvoiceErrorCode;
+
+  constructor(code: InvoiceErrorCode, message: string) {
+    super(message);
+    this.name = "InvoiceError";
+    this.code = code;
+  }
+}
+
+// HTTP status for each error code in the API routes
+export const INVOICE_ERROR_STATUS: Record<InvoiceErrorCode, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  NOT_ALLOWED: 422,
+};
+
+const toCents = (eur: number) => Math.round(eur * 100);
+const toEur = (cents: number) => cents / 100;
+const formatEur = (amount: number) => `${amount < 0 ? "-" : ""}€${Math.abs(amount).toFixed(2)}`;
+
+/**
+ * Split a VAT-inclusive amount into its net part and VAT, rounded to the cent
+ */
+export function vatLine(description: string, gross: number, vatRate = VAT_RATE): InvoiceLine {
+  const grossCents = toCents(gross);
+  const netCents = Math.round((grossCents * 100) / (100 + vatRate));
+  return { description, gross: toEur(grossCents), net: toEur(netCents), vatRate, vat: toEur(grossCents - netCents) };
+}
+
+function getSeller(): Seller {
+  const { INVOICE_SELLER_NAME, INVOICE_SELLER_BUSINESS_ID, INVOICE_SELLER_ADDRESS, INVOICE_SELLER_EMAIL } = process.env;
+  if (!INVOICE_SELLER_NAME || !INVOICE_SELLER_BUSINESS_ID || !isValidBusinessId(INVOICE_SELLER_BUSINESS_ID)) {
+    throw new Error("INVOICE_SELLER_NAME and a valid INVOICE_SELLER_BUSINESS_ID must be set");
+  }
+  return {
+    name: INVOICE_SELLER_NAME,
+    businessId: normalizeBusinessId(INVOICE_SELLER_BUSINESS_ID),
+    address: INVOICE_SELLER_ADDRESS || null,
+    email: INVOICE_SELLER_EMAIL || "support@vango.fi",
+  };
+}
+
+async function getInvoicedBooking(bookingId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("bookings")
+    .select("id, status, consumer_id, pickup_address, dropoff_address, scheduled_at, completed_at, cancelled_at, total_price, platform_fee, transporter_earnings, discount_amount, cancellation_fee, extras_breakdown, item_type_surcharge, service_area_surcharge, surge_amount")
+    .eq("id", bookingId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new InvoiceError("NOT_FOUND", "Booking not found");
+  }
+  return data;
+}
+
+type InvoicedBooking = Awaited<ReturnType<typeof getInvoicedBooking>>;
+
+// What the consumer was charged: the move itself split into the transporter's
+// service, with its extras and surcharges itemized, and our platform fee less
+// any discount, or the fee kept for a cancellation
+function invoiceLines(booking: InvoicedBooking): InvoiceLine[] {
+  if (booking.status === "cancelled") {
+    const fee = Number(booking.cancellation_fee || 0);
+    if (fee <= 0) {
+      throw new InvoiceError("NOT_ALLOWED", "This booking was cancelled without a fee, so there is nothing to invoice");
+    }
+    return [vatLine("Cancellation fee", fee)];
+  }
+
+  if (booking.status !== "delivered") {
+    throw new InvoiceError("NOT_ALLOWED", "An invoice is available once the move is delivered");
+  }
+
+  const discount = toCents(Number(booking.discount_amount || 0));
+  const fare = toCents(Number(booking.total_price)) + discount;
+  const platformFee = booking.transporter_earnings != null
+    ? fare - toCents(Number(booking.transporter_earnings))
+    : toCents(Number(booking.platform_fee || 0));
+
+  // Priced as quoted; the moving service is what is left of the transporter's share
+  const extras = (booking.extras_breakdown as unknown as ExtraLineItem[]) || [];
+  const charges: [string, number][] = [
+    ...extras.map((item): [string, number] => [
+      item.quantity > 1 ? `${item.label} (${item.quantity} × ${formatEur(item.unitPrice)})` : item.label,
+      toCents(item.amount),
+    ]),
+    ["Item handling", toCents(Number(booking.item_type_surcharge || 0))],
+    ["Zone surcharge", toCents(Number(booking.service_area_surcharge || 0))],
+    ["Priority surcharge", toCents(Number(booking.surge_amount || 0))],
+  ];
+  const itemized = charges.filter(([, cents]) => cents > 0);
+  const service = fare - platformFee - itemized.reduce((sum, [, cents]) => sum + cents, 0);
+
+  return [
+    // A share too small to carry the extras is invoiced in one line
+    ...(service >= 0
+      ? [vatLine("Moving service", toEur(service)), ...itemized.map(([label, cents]) => vatLine(label, toEur(cents)))]
+      : [vatLine("Moving service", toEur(fare - platformFee))]),
+    ...(platformFee > 0 ? [vatLine("Platform fee", toEur(platformFee))] : []),
+    ...(discount > 0 ? [vatLine("Discount", -toEur(discount))] : []),
+  ];
+}
+
+async function issue(booking: InvoicedBooking): Promise<InvoiceRow> {
+  const lines = invoiceLines(booking);
+  const sum = (pick: (line: InvoiceLine) => number) => toEur(lines.reduce((total, line) => total + toCents(pick(line)), 0));
+
+  const { data: profile } = await supabaseAdmin
+    .from("profiles")
+    .select("full_name, email, company_name, business_id")
+    .eq("id", booking.consumer_id)
+    .maybeSingle();
+
+  // The customer's details are copied onto the invoice as they are when it is issued
+  const { data: invoiceId, error } = await supabaseAdmin.rpc("issue_invoice", {
+    p_booking_id: booking.id,
+    p_consumer_id: booking.consumer_id,
+    p_customer_name: profile?.full_name || null,
+    p_customer_email: profile?.email || null,
+    p_company_name: profile?.company_name || null,
+    p_business_id: profile?.business_id || null,
+    p_lines: lines as unknown as Json,
+    p_net_amount: sum((line) => line.net),
+    p_vat_amount: sum((line) => line.vat),
+    p_total_amount: sum((line) => line.gross),
+  });
+
+  if (error) throw error;
+
+  const { data: invoice, error: invoiceError } = await supabaseAdmin
+    .from("invoices")
+    .select("*")
+    .eq("id", invoiceId)
+    .single();
+
+  if (invoiceError) throw invoiceError;
+  return invoice;
+}
+
+const ellipsize = (text: string, maxLength: number) =>
+  text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString("fi-FI", { timeZone: "Europe/Helsinki" }) : "-";
+
+/**
+ * Lay out the invoice on one A4 page. Everything shown comes from the frozen
+ * invoice row, except the route and dates of the booking.
+ */
+export function renderInvoicePdf(invoice: InvoiceRow, booking: InvoicedBooking, seller: Seller): Buffer {
+  const left = 50;
+  const right = A4_WIDTH - 50;
+  const grey: [number, number, number] = [0.4, 0.4, 0.4];
+  const texts: PdfText[] = [];
+  const rules: PdfRule[] = [];
+  const lines = invoice.lines as unknown as InvoiceLine[];
+
+  const text = (x: number, y: number, value: string, options: Partial<PdfText> = {}) =>
+    texts.push({ x, y, text: value, ...options });
+
+  // Header
+  text(left, 70, "VANGO", { size: 24, bold: true });
+  text(right, 70, "INVOICE", { size: 18, bold: true, align: "right" });
+
+  // Seller
+  let y = 110;
+  for (const line of [
+    seller.name,
+    seller.address,
+    `Business ID ${seller.businessId}`,
+    `VAT number ${toVatNumber(seller.businessId)}`,
+    seller.email,
+  ]) {
+    if (!line) continue;
+    text(left, y, line, { size: 9, color: grey });
+    y += 13;
+  }
+
+  // Invoice details
+  y = 110;
+  for (const [label, value] of [
+    ["Invoice number", invoice.invoice_number],
+    ["Invoice date", formatDate(invoice.issued_at)],
+    ["Service date", formatDate(booking.completed_at || booking.cancelled_at || booking.scheduled_at)],
+    ["Booking", booking.id.slice(0, 8).toUpperCase()],
+  ]) {
+    text(360, y, label, { size: 9, color: grey });
+    text(right, y, value, { size: 9, align: "right" });
+    y += 13;
+  }
+
+  // Customer
+  y = 210;
+  text(left, y, "Bill to", { size: 9, bold: true, color: grey });
+  y += 15;
+  if (invoice.company_name) {
+    text(left, y, invoice.company_name, { bold: true });
+    y += 14;
+    if (invoice.business_id) {
+      text(left, y, `Business ID ${invoice.business_id} / VAT number ${toVatNumber(invoice.business_id)}`, { size: 9 });
+      y += 13;
+    }
+  }
+  for (const line of [invoice.customer_name, invoice.customer_email]) {
+    if (!line) continue;
+    text(left, y, line, { size: 9 });
+    y += 13;
+  }
+
+  // Service
+  y = 320;
+  text(left, y, "Move", { size: 9, bold: true, color: grey });
+  text(left, y + 15, `From: ${ellipsize(booking.pickup_address, 90)}`, { size: 9 });
+  text(left, y + 28, `To: ${ellipsize(booking.dropoff_address, 90)}`, { size: 9 });
+
+  // Lines
+  const columns = { net: 330, rate: 390, vat: 460, total: right };
+  y = 390;
+  text(left, y, "Description", { size: 9, bold: true });
+  text(columns.net, y, "Net", { size: 9, bold: true, align: "right" });
+  text(columns.rate, y, "VAT %", { size: 9, bold: true, align: "right" });
+  text(columns.vat, y, "VAT", { size: 9, bold: true, align: "right" });
+  text(columns.total, y, "Total", { size: 9, bold: true, align: "right" });
+  rules.push({ x1: left, y1: y + 6, x2: right, y2: y + 6 });
+
+  y += 22;
+  for (const line of lines) {
+    text(left, y, line.description);
+    text(columns.net, y, formatEur(line.net), { align: "right" });
+    text(columns.rate, y, `${line.vatRate}%`, { align: "right" });
+    text(columns.vat, y, formatEur(line.vat), { align: "right" });
+    text(columns.total, y, formatEur(line.gross), { align: "right" });
+    y += 18;
+  }
+  rules.push({ x1: left, y1: y - 8, x2: right, y2: y - 8 });
+
+  // Totals, with the VAT base per rate as Finnish invoices require
+  y += 10;
+  const rates = [...new Set(lines.map((line) => line.vatRate))];
+  const totals: [string, string, boolean][] = [
+    ["Total excl. VAT", formatEur(Number(invoice.net_amount)), false],
+    ...rates.map((rate): [string, string, boolean] => {
+      const atRate = lines.filter((line) => line.vatRate === rate);
+      const base = toEur(atRate.reduce((sum, line) => sum + toCents(line.net), 0));
+      const vat = toEur(atRate.reduce((sum, line) => sum + toCents(line.vat), 0));
+      return [`VAT ${rate}% of ${formatEur(base)}`, formatEur(vat), false];
+    }),
+    [`Total (${invoice.currency})`, formatEur(Number(invoice.total_amount)), true],
+  ];
+  for (const [label, value, bold] of totals) {
+    text(columns.vat, y, label, { size: bold ? 11 : 10, bold, align: "right" });
+    text(columns.total, y, value, { size: bold ? 11 : 10, bold, align: "right" });
+    y += bold ? 20 : 16;
+  }
+
+  // Footer
+  rules.push({ x1: left, y1: 780, x2: right, y2: 780, color: [0.8, 0.8, 0.8] });
+  text(left, 796, `Thank you for using VANGO! Questions? Contact us at ${seller.email}`, { size: 8, color: grey });
+
+  return renderPdf(
+    { texts, rules },
+    { title: `Invoice ${invoice.invoice_number}`, author: seller.name, createdAt: new Date(invoice.issued_at) }
+  );
+}
+
+async function signedUrl(invoice: InvoiceRow): Promise<string> {
+  const { data: signed, error } = await supabaseAdmin.storage
+    .from(BUCKET)
+    .createSignedUrl(invoice.pdf_path as string, 60, { download: `VANGO-Invoice-${invoice.invoice_number}.pdf` });
+
+  if (error) throw error;
+  return signed.signedUrl;
+}
+
+export const invoices = {
+  /**
+   * The booking's invoice, issued on first request, with a link to its PDF.
+   * The PDF is rendered once and kept in storage.
+   */
+  async getForBooking(bookingId: string, userId: string): Promise<InvoiceDownload> {
+    const [booking, { data: profile }] = await Promise.all([
+      getInvoicedBooking(bookingId),
+      supabaseAdmin.from("profiles").select("role").eq("id", userId).maybeSingle(),
+    ]);
+
+    if (booking.consumer_id !== userId && profile?.role !== "admin") {
+      throw new InvoiceError("FORBIDDEN", "You cannot view this invoice");
+    }
+
+    const { data: existing, error } = await supabaseAdmin
+      .from("invoices")
+      .select("*")
+      .eq("booking_id", bookingId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (existing?.pdf_path) {
+      return { invoice: existing, url: await signedUrl(existing) };
+    }
+
+    // Checked before issuing, so a misconfigured seller doesn't use up invoice numbers
+    const seller = getSeller();
+    const issued = existing || await issue(booking);
+    const path = `${bookingId}/${issued.invoice_number}.pdf`;
+    const pdf = renderInvoicePdf(issued, booking, seller);
+
+    const { error: uploadError } = await supabaseAdmin.storage
+      .from(BUCKET)
+      .upload(path, pdf, { contentType: "application/pdf", upsert: true });
+
+    if (uploadError) throw uploadError;
+
+    const { data: invoice, error: updateError } = await supabaseAdmin
+      .from("invoices")
+      .update({ pdf_path: path })
+      .eq("id", issued.id)
+      .select("*")
+      .single();
+
+    if (updateError) throw updateError;
+    return { invoice, url: await signedUrl(invoice) };
+  },
+};
@@ -0,0 +1,380 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import { createHash, createHmac } from "node:crypto";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import path from "node:path";
+import type { NextApiRequest, NextApiResponse } from "next";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import webhookHandler from "@/pages/api/payment/webhook";
+import { createResponse } from "@/test/apiRoute";
+import type { FakeQuery, FakeSupabase } from "@/test/fakeSupabase";
+import { dispatch } from "./dispatch";
+import { createMobilePayClient, ePaymentStatus, getMobilePayClient, setMobilePayClient, type MobilePayClient } from "./mobilePay";
+import { PaymentError } from "./paymentGateway";
+import { verifyMobilePayEvent, WebhookSignatureError } from "./paymentWebhooks";
+
+vi.mock("@/integrations/supabase/admin", async () => {
+  const { createFakeSupabase } = await import("@/test/fakeSupabase");
+  return { supabaseAdmin: createFakeSupabase() };
+});
+
+vi.mock("./dispatch", () => ({ dispatch: { start: vi.fn(async () => undefined) } }));
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+
+const WEBHOOK_SECRET = "mock-webhook-secret";
+const WEBHOOK_PATH = "/api/payment/webhook";
+const EUR = (value: number) => ({ currency: "EUR", value });
+
+const CREDENTIALS = {
+  MOBILEPAY_CLIENT_ID: "client",
+  MOBILEPAY_CLIENT_SECRET: "secret",
+  MOBILEPAY_SUBSCRIPTION_KEY: "subscription",
+  MOBILEPAY_MERCHANT_SERIAL_NUMBER: "123456",
+};
+
+// Serves the app's webhook route, as Next.js would
+function startWebhookReceiver(): Promise<{ server: Server; url: string; deliveries: number[] }> {
+  const deliveries: number[] = [];
+  const server = createServer(async (req, nodeRes) => {
+    const res = createResponse();
+    await webhookHandler(req as NextApiRequest, res as unknown as NextApiResponse);
+    deliveries.push(res.statusCode);
+    nodeRes.writeHead(res.statusCode, { "Content-Type": "application/json" });
+    nodeRes.end(JSON.stringify(res.body));
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}${WEBHOOK_PATH}`, deliveries });
+    });
+  });
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve) => {
+    const probe = createServer().listen(0, "127.0.0.1", () => {
+      const { port } = probe.address() as AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+// Runs scripts/mobilepay-mock.mjs until the tests are done
+async function startMock(webhookUrl: string): Promise<{ child: ChildProcess; baseUrl: string }> {
+  const port = await freePort();
+  const child = spawn(process.execPath, [path.resolve(__dirname, "../../scripts/mobilepay-mock.mjs")], {
+    env: {
+      ...process.env,
+      MOBILEPAY_MOCK_PORT: String(port),
+      MOBILEPAY_MOCK_WEBHOOK_URL: webhookUrl,
+      MOBILEPAY_WEBHOOK_SECRET: WEBHOOK_SECRET,
+    },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("MobilePay mock did not start")), 10_000);
+    child.stdout.on("data", (chunk: Buffer) => {
+      if (chunk.toString().includes("listening")) {
+        clearTimeout(timer);
+        resolve();
+      }
+    });
+    child.once("exit", (code) => {
+      clearTimeout(timer);
+      reject(new Error(`MobilePay mock exited with ${code}`));
+    });
+  });
+
+  return { child, baseUrl: `http://127.0.0.1:${port}` };
+}
+
+// What the webhook sees of our payments table: one payment per reference
+function paymentsTable() {
+  const payments = new Map<string, Record<string, unknown>>();
+  const events = new Map<string, { id: string; processed_at: string | null }>();
+
+  const answer = (query: FakeQuery) => {
+    const key = `${query.table}.${query.action}`;
+    if (key === "payments.select") {
+      return { data: payments.get(query.match.provider_reference as string) ?? null };
+    }
+    if (key === "payments.update") {
+      const payment = [...payments.values()].find((row) => row.id === query.match.id && row.status === query.match.status);
+      if (!payment) return { data: [] };
+      Object.assign(payment, query.values);
+      return { data: [{ id: payment.id }] };
+    }
+    if (key === "payment_events.insert") {
+      const { event_id } = query.values as { event_id: string };
+      if (events.has(event_id)) return { error: { code: "23505", message: "duplicate key" } };
+      events.set(event_id, { id: `event-${events.size + 1}`, processed_at: null });
+      return { data: { id: events.get(event_id).id } };
+    }
+    if (key === "payment_events.select") {
+      return { data: events.get(query.match.event_id as string) ?? null };
+    }
+    if (key === "payment_events.update" && "processed_at" in (query.values as object)) {
+      const event = [...events.values()].find((row) => row.id === query.match.id);
+      event.processed_at = (query.values as { processed_at: string }).processed_at;
+    }
+    return undefined;
+  };
+
+  const add = (reference: string) => {
+    const payment: Record<string, unknown> = {
+      id: `payment-${reference}`,
+      booking_id: `booking-${reference}`,
+      provider: "mobilepay",
+      provider_reference: reference,
+      status: "pending",
+      authorized_at: null,
+      captured_at: null,
+    };
+    payments.set(reference, payment);
+    return payment;
+  };
+
+  return { answer, add, events };
+}
+
+describe("MobilePay against scripts/mobilepay-mock.mjs", () => {
+  let receiver: Awaited<ReturnType<typeof startWebhookReceiver>>;
+  let mock: Awaited<ReturnType<typeof startMock>>;
+  let table: ReturnType<typeof paymentsTable>;
+  let client: MobilePayClient;
+  let sequence = 0;
+
+  // A new payment for €50.00, waiting in the MobilePay app
+  const createPayment = async () => {
+    const reference = `vango-test-${++sequence}`;
+    const payment = table.add(reference);
+    const created = await client.createPayment(
+      { reference, amount: EUR(5000), returnUrl: `http://app.test/payment/return?ref=${reference}`, description: "Move" },
+      `${reference}-create`
+    );
+    return { reference, payment, redirectUrl: created.redirectUrl };
+  };
+
+  // The customer's choice on the landing page standing in for the app
+  const choose = (redirectUrl: string, choice: "approve" | "reject") =>
+    fetch(`${redirectUrl}/${choice}`, { method: "POST", redirect: "manual" });
+
+  beforeAll(async () => {
+    receiver = await startWebhookReceiver();
+    mock = await startMock(receiver.url);
+  });
+
+  afterAll(async () => {
+    mock?.child.kill();
+    await new Promise((resolve) => receiver?.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    db.reset();
+    table = paymentsTable();
+    db.onQuery(table.answer);
+    receiver.deliveries.length = 0;
+    vi.stubEnv("MOBILEPAY_WEBHOOK_SECRET", WEBHOOK_SECRET);
+    vi.stubEnv("MOBILEPAY_API_BASE", mock.baseUrl);
+    for (const [name, value] of Object.entries(CREDENTIALS)) vi.stubEnv(name, value);
+    setMobilePayClient(null);
+    client = getMobilePayClient();
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setMobilePayClient(null);
+    vi.unstubAllEnvs();
+  });
+
+  it("authorizes through the landing page and a signed webhook", async () => {
+    const { reference, payment, redirectUrl } = await createPayment();
+    expect(ePaymentStatus(await client.getPayment(reference))).toBe("pending");
+
+    const landing = await choose(redirectUrl, "approve");
+
+    expect(landing.status).toBe(303);
+    expect(landing.headers.get("location")).toBe(`http://app.test/payment/return?ref=${reference}`);
+    expect(receiver.deliveries).toEqual([200]);
+    expect(payment.status).toBe("authorized");
+    expect(payment.authorized_at).toEqual(expect.any(String));
+    expect(dispatch.start).toHaveBeenCalledWith(payment.booking_id);
+  });
+
+  it("captures and refunds, with the amounts from the aggregate", async () => {
+    const { reference, payment, redirectUrl } = await createPayment();
+    await choose(redirectUrl, "approve");
+
+    await client.capture(reference, EUR(2000), `${reference}-capture`);
+    expect(payment).toMatchObject({ status: "succeeded", captured_amount: 20, refund_amount: 0 });
+    expect(payment.captured_at).toEqual(expect.any(String));
+
+    await client.refund(reference, EUR(2000), `${reference}-refund`);
+    expect(payment).toMatchObject({ status: "refunded", captured_amount: 20, refund_amount: 20 });
+    expect(receiver.deliveries).toEqual([200, 200, 200]);
+  });
+
+  it("replays a retried capture instead of capturing twice", async () => {
+    const { reference, redirectUrl } = await createPayment();
+    await choose(redirectUrl, "approve");
+
+    await client.capture(reference, EUR(2000), `${reference}-capture`);
+    await client.capture(reference, EUR(2000), `${reference}-capture`);
+
+    expect((await client.getPayment(reference)).aggregate.capturedAmount.value).toBe(2000);
+    expect(receiver.deliveries).toHaveLength(2);
+  });
+
+  it("refuses to capture more than was authorized", async () => {
+    const { reference, redirectUrl } = await createPayment();
+    await choose(redirectUrl, "approve");
+
+    const error = await client.capture(reference, EUR(5001), `${reference}-capture`).catch((reason) => reason);
+
+    expect(error).toBeInstanceOf(PaymentError);
+    expect(error.code).toBe("NOT_ALLOWED");
+  });
+
+  it("fails the payment when the customer rejects it", async () => {
+    const { reference, payment, redirectUrl } = await createPayment();
+
+    await choose(redirectUrl, "reject");
+
+    expect(payment.status).toBe("failed");
+    expect(ePaymentStatus(await client.getPayment(reference))).toBe("failed");
+    expect(dispatch.start).not.toHaveBeenCalled();
+  });
+
+  it("cancels an authorization that was never captured", async () => {
+    const { reference, payment, redirectUrl } = await createPayment();
+    await choose(redirectUrl, "approve");
+
+    await client.cancel(reference, `${reference}-cancel`);
+
+    expect(payment.status).toBe("cancelled");
+  });
+
+  it("applies a redelivered webhook once", async () => {
+    const { reference, redirectUrl } = await createPayment();
+    await choose(redirectUrl, "approve");
+    const [[eventId]] = [...table.events.entries()];
+
+    const replay = await fetch(receiver.url, signedDelivery(receiver.url, {
+      reference,
+      name: "AUTHORIZED",
+      pspReference: eventId.split(":")[2],
+    }, WEBHOOK_SECRET));
+
+    expect(await replay.json()).toEqual({ received: true, duplicate: true });
+    expect(table.events.size).toBe(1);
+  });
+
+  it("rejects a webhook signed with another secret", async () => {
+    const { reference, payment } = await createPayment();
+
+    const forged = await fetch(receiver.url, signedDelivery(receiver.url, { reference, name: "AUTHORIZED" }, "not-the-secret"));
+
+    expect(forged.status).toBe(400);
+    expect(await forged.json()).toEqual({ message: "Invalid MobilePay signature" });
+    expect(payment.status).toBe("pending");
+    expect(table.events.size).toBe(0);
+  });
+
+  it("needs the credentials to build a client", () => {
+    vi.stubEnv("MOBILEPAY_CLIENT_SECRET", "");
+    setMobilePayClient(null);
+
+    expect(() => getMobilePayClient()).toThrow("MobilePay credentials are not configured");
+  });
+
+  it("reports an unknown reference as NOT_FOUND", async () => {
+    const direct = createMobilePayClient({
+      baseUrl: mock.baseUrl,
+      clientId: "client",
+      clientSecret: "secret",
+      subscriptionKey: "subscription",
+      merchantSerialNumber: "123456",
+    });
+
+    await expect(direct.getPayment("vango-missing")).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+});
+
+// A webhook request as MobilePay sends it, signed with `secret`
+function signedDelivery(url: string, event: Record<string, unknown>, secret: string): RequestInit {
+  const target = new URL(url);
+  const body = JSON.stringify({
+    msn: "123456",
+    pspReference: "psp-1",
+    amount: EUR(5000),
+    timestamp: new Date().toISOString(),
+    success: true,
+    ...event,
+  });
+  const date = new Date().toUTCString();
+  const contentHash = createHash("sha256").update(body, "utf8").digest("base64");
+  const signature = createHmac("sha256", secret)
+    .update(`POST\n${target.pathname}${target.search}\n${date};${target.host};${contentHash}`, "utf8")
+    .digest("base64");
+
+  return {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-ms-date": date,
+      "x-ms-content-sha256": contentHash,
+      Authorization: `HMAC-SHA256 SignedHeaders=x-ms-date;host;x-ms-content-sha256&Signature=${signature}`,
+    },
+    body,
+  };
+}
+
+describe("verifyMobilePayEvent", () => {
+  const body = JSON.stringify({ reference: "vango-1", name: "AUTHORIZED" });
+  const date = "Mon, 02 Mar 2026 10:00:00 GMT";
+  const host = "app.test";
+  const contentHash = createHash("sha256").update(body, "utf8").digest("base64");
+  const sign = (secret: string, pathAndQuery = WEBHOOK_PATH) =>
+    `HMAC-SHA256 SignedHeaders=x-ms-date;host;x-ms-content-sha256&Signature=${createHmac("sha256", secret)
+      .update(`POST\n${pathAndQuery}\n${date};${host};${contentHash}`, "utf8")
+      .digest("base64")}`;
+
+  beforeEach(() => {
+    vi.stubEnv("MOBILEPAY_WEBHOOK_SECRET", WEBHOOK_SECRET);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("returns the event when the signature matches", () => {
+    const event = verifyMobilePayEvent(body, { authorization: sign(WEBHOOK_SECRET), date, contentHash, host }, WEBHOOK_PATH);
+
+    expect(event).toEqual({ reference: "vango-1", name: "AUTHORIZED" });
+  });
+
+  it("rejects a body that doesn't match its content hash", () => {
+    expect(() =>
+      verifyMobilePayEvent(body.replace("AUTHORIZED", "CAPTURED"), { authorization: sign(WEBHOOK_SECRET), date, contentHash, host }, WEBHOOK_PATH)
+    ).toThrow(new WebhookSignatureError("MobilePay content hash does not match the body"));
+  });
+
+  it("rejects a signature made for another path", () => {
+    expect(() =>
+      verifyMobilePayEvent(body, { authorization: sign(WEBHOOK_SECRET, "/other"), date, contentHash, host }, WEBHOOK_PATH)
+    ).toThrow("Invalid MobilePay signature");
+  });
+
+  it("refuses to verify without a secret", () => {
+    vi.stubEnv("MOBILEPAY_WEBHOOK_SECRET", "");
+
+    expect(() =>
+      verifyMobilePayEvent(body, { authorization: sign(WEBHOOK_SECRET), date, contentHash, host }, WEBHOOK_PATH)
+    ).toThrow("MOBILEPAY_WEBHOOK_SECRET is not set");
+  });
+});
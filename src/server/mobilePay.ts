@@ -0,0 +1,210 @@
+import type { Database } from "@/integrations/supabase/database.types";
+import { PaymentError } from "./paymentGateway";
+
+type PaymentStatus = Database["public"]["Enums"]["payment_status"];
+
+export type EPaymentState = "CREATED" | "AUTHORIZED" | "ABORTED" | "EXPIRED" | "TERMINATED";
+
+export interface EPaymentAmount {
+  currency: string;
+  value: number; // minor units
+}
+
+// GET /epayment/v1/payments/{reference}, the fields we use
+export interface EPayment {
+  reference: string;
+  state: EPaymentState;
+  amount: EPaymentAmount;
+  aggregate: {
+    authorizedAmount: EPaymentAmount;
+    cancelledAmount: EPaymentAmount;
+    capturedAmount: EPaymentAmount;
+    refundedAmount: EPaymentAmount;
+  };
+  pspReference?: string;
+}
+
+export interface CreateEPaymentParams {
+  reference: string; // unique per merchant, 8-64 of [a-zA-Z0-9-]
+  amount: EPaymentAmount;
+  returnUrl: string;
+  description: string;
+}
+
+export interface MobilePayConfig {
+  baseUrl: string;
+  clientId: string;
+  clientSecret: string;
+  subscriptionKey: string;
+  merchantSerialNumber: string;
+}
+
+/**
+ * Vipps MobilePay ePayment API. Changes take an idempotency key like the Stripe gateway.
+ */
+export interface MobilePayClient {
+  createPayment(params: CreateEPaymentParams, idempotencyKey: string): Promise<{ reference: string; redirectUrl: string }>;
+  getPayment(reference: string): Promise<EPayment>;
+  capture(reference: string, amount: EPaymentAmount, idempotencyKey: string): Promise<void>;
+  cancel(reference: string, idempotencyKey: string): Promise<void>;
+  // Returns the refund's pspReference
+  refund(reference: string, amount: EPaymentAmount, idempotencyKey: string): Promise<string>;
+}
+
+/**
+ * HTTP client for the ePayment API (apitest.vipps.no, api.vipps.no, or the
+ * local mock in scripts/mobilepay-mock.mjs, which serves the same endpoints)
+ */
+export function createMobilePayClient(config: MobilePayConfig): MobilePayClient {
+  const baseUrl = config.baseUrl.replace(/\/$/, "");
+  let token: { value: string; expiresAt: number } | null = null;
+
+  const commonHeaders = {
+    "Ocp-Apim-Subscription-Key": config.subscriptionKey,
+    "Merchant-Serial-Number": config.merchantSerialNumber,
+    "Vipps-System-Name": "vango",
+  };
+
+  const accessToken = async () => {
+    if (token && token.expiresAt > Date.now()) {
+      return token.value;
+    }
+
+    const response = await fetch(`${baseUrl}/accesstoken/get`, {
+      method: "POST",
+      headers: { ...commonHeaders, client_id: config.clientId, client_secret: config.clientSecret },
+    });
+    if (!response.ok) {
+      throw new PaymentError("GATEWAY", `MobilePay authentication failed with HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    // Renew a minute early
+    token = { value: data.access_token, expiresAt: Date.now() + (Number(data.expires_in) - 60) * 1000 };
+    return token.value;
+  };
+
+  const request = async <T>(method: "GET" | "POST", path: string, body?: unknown, idempotencyKey?: string): Promise<T> => {
+    const response = await fetch(`${baseUrl}/epayment/v1/payments${path}`, {
+      method,
+      headers: {
+        ...commonHeaders,
+        Authorization: `Bearer ${await accessToken()}`,
+        "Content-Type": "application/json",
+        ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      // Errors are RFC 7807 problem details
+      const message = data.detail || data.title || `MobilePay request failed with HTTP ${response.status}`;
+      if (response.status === 404) throw new PaymentError("NOT_FOUND", message);
+      if (response.status === 400 || response.status === 409) throw new PaymentError("NOT_ALLOWED", message);
+      throw new PaymentError("GATEWAY", message);
+    }
+
+    return data as T;
+  };
+
+  return {
+    createPayment(params, idempotencyKey) {
+      return request(
+        "POST",
+        "",
+        {
+          amount: params.amount,
+          paymentMethod: { type: "WALLET" },
+          reference: params.reference,
+          returnUrl: params.returnUrl,
+          userFlow: "WEB_REDIRECT",
+          paymentDescription: params.description,
+        },
+        idempotencyKey
+      );
+    },
+
+    getPayment(reference) {
+      return request("GET", `/${encodeURIComponent(reference)}`);
+    },
+
+    async capture(reference, amount, idempotencyKey) {
+      await request("POST", `/${encodeURIComponent(reference)}/capture`, { modificationAmount: amount }, idempotencyKey);
+    },
+
+    async cancel(reference, idempotencyKey) {
+      await request("POST", `/${encodeURIComponent(reference)}/cancel`, {}, idempotencyKey);
+    },
+
+    async refund(reference, amount, idempotencyKey) {
+      const data = await request<{ pspReference: string }>(
+        "POST",
+        `/${encodeURIComponent(reference)}/refund`,
+        { modificationAmount: amount },
+        idempotencyKey
+      );
+      return data.pspReference;
+    },
+  };
+}
+
+/**
+ * Our payment status for an ePayment. Captures and refunds only show up in the
+ * aggregate; the state stays AUTHORIZED.
+ */
+export function ePaymentStatus(payment: EPayment): PaymentStatus {
+  const { cancelledAmount, capturedAmount, refundedAmount } = payment.aggregate;
+
+  if (capturedAmount.value > 0) {
+    return refundedAmount.value >= capturedAmount.value ? "refunded" : "succeeded";
+  }
+
+  switch (payment.state) {
+    case "AUTHORIZED":
+      return cancelledAmount.value > 0 ? "cancelled" : "authorized";
+    case "ABORTED":
+    case "EXPIRED":
+      return "failed";
+    case "TERMINATED":
+      return "cancelled";
+    default:
+      return "pending";
+  }
+}
+
+// EUR captured and refunded so far, for the payments row
+export function ePaymentAmounts(payment: EPayment) {
+  return {
+    captured_amount: payment.aggregate.capturedAmount.value / 100,
+    refund_amount: payment.aggregate.refundedAmount.value / 100,
+  };
+}
+
+let activeClient: MobilePayClient | null = null;
+
+/**
+ * Client for MOBILEPAY_API_BASE (default the MobilePay test environment)
+ */
+export function getMobilePayClient(): MobilePayClient {
+  if (!activeClient) {
+    const { MOBILEPAY_CLIENT_ID, MOBILEPAY_CLIENT_SECRET, MOBILEPAY_SUBSCRIPTION_KEY, MOBILEPAY_MERCHANT_SERIAL_NUMBER } = process.env;
+    if (!MOBILEPAY_CLIENT_ID || !MOBILEPAY_CLIENT_SECRET || !MOBILEPAY_SUBSCRIPTION_KEY || !MOBILEPAY_MERCHANT_SERIAL_NUMBER) {
+      throw new PaymentError("GATEWAY", "MobilePay credentials are not configured");
+    }
+
+    activeClient = createMobilePayClient({
+      baseUrl: process.env.MOBILEPAY_API_BASE || "https://apitest.vipps.no",
+      clientId: MOBILEPAY_CLIENT_ID,
+      clientSecret: MOBILEPAY_CLIENT_SECRET,
+      subscriptionKey: MOBILEPAY_SUBSCRIPTION_KEY,
+      merchantSerialNumber: MOBILEPAY_MERCHANT_SERIAL_NUMBER,
+    });
+  }
+  return activeClient;
+}
+
+// Swap the client (tests)
+export function setMobilePayClient(client: MobilePayClient | null) {
+  activeClient = client;
+}
@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createStubGateway, getPaymentGateway, PaymentError, setPaymentGateway, type PaymentGateway } from "./paymentGateway";
+
+const METADATA = { bookingId: "booking-1" };
+
+// An intent for €50.00 authorized on the test Visa
+async function authorized(gateway: PaymentGateway, key = "booking-1-authorize") {
+  const intent = await gateway.createIntent({ amount: 5000, currency: "eur", metadata: METADATA }, key);
+  return gateway.confirmIntent(intent.id, "pm_card_visa");
+}
+
+describe("createStubGateway", () => {
+  let gateway: PaymentGateway;
+
+  beforeEach(() => {
+    gateway = createStubGateway();
+  });
+
+  describe("authorize", () => {
+    it("holds the amount on the card until it is captured", async () => {
+      const created = await gateway.createIntent({ amount: 5000, currency: "eur", metadata: METADATA }, "key-1");
+      expect(created).toMatchObject({ status: "requires_payment_method", amount: 5000, amountCapturable: 0 });
+      expect(created.clientSecret).toContain(created.id);
+
+      const confirmed = await gateway.confirmIntent(created.id, "pm_card_visa");
+
+      expect(confirmed).toMatchObject({ status: "requires_capture", amountCapturable: 5000, amountReceived: 0 });
+      expect(confirmed.card).toMatchObject({ id: "pm_card_visa", brand: "visa", last4: "4242" });
+      expect(await gateway.retrieveIntent(created.id)).toEqual(confirmed);
+    });
+
+    it("replays a retried create instead of making a second intent", async () => {
+      const first = await gateway.createIntent({ amount: 5000, currency: "eur", metadata: METADATA }, "key-1");
+      const retry = await gateway.createIntent({ amount: 5000, currency: "eur", metadata: METADATA }, "key-1");
+      const other = await gateway.createIntent({ amount: 5000, currency: "eur", metadata: METADATA }, "key-2");
+
+      expect(retry.id).toBe(first.id);
+      expect(other.id).not.toBe(first.id);
+    });
+
+    it("declines the test card that is always declined", async () => {
+      const intent = await gateway.createIntent({ amount: 5000, currency: "eur", metadata: METADATA }, "key-1");
+
+      await expect(gateway.confirmIntent(intent.id, "pm_card_chargeDeclined"))
+        .rejects.toMatchObject({ code: "DECLINED" });
+      expect((await gateway.retrieveIntent(intent.id)).status).toBe("requires_payment_method");
+    });
+
+    it("refuses an unknown payment method and an unknown intent", async () => {
+      const intent = await gateway.createIntent({ amount: 5000, currency: "eur", metadata: METADATA }, "key-1");
+
+      await expect(gateway.confirmIntent(intent.id, "pm_unknown")).rejects.toMatchObject({ code: "NOT_ALLOWED" });
+      await expect(gateway.retrieveIntent("pi_missing")).rejects.toMatchObject({ code: "NOT_FOUND" });
+    });
+
+    it("can't confirm an intent twice", async () => {
+      const intent = await authorized(gateway);
+
+      await expect(gateway.confirmIntent(intent.id, "pm_card_visa")).rejects.toThrow(
+        "You cannot confirm this PaymentIntent because it has a status of requires_capture."
+      );
+    });
+  });
+
+  describe("capture", () => {
+    it("captures the whole hold by default", async () => {
+      const intent = await authorized(gateway);
+
+      const captured = await gateway.captureIntent(intent.id, undefined, "booking-1-capture");
+
+      expect(captured).toMatchObject({ status: "succeeded", amountReceived: 5000, amountCapturable: 0 });
+    });
+
+    it("captures less than the hold, e.g. a cancellation fee", async () => {
+      const intent = await authorized(gateway);
+
+      const captured = await gateway.captureIntent(intent.id, 1250, "booking-1-capture");
+
+      expect(captured).toMatchObject({ status: "succeeded", amountReceived: 1250 });
+    });
+
+    it("refuses to capture more than was held", async () => {
+      const intent = await authorized(gateway);
+
+      await expect(gateway.captureIntent(intent.id, 5001, "booking-1-capture")).rejects.toMatchObject({ code: "NOT_ALLOWED" });
+    });
+
+    it("replays a retried capture and refuses a new one", async () => {
+      const intent = await authorized(gateway);
+      const first = await gateway.captureIntent(intent.id, 1250, "booking-1-capture");
+
+      expect(await gateway.captureIntent(intent.id, 1250, "booking-1-capture")).toEqual(first);
+      await expect(gateway.captureIntent(intent.id, 1250, "booking-1-capture-again")).rejects.toBeInstanceOf(PaymentError);
+    });
+
+    it("can't capture an intent that was never confirmed", async () => {
+      const intent = await gateway.createIntent({ amount: 5000, currency: "eur", metadata: METADATA }, "key-1");
+
+      await expect(gateway.captureIntent(intent.id, undefined, "key-capture")).rejects.toMatchObject({ code: "NOT_ALLOWED" });
+    });
+
+    it("releases the hold when cancelled", async () => {
+      const intent = await authorized(gateway);
+
+      const cancelled = await gateway.cancelIntent(intent.id, "booking-1-cancel");
+
+      expect(cancelled).toMatchObject({ status: "canceled", amountCapturable: 0 });
+      await expect(gateway.captureIntent(intent.id, undefined, "booking-1-capture")).rejects.toMatchObject({ code: "NOT_ALLOWED" });
+    });
+  });
+
+  describe("refund", () => {
+    it("refunds part of a captured payment, up to what is left", async () => {
+      const intent = await authorized(gateway);
+      await gateway.captureIntent(intent.id, undefined, "booking-1-capture");
+
+      const first = await gateway.refund(intent.id, 2000, "booking-1-refund-1");
+      const second = await gateway.refund(intent.id, 3000, "booking-1-refund-2");
+
+      expect(first).toMatchObject({ amount: 2000, status: "succeeded" });
+      expect(second).toMatchObject({ amount: 3000, status: "succeeded" });
+      await expect(gateway.refund(intent.id, 1, "booking-1-refund-3")).rejects.toThrow(
+        "Refund amount is greater than the unrefunded amount on the charge."
+      );
+    });
+
+    it("replays a retried refund instead of refunding twice", async () => {
+      const intent = await authorized(gateway);
+      await gateway.captureIntent(intent.id, undefined, "booking-1-capture");
+
+      const first = await gateway.refund(intent.id, 5000, "booking-1-refund-1");
+      const retry = await gateway.refund(intent.id, 5000, "booking-1-refund-1");
+
+      expect(retry).toEqual(first);
+    });
+
+    it("can't refund a payment that is only held", async () => {
+      const intent = await authorized(gateway);
+
+      await expect(gateway.refund(intent.id, 1000, "booking-1-refund-1")).rejects.toMatchObject({ code: "NOT_ALLOWED" });
+    });
+  });
+
+  describe("saved cards", () => {
+    it("saves a card to a customer under a new id and pays with it", async () => {
+      const customerId = await gateway.createCustomer({ metadata: { userId: "consumer-1" } }, "customer-consumer-1");
+      const setup = await gateway.createSetupIntent(customerId, {}, "setup-1");
+      const saved = await gateway.confirmSetupIntent(setup.id, "pm_card_mastercard");
+
+      expect(saved.status).toBe("succeeded");
+      expect(saved.card).toMatchObject({ brand: "mastercard", last4: "4444" });
+      expect(saved.card.id).not.toBe("pm_card_mastercard");
+
+      const intent = await gateway.createIntent({ amount: 5000, currency: "eur", metadata: METADATA, customerId }, "key-1");
+      expect((await gateway.confirmIntent(intent.id, saved.card.id)).status).toBe("requires_capture");
+    });
+
+    it("won't charge a saved card for another customer", async () => {
+      const owner = await gateway.createCustomer({ metadata: {} }, "customer-1");
+      const other = await gateway.createCustomer({ metadata: {} }, "customer-2");
+      const setup = await gateway.createSetupIntent(owner, {}, "setup-1");
+      const { card } = await gateway.confirmSetupIntent(setup.id, "pm_card_visa");
+
+      const intent = await gateway.createIntent({ amount: 5000, currency: "eur", metadata: METADATA, customerId: other }, "key-1");
+
+      await expect(gateway.confirmIntent(intent.id, card.id)).rejects.toMatchObject({ code: "NOT_ALLOWED" });
+    });
+
+    it("detaches a saved card once", async () => {
+      const customerId = await gateway.createCustomer({ metadata: {} }, "customer-1");
+      const setup = await gateway.createSetupIntent(customerId, {}, "setup-1");
+      const { card } = await gateway.confirmSetupIntent(setup.id, "pm_card_visa");
+
+      await gateway.detachPaymentMethod(card.id);
+
+      await expect(gateway.detachPaymentMethod(card.id)).rejects.toMatchObject({ code: "NOT_ALLOWED" });
+    });
+  });
+});
+
+describe("getPaymentGateway", () => {
+  beforeEach(() => {
+    setPaymentGateway(null);
+  });
+
+  afterEach(() => {
+    setPaymentGateway(null);
+    vi.unstubAllEnvs();
+  });
+
+  it("uses the stub with STRIPE_PROVIDER=stub, shared by every route", async () => {
+    vi.stubEnv("STRIPE_PROVIDER", "stub");
+
+    const gateway = getPaymentGateway();
+    const intent = await authorized(gateway);
+    setPaymentGateway(null);
+
+    expect(gateway.name).toBe("stub");
+    expect(getPaymentGateway()).toBe(gateway);
+    expect((await getPaymentGateway().retrieveIntent(intent.id)).status).toBe("requires_capture");
+  });
+
+  it("needs STRIPE_SECRET_KEY for Stripe", () => {
+    vi.stubEnv("STRIPE_PROVIDER", "stripe");
+    vi.stubEnv("STRIPE_SECRET_KEY", "");
+
+    expect(() => getPaymentGateway()).toThrow(new PaymentError("GATEWAY", "STRIPE_SECRET_KEY is not set"));
+  });
+
+  it("uses the gateway set for the tests", () => {
+    const gateway = createStubGateway();
+    setPaymentGateway(gateway);
+
+    expect(getPaymentGateway()).toBe(gateway);
+  });
+});
@@ -0,0 +1,531 @@
+import Stripe from "stripe";
+
+export type IntentStatus =
+  | "requires_payment_method"
+  | "requires_confirmation"
+  | "requires_action"
+  | "processing"
+  | "requires_capture"
+  | "canceled"
+  | "succeeded";
+
+export type SetupIntentStatus =
+  | "requires_payment_method"
+  | "requires_confirmation"
+  | "requires_action"
+  | "processing"
+  | "canceled"
+  | "succeeded";
+
+export interface CardDetails {
+  id: string; // payment method id
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+  fingerprint: string | null; // the same for every payment method made from one card number
+}
+
+// The parts of a Stripe PaymentIntent we use. Amounts are in cents, as in Stripe.
+export interface GatewayIntent {
+  id: string;
+  clientSecret: string | null;
+  amount: number;
+  amountCapturable: number;
+  amountReceived: number;
+  currency: string;
+  status: IntentStatus;
+  customerId: string | null;
+  card: CardDetails | null;
+}
+
+// A SetupIntent saves a card to a Customer without charging it
+export interface GatewaySetupIntent {
+  id: string;
+  clientSecret: string | null;
+  status: SetupIntentStatus;
+  customerId: string | null;
+  card: CardDetails | null;
+}
+
+export interface CreateIntentParams {
+  amount: number;
+  currency: string;
+  metadata: Record<string, string>;
+  customerId?: string; // required to pay with a card saved to that Customer
+}
+
+export interface CreateCustomerParams {
+  email?: string;
+  name?: string;
+  metadata: Record<string, string>;
+}
+
+export interface GatewayRefund {
+  id: string;
+  amount: number;
+  status: string;
+}
+
+/**
+ * Every call that moves money takes an idempotency key, so a retried request
+ * replays the first result instead of charging twice.
+ */
+export interface PaymentGateway {
+  name: string;
+  // Always created with manual capture: the card is only charged on delivery
+  createIntent(params: CreateIntentParams, idempotencyKey: string): Promise<GatewayIntent>;
+  retrieveIntent(id: string): Promise<GatewayIntent>;
+  confirmIntent(id: string, paymentMethodId: string): Promise<GatewayIntent>;
+  captureIntent(id: string, amountToCapture: number | undefined, idempotencyKey: string): Promise<GatewayIntent>;
+  cancelIntent(id: string, idempotencyKey: string): Promise<GatewayIntent>;
+  refund(intentId: string, amount: number, idempotencyKey: string): Promise<GatewayRefund>;
+  createCustomer(params: CreateCustomerParams, idempotencyKey: string): Promise<string>;
+  createSetupIntent(customerId: string, metadata: Record<string, string>, idempotencyKey: string): Promise<GatewaySetupIntent>;
+  retrieveSetupIntent(id: string): Promise<GatewaySetupIntent>;
+  confirmSetupIntent(id: string, paymentMethodId: string): Promise<GatewaySetupIntent>;
+  detachPaymentMethod(paymentMethodId: string): Promise<void>;
+}
+
+export type PaymentErrorCode = "NOT_FOUND" | "FORBIDDEN" | "NOT_ALLOWED" | "CONFLICT" | "DECLINED" | "GATEWAY";
+
+export class PaymentError extends Error {
+  code: PaymentErrorCode;
+
+  constructor(code: PaymentErrorCode, message: string) {
+    super(message);
+    this.name = "PaymentError";
+    this.code = code;
+  }
+}
+
+// HTTP status for each error code in the API routes
+export const PAYMENT_ERROR_STATUS: Record<PaymentErrorCode, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  NOT_ALLOWED: 422,
+  CONFLICT: 409,
+  DECLINED: 402,
+  GATEWAY: 502,
+};
+
+function toPaymentError(error: unknown): unknown {
+  if (error instanceof Stripe.errors.StripeCardError) {
+    return new PaymentError("DECLINED", error.message);
+  }
+  if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+    return new PaymentError(error.code === "resource_missing" ? "NOT_FOUND" : "NOT_ALLOWED", error.message);
+  }
+  if (error instanceof Stripe.errors.StripeError) {
+    return new PaymentError("GATEWAY", error.message);
+  }
+  return error;
+}
+
+function fromStripeCard(method: string | Stripe.PaymentMethod | null): CardDetails | null {
+  if (!method || typeof method === "string" || !method.card) {
+    return null;
+  }
+
+  return {
+    id: method.id,
+    brand: method.card.brand,
+    last4: method.card.last4,
+    expMonth: method.card.exp_month,
+    expYear: method.card.exp_year,
+    fingerprint: method.card.fingerprint || null,
+  };
+}
+
+const customerIdOf = (customer: string | Stripe.Customer | Stripe.DeletedCustomer | null) =>
+  typeof customer === "string" ? customer : customer?.id || null;
+
+function fromStripeIntent(intent: Stripe.PaymentIntent): GatewayIntent {
+  return {
+    id: intent.id,
+    clientSecret: intent.client_secret,
+    amount: intent.amount,
+    amountCapturable: intent.amount_capturable,
+    amountReceived: intent.amount_received,
+    currency: intent.currency,
+    status: intent.status,
+    customerId: customerIdOf(intent.customer),
+    card: fromStripeCard(intent.payment_method),
+  };
+}
+
+function fromStripeSetupIntent(intent: Stripe.SetupIntent): GatewaySetupIntent {
+  return {
+    id: intent.id,
+    clientSecret: intent.client_secret,
+    status: intent.status,
+    customerId: customerIdOf(intent.customer),
+    card: fromStripeCard(intent.payment_method),
+  };
+}
+
+/**
+ * Stripe through the official SDK. `apiBase` points it elsewhere, e.g. a
+ * stripe-mock container at http://localhost:12111 to check request shapes.
+ */
+export function createStripeGateway(secretKey: string, apiBase?: string): PaymentGateway {
+  const endpoint = apiBase ? new URL(apiBase) : null;
+  const stripe = new Stripe(secretKey, {
+    maxNetworkRetries: 2,
+    ...(endpoint
+      ? {
+          host: endpoint.hostname,
+          port: endpoint.port || (endpoint.protocol === "https:" ? 443 : 80),
+          protocol: endpoint.protocol === "http:" ? "http" : "https",
+        }
+      : {}),
+  });
+
+  const expand = ["payment_method"];
+
+  const call = async (request: () => Promise<Stripe.PaymentIntent>) => {
+    try {
+      return fromStripeIntent(await request());
+    } catch (error) {
+      throw toPaymentError(error);
+    }
+  };
+
+  const callSetup = async (request: () => Promise<Stripe.SetupIntent>) => {
+    try {
+      return fromStripeSetupIntent(await request());
+    } catch (error) {
+      throw toPaymentError(error);
+    }
+  };
+
+  return {
+    name: "stripe",
+
+    createIntent(params, idempotencyKey) {
+      return call(() =>
+        stripe.paymentIntents.create(
+          {
+            amount: params.amount,
+            currency: params.currency,
+            capture_method: "manual",
+            payment_method_types: ["card"],
+            metadata: params.metadata,
+            ...(params.customerId ? { customer: params.customerId } : {}),
+            expand,
+          },
+          { idempotencyKey }
+        )
+      );
+    },
+
+    retrieveIntent(id) {
+      return call(() => stripe.paymentIntents.retrieve(id, { expand }));
+    },
+
+    confirmIntent(id, paymentMethodId) {
+      return call(() => stripe.paymentIntents.confirm(id, { payment_method: paymentMethodId, expand }));
+    },
+
+    captureIntent(id, amountToCapture, idempotencyKey) {
+      return call(() =>
+        stripe.paymentIntents.capture(
+          id,
+          { ...(amountToCapture !== undefined ? { amount_to_capture: amountToCapture } : {}), expand },
+          { idempotencyKey }
+        )
+      );
+    },
+
+    cancelIntent(id, idempotencyKey) {
+      return call(() => stripe.paymentIntents.cancel(id, { expand }, { idempotencyKey }));
+    },
+
+    async refund(intentId, amount, idempotencyKey) {
+      try {
+        const refund = await stripe.refunds.create({ payment_intent: intentId, amount }, { idempotencyKey });
+        return { id: refund.id, amount: refund.amount, status: refund.status || "pending" };
+      } catch (error) {
+        throw toPaymentError(error);
+      }
+    },
+
+    async createCustomer(params, idempotencyKey) {
+      try {
+        const customer = await stripe.customers.create(
+          { email: params.email, name: params.name, metadata: params.metadata },
+          { idempotencyKey }
+        );
+        return customer.id;
+      } catch (error) {
+        throw toPaymentError(error);
+      }
+    },
+
+    createSetupIntent(customerId, metadata, idempotencyKey) {
+      return callSetup(() =>
+        stripe.setupIntents.create(
+          { customer: customerId, payment_method_types: ["card"], usage: "off_session", metadata, expand },
+          { idempotencyKey }
+        )
+      );
+    },
+
+    retrieveSetupIntent(id) {
+      return callSetup(() => stripe.setupIntents.retrieve(id, { expand }));
+    },
+
+    confirmSetupIntent(id, paymentMethodId) {
+      return callSetup(() => stripe.setupIntents.confirm(id, { payment_method: paymentMethodId, expand }));
+    },
+
+    async detachPaymentMethod(paymentMethodId) {
+      try {
+        await stripe.paymentMethods.detach(paymentMethodId);
+      } catch (error) {
+        throw toPaymentError(error);
+      }
+    },
+  };
+}
+
+// Stripe's test payment methods, which stripe-mock accepts as well
+const TEST_CARDS: Record<string, Omit<CardDetails, "id"> & { declined?: boolean }> = {
+  pm_card_visa: { brand: "visa", last4: "4242", expMonth: 12, expYear: 2034, fingerprint: "fpStubVisa4242" },
+  pm_card_mastercard: { brand: "mastercard", last4: "4444", expMonth: 12, expYear: 2034, fingerprint: "fpStubMc4444" },
+  pm_card_chargeDeclined: { brand: "visa", last4: "0002", expMonth: 12, expYear: 2034, fingerprint: "fpStubVisa0002", declined: true },
+};
+
+/**
+ * In-memory stand-in with Stripe's PaymentIntent and SetupIntent state
+ * machines and idempotent replays, for running the whole payment flow offline.
+ * Accepts the test payment methods above; saving one to a Customer gives it a
+ * new id, as Stripe does.
+ */
+export function createStubGateway(): PaymentGateway {
+  const intents = new Map<string, GatewayIntent>();
+  const setupIntents = new Map<string, GatewaySetupIntent>();
+  const customers = new Set<string>();
+  const saved = new Map<string, { card: (typeof TEST_CARDS)[string]; customerId: string | null }>();
+  const refunded = new Map<string, number>();
+  const replays = new Map<string, unknown>();
+  let sequence = 0;
+
+  const nextId = (prefix: string) => `${prefix}_stub${String(++sequence).padStart(8, "0")}`;
+  const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+  const idempotent = async <T>(key: string, run: () => T): Promise<T> => {
+    if (!replays.has(key)) {
+      replays.set(key, copy(run()));
+    }
+    return copy(replays.get(key) as T);
+  };
+
+  const find = (id: string) => {
+    const intent = intents.get(id);
+    if (!intent) {
+      throw new PaymentError("NOT_FOUND", `No such payment_intent: '${id}'`);
+    }
+    return intent;
+  };
+
+  const unexpectedState = (intent: GatewayIntent, action: string) =>
+    new PaymentError("NOT_ALLOWED", `You cannot ${action} this PaymentIntent because it has a status of ${intent.status}.`);
+
+  const findMethod = (paymentMethodId: string) => {
+    const method = saved.get(paymentMethodId) || (TEST_CARDS[paymentMethodId] ? { card: TEST_CARDS[paymentMethodId], customerId: null } : null);
+    if (!method) {
+      throw new PaymentError("NOT_ALLOWED", `No such PaymentMethod: '${paymentMethodId}'`);
+    }
+    return method;
+  };
+
+  const findSetupIntent = (id: string) => {
+    const intent = setupIntents.get(id);
+    if (!intent) {
+      throw new PaymentError("NOT_FOUND", `No such setupintent: '${id}'`);
+    }
+    return intent;
+  };
+
+  return {
+    name: "stub",
+
+    createIntent(params, idempotencyKey) {
+      return idempotent(idempotencyKey, () => {
+        const id = nextId("pi");
+        const intent: GatewayIntent = {
+          id,
+          clientSecret: `${id}_secret_stub`,
+          amount: params.amount,
+          amountCapturable: 0,
+          amountReceived: 0,
+          currency: params.currency,
+          status: "requires_payment_method",
+          customerId: params.customerId || null,
+          card: null,
+        };
+        intents.set(id, intent);
+        return intent;
+      });
+    },
+
+    async retrieveIntent(id) {
+      return copy(find(id));
+    },
+
+    async confirmIntent(id, paymentMethodId) {
+      const intent = find(id);
+      if (intent.status !== "requires_payment_method" && intent.status !== "requires_confirmation") {
+        throw unexpectedState(intent, "confirm");
+      }
+
+      const { card, customerId } = findMethod(paymentMethodId);
+      if (customerId && customerId !== intent.customerId) {
+        throw new PaymentError("NOT_ALLOWED", "The provided PaymentMethod belongs to a different Customer.");
+      }
+      if (card.declined) {
+        throw new PaymentError("DECLINED", "Your card was declined.");
+      }
+
+      intent.card = { id: paymentMethodId, brand: card.brand, last4: card.last4, expMonth: card.expMonth, expYear: card.expYear, fingerprint: card.fingerprint };
+      intent.status = "requires_capture";
+      intent.amountCapturable = intent.amount;
+      return copy(intent);
+    },
+
+    captureIntent(id, amountToCapture, idempotencyKey) {
+      return idempotent(idempotencyKey, () => {
+        const intent = find(id);
+        if (intent.status !== "requires_capture") {
+          throw unexpectedState(intent, "capture");
+        }
+
+        const amount = amountToCapture ?? intent.amountCapturable;
+        if (amount > intent.amountCapturable) {
+          throw new PaymentError("NOT_ALLOWED", "amount_to_capture is greater than the amount capturable");
+        }
+
+        intent.status = "succeeded";
+        intent.amountReceived = amount;
+        intent.amountCapturable = 0;
+        return intent;
+      });
+    },
+
+    cancelIntent(id, idempotencyKey) {
+      return idempotent(idempotencyKey, () => {
+        const intent = find(id);
+        if (intent.status === "succeeded" || intent.status === "canceled") {
+          throw unexpectedState(intent, "cancel");
+        }
+
+        intent.status = "canceled";
+        intent.amountCapturable = 0;
+        return intent;
+      });
+    },
+
+    refund(intentId, amount, idempotencyKey) {
+      return idempotent(idempotencyKey, () => {
+        const intent = find(intentId);
+        const already = refunded.get(intentId) || 0;
+        if (intent.status !== "succeeded") {
+          throw new PaymentError("NOT_ALLOWED", "This PaymentIntent does not have a successful charge to refund.");
+        }
+        if (amount > intent.amountReceived - already) {
+          throw new PaymentError("NOT_ALLOWED", "Refund amount is greater than the unrefunded amount on the charge.");
+        }
+
+        refunded.set(intentId, already + amount);
+        return { id: nextId("re"), amount, status: "succeeded" };
+      });
+    },
+
+    createCustomer(_params, idempotencyKey) {
+      return idempotent(idempotencyKey, () => {
+        const id = nextId("cus");
+        customers.add(id);
+        return id;
+      });
+    },
+
+    createSetupIntent(customerId, _metadata, idempotencyKey) {
+      return idempotent(idempotencyKey, () => {
+        if (!customers.has(customerId)) {
+          throw new PaymentError("NOT_FOUND", `No such customer: '${customerId}'`);
+        }
+
+        const id = nextId("seti");
+        const intent: GatewaySetupIntent = {
+          id,
+          clientSecret: `${id}_secret_stub`,
+          status: "requires_payment_method",
+          customerId,
+          card: null,
+        };
+        setupIntents.set(id, intent);
+        return intent;
+      });
+    },
+
+    async retrieveSetupIntent(id) {
+      return copy(findSetupIntent(id));
+    },
+
+    async confirmSetupIntent(id, paymentMethodId) {
+      const intent = findSetupIntent(id);
+      if (intent.status !== "requires_payment_method" && intent.status !== "requires_confirmation") {
+        throw new PaymentError("NOT_ALLOWED", `You cannot confirm this SetupIntent because it has a status of ${intent.status}.`);
+      }
+
+      const { card } = findMethod(paymentMethodId);
+      if (card.declined) {
+        throw new PaymentError("DECLINED", "Your card was declined.");
+      }
+
+      const methodId = nextId("pm");
+      saved.set(methodId, { card, customerId: intent.customerId });
+      intent.card = { id: methodId, brand: card.brand, last4: card.last4, expMonth: card.expMonth, expYear: card.expYear, fingerprint: card.fingerprint };
+      intent.status = "succeeded";
+      return copy(intent);
+    },
+
+    async detachPaymentMethod(paymentMethodId) {
+      const method = saved.get(paymentMethodId);
+      if (!method?.customerId) {
+        throw new PaymentError("NOT_ALLOWED", "The payment method you provided is not attached to a customer so detachment is impossible.");
+      }
+      method.customerId = null;
+    },
+  };
+}
+
+// Next.js may load this module once per API route; keep one stand-in for all of them
+const stubHolder = globalThis as typeof globalThis & { __stubPaymentGateway?: PaymentGateway };
+
+let activeGateway: PaymentGateway | null = null;
+
+/**
+ * Gateway chosen by STRIPE_PROVIDER ("stripe" | "stub", default "stripe")
+ */
+export function getPaymentGateway(): PaymentGateway {
+  if (!activeGateway) {
+    if (process.env.STRIPE_PROVIDER === "stub") {
+      stubHolder.__stubPaymentGateway ??= createStubGateway();
+      activeGateway = stubHolder.__stubPaymentGateway;
+    } else {
+      const secretKey = process.env.STRIPE_SECRET_KEY;
+      if (!secretKey) {
+        throw new PaymentError("GATEWAY", "STRIPE_SECRET_KEY is not set");
+      }
+      activeGateway = createStripeGateway(secretKey, process.env.STRIPE_API_BASE);
+    }
+  }
+  return activeGateway;
+}
+
+// Swap the gateway (tests)
+export function setPaymentGateway(gateway: PaymentGateway | null) {
+  activeGateway = gateway;
+}
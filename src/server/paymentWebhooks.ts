@@ -0,0 +1,281 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import Stripe from "stripe";
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import type { Database, Json } from "@/integrations/supabase/database.types";
+import { dispatch } from "./dispatch";
+import { ePaymentAmounts, ePaymentStatus, getMobilePayClient } from "./mobilePay";
+
+type PaymentStatus = Database["public"]["Enums"]["payment_status"];
+type PaymentProvider = Database["public"]["Enums"]["payment_provider"];
+type PaymentRow = Database["public"]["Tables"]["payments"]["Row"];
+type PaymentUpdate = Database["public"]["Tables"]["payments"]["Update"];
+
+export class WebhookSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookSignatureError";
+  }
+}
+
+// ePayment webhook body (Vipps MobilePay)
+export interface MobilePayEvent {
+  msn: string;
+  reference: string;
+  pspReference: string;
+  name: "CREATED" | "AUTHORIZED" | "CAPTURED" | "CANCELLED" | "REFUNDED" | "ABORTED" | "EXPIRED" | "TERMINATED";
+  amount: { currency: string; value: number }; // minor units, for this operation
+  timestamp: string;
+  success: boolean;
+}
+
+export interface WebhookResult {
+  duplicate: boolean;
+  paymentId: string | null;
+}
+
+// Allowed payment status changes; events arriving out of order must not move a payment backwards
+const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ["authorized", "succeeded", "failed", "cancelled"],
+  failed: ["authorized", "succeeded", "cancelled"], // the customer may retry with another card
+  authorized: ["succeeded", "cancelled"],
+  succeeded: ["refunded"],
+  refunded: [],
+  cancelled: [],
+};
+
+const toEur = (minorUnits: number) => minorUnits / 100;
+
+/**
+ * Parse a Stripe webhook, checking the Stripe-Signature header against STRIPE_WEBHOOK_SECRET
+ */
+export function verifyStripeEvent(rawBody: string, signature: string): Stripe.Event {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error("STRIPE_WEBHOOK_SECRET is not set");
+  }
+
+  try {
+    return Stripe.webhooks.constructEvent(rawBody, signature, secret);
+  } catch (error) {
+    throw new WebhookSignatureError(error instanceof Error ? error.message : "Invalid Stripe signature");
+  }
+}
+
+/**
+ * Parse a MobilePay webhook, checking its HMAC-SHA256 Authorization header
+ * against MOBILEPAY_WEBHOOK_SECRET. Signed string:
+ * "POST\n<path and query>\n<x-ms-date>;<host>;<x-ms-content-sha256>"
+ */
+export function verifyMobilePayEvent(
+  rawBody: string,
+  headers: { authorization?: string; date?: string; contentHash?: string; host?: string },
+  pathAndQuery: string
+): MobilePayEvent {
+  const secret = process.env.MOBILEPAY_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error("MOBILEPAY_WEBHOOK_SECRET is not set");
+  }
+
+  const contentHash = createHash("sha256").update(rawBody, "utf8").digest("base64");
+  if (!headers.contentHash || headers.contentHash !== contentHash) {
+    throw new WebhookSignatureError("MobilePay content hash does not match the body");
+  }
+
+  const signed = `POST\n${pathAndQuery}\n${headers.date};${headers.host};${contentHash}`;
+  const expected = createHmac("sha256", secret).update(signed, "utf8").digest("base64");
+  const received = headers.authorization?.match(/Signature=(.+)$/)?.[1] || "";
+
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  if (a.length !== b.length || !timingSafeEqual(a, b)) {
+    throw new WebhookSignatureError("Invalid MobilePay signature");
+  }
+
+  return JSON.parse(rawBody) as MobilePayEvent;
+}
+
+/**
+ * Store the event, or find the stored copy of a redelivery. Returns null when
+ * it was already processed.
+ */
+async function claimEvent(provider: PaymentProvider, eventId: string, eventType: string, payload: Json): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from("payment_events")
+    .insert({ provider, event_id: eventId, event_type: eventType, payload })
+    .select("id")
+    .single();
+
+  if (!error) return data.id;
+  if (error.code !== "23505") throw error;
+
+  const { data: existing, error: readError } = await supabaseAdmin
+    .from("payment_events")
+    .select("id, processed_at")
+    .eq("provider", provider)
+    .eq("event_id", eventId)
+    .single();
+
+  if (readError) throw readError;
+  return existing.processed_at ? null : existing.id;
+}
+
+async function findPayment(column: "booking_id" | "stripe_payment_intent_id" | "provider_reference", value: string): Promise<PaymentRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from("payments")
+    .select("*")
+    .eq(column, value)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Move a payment to `to` with the event's amounts. Repeating the current
+ * status only refreshes the amounts; a transition the table doesn't allow
+ * (an older event arriving late) is ignored.
+ */
+async function applyPaymentStatus(payment: PaymentRow, to: PaymentStatus, changes: PaymentUpdate = {}): Promise<void> {
+  const from = payment.status || "pending";
+  if (from !== to && !PAYMENT_TRANSITIONS[from].includes(to)) {
+    console.log(`Ignoring out-of-order payment event for ${payment.id}: ${from} -> ${to}`);
+    return;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("payments")
+    .update({ ...changes, status: to, updated_at: new Date().toISOString() })
+    .eq("id", payment.id)
+    .eq("status", from)
+    .select("id");
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    // Changed underneath us; failing makes the provider redeliver against the new status
+    throw new Error(`Payment ${payment.id} changed while processing the event`);
+  }
+
+  // The booking is offered to transporters once it is paid for
+  if (to === "authorized" && from !== "authorized") {
+    await dispatch.start(payment.booking_id);
+  }
+}
+
+async function applyStripeEvent(event: Stripe.Event): Promise<string | null> {
+  if (event.type === "charge.refunded") {
+    const charge = event.data.object;
+    const intentId = typeof charge.payment_intent === "string" ? charge.payment_intent : charge.payment_intent?.id;
+    const payment = intentId ? await findPayment("stripe_payment_intent_id", intentId) : null;
+    if (!payment) return null;
+
+    // Refunds into the wallet count too; a wallet share not refunded yet keeps the payment refundable
+    const walletLeft = Math.round((Number(payment.wallet_amount) - Number(payment.wallet_refund_amount)) * 100);
+    const refundAmount = toEur(charge.amount_refunded);
+    await applyPaymentStatus(
+      payment,
+      charge.amount_refunded >= charge.amount_captured + walletLeft ? "refunded" : "succeeded",
+      { refund_amount: refundAmount }
+    );
+    return payment.id;
+  }
+
+  if (!event.type.startsWith("payment_intent.")) {
+    return null;
+  }
+
+  const intent = event.data.object as Stripe.PaymentIntent;
+  const payment = await findPayment("stripe_payment_intent_id", intent.id);
+  if (!payment) {
+    // Our intents carry the booking id; the row may just not be written yet, so let Stripe retry.
+    // If the booking's payment went to MobilePay instead, the intent was abandoned.
+    const bookingId = intent.metadata?.bookingId;
+    if (bookingId && !(await findPayment("booking_id", bookingId))) {
+      throw new Error(`No payment recorded yet for ${intent.id}`);
+    }
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  switch (event.type) {
+    case "payment_intent.amount_capturable_updated":
+      await applyPaymentStatus(payment, "authorized", { authorized_at: payment.authorized_at || now });
+      break;
+    case "payment_intent.succeeded":
+      await applyPaymentStatus(payment, "succeeded", { captured_amount: toEur(intent.amount_received), captured_at: now });
+      break;
+    case "payment_intent.payment_failed":
+      await applyPaymentStatus(payment, "failed");
+      break;
+    case "payment_intent.canceled":
+      await applyPaymentStatus(payment, "cancelled");
+      break;
+    default:
+      return null;
+  }
+
+  return payment.id;
+}
+
+// The event only says something changed; the payment's aggregate at MobilePay has the amounts
+async function applyMobilePayEvent(event: MobilePayEvent): Promise<string | null> {
+  const payment = await findPayment("provider_reference", event.reference);
+  if (!payment) return null;
+
+  const remote = await getMobilePayClient().getPayment(event.reference);
+  const status = ePaymentStatus(remote);
+  const now = new Date().toISOString();
+
+  await applyPaymentStatus(payment, status, {
+    ...ePaymentAmounts(remote),
+    ...(status === "authorized" ? { authorized_at: payment.authorized_at || now } : {}),
+    ...(status === "succeeded" && !payment.captured_at ? { captured_at: now } : {}),
+  });
+
+  return payment.id;
+}
+
+async function processOnce(
+  provider: PaymentProvider,
+  eventId: string,
+  eventType: string,
+  payload: Json,
+  apply: () => Promise<string | null>
+): Promise<WebhookResult> {
+  const storedId = await claimEvent(provider, eventId, eventType, payload);
+  if (!storedId) {
+    return { duplicate: true, paymentId: null };
+  }
+
+  try {
+    const paymentId = await apply();
+    await supabaseAdmin
+      .from("payment_events")
+      .update({ processed_at: new Date().toISOString(), payment_id: paymentId, error: null })
+      .eq("id", storedId);
+    return { duplicate: false, paymentId };
+  } catch (error) {
+    await supabaseAdmin
+      .from("payment_events")
+      .update({ error: error instanceof Error ? error.message : String(error) })
+      .eq("id", storedId);
+    throw error;
+  }
+}
+
+export const paymentWebhooks = {
+  /**
+   * Apply a verified Stripe event once; redeliveries of processed events are skipped
+   */
+  async handleStripeEvent(event: Stripe.Event): Promise<WebhookResult> {
+    return processOnce("stripe", event.id, event.type, event as unknown as Json, () => applyStripeEvent(event));
+  },
+
+  /**
+   * Apply a verified MobilePay event once. MobilePay has no event id, so the
+   * payment reference, event name and PSP reference identify it.
+   */
+  async handleMobilePayEvent(event: MobilePayEvent): Promise<WebhookResult> {
+    const eventId = `${event.reference}:${event.name}:${event.pspReference}`;
+    return processOnce("mobilepay", eventId, event.name, event as unknown as Json, () => applyMobilePayEvent(event));
+  },
+};
@@ -0,0 +1,299 @@
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import type { Database } from "@/integrations/supabase/database.types";
+import { getBalances, PayoutError, postLedgerTransaction, requireAdmin } from "./payoutLedger";
+import { buildPain001, isValidIban, normalizeIban, type SepaParty } from "./sepa";
+
+type PayoutBatchRow = Database["public"]["Tables"]["payout_batches"]["Row"];
+type PayoutRow = Database["public"]["Tables"]["payouts"]["Row"];
+
+export interface SkippedPayout {
+  transporterId: string;
+  owed: number;
+  reason: string;
+}
+
+export interface PayoutBatchResult {
+  batch: PayoutBatchRow;
+  created: boolean; // false when this week's batch already existed
+  skipped: SkippedPayout[];
+}
+
+// Smaller balances roll over to the next week
+export const MINIMUM_PAYOUT = 10;
+
+const toCents = (eur: number) => Math.round(eur * 100);
+
+function getDebtor(): SepaParty {
+  const { PAYOUT_DEBTOR_NAME, PAYOUT_DEBTOR_IBAN, PAYOUT_DEBTOR_BIC } = process.env;
+  if (!PAYOUT_DEBTOR_NAME || !PAYOUT_DEBTOR_IBAN || !isValidIban(PAYOUT_DEBTOR_IBAN)) {
+    throw new Error("PAYOUT_DEBTOR_NAME and a valid PAYOUT_DEBTOR_IBAN must be set");
+  }
+  return { name: PAYOUT_DEBTOR_NAME, iban: PAYOUT_DEBTOR_IBAN, bic: PAYOUT_DEBTOR_BIC };
+}
+
+async function getBatch(column: "id" | "period_end", value: string): Promise<PayoutBatchRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from("payout_batches")
+    .select("*")
+    .eq(column, value)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// Payout details from each transporter's approved application
+async function getBankDetails(transporterIds: string[]) {
+  const { data, error } = await supabaseAdmin
+    .from("transporter_applications")
+    .select("user_id, full_name, bank_account_iban, profile:profiles!transporter_applications_user_id_fkey(full_name)")
+    .in("user_id", transporterIds)
+    .eq("status", "approved");
+
+  if (error) throw error;
+  return new Map(
+    (data || []).map((application) => [
+      application.user_id,
+      { iban: application.bank_account_iban, name: application.full_name || application.profile?.full_name || "" },
+    ])
+  );
+}
+
+// Move a payout's amount from owed to in transit; once per payout
+async function postPayout(payout: PayoutRow, periodEnd: string): Promise<void> {
+  await postLedgerTransaction({
+    type: "payout",
+    transporterId: payout.transporter_id,
+    payoutId: payout.id,
+    idempotencyKey: `payout-${payout.id}`,
+    description: `Weekly payout ${periodEnd}`,
+    entries: [
+      { account: "transporter_payable", amount: Number(payout.amount) },
+      { account: "payouts_in_transit", amount: -Number(payout.amount) },
+    ],
+  });
+}
+
+export const payoutBatches = {
+  /**
+   * Pay out everything owed to transporters as of `runDate`: one payout per
+   * transporter owed at least MINIMUM_PAYOUT with a valid IBAN, moved from
+   * owed to in transit in the ledger, and a pain.001 file for the bank.
+   * Running again on the same day returns that day's batch, or finishes it
+   * if the earlier run failed halfway.
+   */
+  async run(runDate: Date = new Date()): Promise<PayoutBatchResult> {
+    const periodEnd = runDate.toISOString().slice(0, 10);
+    const existing = await getBatch("period_end", periodEnd);
+    if (existing?.completed_at) {
+      return { batch: existing, created: false, skipped: [] };
+    }
+
+    const debtor = getDebtor();
+    const stamp = periodEnd.replace(/-/g, "");
+    let batch = existing;
+
+    if (!batch) {
+      const { data: inserted, error: batchError } = await supabaseAdmin
+        .from("payout_batches")
+        .insert({ period_end: periodEnd, message_id: `VANGO-PAYOUT-${stamp}` })
+        .select("*")
+        .single();
+
+      if (batchError) {
+        // Another run started this week's batch first
+        if (batchError.code === "23505") {
+          const raced = await getBatch("period_end", periodEnd);
+          if (raced) return { batch: raced, created: false, skipped: [] };
+        }
+        throw batchError;
+      }
+      batch = inserted;
+    }
+
+    // Payouts an earlier run created; their ledger postings are replayed by key
+    // in case it stopped in between, so the balances below leave them out
+    const { data: earlier, error: earlierError } = await supabaseAdmin
+      .from("payouts")
+      .select("*")
+      .eq("batch_id", batch.id);
+
+    if (earlierError) throw earlierError;
+
+    const payouts: PayoutRow[] = [];
+    for (const payout of earlier || []) {
+      await postPayout(payout, periodEnd);
+      payouts.push(payout);
+    }
+
+    const paid = new Set(payouts.map((payout) => payout.transporter_id));
+    const balances = await getBalances();
+    const due = [...balances.entries()].filter(
+      ([transporterId, balance]) => balance.owed >= MINIMUM_PAYOUT && !paid.has(transporterId)
+    );
+    const bankDetails = due.length > 0 ? await getBankDetails(due.map(([transporterId]) => transporterId)) : new Map();
+
+    const skipped: SkippedPayout[] = [];
+
+    for (const [transporterId, { owed }] of due) {
+      const bank = bankDetails.get(transporterId);
+      if (!bank || !isValidIban(bank.iban)) {
+        skipped.push({ transporterId, owed, reason: bank ? "Invalid IBAN" : "No approved application" });
+        continue;
+      }
+
+      const { data: payout, error } = await supabaseAdmin
+        .from("payouts")
+        .insert({
+          batch_id: batch.id,
+          transporter_id: transporterId,
+          amount: owed,
+          iban: normalizeIban(bank.iban),
+          beneficiary_name: bank.name || "VANGO transporter",
+          end_to_end_id: `VANGO-${stamp}-${transporterId.slice(0, 8)}`,
+        })
+        .select("*")
+        .single();
+
+      if (error) throw error;
+
+      await postPayout(payout, periodEnd);
+      payouts.push(payout);
+    }
+
+    const totalCents = payouts.reduce((sum, payout) => sum + toCents(Number(payout.amount)), 0);
+    const xml = payouts.length > 0
+      ? buildPain001({
+          messageId: batch.message_id,
+          createdAt: runDate,
+          executionDate: periodEnd,
+          debtor,
+          transfers: payouts.map((payout) => ({
+            endToEndId: payout.end_to_end_id,
+            amount: Number(payout.amount),
+            creditor: { name: payout.beneficiary_name, iban: payout.iban },
+            remittanceInfo: `VANGO payout ${periodEnd}`,
+          })),
+        })
+      : null;
+
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from("payout_batches")
+      .update({
+        payout_count: payouts.length,
+        total_amount: totalCents / 100,
+        pain001_xml: xml,
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", batch.id)
+      .select("*")
+      .single();
+
+    if (updateError) throw updateError;
+    return { batch: updated, created: !existing, skipped };
+  },
+
+  /**
+   * Mark a batch's pending payouts as paid once the bank has executed the file (admins)
+   */
+  async settle(batchId: string, userId: string): Promise<PayoutBatchRow> {
+    await requireAdmin(userId);
+
+    const batch = await getBatch("id", batchId);
+    if (!batch) {
+      throw new PayoutError("NOT_FOUND", "Payout batch not found");
+    }
+    if (batch.status === "settled") {
+      return batch;
+    }
+    if (!batch.completed_at) {
+      throw new PayoutError("NOT_ALLOWED", "This batch is unfinished; run the payouts again to complete it");
+    }
+
+    const { data: payouts, error } = await supabaseAdmin
+      .from("payouts")
+      .select("*")
+      .eq("batch_id", batchId)
+      .eq("status", "pending");
+
+    if (error) throw error;
+
+    const now = new Date().toISOString();
+    for (const payout of payouts || []) {
+      await postLedgerTransaction({
+        type: "payout_settled",
+        transporterId: payout.transporter_id,
+        payoutId: payout.id,
+        idempotencyKey: `payout-settled-${payout.id}`,
+        createdBy: userId,
+        entries: [
+          { account: "payouts_in_transit", amount: Number(payout.amount) },
+          { account: "bank", amount: -Number(payout.amount) },
+        ],
+      });
+
+      const { error: payoutError } = await supabaseAdmin
+        .from("payouts")
+        .update({ status: "paid", paid_at: now })
+        .eq("id", payout.id)
+        .eq("status", "pending");
+
+      if (payoutError) throw payoutError;
+    }
+
+    const { data: settled, error: batchError } = await supabaseAdmin
+      .from("payout_batches")
+      .update({ status: "settled", settled_at: now })
+      .eq("id", batchId)
+      .select("*")
+      .single();
+
+    if (batchError) throw batchError;
+    return settled;
+  },
+
+  /**
+   * The bank returned a payout (closed account, wrong IBAN): the amount is
+   * owed to the transporter again and goes out with the next batch (admins)
+   */
+  async returnPayout(payoutId: string, reason: string, userId: string): Promise<PayoutRow> {
+    await requireAdmin(userId);
+
+    const { data: payout, error } = await supabaseAdmin
+      .from("payouts")
+      .select("*")
+      .eq("id", payoutId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!payout) {
+      throw new PayoutError("NOT_FOUND", "Payout not found");
+    }
+    if (payout.status !== "pending") {
+      throw new PayoutError("NOT_ALLOWED", `A ${payout.status} payout cannot be returned`);
+    }
+
+    await postLedgerTransaction({
+      type: "payout_returned",
+      transporterId: payout.transporter_id,
+      payoutId,
+      idempotencyKey: `payout-returned-${payoutId}`,
+      description: reason,
+      createdBy: userId,
+      entries: [
+        { account: "payouts_in_transit", amount: Number(payout.amount) },
+        { account: "transporter_payable", amount: -Number(payout.amount) },
+      ],
+    });
+
+    const { data: returned, error: updateError } = await supabaseAdmin
+      .from("payouts")
+      .update({ status: "returned", failure_reason: reason })
+      .eq("id", payoutId)
+      .select("*")
+      .single();
+
+    if (updateError) throw updateError;
+    return returned;
+  },
+};
@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import type { FakeSupabase } from "@/test/fakeSupabase";
+import { payoutLedger, type LedgerEntryInput } from "./payoutLedger";
+
+vi.mock("@/integrations/supabase/admin", async () => {
+  const { createFakeSupabase } = await import("@/test/fakeSupabase");
+  return { supabaseAdmin: createFakeSupabase() };
+});
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+
+const ROLES: Record<string, string> = { "admin-1": "admin", "transporter-1": "transporter", "consumer-1": "consumer" };
+
+// Serve `booking` for bookings and each user's role for profiles; post_ledger_transaction returns an id
+function setup(booking: Record<string, unknown> | null) {
+  db.onQuery((query) => {
+    if (query.table === "bookings") return { data: booking };
+    if (query.table === "profiles") return { data: { role: ROLES[query.match.id as string] } };
+    return undefined;
+  });
+  db.onRpc((name) => (name === "post_ledger_transaction" ? { data: "transaction-1" } : undefined));
+}
+
+// The transactions posted, with their entries as account → EUR
+function postings() {
+  return db.rpcs
+    .filter((rpc) => rpc.name === "post_ledger_transaction")
+    .map(({ args }) => ({
+      ...args,
+      entries: Object.fromEntries((args.p_entries as LedgerEntryInput[]).map((entry) => [entry.account, entry.amount])),
+    }));
+}
+
+const balance = (entries: Record<string, number>) =>
+  Object.values(entries).reduce((sum, amount) => sum + Math.round(amount * 100), 0);
+
+const DELIVERED = {
+  id: "booking-1",
+  status: "delivered",
+  transporter_id: "transporter-1",
+  total_price: 100,
+  platform_fee: 20,
+  transporter_earnings: 80,
+  discount_amount: 0,
+};
+
+describe("payoutLedger.recordDelivery", () => {
+  beforeEach(() => {
+    db.reset();
+  });
+
+  it("credits the transporter's earnings and the platform's fee", async () => {
+    setup(DELIVERED);
+
+    expect(await payoutLedger.recordDelivery("booking-1")).toBe("transaction-1");
+
+    const [posting] = postings();
+    expect(posting).toMatchObject({
+      p_type: "earning",
+      p_transporter_id: "transporter-1",
+      p_booking_id: "booking-1",
+      p_idempotency_key: "earning-booking-1",
+    });
+    expect(posting.entries).toEqual({ customer_funds: 100, transporter_payable: -80, platform_revenue: -20 });
+    expect(balance(posting.entries)).toBe(0);
+  });
+
+  it("has the platform fund a discount, not the transporter", async () => {
+    setup({ ...DELIVERED, total_price: 90, discount_amount: 10 });
+
+    await payoutLedger.recordDelivery("booking-1");
+
+    const [posting] = postings();
+    expect(posting.entries).toEqual({ customer_funds: 90, transporter_payable: -80, platform_revenue: -20, promotions: 10 });
+    expect(balance(posting.entries)).toBe(0);
+  });
+
+  it("gives the whole total to the transporter of a booking priced before the fee was stored", async () => {
+    setup({ ...DELIVERED, platform_fee: null, transporter_earnings: null, discount_amount: null });
+
+    await payoutLedger.recordDelivery("booking-1");
+
+    const [posting] = postings();
+    expect(posting.entries).toEqual({ customer_funds: 100, transporter_payable: -100 });
+    expect(balance(posting.entries)).toBe(0);
+  });
+
+  it("posts nothing for a booking that wasn't delivered", async () => {
+    setup({ ...DELIVERED, status: "picked_up" });
+
+    expect(await payoutLedger.recordDelivery("booking-1")).toBeNull();
+    expect(postings()).toEqual([]);
+  });
+});
+
+describe("payoutLedger.recordCancellation", () => {
+  const SETTLEMENT = { bookingId: "booking-1", fee: 0, refundAmount: 0, transporterCompensation: 0, transporterPenalty: 0 };
+
+  beforeEach(() => {
+    db.reset();
+  });
+
+  it("pays the transporter their share of the consumer's fee", async () => {
+    setup({ transporter_id: "transporter-1" });
+
+    await payoutLedger.recordCancellation({ ...SETTLEMENT, fee: 20, transporterCompensation: 12 });
+
+    const [posting] = postings();
+    expect(posting).toMatchObject({ p_type: "compensation", p_idempotency_key: "compensation-booking-1" });
+    expect(posting.entries).toEqual({ customer_funds: 12, transporter_payable: -12 });
+  });
+
+  it("charges the transporter a penalty for cancelling an accepted job", async () => {
+    setup({ transporter_id: "transporter-1" });
+
+    await payoutLedger.recordCancellation({ ...SETTLEMENT, transporterPenalty: 15 });
+
+    const [posting] = postings();
+    expect(posting).toMatchObject({ p_type: "penalty", p_idempotency_key: "penalty-booking-1" });
+    expect(posting.entries).toEqual({ transporter_payable: 15, platform_revenue: -15 });
+  });
+
+  it("posts nothing when no transporter was assigned", async () => {
+    setup({ transporter_id: null });
+
+    await payoutLedger.recordCancellation({ ...SETTLEMENT, transporterCompensation: 12, transporterPenalty: 15 });
+
+    expect(postings()).toEqual([]);
+  });
+});
+
+describe("payoutLedger.adjust", () => {
+  beforeEach(() => {
+    db.reset();
+    setup(null);
+  });
+
+  it("takes a negative amount back from the transporter", async () => {
+    await payoutLedger.adjust("transporter-1", -7.5, "Damaged sofa", "admin-1");
+
+    const [posting] = postings();
+    expect(posting).toMatchObject({
+      p_type: "adjustment",
+      p_description: "Damaged sofa",
+      p_created_by: "admin-1",
+      p_idempotency_key: expect.stringMatching(/^adjustment-/),
+    });
+    expect(posting.entries).toEqual({ platform_revenue: -7.5, transporter_payable: 7.5 });
+  });
+
+  it("is for admins only", async () => {
+    await expect(payoutLedger.adjust("transporter-1", 10, "Bonus", "consumer-1")).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(postings()).toEqual([]);
+  });
+
+  it.each([0, Number.NaN, Number.POSITIVE_INFINITY])("rejects an amount of %s", async (amount) => {
+    await expect(payoutLedger.adjust("transporter-1", amount, "Bonus", "admin-1")).rejects.toMatchObject({ code: "NOT_ALLOWED" });
+    expect(postings()).toEqual([]);
+  });
+
+  it("only adjusts transporters", async () => {
+    await expect(payoutLedger.adjust("consumer-1", 10, "Bonus", "admin-1")).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(postings()).toEqual([]);
+  });
+});
@@ -0,0 +1,280 @@
+import { randomUUID } from "crypto";
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import type { Database } from "@/integrations/supabase/database.types";
+import type { CancellationSettlement } from "./cancellationPolicy";
+
+type LedgerAccount = Database["public"]["Enums"]["ledger_account"];
+type LedgerTransactionType = Database["public"]["Enums"]["ledger_transaction_type"];
+type PayoutRow = Database["public"]["Tables"]["payouts"]["Row"];
+
+export interface LedgerEntryInput {
+  account: LedgerAccount;
+  amount: number; // EUR; debits positive, credits negative
+}
+
+export interface LedgerPosting {
+  type: LedgerTransactionType;
+  transporterId: string;
+  idempotencyKey: string;
+  entries: LedgerEntryInput[];
+  bookingId?: string;
+  payoutId?: string;
+  description?: string;
+  createdBy?: string;
+}
+
+export interface PayoutBalance {
+  owed: number; // EUR earned and not yet in a payout batch
+  inTransit: number; // EUR in a batch sent to the bank
+  paid: number; // EUR of settled payouts
+}
+
+export interface LedgerLine {
+  id: string;
+  type: LedgerTransactionType;
+  bookingId: string | null;
+  description: string | null;
+  amount: number; // EUR change in what the transporter is owed
+  createdAt: string | null;
+}
+
+export interface TransporterPayouts {
+  balance: PayoutBalance;
+  payouts: PayoutRow[];
+  lines: LedgerLine[];
+}
+
+export type PayoutErrorCode = "NOT_FOUND" | "FORBIDDEN" | "NOT_ALLOWED" | "CONFLICT";
+
+export class PayoutError extends Error {
+  code: PayoutErrorCode;
+
+  constructor(code: PayoutErrorCode, message: string) {
+    super(message);
+    this.name = "PayoutError";
+    this.code = code;
+  }
+}
+
+// HTTP status for each error code in the API routes
+export const PAYOUT_ERROR_STATUS: Record<PayoutErrorCode, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  NOT_ALLOWED: 422,
+  CONFLICT: 409,
+};
+
+const toCents = (eur: number) => Math.round(eur * 100);
+const toEur = (cents: number) => cents / 100;
+
+/**
+ * Post a balanced transaction. The database checks the entries sum to zero
+ * and returns the existing transaction when the key was posted before.
+ */
+export async function postLedgerTransaction(posting: LedgerPosting): Promise<string> {
+  const { data, error } = await supabaseAdmin.rpc("post_ledger_transaction", {
+    p_type: posting.type,
+    p_transporter_id: posting.transporterId,
+    p_idempotency_key: posting.idempotencyKey,
+    p_entries: posting.entries.map((entry) => ({ account: entry.account, amount: toEur(toCents(entry.amount)) })),
+    p_booking_id: posting.bookingId,
+    p_payout_id: posting.payoutId,
+    p_description: posting.description,
+    p_created_by: posting.createdBy,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getBalances(transporterId?: string): Promise<Map<string, Omit<PayoutBalance, "paid">>> {
+  const { data, error } = await supabaseAdmin.rpc(
+    "transporter_balances",
+    transporterId ? { p_transporter_id: transporterId } : {}
+  );
+
+  if (error) throw error;
+  return new Map(
+    (data || []).map((row) => [row.transporter_id, { owed: Number(row.owed), inTransit: Number(row.in_transit) }])
+  );
+}
+
+export async function requireAdmin(userId: string) {
+  const { data: profile } = await supabaseAdmin
+    .from("profiles")
+    .select("role")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (profile?.role !== "admin") {
+    throw new PayoutError("FORBIDDEN", "Only admins can manage payouts");
+  }
+}
+
+export const payoutLedger = {
+  /**
+   * Credit the transporter with a delivered booking's earnings and the
+   * platform with its fee. Posted once per booking.
+   */
+  async recordDelivery(bookingId: string): Promise<string | null> {
+    const { data: booking, error } = await supabaseAdmin
+      .from("bookings")
+      .select("id, status, transporter_id, total_price, platform_fee, transporter_earnings, discount_amount")
+      .eq("id", bookingId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!booking || booking.status !== "delivered" || !booking.transporter_id) {
+      return null;
+    }
+
+    // A promotion discount came off what the consumer paid; the platform covers it, not the transporter
+    const total = toCents(Number(booking.total_price));
+    const discount = toCents(Number(booking.discount_amount || 0));
+    // Bookings priced before the fee was stored keep everything with the transporter
+    const earnings = booking.transporter_earnings != null
+      ? toCents(Number(booking.transporter_earnings))
+      : total + discount - toCents(Number(booking.platform_fee || 0));
+
+    const entries: LedgerEntryInput[] = [
+      { account: "customer_funds", amount: toEur(total) },
+      { account: "transporter_payable", amount: -toEur(earnings) },
+      { account: "platform_revenue", amount: -toEur(total + discount - earnings) },
+      { account: "promotions", amount: toEur(discount) },
+    ];
+
+    return postLedgerTransaction({
+      type: "earning",
+      transporterId: booking.transporter_id,
+      bookingId,
+      idempotencyKey: `earning-${bookingId}`,
+      description: "Delivered booking",
+      entries: entries.filter((entry) => entry.amount !== 0),
+    });
+  },
+
+  /**
+   * Record what a cancellation means for the assigned transporter: their
+   * share of the consumer's fee, or the penalty for cancelling themselves
+   */
+  async recordCancellation(settlement: CancellationSettlement): Promise<void> {
+    const { data: booking, error } = await supabaseAdmin
+      .from("bookings")
+      .select("transporter_id")
+      .eq("id", settlement.bookingId)
+      .maybeSingle();
+
+    if (error) throw error;
+    const transporterId = booking?.transporter_id;
+    if (!transporterId) {
+      return;
+    }
+
+    if (settlement.transporterCompensation > 0) {
+      await postLedgerTransaction({
+        type: "compensation",
+        transporterId,
+        bookingId: settlement.bookingId,
+        idempotencyKey: `compensation-${settlement.bookingId}`,
+        description: "Share of the consumer's cancellation fee",
+        entries: [
+          { account: "customer_funds", amount: settlement.transporterCompensation },
+          { account: "transporter_payable", amount: -settlement.transporterCompensation },
+        ],
+      });
+    }
+
+    if (settlement.transporterPenalty > 0) {
+      await postLedgerTransaction({
+        type: "penalty",
+        transporterId,
+        bookingId: settlement.bookingId,
+        idempotencyKey: `penalty-${settlement.bookingId}`,
+        description: "Cancelled an accepted job",
+        entries: [
+          { account: "transporter_payable", amount: settlement.transporterPenalty },
+          { account: "platform_revenue", amount: -settlement.transporterPenalty },
+        ],
+      });
+    }
+  },
+
+  /**
+   * Correct what a transporter is owed (admins). A positive amount is owed to
+   * the transporter, a negative one is taken back.
+   */
+  async adjust(transporterId: string, amount: number, description: string, userId: string): Promise<string> {
+    await requireAdmin(userId);
+    if (!amount || !Number.isFinite(amount)) {
+      throw new PayoutError("NOT_ALLOWED", "Enter a non-zero amount");
+    }
+
+    const { data: transporter } = await supabaseAdmin
+      .from("profiles")
+      .select("role")
+      .eq("id", transporterId)
+      .maybeSingle();
+
+    if (transporter?.role !== "transporter") {
+      throw new PayoutError("NOT_FOUND", "Transporter not found");
+    }
+
+    return postLedgerTransaction({
+      type: "adjustment",
+      transporterId,
+      idempotencyKey: `adjustment-${randomUUID()}`,
+      description,
+      createdBy: userId,
+      entries: [
+        { account: "platform_revenue", amount },
+        { account: "transporter_payable", amount: -amount },
+      ],
+    });
+  },
+
+  /**
+   * Balances, payouts and recent ledger activity for the transporter's payouts page
+   */
+  async getTransporterPayouts(transporterId: string): Promise<TransporterPayouts> {
+    const [balances, { data: payouts, error: payoutsError }, { data: transactions, error: ledgerError }] = await Promise.all([
+      getBalances(transporterId),
+      supabaseAdmin
+        .from("payouts")
+        .select("*")
+        .eq("transporter_id", transporterId)
+        .order("created_at", { ascending: false })
+        .limit(52),
+      supabaseAdmin
+        .from("ledger_transactions")
+        .select("id, type, booking_id, description, created_at, ledger_entries(account, amount)")
+        .eq("transporter_id", transporterId)
+        .order("created_at", { ascending: false })
+        .limit(100),
+    ]);
+
+    if (payoutsError) throw payoutsError;
+    if (ledgerError) throw ledgerError;
+
+    const balance = balances.get(transporterId) || { owed: 0, inTransit: 0 };
+    const paid = (payouts || [])
+      .filter((payout) => payout.status === "paid")
+      .reduce((sum, payout) => sum + toCents(Number(payout.amount)), 0);
+
+    return {
+      balance: { ...balance, paid: toEur(paid) },
+      payouts: payouts || [],
+      lines: (transactions || []).map((transaction) => ({
+        id: transaction.id,
+        type: transaction.type,
+        bookingId: transaction.booking_id,
+        description: transaction.description,
+        amount: -toEur(
+          transaction.ledger_entries
+            .filter((entry) => entry.account === "transporter_payable")
+            .reduce((sum, entry) => sum + toCents(Number(entry.amount)), 0)
+        ),
+        createdAt: transaction.created_at,
+      })),
+    };
+  },
+};
@@ -0,0 +1,130 @@
+// Minimal PDF 1.4 writer for server-rendered documents such as invoices: one
+// A4 page of text and rules in the built-in Helvetica fonts, so no font files
+// or rendering dependencies are needed
+
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+export interface PdfText {
+  x: number; // points from the left edge
+  y: number; // points from the top edge
+  text: string;
+  size?: number;
+  bold?: boolean;
+  align?: "left" | "right"; // right: x is where the text ends
+  color?: [number, number, number]; // RGB, 0-1
+}
+
+export interface PdfRule {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  width?: number;
+  color?: [number, number, number];
+}
+
+export interface PdfPage {
+  texts: PdfText[];
+  rules?: PdfRule[];
+}
+
+export interface PdfInfo {
+  title: string;
+  author?: string;
+  createdAt?: Date;
+}
+
+// Helvetica advance widths (1/1000 em) for the characters that get right-aligned:
+// amounts, percentages and dates. Other characters use an average width.
+const WIDTHS: Record<string, number> = {
+  " ": 278, ".": 278, ",": 278, "-": 333, "/": 278, ":": 278, "%": 889, "€": 556, "(": 333, ")": 333,
+  "0": 556, "1": 556, "2": 556, "3": 556, "4": 556, "5": 556, "6": 556, "7": 556, "8": 556, "9": 556,
+};
+const BOLD_WIDTHS: Record<string, number> = { ...WIDTHS, ":": 333 };
+const AVERAGE_WIDTH = 556;
+
+export function textWidth(text: string, size: number, bold = false): number {
+  const widths = bold ? BOLD_WIDTHS : WIDTHS;
+  let units = 0;
+  for (const char of text) {
+    units += widths[char] ?? AVERAGE_WIDTH;
+  }
+  return (units * size) / 1000;
+}
+
+// WinAnsiEncoding: Latin-1 maps to itself; the few typographic characters we use have their own codes
+const WIN_ANSI: Record<string, number> = { "€": 0x80, "…": 0x85, "•": 0x95, "–": 0x96, "—": 0x97, "’": 0x92, "“": 0x93, "”": 0x94 };
+
+function encodeText(text: string): string {
+  let encoded = "";
+  for (const char of text) {
+    const code = char.codePointAt(0) || 0x3f;
+    const byte = WIN_ANSI[char] ?? (code < 0x7f || (code >= 0xa0 && code <= 0xff) ? code : 0x3f);
+    const value = String.fromCharCode(byte);
+    encoded += value === "\\" || value === "(" || value === ")" ? `\\${value}` : value;
+  }
+  return `(${encoded})`;
+}
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+const rgb = ([r, g, b]: [number, number, number]) => `${num(r)} ${num(g)} ${num(b)}`;
+
+function pdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, "").slice(0, 14)}Z`;
+}
+
+function contentStream(page: PdfPage): string {
+  const operations: string[] = [];
+
+  for (const rule of page.rules || []) {
+    operations.push(
+      `${rgb(rule.color || [0, 0, 0])} RG ${num(rule.width ?? 0.5)} w ` +
+        `${num(rule.x1)} ${num(A4_HEIGHT - rule.y1)} m ${num(rule.x2)} ${num(A4_HEIGHT - rule.y2)} l S`
+    );
+  }
+
+  for (const item of page.texts) {
+    const size = item.size ?? 10;
+    const x = item.align === "right" ? item.x - textWidth(item.text, size, item.bold) : item.x;
+    operations.push(
+      `BT /${item.bold ? "F2" : "F1"} ${num(size)} Tf ${rgb(item.color || [0, 0, 0])} rg ` +
+        `${num(x)} ${num(A4_HEIGHT - item.y)} Td ${encodeText(item.text)} Tj ET`
+    );
+  }
+
+  return operations.join("\n");
+}
+
+/**
+ * Render one A4 page to a PDF file
+ */
+export function renderPdf(page: PdfPage, info: PdfInfo): Buffer {
+  const content = contentStream(page);
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}] ` +
+      "/Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> /Contents 4 0 R >>",
+    `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Title ${encodeText(info.title)}${info.author ? ` /Author ${encodeText(info.author)}` : ""} ` +
+      `/CreationDate (${pdfDate(info.createdAt || new Date())}) >>`,
+  ];
+
+  // Every character is one byte, so string offsets are byte offsets
+  let file = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(file.length);
+    file += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xref = file.length;
+  file += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  file += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  file += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(file, "latin1");
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it, vi } from "vitest";
+import { MIN_CHARGE, NO_EXTRAS, normalizeExtras, pricingEngine, PricingError, type PriceInput, type Tariff } from "./pricingEngine";
+
+vi.mock("@/integrations/supabase/admin", async () => {
+  const { createFakeSupabase } = await import("@/test/fakeSupabase");
+  return { supabaseAdmin: createFakeSupabase() };
+});
+
+const TARIFF: Tariff = {
+  version: 3,
+  baseFee: 20,
+  distanceBands: [
+    { upToKm: 5, perKm: 2 },
+    { upToKm: null, perKm: 1 },
+  ],
+  sizeMultipliers: { small: 1, medium: 1.5 },
+  minimumFare: 30,
+  platformFeePercent: 20,
+  extrasRates: { stairsPerFloor: 5, helper: 25, assembly: 30, packingMaterials: 10, extraStop: 8 },
+  itemTypeRules: { fragile: { surcharge: 15, hourlyRate: null, minHours: 0 } },
+};
+
+// 12 km of medium furniture: (20 + 5 × 2 + 7 × 1) × 1.5 = €55.50
+const TRIP: PriceInput = { distanceKm: 12, itemSize: "medium", itemType: "small_furniture" };
+
+describe("pricingEngine.calculate", () => {
+  it("prices the base fee and each distance band by the size", () => {
+    const breakdown = pricingEngine.calculate(TARIFF, TRIP);
+
+    expect(breakdown).toMatchObject({ basePrice: 20, distancePrice: 17, totalPrice: 55.5, tariffVersion: 3 });
+    expect(breakdown.extras).toEqual([]);
+    expect(breakdown.discount).toBeNull();
+  });
+
+  it("charges the minimum fare for a short trip", () => {
+    const breakdown = pricingEngine.calculate(TARIFF, { ...TRIP, distanceKm: 2, itemSize: "small" });
+
+    expect(breakdown.totalPrice).toBe(30);
+    expect(breakdown).toMatchObject({ platformFee: 6, transporterEarnings: 24 });
+  });
+
+  it("adds the extras and the item type surcharge on top of the sized fare", () => {
+    const breakdown = pricingEngine.calculate(TARIFF, {
+      ...TRIP,
+      itemSize: "small",
+      itemType: "fragile",
+      additionalStops: 1,
+      extras: {
+        pickupFloor: 3,
+        pickupHasElevator: false,
+        dropoffFloor: 4,
+        dropoffHasElevator: true,
+        helperCount: 1,
+        needsAssembly: true,
+        packingMaterials: true,
+      },
+    });
+
+    expect(breakdown.extras).toEqual([
+      { code: "extra_stop", label: "Additional stop", quantity: 1, unitPrice: 8, amount: 8 },
+      { code: "stairs_pickup", label: "Stairs at pickup (per floor)", quantity: 3, unitPrice: 5, amount: 15 },
+      { code: "helper", label: "Additional helper", quantity: 1, unitPrice: 25, amount: 25 },
+      { code: "assembly", label: "Assembly / disassembly", quantity: 1, unitPrice: 30, amount: 30 },
+      { code: "packing_materials", label: "Packing materials", quantity: 1, unitPrice: 10, amount: 10 },
+    ]);
+    // The size multiplier only applies to the base fee and the distance
+    expect(breakdown).toMatchObject({ extrasPrice: 88, itemTypeSurcharge: 15, totalPrice: 140 });
+  });
+
+  it("splits the fare into the platform fee and the transporter's earnings", () => {
+    const breakdown = pricingEngine.calculate(TARIFF, TRIP);
+
+    expect(breakdown.platformFee).toBe(11.1);
+    expect(breakdown.transporterEarnings).toBe(44.4);
+    expect(breakdown.platformFee + breakdown.transporterEarnings).toBe(breakdown.totalPrice);
+  });
+
+  it("rejects an item size the tariff doesn't price", () => {
+    expect(() => pricingEngine.calculate(TARIFF, { ...TRIP, itemSize: "huge" })).toThrow(PricingError);
+  });
+
+  describe("discounts", () => {
+    it("takes a percentage off the total, leaving the transporter's share as it was", () => {
+      const breakdown = pricingEngine.calculate(TARIFF, { ...TRIP, discount: { code: "WELCOME10", label: "Welcome", percent: 10 } });
+
+      expect(breakdown.discount).toEqual({ code: "WELCOME10", label: "Welcome", amount: 5.55 });
+      expect(breakdown.totalPrice).toBe(49.95);
+      expect(breakdown).toMatchObject({ platformFee: 11.1, transporterEarnings: 44.4 });
+    });
+
+    it("caps a percentage discount at its maximum amount", () => {
+      const breakdown = pricingEngine.calculate(TARIFF, {
+        ...TRIP,
+        discount: { code: "HALF", label: "Half off", percent: 50, maxAmount: 3 },
+      });
+
+      expect(breakdown.discount?.amount).toBe(3);
+      expect(breakdown.totalPrice).toBe(52.5);
+    });
+
+    it("never takes the total below the minimum card charge", () => {
+      const breakdown = pricingEngine.calculate(TARIFF, {
+        ...TRIP,
+        distanceKm: 2,
+        itemSize: "small",
+        discount: { code: "FREE", label: "Free move", fixed: 100 },
+      });
+
+      expect(breakdown.discount?.amount).toBe(29.5);
+      expect(breakdown.totalPrice).toBe(MIN_CHARGE);
+    });
+
+    it("leaves out a discount worth nothing", () => {
+      const breakdown = pricingEngine.calculate(TARIFF, { ...TRIP, discount: { code: "ZERO", label: "Nothing", fixed: 0 } });
+
+      expect(breakdown.discount).toBeNull();
+      expect(breakdown.totalPrice).toBe(55.5);
+    });
+  });
+});
+
+describe("normalizeExtras", () => {
+  it("defaults to no extras", () => {
+    expect(normalizeExtras(undefined)).toEqual(NO_EXTRAS);
+    expect(normalizeExtras(null)).toEqual(NO_EXTRAS);
+  });
+
+  it("clamps counts and only takes real booleans", () => {
+    const extras = normalizeExtras({
+      pickupFloor: 99,
+      dropoffFloor: 2.7,
+      helperCount: -2,
+      needsAssembly: "yes" as unknown as boolean,
+      packingMaterials: true,
+    });
+
+    expect(extras).toEqual({
+      pickupFloor: 30,
+      pickupHasElevator: false,
+      dropoffFloor: 2,
+      dropoffHasElevator: false,
+      helperCount: 0,
+      needsAssembly: false,
+      packingMaterials: true,
+    });
+  });
+});
@@ -0,0 +1,525 @@
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import type { Database, Json } from "@/integrations/supabase/database.types";
+import { isItemType, type ItemType } from "@/lib/itemTypes";
+import { geocoder, GeocodingError, verifyPlace, type GeocodeResult, type GeocodingErrorCode, type ResolvedPlace } from "@/server/geocoding";
+import { routePlanner } from "@/server/routing";
+import { serviceAreas, type ServiceArea } from "@/server/serviceAreas";
+
+export interface DistanceBand {
+  upToKm: number | null; // null = open-ended last band
+  perKm: number;
+}
+
+export interface ExtrasRates {
+  stairsPerFloor: number;
+  helper: number;
+  assembly: number;
+  packingMaterials: number;
+  extraStop: number;
+}
+
+export interface ItemTypeRule {
+  surcharge: number;
+  hourlyRate: number | null; // set = priced by the hour instead of base fee × size
+  minHours: number;
+}
+
+export interface Tariff {
+  version: number;
+  baseFee: number;
+  distanceBands: DistanceBand[];
+  sizeMultipliers: Record<string, number>;
+  minimumFare: number;
+  platformFeePercent: number;
+  extrasRates: ExtrasRates;
+  itemTypeRules: Partial<Record<ItemType, ItemTypeRule>>;
+}
+
+export interface BookingExtras {
+  pickupFloor: number; // floors above street level
+  pickupHasElevator: boolean;
+  dropoffFloor: number;
+  dropoffHasElevator: boolean;
+  helperCount: number; // helpers on top of the driver
+  needsAssembly: boolean; // assembly and/or disassembly
+  packingMaterials: boolean;
+}
+
+export type ExtraCode = "stairs_pickup" | "stairs_dropoff" | "helper" | "assembly" | "packing_materials" | "extra_stop";
+
+export interface ExtraLineItem {
+  code: ExtraCode;
+  label: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+// A promotion to take off the fare, resolved from a code by the promotions module
+export interface DiscountRule {
+  code: string;
+  label: string;
+  percent?: number; // off the fare
+  fixed?: number; // EUR off the fare
+  maxAmount?: number | null; // cap on a percentage discount
+}
+
+export interface DiscountLine {
+  code: string;
+  label: string;
+  amount: number; // EUR taken off the total
+}
+
+export interface PriceInput {
+  distanceKm: number;
+  itemSize: string;
+  itemType: ItemType;
+  estimatedHours?: number;
+  extras?: BookingExtras;
+  serviceAreaSurcharge?: number;
+  additionalStops?: number;
+  surgePercent?: number; // priority surcharge on the fare, e.g. when rebooking an expired booking
+  discount?: DiscountRule;
+}
+
+export interface PriceBreakdown {
+  distanceKm: number;
+  basePrice: number;
+  distancePrice: number;
+  itemTypeSurcharge: number;
+  serviceAreaSurcharge: number;
+  hourlyRate: number | null;
+  billedHours: number | null;
+  extras: ExtraLineItem[];
+  extrasPrice: number;
+  surgePercent: number;
+  surgeAmount: number; // EUR the surge adds to the fare
+  discount: DiscountLine | null;
+  totalPrice: number; // what the consumer pays, after the discount
+  platformFee: number;
+  transporterEarnings: number;
+  tariffVersion: number;
+}
+
+export type StopType = Database["public"]["Enums"]["stop_type"];
+
+// A stop between the first pickup and the final dropoff
+export interface StopInput {
+  type: StopType;
+  address: string;
+  place?: ResolvedPlace;
+  contactName?: string;
+  contactPhone?: string;
+  instructions?: string;
+}
+
+export interface TripQuoteInput {
+  pickupAddress: string;
+  dropoffAddress: string;
+  pickupPlace?: ResolvedPlace; // signed suggestion or saved address, skips geocoding
+  dropoffPlace?: ResolvedPlace;
+  additionalStops?: StopInput[];
+  itemSize: string;
+  itemType: ItemType;
+  estimatedHours?: number;
+  extras?: BookingExtras;
+  surgePercent?: number;
+  discount?: DiscountRule;
+}
+
+export interface ResolvedLocation {
+  address: string;
+  lat: number;
+  lng: number;
+  serviceAreaId?: string;
+  serviceAreaName?: string;
+}
+
+export interface ResolvedStop extends ResolvedLocation, Pick<StopInput, "contactName" | "contactPhone" | "instructions"> {
+  type: StopType;
+}
+
+export interface TripQuote {
+  pickup: ResolvedLocation;
+  dropoff: ResolvedLocation;
+  stops: ResolvedStop[]; // whole route in order, including pickup and dropoff
+  breakdown: PriceBreakdown;
+}
+
+// Errors caused by the consumer's input (shown to the user as-is)
+export class PricingError extends Error {
+  code?: string; // set when the cause has a machine-readable reason, e.g. GeocodingErrorCode
+
+  constructor(message: string, code?: string) {
+    super(message);
+    this.name = "PricingError";
+    this.code = code;
+  }
+}
+
+const GEOCODING_MESSAGES: Record<GeocodingErrorCode, (label: string) => string> = {
+  ZERO_RESULTS: (label) => `Could not find the ${label} address. Check the street name and number, or add the city.`,
+  QUOTA: () => "Address lookup is busy right now. Please try again in a minute.",
+  DENIED: () => "Address lookup is currently unavailable. Please contact support if this persists.",
+  UNAVAILABLE: () => "Address lookup is temporarily unavailable. Please try again.",
+};
+
+// Geocode one leg of the trip (unless the browser sent a signed place), turning lookup failures into user-facing pricing errors
+async function resolveLocation(
+  address: string,
+  label: string,
+  place?: ResolvedPlace
+): Promise<ResolvedLocation> {
+  if (place && place.address === address && verifyPlace(place)) {
+    return { address: place.address, lat: Number(place.lat), lng: Number(place.lng) };
+  }
+
+  let result: GeocodeResult;
+  try {
+    result = await geocoder.geocode(address);
+  } catch (error) {
+    if (error instanceof GeocodingError) {
+      console.error(`Error geocoding ${label} address:`, error.code, error.message);
+      throw new PricingError(GEOCODING_MESSAGES[error.code](label), error.code);
+    }
+    throw error;
+  }
+
+  return { address: result.formattedAddress || address, lat: result.lat, lng: result.lng };
+}
+
+const MAX_TRIP_KM = 100;
+const MAX_FLOOR = 30;
+const MAX_HELPERS = 3;
+const MAX_HOURS = 12;
+const MAX_ADDITIONAL_STOPS = 4;
+// Card payments have a minimum charge, so a discount never takes the total below it
+export const MIN_CHARGE = 0.5;
+
+export const NO_EXTRAS: BookingExtras = {
+  pickupFloor: 0,
+  pickupHasElevator: false,
+  dropoffFloor: 0,
+  dropoffHasElevator: false,
+  helperCount: 0,
+  needsAssembly: false,
+  packingMaterials: false,
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+function parseDistanceBands(raw: Json): DistanceBand[] {
+  const bands = (Array.isArray(raw) ? raw : []) as { up_to_km: number | null; per_km: number }[];
+  return bands
+    .map((band) => ({ upToKm: band.up_to_km, perKm: Number(band.per_km) }))
+    .sort((a, b) => (a.upToKm ?? Infinity) - (b.upToKm ?? Infinity));
+}
+
+const clampInt = (value: unknown, max: number) =>
+  Math.min(Math.max(Math.floor(Number(value) || 0), 0), max);
+
+/**
+ * Coerce untrusted extras from a request body into a valid BookingExtras
+ */
+export function normalizeExtras(raw?: Partial<BookingExtras> | null): BookingExtras {
+  if (!raw) return NO_EXTRAS;
+
+  return {
+    pickupFloor: clampInt(raw.pickupFloor, MAX_FLOOR),
+    pickupHasElevator: raw.pickupHasElevator === true,
+    dropoffFloor: clampInt(raw.dropoffFloor, MAX_FLOOR),
+    dropoffHasElevator: raw.dropoffHasElevator === true,
+    helperCount: clampInt(raw.helperCount, MAX_HELPERS),
+    needsAssembly: raw.needsAssembly === true,
+    packingMaterials: raw.packingMaterials === true,
+  };
+}
+
+/**
+ * Validate untrusted additional stops from a request body
+ */
+export function normalizeStops(raw?: Partial<StopInput>[] | null): StopInput[] {
+  if (!raw) return [];
+  if (!Array.isArray(raw)) {
+    throw new PricingError("Invalid stops.");
+  }
+  if (raw.length > MAX_ADDITIONAL_STOPS) {
+    throw new PricingError(`A booking can have at most ${MAX_ADDITIONAL_STOPS} additional stops.`);
+  }
+
+  const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+
+  return raw.map((stop, index) => {
+    if (stop?.type !== "pickup" && stop?.type !== "dropoff") {
+      throw new PricingError(`Stop ${index + 2} must be a pickup or a dropoff.`);
+    }
+    if (!text(stop.address)) {
+      throw new PricingError(`Please enter an address for stop ${index + 2}.`);
+    }
+
+    return {
+      type: stop.type,
+      address: text(stop.address),
+      place: stop.place,
+      contactName: text(stop.contactName),
+      contactPhone: text(stop.contactPhone),
+      instructions: text(stop.instructions),
+    };
+  });
+}
+
+function parseExtrasRates(raw: Json): ExtrasRates {
+  const rates = (raw ?? {}) as Record<string, number>;
+  return {
+    stairsPerFloor: Number(rates.stairs_per_floor ?? 0),
+    helper: Number(rates.helper ?? 0),
+    assembly: Number(rates.assembly ?? 0),
+    packingMaterials: Number(rates.packing_materials ?? 0),
+    extraStop: Number(rates.extra_stop ?? 0),
+  };
+}
+
+function parseItemTypeRules(raw: Json): Partial<Record<ItemType, ItemTypeRule>> {
+  const rules = (raw ?? {}) as Record<string, { surcharge?: number; hourly_rate?: number; min_hours?: number }>;
+  return Object.fromEntries(
+    Object.entries(rules).map(([itemType, rule]) => [
+      itemType,
+      {
+        surcharge: Number(rule.surcharge ?? 0),
+        hourlyRate: rule.hourly_rate !== undefined ? Number(rule.hourly_rate) : null,
+        minHours: Number(rule.min_hours ?? 0),
+      },
+    ])
+  );
+}
+
+function lineItem(code: ExtraCode, label: string, quantity: number, unitPrice: number): ExtraLineItem {
+  return { code, label, quantity, unitPrice, amount: roundCents(quantity * unitPrice) };
+}
+
+// Stairs are only charged when there is no elevator to use
+function priceExtras(extras: BookingExtras, rates: ExtrasRates, additionalStops: number): ExtraLineItem[] {
+  const items: ExtraLineItem[] = [];
+
+  if (additionalStops > 0) {
+    items.push(lineItem("extra_stop", "Additional stop", additionalStops, rates.extraStop));
+  }
+  if (extras.pickupFloor > 0 && !extras.pickupHasElevator) {
+    items.push(lineItem("stairs_pickup", "Stairs at pickup (per floor)", extras.pickupFloor, rates.stairsPerFloor));
+  }
+  if (extras.dropoffFloor > 0 && !extras.dropoffHasElevator) {
+    items.push(lineItem("stairs_dropoff", "Stairs at dropoff (per floor)", extras.dropoffFloor, rates.stairsPerFloor));
+  }
+  if (extras.helperCount > 0) {
+    items.push(lineItem("helper", "Additional helper", extras.helperCount, rates.helper));
+  }
+  if (extras.needsAssembly) {
+    items.push(lineItem("assembly", "Assembly / disassembly", 1, rates.assembly));
+  }
+  if (extras.packingMaterials) {
+    items.push(lineItem("packing_materials", "Packing materials", 1, rates.packingMaterials));
+  }
+
+  return items;
+}
+
+function priceDiscount(rule: DiscountRule, fare: number): DiscountLine | null {
+  let amount = rule.percent !== undefined ? fare * (rule.percent / 100) : rule.fixed ?? 0;
+  if (rule.maxAmount != null) {
+    amount = Math.min(amount, rule.maxAmount);
+  }
+
+  amount = roundCents(Math.min(amount, Math.max(fare - MIN_CHARGE, 0)));
+  return amount > 0 ? { code: rule.code, label: rule.label, amount } : null;
+}
+
+// Charge each kilometre at the rate of the band it falls into
+function priceDistance(distanceKm: number, bands: DistanceBand[]): number {
+  let price = 0;
+  let bandStart = 0;
+
+  for (const band of bands) {
+    const bandEnd = band.upToKm ?? Infinity;
+    if (distanceKm <= bandStart) break;
+
+    const kmInBand = Math.min(distanceKm, bandEnd) - bandStart;
+    price += kmInBand * band.perKm;
+    bandStart = bandEnd;
+  }
+
+  return price;
+}
+
+export const pricingEngine = {
+  /**
+   * Load the newest active tariff that is already in effect
+   */
+  async getActiveTariff(): Promise<Tariff> {
+    const { data, error } = await supabaseAdmin
+      .from("pricing_tariffs")
+      .select("*")
+      .eq("is_active", true)
+      .lte("effective_from", new Date().toISOString())
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new Error("No active pricing tariff configured");
+
+    return {
+      version: data.version,
+      baseFee: Number(data.base_fee),
+      distanceBands: parseDistanceBands(data.distance_bands),
+      sizeMultipliers: data.size_multipliers as Record<string, number>,
+      minimumFare: Number(data.minimum_fare),
+      platformFeePercent: Number(data.platform_fee_percent),
+      extrasRates: parseExtrasRates(data.extras_rates),
+      itemTypeRules: parseItemTypeRules(data.item_type_rules),
+    };
+  },
+
+  /**
+   * Price a trip against a tariff. Pure, so quotes and bookings agree for the same inputs.
+   */
+  calculate(tariff: Tariff, input: PriceInput): PriceBreakdown {
+    const sizeMultiplier = tariff.sizeMultipliers[input.itemSize];
+    if (sizeMultiplier === undefined) {
+      throw new PricingError(`Unsupported item size: ${input.itemSize}`);
+    }
+
+    const rule = tariff.itemTypeRules[input.itemType];
+    const itemTypeSurcharge = roundCents(rule?.surcharge ?? 0);
+    const hourlyRate = rule?.hourlyRate ?? null;
+    const serviceAreaSurcharge = roundCents(input.serviceAreaSurcharge ?? 0);
+
+    const distanceKm = roundCents(input.distanceKm);
+    const distancePrice = roundCents(priceDistance(distanceKm, tariff.distanceBands));
+    const extras = priceExtras(input.extras ?? NO_EXTRAS, tariff.extrasRates, input.additionalStops ?? 0);
+    const extrasPrice = roundCents(extras.reduce((sum, item) => sum + item.amount, 0));
+
+    let basePrice: number;
+    let billedHours: number | null = null;
+    let subTotal: number;
+
+    if (hourlyRate !== null) {
+      // Hourly item types: labour replaces the base fee and the size multiplier.
+      // Billed in half-hour steps, never below the tariff minimum.
+      const requestedHours = Math.min(Number(input.estimatedHours) || 0, MAX_HOURS);
+      billedHours = Math.max(Math.ceil(requestedHours * 2) / 2, rule.minHours);
+      basePrice = roundCents(hourlyRate * billedHours);
+      subTotal = basePrice + distancePrice + itemTypeSurcharge + serviceAreaSurcharge + extrasPrice;
+    } else {
+      basePrice = tariff.baseFee;
+      subTotal = (basePrice + distancePrice) * sizeMultiplier + itemTypeSurcharge + serviceAreaSurcharge + extrasPrice;
+    }
+
+    // A surge raises the whole fare, so the transporter's share grows with it
+    const surgePercent = Math.max(Number(input.surgePercent) || 0, 0);
+    const baseFare = roundCents(Math.max(subTotal, tariff.minimumFare));
+    const surgeAmount = roundCents(baseFare * (surgePercent / 100));
+    const fare = roundCents(baseFare + surgeAmount);
+
+    // The fee and the transporter's share come from the fare; the platform funds any discount
+    const platformFee = roundCents(fare * (tariff.platformFeePercent / 100));
+    const transporterEarnings = roundCents(fare - platformFee);
+
+    const discount = input.discount ? priceDiscount(input.discount, fare) : null;
+    const totalPrice = roundCents(fare - (discount?.amount ?? 0));
+
+    return {
+      distanceKm,
+      basePrice,
+      distancePrice,
+      itemTypeSurcharge,
+      serviceAreaSurcharge,
+      hourlyRate,
+      billedHours,
+      extras,
+      extrasPrice,
+      surgePercent,
+      surgeAmount,
+      discount,
+      totalPrice,
+      platformFee,
+      transporterEarnings,
+      tariffVersion: tariff.version,
+    };
+  },
+
+  /**
+   * Geocode every stop, check each is in an active service area, route them in order by road and price the trip
+   */
+  async quoteTrip(input: TripQuoteInput): Promise<TripQuote> {
+    if (!isItemType(input.itemType)) {
+      throw new PricingError("Please choose what kind of items you are moving.");
+    }
+
+    const additionalStops = normalizeStops(input.additionalStops);
+    const route: (StopInput & { label: string })[] = [
+      { type: "pickup", address: input.pickupAddress, place: input.pickupPlace, label: "pickup" },
+      ...additionalStops.map((stop, index) => ({ ...stop, label: `stop ${index + 2}` })),
+      { type: "dropoff", address: input.dropoffAddress, place: input.dropoffPlace, label: "dropoff" },
+    ];
+
+    const areas = await serviceAreas.getActiveAreas();
+    const coverage = areas.map((area) => area.name).sort().join(", ");
+    const stops: ResolvedStop[] = [];
+    const zones: ServiceArea[] = [];
+
+    for (const leg of route) {
+      const location = await resolveLocation(leg.address, leg.label, leg.place);
+      const area = serviceAreas.locate(areas, location);
+      if (!area) {
+        throw new PricingError(`The ${leg.label} address is outside our service area (${coverage}).`, "OUT_OF_AREA");
+      }
+
+      zones.push(area);
+      stops.push({
+        ...location,
+        type: leg.type,
+        contactName: leg.contactName,
+        contactPhone: leg.contactPhone,
+        instructions: leg.instructions,
+        serviceAreaId: area.id,
+        serviceAreaName: area.name,
+      });
+    }
+
+    let distance: number;
+    try {
+      const result = await routePlanner.route(stops);
+      distance = roundCents(result.distanceKm);
+    } catch (error) {
+      console.error("Error routing trip:", error);
+      throw new PricingError("Could not calculate a driving route between these addresses. Please try again.");
+    }
+
+    if (distance === 0) {
+      throw new PricingError("Pickup and dropoff addresses appear to be the same location. Please check the addresses.");
+    }
+
+    if (distance > MAX_TRIP_KM) {
+      throw new PricingError(`Route distance (${distance.toFixed(1)} km) exceeds maximum allowed range. Please choose addresses within Helsinki metropolitan area.`);
+    }
+
+    const tariff = await this.getActiveTariff();
+
+    return {
+      pickup: stops[0],
+      dropoff: stops[stops.length - 1],
+      stops,
+      breakdown: this.calculate(tariff, {
+        distanceKm: distance,
+        itemSize: input.itemSize,
+        itemType: input.itemType,
+        estimatedHours: input.estimatedHours,
+        extras: normalizeExtras(input.extras),
+        serviceAreaSurcharge: serviceAreas.tripSurcharge(zones),
+        additionalStops: additionalStops.length,
+        surgePercent: input.surgePercent,
+        discount: input.discount,
+      }),
+    };
+  },
+};
@@ -0,0 +1,309 @@
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import type { Database } from "@/integrations/supabase/database.types";
+import type { DiscountRule } from "./pricingEngine";
+import { wallet } from "./wallet";
+
+type PromotionRow = Database["public"]["Tables"]["promotions"]["Row"];
+
+// Wallet credit (EUR) each side of a referral gets when the referee's first booking is delivered
+export const REFERRER_REWARD = 10;
+export const REFEREE_REWARD = 10;
+
+// What a referral code entered at checkout means for the consumer
+export interface ReferralOffer {
+  code: string;
+  referrerName: string | null;
+  reward: number; // EUR of wallet credit after the first delivered booking
+}
+
+// A code entered at checkout: a promotion priced as a discount, or a friend's referral code
+export type CheckoutCode =
+  | { kind: "promotion"; promotion: PromotionRow; discount: DiscountRule }
+  | { kind: "referral"; referrerId: string; referral: ReferralOffer };
+
+export type PromotionErrorCode =
+  | "NOT_FOUND"
+  | "INACTIVE"
+  | "EXPIRED"
+  | "USED_UP"
+  | "USER_LIMIT"
+  | "FIRST_RIDE_ONLY"
+  | "NOT_ALLOWED";
+
+// Errors caused by the code the consumer entered (shown to the user as-is)
+export class PromotionError extends Error {
+  code: PromotionErrorCode;
+
+  constructor(code: PromotionErrorCode, message: string) {
+    super(message);
+    this.name = "PromotionError";
+    this.code = code;
+  }
+}
+
+// HTTP status for each error code in the API routes
+export const PROMOTION_ERROR_STATUS: Record<PromotionErrorCode, number> = {
+  NOT_FOUND: 404,
+  INACTIVE: 422,
+  EXPIRED: 422,
+  USED_UP: 409,
+  USER_LIMIT: 409,
+  FIRST_RIDE_ONLY: 422,
+  NOT_ALLOWED: 422,
+};
+
+type CodeProblem = Exclude<PromotionErrorCode, "NOT_ALLOWED">;
+
+const MESSAGES: Record<CodeProblem, string> = {
+  NOT_FOUND: "This code is not valid.",
+  INACTIVE: "This code is not active.",
+  EXPIRED: "This code has expired.",
+  USED_UP: "This code has been used up.",
+  USER_LIMIT: "You have already used this code.",
+  FIRST_RIDE_ONLY: "This code is only valid on your first booking.",
+};
+
+// redeem_promotion raises these when a limit is hit between the quote and the booking
+const REDEEM_ERRORS: Record<string, CodeProblem> = {
+  PROMOTION_INACTIVE: "INACTIVE",
+  PROMOTION_USED_UP: "USED_UP",
+  PROMOTION_USER_LIMIT: "USER_LIMIT",
+  PROMOTION_FIRST_RIDE_ONLY: "FIRST_RIDE_ONLY",
+};
+
+const fail = (code: CodeProblem) => new PromotionError(code, MESSAGES[code]);
+
+export function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function describe(promotion: PromotionRow): string {
+  const value = Number(promotion.value);
+  if (promotion.discount_type === "fixed") {
+    return `Promo ${promotion.code} (€${value.toFixed(2)} off)`;
+  }
+  return promotion.discount_type === "first_ride"
+    ? `First booking ${promotion.code} (${value}% off)`
+    : `Promo ${promotion.code} (${value}% off)`;
+}
+
+export function toDiscountRule(promotion: PromotionRow): DiscountRule {
+  const value = Number(promotion.value);
+  return promotion.discount_type === "fixed"
+    ? { code: promotion.code, label: describe(promotion), fixed: value }
+    : {
+        code: promotion.code,
+        label: describe(promotion),
+        percent: value,
+        maxAmount: promotion.max_discount != null ? Number(promotion.max_discount) : null,
+      };
+}
+
+// Redemptions that still count towards a limit: those of bookings not cancelled or expired
+async function countRedemptions(promotionId: string, userId?: string): Promise<number> {
+  let query = supabaseAdmin
+    .from("promotion_redemptions")
+    .select("id, bookings!inner(status)", { count: "exact", head: true })
+    .eq("promotion_id", promotionId)
+    .not("bookings.status", "in", "(cancelled,expired)");
+
+  if (userId) {
+    query = query.eq("user_id", userId);
+  }
+
+  const { count, error } = await query;
+  if (error) throw error;
+  return count || 0;
+}
+
+async function hasBookings(userId: string, statuses?: Database["public"]["Enums"]["booking_status"][]): Promise<boolean> {
+  let query = supabaseAdmin
+    .from("bookings")
+    .select("id", { count: "exact", head: true })
+    .eq("consumer_id", userId);
+
+  query = statuses ? query.in("status", statuses) : query.not("status", "in", "(cancelled,expired)");
+
+  const { count, error } = await query;
+  if (error) throw error;
+  return (count || 0) > 0;
+}
+
+async function checkPromotion(promotion: PromotionRow, userId: string) {
+  const now = new Date();
+  if (!promotion.is_active || new Date(promotion.starts_at) > now) {
+    throw fail("INACTIVE");
+  }
+  if (promotion.expires_at && new Date(promotion.expires_at) <= now) {
+    throw fail("EXPIRED");
+  }
+  if (promotion.usage_limit != null && (await countRedemptions(promotion.id)) >= promotion.usage_limit) {
+    throw fail("USED_UP");
+  }
+  if (promotion.per_user_limit != null && (await countRedemptions(promotion.id, userId)) >= promotion.per_user_limit) {
+    throw fail("USER_LIMIT");
+  }
+  if (promotion.discount_type === "first_ride" && (await hasBookings(userId))) {
+    throw fail("FIRST_RIDE_ONLY");
+  }
+}
+
+async function resolveReferral(code: string, userId: string): Promise<CheckoutCode | null> {
+  const { data: referrer, error } = await supabaseAdmin
+    .from("profiles")
+    .select("id, full_name")
+    .eq("referral_code", code)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!referrer) {
+    return null;
+  }
+
+  if (referrer.id === userId) {
+    throw new PromotionError("NOT_ALLOWED", "You can't use your own referral code.");
+  }
+
+  const { data: existing } = await supabaseAdmin
+    .from("referrals")
+    .select("referrer_id")
+    .eq("referee_id", userId)
+    .maybeSingle();
+
+  if (existing && existing.referrer_id !== referrer.id) {
+    throw new PromotionError("NOT_ALLOWED", "You have already been referred by someone else.");
+  }
+  if (!existing && (await hasBookings(userId, ["delivered"]))) {
+    throw new PromotionError("NOT_ALLOWED", "Referral codes are for new customers.");
+  }
+
+  return {
+    kind: "referral",
+    referrerId: referrer.id,
+    referral: { code, referrerName: referrer.full_name, reward: REFEREE_REWARD },
+  };
+}
+
+export const promotions = {
+  /**
+   * Look up a code entered at checkout and check the consumer may use it now.
+   * The usage limits are checked again when the booking redeems it.
+   */
+  async resolve(rawCode: string, userId: string): Promise<CheckoutCode> {
+    const code = normalizeCode(rawCode);
+    if (!code) {
+      throw fail("NOT_FOUND");
+    }
+
+    const { data: promotion, error } = await supabaseAdmin
+      .from("promotions")
+      .select("*")
+      .eq("code", code)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (promotion) {
+      await checkPromotion(promotion, userId);
+      return { kind: "promotion", promotion, discount: toDiscountRule(promotion) };
+    }
+
+    const referral = await resolveReferral(code, userId);
+    if (!referral) {
+      throw fail("NOT_FOUND");
+    }
+    return referral;
+  },
+
+  /**
+   * Record the booking's use of a promotion, or the referral the consumer
+   * signed up with. A promotion that hit a limit since the quote throws.
+   */
+  async redeem(checkoutCode: CheckoutCode, bookingId: string, userId: string, discount: number): Promise<void> {
+    if (checkoutCode.kind === "referral") {
+      const { error } = await supabaseAdmin
+        .from("referrals")
+        .upsert(
+          {
+            referrer_id: checkoutCode.referrerId,
+            referee_id: userId,
+            referrer_reward: REFERRER_REWARD,
+            referee_reward: REFEREE_REWARD,
+          },
+          { onConflict: "referee_id", ignoreDuplicates: true }
+        );
+
+      if (error) throw error;
+      return;
+    }
+
+    if (discount <= 0) {
+      return;
+    }
+
+    const { error } = await supabaseAdmin.rpc("redeem_promotion", {
+      p_promotion_id: checkoutCode.promotion.id,
+      p_user_id: userId,
+      p_booking_id: bookingId,
+      p_amount: discount,
+    });
+
+    if (error) {
+      const code = REDEEM_ERRORS[error.message];
+      if (code) throw fail(code);
+      throw error;
+    }
+  },
+
+  /**
+   * Pay the referral rewards into both wallets once the referee's first
+   * booking is delivered. Safe to call for any delivered booking, any number of times.
+   */
+  async rewardReferral(bookingId: string): Promise<void> {
+    const { data: booking, error } = await supabaseAdmin
+      .from("bookings")
+      .select("id, status, consumer_id")
+      .eq("id", bookingId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!booking || booking.status !== "delivered") {
+      return;
+    }
+
+    const { data: referral } = await supabaseAdmin
+      .from("referrals")
+      .select("*")
+      .eq("referee_id", booking.consumer_id)
+      .eq("status", "pending")
+      .maybeSingle();
+
+    if (!referral) {
+      return;
+    }
+
+    const grants = [
+      { user_id: referral.referrer_id, amount: Number(referral.referrer_reward), role: "referrer", description: "A friend you invited completed their first move" },
+      { user_id: referral.referee_id, amount: Number(referral.referee_reward), role: "referee", description: "Welcome credit for your first move" },
+    ].filter((grant) => grant.amount > 0);
+
+    for (const grant of grants) {
+      await wallet.credit({
+        userId: grant.user_id,
+        type: "referral_reward",
+        amount: grant.amount,
+        description: grant.description,
+        idempotencyKey: `referral-${referral.id}-${grant.role}`,
+        bookingId,
+        referralId: referral.id,
+      });
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from("referrals")
+      .update({ status: "rewarded", rewarded_booking_id: bookingId, rewarded_at: new Date().toISOString() })
+      .eq("id", referral.id)
+      .eq("status", "pending");
+
+    if (updateError) throw updateError;
+  },
+};
@@ -0,0 +1,54 @@
+import webpush from "web-push";
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import type { NotificationPayload } from "@/lib/notifications";
+
+const vapidPublicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+const vapidPrivateKey = process.env.VAPID_PRIVATE_KEY;
+
+if (vapidPublicKey && vapidPrivateKey) {
+  webpush.setVapidDetails(
+    "mailto:support@vango.app",
+    vapidPublicKey,
+    vapidPrivateKey
+  );
+}
+
+export const isPushConfigured = () => !!(vapidPublicKey && vapidPrivateKey);
+
+/**
+ * Send a push to every device the user subscribed on. Returns how many
+ * devices accepted it; subscriptions the push service no longer knows are removed.
+ */
+export async function sendPush(userId: string, payload: NotificationPayload): Promise<number> {
+  if (!isPushConfigured()) {
+    return 0;
+  }
+
+  const { data: subscriptions, error } = await supabaseAdmin
+    .from("push_subscriptions")
+    .select("*")
+    .eq("user_id", userId);
+
+  if (error) throw error;
+
+  const results = await Promise.all(
+    (subscriptions || []).map(async (sub) => {
+      try {
+        await webpush.sendNotification(
+          { endpoint: sub.endpoint, keys: { p256dh: sub.p256dh, auth: sub.auth } },
+          JSON.stringify(payload)
+        );
+        return true;
+      } catch (err) {
+        const statusCode = (err as { statusCode?: number }).statusCode;
+        if (statusCode === 410 || statusCode === 404) {
+          // Subscription expired/invalid - remove from DB
+          await supabaseAdmin.from("push_subscriptions").delete().eq("id", sub.id);
+        }
+        return false;
+      }
+    })
+  );
+
+  return results.filter(Boolean).length;
+}
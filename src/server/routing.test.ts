@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createOsrmProvider,
+  getRoutingProvider,
+  haversineKm,
+  routePlanner,
+  RoutingError,
+  setRoutingProvider,
+  stubRoutingProvider,
+  type RoutingProvider,
+} from "./routing";
+
+const KAMPPI = { lat: 60.1688, lng: 24.9316 };
+const PASILA = { lat: 60.1986, lng: 24.9335 };
+const TIKKURILA = { lat: 60.2925, lng: 25.044 };
+
+function mockFetch(body: unknown, status = 200) {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify(body), { status }));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("stubRoutingProvider", () => {
+  it("drives 1.3x the straight line at 30 km/h, leg by leg", async () => {
+    const result = await stubRoutingProvider.route([KAMPPI, PASILA, TIKKURILA]);
+
+    const first = haversineKm(KAMPPI, PASILA) * 1.3;
+    const second = haversineKm(PASILA, TIKKURILA) * 1.3;
+    expect(result.legs).toHaveLength(2);
+    expect(result.legs[0].distanceKm).toBeCloseTo(first, 6);
+    expect(result.legs[0].durationMinutes).toBeCloseTo((first / 30) * 60, 6);
+    expect(result.distanceKm).toBeCloseTo(first + second, 6);
+    expect(result.durationMinutes).toBeCloseTo(((first + second) / 30) * 60, 6);
+    expect(result.geometry).toEqual([KAMPPI, PASILA, TIKKURILA]);
+    expect(result.provider).toBe("stub");
+  });
+
+  it("gives the same answer every time", async () => {
+    const [a, b] = await Promise.all([
+      stubRoutingProvider.route([KAMPPI, TIKKURILA]),
+      stubRoutingProvider.route([KAMPPI, TIKKURILA]),
+    ]);
+    expect(a).toEqual(b);
+  });
+});
+
+describe("createOsrmProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("asks for the driving route through the waypoints and converts the units", async () => {
+    const fetchMock = mockFetch({
+      code: "Ok",
+      routes: [{
+        distance: 4200,
+        duration: 600,
+        legs: [{ distance: 4200, duration: 600 }],
+        geometry: { coordinates: [[24.9316, 60.1688], [24.9335, 60.1986]] },
+      }],
+    });
+
+    const result = await createOsrmProvider("https://osrm.test/").route([KAMPPI, PASILA]);
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://osrm.test/route/v1/driving/24.9316,60.1688;24.9335,60.1986?overview=full&geometries=geojson"
+    );
+    expect(result).toEqual({
+      distanceKm: 4.2,
+      durationMinutes: 10,
+      legs: [{ distanceKm: 4.2, durationMinutes: 10 }],
+      geometry: [KAMPPI, PASILA],
+      provider: "osrm",
+    });
+  });
+
+  it("throws a RoutingError on an HTTP error", async () => {
+    mockFetch({}, 503);
+
+    await expect(createOsrmProvider("https://osrm.test").route([KAMPPI, PASILA]))
+      .rejects.toThrow(new RoutingError("Routing request failed with HTTP 503"));
+  });
+
+  it("throws a RoutingError when there is no route", async () => {
+    mockFetch({ code: "NoRoute", routes: [] });
+
+    await expect(createOsrmProvider("https://osrm.test").route([KAMPPI, PASILA]))
+      .rejects.toThrow("No route found (NoRoute)");
+  });
+});
+
+describe("getRoutingProvider", () => {
+  beforeEach(() => {
+    setRoutingProvider(null);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setRoutingProvider(null);
+    vi.unstubAllEnvs();
+  });
+
+  it("uses OSRM when a server is configured", () => {
+    vi.stubEnv("ROUTING_PROVIDER", "");
+    vi.stubEnv("OSRM_BASE_URL", "https://osrm.test");
+
+    expect(getRoutingProvider().name).toBe("osrm");
+  });
+
+  it("falls back to the stub without OSRM_BASE_URL", () => {
+    vi.stubEnv("ROUTING_PROVIDER", "osrm");
+    vi.stubEnv("OSRM_BASE_URL", "");
+
+    expect(getRoutingProvider()).toBe(stubRoutingProvider);
+    expect(console.warn).toHaveBeenCalledWith("OSRM_BASE_URL is not set; routing with straight-line estimates");
+  });
+
+  it("uses the stub when asked to, even with a server configured", () => {
+    vi.stubEnv("ROUTING_PROVIDER", "stub");
+    vi.stubEnv("OSRM_BASE_URL", "https://osrm.test");
+
+    expect(getRoutingProvider()).toBe(stubRoutingProvider);
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+});
+
+describe("routePlanner", () => {
+  afterEach(() => {
+    setRoutingProvider(null);
+  });
+
+  it("routes with the provider set for the tests", async () => {
+    const provider: RoutingProvider = {
+      name: "test",
+      route: vi.fn(async (waypoints) => ({
+        distanceKm: 12,
+        durationMinutes: 20,
+        legs: [{ distanceKm: 12, durationMinutes: 20 }],
+        geometry: waypoints,
+        provider: "test",
+      })),
+    };
+    setRoutingProvider(provider);
+
+    const result = await routePlanner.route([KAMPPI, PASILA]);
+
+    expect(provider.route).toHaveBeenCalledWith([KAMPPI, PASILA]);
+    expect(result.distanceKm).toBe(12);
+  });
+
+  it("needs at least two waypoints", async () => {
+    setRoutingProvider(stubRoutingProvider);
+
+    await expect(routePlanner.route([KAMPPI])).rejects.toThrow(RoutingError);
+  });
+});
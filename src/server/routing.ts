@@ -0,0 +1,147 @@
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface RouteLeg {
+  distanceKm: number;
+  durationMinutes: number;
+}
+
+export interface RouteResult {
+  distanceKm: number;
+  durationMinutes: number;
+  legs: RouteLeg[]; // one per consecutive pair of waypoints
+  geometry: LatLng[]; // polyline through all waypoints, for drawing on a map
+  provider: string;
+}
+
+export interface RoutingProvider {
+  name: string;
+  route(waypoints: LatLng[]): Promise<RouteResult>;
+}
+
+export class RoutingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RoutingError";
+  }
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+// Straight-line distance; used by the offline stub and the dispatch radius
+export function haversineKm(from: LatLng, to: LatLng): number {
+  const toRad = (degrees: number) => degrees * (Math.PI / 180);
+  const dLat = toRad(to.lat - from.lat);
+  const dLng = toRad(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(from.lat)) *
+      Math.cos(toRad(to.lat)) *
+      Math.sin(dLng / 2) *
+      Math.sin(dLng / 2);
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * OSRM-compatible HTTP provider (a self-hosted osrm-backend, or any API with the same /route/v1 shape)
+ */
+export function createOsrmProvider(baseUrl: string): RoutingProvider {
+  return {
+    name: "osrm",
+
+    async route(waypoints: LatLng[]): Promise<RouteResult> {
+      const coordinates = waypoints.map((point) => `${point.lng},${point.lat}`).join(";");
+      const url = `${baseUrl.replace(/\/$/, "")}/route/v1/driving/${coordinates}?overview=full&geometries=geojson`;
+
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new RoutingError(`Routing request failed with HTTP ${response.status}`);
+      }
+
+      const data = await response.json();
+      if (data.code !== "Ok" || !data.routes?.length) {
+        throw new RoutingError(`No route found (${data.code || "unknown"})`);
+      }
+
+      const route = data.routes[0];
+      return {
+        distanceKm: route.distance / 1000,
+        durationMinutes: route.duration / 60,
+        legs: (route.legs || []).map((leg: { distance: number; duration: number }) => ({
+          distanceKm: leg.distance / 1000,
+          durationMinutes: leg.duration / 60,
+        })),
+        geometry: (route.geometry?.coordinates || []).map(([lng, lat]: [number, number]) => ({ lat, lng })),
+        provider: "osrm",
+      };
+    },
+  };
+}
+
+// Typical road/straight-line ratio and average van speed in the capital region
+const STUB_DETOUR_FACTOR = 1.3;
+const STUB_AVERAGE_KMH = 30;
+
+/**
+ * Deterministic offline provider for tests and local development
+ */
+export const stubRoutingProvider: RoutingProvider = {
+  name: "stub",
+
+  async route(waypoints: LatLng[]): Promise<RouteResult> {
+    const legs: RouteLeg[] = [];
+    for (let i = 1; i < waypoints.length; i++) {
+      const distanceKm = haversineKm(waypoints[i - 1], waypoints[i]) * STUB_DETOUR_FACTOR;
+      legs.push({ distanceKm, durationMinutes: (distanceKm / STUB_AVERAGE_KMH) * 60 });
+    }
+
+    return {
+      distanceKm: legs.reduce((sum, leg) => sum + leg.distanceKm, 0),
+      durationMinutes: legs.reduce((sum, leg) => sum + leg.durationMinutes, 0),
+      legs,
+      geometry: waypoints,
+      provider: "stub",
+    };
+  },
+};
+
+let activeProvider: RoutingProvider | null = null;
+
+/**
+ * Provider chosen by ROUTING_PROVIDER ("osrm" | "stub", default "osrm"). OSRM
+ * needs OSRM_BASE_URL; without it the straight-line stub is used, since the
+ * public demo server is rate-limited and not for production traffic.
+ */
+export function getRoutingProvider(): RoutingProvider {
+  if (!activeProvider) {
+    const baseUrl = process.env.OSRM_BASE_URL;
+    if (process.env.ROUTING_PROVIDER !== "stub" && !baseUrl) {
+      console.warn("OSRM_BASE_URL is not set; routing with straight-line estimates");
+    }
+
+    activeProvider = process.env.ROUTING_PROVIDER === "stub" || !baseUrl
+      ? stubRoutingProvider
+      : createOsrmProvider(baseUrl);
+  }
+  return activeProvider;
+}
+
+// Swap the provider (tests)
+export function setRoutingProvider(provider: RoutingProvider | null) {
+  activeProvider = provider;
+}
+
+export const routePlanner = {
+  /**
+   * Road distance and duration through the waypoints, in order
+   */
+  async route(waypoints: LatLng[]): Promise<RouteResult> {
+    if (waypoints.length < 2) {
+      throw new RoutingError("A route needs at least two waypoints");
+    }
+
+    return getRoutingProvider().route(waypoints);
+  },
+};
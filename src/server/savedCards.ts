@@ -0,0 +1,209 @@
+import { randomUUID } from "crypto";
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import type { Database } from "@/integrations/supabase/database.types";
+import { getPaymentGateway, PaymentError, type SetupIntentStatus } from "./paymentGateway";
+
+type SavedPaymentMethod = Database["public"]["Tables"]["saved_payment_methods"]["Row"];
+
+export interface CardSetup {
+  setupIntentId: string;
+  clientSecret: string | null; // for confirmCardSetup with Stripe.js when the status asks for it
+  status: SetupIntentStatus;
+}
+
+export interface SavedCardResult {
+  card: SavedPaymentMethod;
+  duplicate: boolean; // the card was already saved; the existing one is returned
+}
+
+async function getSavedCard(column: "id" | "stripe_setup_intent_id", value: string): Promise<SavedPaymentMethod | null> {
+  const { data, error } = await supabaseAdmin
+    .from("saved_payment_methods")
+    .select("*")
+    .eq(column, value)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * The profile's Stripe Customer, created on first use. The idempotency key
+ * makes concurrent first uses end up with the same Customer.
+ */
+export async function ensureCustomer(userId: string): Promise<string> {
+  const { data: existing, error } = await supabaseAdmin
+    .from("stripe_customers")
+    .select("customer_id")
+    .eq("profile_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (existing) {
+    return existing.customer_id;
+  }
+
+  const { data: profile } = await supabaseAdmin
+    .from("profiles")
+    .select("email, full_name")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (!profile) {
+    throw new PaymentError("NOT_FOUND", "Profile not found");
+  }
+
+  const customerId = await getPaymentGateway().createCustomer(
+    { email: profile.email || undefined, name: profile.full_name || undefined, metadata: { profileId: userId } },
+    `customer-${userId}`
+  );
+
+  const { error: insertError } = await supabaseAdmin
+    .from("stripe_customers")
+    .upsert({ profile_id: userId, customer_id: customerId }, { onConflict: "profile_id", ignoreDuplicates: true });
+
+  if (insertError) throw insertError;
+  return customerId;
+}
+
+/**
+ * The user's saved card made from the same card number, if any
+ */
+export async function checkDuplicateCard(userId: string, fingerprint: string): Promise<SavedPaymentMethod | null> {
+  const { data, error } = await supabaseAdmin
+    .from("saved_payment_methods")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("card_fingerprint", fingerprint)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export const savedCards = {
+  /**
+   * Start saving a card to the user's Customer. With a payment method it is
+   * confirmed here; otherwise the client confirms it with Stripe.js
+   * (confirmCardSetup) and then calls `save`.
+   */
+  async startSetup(userId: string, paymentMethodId?: string): Promise<CardSetup> {
+    const customerId = await ensureCustomer(userId);
+    const gateway = getPaymentGateway();
+
+    let intent = await gateway.createSetupIntent(customerId, { profileId: userId }, `setup-${userId}-${randomUUID()}`);
+    if (paymentMethodId) {
+      intent = await gateway.confirmSetupIntent(intent.id, paymentMethodId);
+    }
+
+    return { setupIntentId: intent.id, clientSecret: intent.clientSecret, status: intent.status };
+  },
+
+  /**
+   * Save the card of a SetupIntent that Stripe reports as succeeded for the
+   * user's own Customer. Card details come from Stripe, never from the client,
+   * and a card number the user saved before is not saved twice.
+   */
+  async save(userId: string, setupIntentId: string, cardholderName: string): Promise<SavedCardResult> {
+    const alreadySaved = await getSavedCard("stripe_setup_intent_id", setupIntentId);
+    if (alreadySaved) {
+      if (alreadySaved.user_id !== userId) {
+        throw new PaymentError("FORBIDDEN", "This card setup belongs to another account");
+      }
+      return { card: alreadySaved, duplicate: false };
+    }
+
+    const gateway = getPaymentGateway();
+    const [customerId, intent] = await Promise.all([ensureCustomer(userId), gateway.retrieveSetupIntent(setupIntentId)]);
+
+    if (intent.customerId !== customerId) {
+      throw new PaymentError("FORBIDDEN", "This card setup belongs to another account");
+    }
+    if (intent.status !== "succeeded" || !intent.card) {
+      throw new PaymentError("NOT_ALLOWED", "The card has not been confirmed yet");
+    }
+
+    const card = intent.card;
+    const duplicate = card.fingerprint ? await checkDuplicateCard(userId, card.fingerprint) : null;
+    if (duplicate) {
+      // Keep the Customer to one payment method per card
+      await gateway.detachPaymentMethod(card.id).catch((error) => console.error("Error detaching duplicate card:", error));
+      return { card: duplicate, duplicate: true };
+    }
+
+    const { count } = await supabaseAdmin
+      .from("saved_payment_methods")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId);
+
+    const { data, error } = await supabaseAdmin
+      .from("saved_payment_methods")
+      .insert({
+        user_id: userId,
+        stripe_payment_method_id: card.id,
+        stripe_setup_intent_id: intent.id,
+        card_fingerprint: card.fingerprint,
+        card_brand: card.brand,
+        card_last4: card.last4,
+        card_exp_month: card.expMonth,
+        card_exp_year: card.expYear,
+        cardholder_name: cardholderName,
+        is_default: !count, // First card is default
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      // Saved by a concurrent request for the same setup or card
+      if (error.code === "23505") {
+        const raced = (await getSavedCard("stripe_setup_intent_id", intent.id))
+          || (card.fingerprint ? await checkDuplicateCard(userId, card.fingerprint) : null);
+        if (raced) return { card: raced, duplicate: raced.stripe_setup_intent_id !== intent.id };
+      }
+      throw error;
+    }
+
+    return { card: data, duplicate: false };
+  },
+
+  /**
+   * Detach the card from the user's Customer and forget it
+   */
+  async remove(userId: string, savedCardId: string): Promise<void> {
+    const card = await getSavedCard("id", savedCardId);
+    if (!card || card.user_id !== userId) {
+      throw new PaymentError("NOT_FOUND", "Saved card not found");
+    }
+
+    try {
+      await getPaymentGateway().detachPaymentMethod(card.stripe_payment_method_id);
+    } catch (error) {
+      // Already detached at Stripe, e.g. by an earlier attempt
+      if (!(error instanceof PaymentError && (error.code === "NOT_ALLOWED" || error.code === "NOT_FOUND"))) {
+        throw error;
+      }
+    }
+
+    const { error } = await supabaseAdmin
+      .from("saved_payment_methods")
+      .delete()
+      .eq("id", savedCardId);
+
+    if (error) throw error;
+
+    // Another card takes over as default
+    if (card.is_default) {
+      const { data: next } = await supabaseAdmin
+        .from("saved_payment_methods")
+        .select("id")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (next) {
+        await supabaseAdmin.from("saved_payment_methods").update({ is_default: true }).eq("id", next.id);
+      }
+    }
+  },
+};
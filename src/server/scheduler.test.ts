@@ -0,0 +1,293 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import { notificationHandlers } from "@/lib/notifications";
+import type { FakeQuery, FakeSupabase } from "@/test/fakeSupabase";
+import { dispatch } from "./dispatch";
+import { sendPush } from "./push";
+import { scheduler } from "./scheduler";
+
+vi.mock("@/integrations/supabase/admin", async () => {
+  const { createFakeSupabase } = await import("@/test/fakeSupabase");
+  return { supabaseAdmin: createFakeSupabase() };
+});
+
+vi.mock("./push", () => ({ sendPush: vi.fn(async () => 1) }));
+vi.mock("./dispatch", () => ({ dispatch: { advance: vi.fn(async () => undefined) } }));
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+
+const HOUR = 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+// Monday 18:00 in Helsinki
+const STARTS_AT = new Date("2026-03-02T16:00:00.000Z");
+const before = (ms: number) => new Date(STARTS_AT.getTime() - ms);
+const after = (ms: number) => new Date(STARTS_AT.getTime() + ms);
+
+interface Row {
+  id: string;
+  status: string;
+  consumer_id: string;
+  transporter_id: string | null;
+  pickup_address: string;
+  scheduled_at: string;
+  created_at: string;
+  claimed_at: string | null;
+  transporter: { full_name: string } | null;
+}
+
+const booking = (overrides: Partial<Row> = {}): Row => ({
+  id: "booking-1",
+  status: "accepted",
+  consumer_id: "consumer-1",
+  transporter_id: "transporter-1",
+  pickup_address: "Mannerheimintie 1, Helsinki",
+  scheduled_at: STARTS_AT.toISOString(),
+  created_at: before(72 * HOUR).toISOString(),
+  claimed_at: before(48 * HOUR).toISOString(),
+  transporter: { full_name: "Ann" },
+  ...overrides,
+});
+
+// Bookings and reminders as the database would keep them
+function tables(bookings: Row[]) {
+  const reminders = new Map<string, { id: string; offset_minutes: number; push_sent: boolean }>();
+
+  const matches = (row: Row, query: FakeQuery) =>
+    Object.entries(query.match).every(([column, value]) => row[column as keyof Row] === value) &&
+    query.filters.every(([filter, column, value]) => {
+      const field = row[column as keyof Row] as string;
+      switch (filter) {
+        case "not":
+          // .not(column, "is", null)
+          return field !== null;
+        case "in":
+          return (value as string[]).includes(field);
+        case "gt":
+          return field > (value as string);
+        case "lte":
+          return field <= (value as string);
+        default:
+          return true;
+      }
+    });
+
+  const answer = (query: FakeQuery) => {
+    if (query.table === "bookings" && query.action === "select") {
+      return { data: bookings.filter((row) => matches(row, query)).map((row) => ({ ...row })) };
+    }
+    if (query.table === "bookings" && query.action === "update") {
+      const row = bookings.find((candidate) => matches(candidate, query));
+      if (!row) return { data: null };
+      Object.assign(row, query.values);
+      return { data: { id: row.id } };
+    }
+    if (query.table === "booking_reminders" && query.action === "upsert") {
+      // ignoreDuplicates: only the rows inserted now come back
+      const inserted = [];
+      for (const value of query.values as { booking_id: string; recipient_id: string; offset_minutes: number }[]) {
+        const key = `${value.booking_id}:${value.recipient_id}:${value.offset_minutes}`;
+        if (reminders.has(key)) continue;
+        const reminder = { id: `reminder-${reminders.size + 1}`, offset_minutes: value.offset_minutes, push_sent: false };
+        reminders.set(key, reminder);
+        inserted.push(reminder);
+      }
+      return { data: inserted };
+    }
+    if (query.table === "booking_reminders" && query.action === "update") {
+      const reminder = [...reminders.values()].find((row) => row.id === query.match.id);
+      Object.assign(reminder, query.values);
+    }
+    return undefined;
+  };
+
+  return { answer, reminders };
+}
+
+function setup(rows: Row[]) {
+  const state = tables(rows);
+  db.onQuery(state.answer);
+  return state;
+}
+
+describe("scheduler.run", () => {
+  beforeEach(() => {
+    db.reset();
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  describe("reminders", () => {
+    it("reminds both parties 24 hours ahead", async () => {
+      const { reminders } = setup([booking()]);
+
+      const result = await scheduler.run(before(24 * HOUR - MINUTE));
+
+      expect(result).toEqual({ reminders: 2, released: [], failed: [] });
+      expect(sendPush).toHaveBeenCalledWith(
+        "consumer-1",
+        notificationHandlers.scheduledMoveReminder("booking-1", "24 hours", "Mon 18:00", "Ann")
+      );
+      expect(sendPush).toHaveBeenCalledWith(
+        "transporter-1",
+        notificationHandlers.scheduledJobReminder("booking-1", "Mannerheimintie 1, Helsinki", "24 hours", "Mon 18:00")
+      );
+      expect([...reminders.values()].every((reminder) => reminder.push_sent)).toBe(true);
+    });
+
+    it("sends nothing before the first reminder is due", async () => {
+      setup([booking()]);
+
+      const result = await scheduler.run(before(24 * HOUR + MINUTE));
+
+      expect(result.reminders).toBe(0);
+      expect(sendPush).not.toHaveBeenCalled();
+    });
+
+    it("sends each reminder once", async () => {
+      setup([booking()]);
+
+      await scheduler.run(before(24 * HOUR - MINUTE));
+      const again = await scheduler.run(before(23 * HOUR));
+
+      expect(again.reminders).toBe(0);
+      expect(sendPush).toHaveBeenCalledTimes(2);
+    });
+
+    it("reminds again an hour ahead", async () => {
+      setup([booking()]);
+
+      await scheduler.run(before(24 * HOUR - MINUTE));
+      const result = await scheduler.run(before(HOUR - MINUTE));
+
+      expect(result.reminders).toBe(2);
+      expect(sendPush).toHaveBeenLastCalledWith(
+        "transporter-1",
+        notificationHandlers.scheduledJobReminder("booking-1", "Mannerheimintie 1, Helsinki", "1 hour", "Mon 18:00")
+      );
+    });
+
+    it("only sends the nearest reminder after downtime, recording the missed one", async () => {
+      const { reminders } = setup([booking()]);
+
+      const result = await scheduler.run(before(30 * MINUTE));
+
+      expect(result.reminders).toBe(2);
+      expect(sendPush).toHaveBeenCalledTimes(2);
+      expect(sendPush).toHaveBeenCalledWith("consumer-1", expect.objectContaining({ body: expect.stringContaining("in 1 hour") }));
+      // Per recipient: the missed 24 hour reminder and the 1 hour one
+      expect([...reminders.values()].map((reminder) => reminder.offset_minutes)).toEqual([1440, 60, 1440, 60]);
+    });
+
+    it("skips reminders that fell due before the booking was made", async () => {
+      setup([booking({ created_at: before(2 * HOUR).toISOString() })]);
+
+      expect((await scheduler.run(before(90 * MINUTE))).reminders).toBe(0);
+      expect((await scheduler.run(before(HOUR - MINUTE))).reminders).toBe(2);
+    });
+
+    it("tells the consumer a transporter is still being found", async () => {
+      setup([booking({ status: "pending", transporter_id: null, transporter: null })]);
+
+      const result = await scheduler.run(before(HOUR - MINUTE));
+
+      expect(result.reminders).toBe(1);
+      expect(sendPush).toHaveBeenCalledWith(
+        "consumer-1",
+        notificationHandlers.scheduledMoveReminder("booking-1", "1 hour", "Mon 18:00", null)
+      );
+    });
+
+    it("counts a reminder whose push didn't go out, without marking it sent", async () => {
+      vi.mocked(sendPush).mockResolvedValue(0);
+      const { reminders } = setup([booking()]);
+
+      const result = await scheduler.run(before(HOUR - MINUTE));
+
+      expect(result.reminders).toBe(2);
+      expect([...reminders.values()].some((reminder) => reminder.push_sent)).toBe(false);
+    });
+  });
+
+  describe("releases", () => {
+    it("waits out the grace period after the scheduled time", async () => {
+      setup([booking()]);
+
+      const result = await scheduler.run(after(14 * MINUTE));
+
+      expect(result.released).toEqual([]);
+      expect(db.queriesOn("bookings", "update")).toHaveLength(0);
+    });
+
+    it("releases a claim whose trip didn't start and offers the booking again", async () => {
+      const row = booking();
+      setup([row]);
+
+      const result = await scheduler.run(after(16 * MINUTE));
+
+      expect(result).toEqual({ reminders: 0, released: ["booking-1"], failed: [] });
+      expect(row).toMatchObject({
+        status: "pending",
+        transporter_id: null,
+        accepted_at: null,
+        claimed_at: null,
+        dispatch_round: 0,
+        status_reason: "Released: the transporter did not start the trip in time",
+      });
+      const [update] = db.queriesOn("bookings", "update");
+      expect(update.match).toEqual({ id: "booking-1", status: "accepted", transporter_id: "transporter-1" });
+      expect(sendPush).toHaveBeenCalledWith("transporter-1", notificationHandlers.claimReleased("booking-1", "Mannerheimintie 1, Helsinki"));
+      expect(sendPush).toHaveBeenCalledWith("consumer-1", notificationHandlers.findingNewTransporter("booking-1"));
+      expect(dispatch.advance).toHaveBeenCalledWith("booking-1");
+    });
+
+    it("leaves a scheduled job accepted from a dispatch offer", async () => {
+      const row = booking({ claimed_at: null });
+      setup([row]);
+
+      const result = await scheduler.run(after(HOUR));
+
+      expect(result.released).toEqual([]);
+      expect(row.transporter_id).toBe("transporter-1");
+      expect(dispatch.advance).not.toHaveBeenCalled();
+    });
+
+    it("leaves a booking whose trip started meanwhile", async () => {
+      const row = booking();
+      const state = setup([row]);
+      // The transporter starts between the scheduler's read and its update
+      db.onQuery((query) => {
+        if (query.action === "update") row.status = "en_route_pickup";
+        return state.answer(query);
+      });
+
+      const result = await scheduler.run(after(16 * MINUTE));
+
+      expect(result.released).toEqual([]);
+      expect(row.transporter_id).toBe("transporter-1");
+      expect(sendPush).not.toHaveBeenCalled();
+      expect(dispatch.advance).not.toHaveBeenCalled();
+    });
+
+    it("keeps the release when dispatching fails", async () => {
+      vi.mocked(dispatch.advance).mockRejectedValue(new Error("dispatch down"));
+      setup([booking()]);
+
+      const result = await scheduler.run(after(16 * MINUTE));
+
+      expect(result.released).toEqual(["booking-1"]);
+      expect(result.failed).toEqual([]);
+    });
+
+    it("reports a release that failed and goes on with the others", async () => {
+      const rows = [booking(), booking({ id: "booking-2" })];
+      const state = setup(rows);
+      db.onQuery((query) =>
+        query.action === "update" && query.match.id === "booking-1" ? { error: new Error("write failed") } : state.answer(query)
+      );
+
+      const result = await scheduler.run(after(16 * MINUTE));
+
+      expect(result.released).toEqual(["booking-2"]);
+      expect(result.failed).toEqual([{ bookingId: "booking-1", error: "write failed" }]);
+    });
+  });
+});
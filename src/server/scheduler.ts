@@ -0,0 +1,212 @@
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import type { Database } from "@/integrations/supabase/database.types";
+import { notificationHandlers } from "@/lib/notifications";
+import { dispatch } from "./dispatch";
+import { sendPush } from "./push";
+
+type BookingRow = Database["public"]["Tables"]["bookings"]["Row"];
+type ScheduledBooking = Pick<BookingRow, "id" | "consumer_id" | "transporter_id" | "pickup_address" | "scheduled_at" | "created_at"> & {
+  transporter: { full_name: string | null } | null;
+};
+
+const DEFAULT_REMINDER_OFFSETS_MINUTES = [24 * 60, 60];
+
+function parseOffsets(value: string | undefined): number[] {
+  const offsets = (value || "")
+    .split(",")
+    .map((offset) => Number(offset.trim()))
+    .filter((offset) => Number.isInteger(offset) && offset > 0);
+
+  return (offsets.length > 0 ? offsets : DEFAULT_REMINDER_OFFSETS_MINUTES).sort((a, b) => b - a);
+}
+
+// Minutes before a scheduled booking starts at which both parties are reminded,
+// furthest first (SCHEDULE_REMINDER_OFFSETS_MINUTES, comma-separated; default 24 h and 1 h)
+export const REMINDER_OFFSETS_MINUTES = parseOffsets(process.env.SCHEDULE_REMINDER_OFFSETS_MINUTES);
+
+// How long past its scheduled time a claimed booking may wait for the trip to
+// start before it is released and dispatched again (SCHEDULE_START_GRACE_MINUTES)
+export const START_GRACE_MINUTES = Number(process.env.SCHEDULE_START_GRACE_MINUTES) || 15;
+
+const RELEASE_REASON = "Released: the transporter did not start the trip in time";
+
+export interface SchedulerRunResult {
+  reminders: number; // reminders sent in this run
+  released: string[]; // bookings whose transporter was released
+  failed: { bookingId: string; error: string }[];
+}
+
+const formatLead = (minutes: number) =>
+  minutes % 60 === 0 ? `${minutes / 60} hour${minutes === 60 ? "" : "s"}` : `${minutes} minutes`;
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString("en-GB", {
+    timeZone: "Europe/Helsinki",
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+async function push(userId: string, payload: Parameters<typeof sendPush>[1]): Promise<boolean> {
+  try {
+    return (await sendPush(userId, payload)) > 0;
+  } catch (pushError) {
+    console.error(`Push to ${userId} failed:`, pushError);
+    return false;
+  }
+}
+
+/**
+ * Send one recipient the nearest of the reminders now due for a booking.
+ * All due offsets are recorded, so a run that catches up after downtime
+ * doesn't send the stale ones. Returns whether a reminder went out.
+ */
+async function remind(booking: ScheduledBooking, recipientId: string, due: number[]): Promise<boolean> {
+  const { data: recorded, error } = await supabaseAdmin
+    .from("booking_reminders")
+    .upsert(
+      due.map((offset) => ({ booking_id: booking.id, recipient_id: recipientId, offset_minutes: offset })),
+      { onConflict: "booking_id,recipient_id,offset_minutes", ignoreDuplicates: true }
+    )
+    .select("id, offset_minutes");
+
+  if (error) throw error;
+
+  const nearest = due[due.length - 1];
+  const reminder = (recorded || []).find((row) => row.offset_minutes === nearest);
+  if (!reminder) {
+    return false;
+  }
+
+  const startsIn = formatLead(nearest);
+  const time = formatTime(booking.scheduled_at);
+  const payload = recipientId === booking.consumer_id
+    ? notificationHandlers.scheduledMoveReminder(booking.id, startsIn, time, booking.transporter_id ? booking.transporter?.full_name || "Your transporter" : null)
+    : notificationHandlers.scheduledJobReminder(booking.id, booking.pickup_address, startsIn, time);
+
+  if (await push(recipientId, payload)) {
+    await supabaseAdmin.from("booking_reminders").update({ push_sent: true }).eq("id", reminder.id);
+  }
+  return true;
+}
+
+async function sendReminders(now: Date, result: SchedulerRunResult): Promise<void> {
+  const horizon = new Date(now.getTime() + REMINDER_OFFSETS_MINUTES[0] * 60 * 1000);
+  const { data: bookings, error } = await supabaseAdmin
+    .from("bookings")
+    .select("id, consumer_id, transporter_id, pickup_address, scheduled_at, created_at, transporter:profiles!transporter_id(full_name)")
+    .in("status", ["pending", "accepted"])
+    .gt("scheduled_at", now.toISOString())
+    .lte("scheduled_at", horizon.toISOString());
+
+  if (error) throw error;
+
+  for (const booking of bookings || []) {
+    const startsAt = new Date(booking.scheduled_at).getTime();
+    const bookedAt = new Date(booking.created_at).getTime();
+
+    // Reminders that fell due before the booking was made are skipped
+    const due = REMINDER_OFFSETS_MINUTES.filter((offset) => {
+      const dueAt = startsAt - offset * 60 * 1000;
+      return dueAt <= now.getTime() && dueAt >= bookedAt;
+    });
+    if (due.length === 0) continue;
+
+    try {
+      for (const recipientId of [booking.consumer_id, booking.transporter_id].filter(Boolean)) {
+        if (await remind(booking, recipientId, due)) {
+          result.reminders += 1;
+        }
+      }
+    } catch (reminderError) {
+      console.error(`Reminder for booking ${booking.id} failed:`, reminderError);
+      result.failed.push({ bookingId: booking.id, error: errorMessage(reminderError, "Reminder failed") });
+    }
+  }
+}
+
+/**
+ * Put a claimed booking whose trip wasn't started back to pending, tell both
+ * parties and offer it again straight away. Returns false if the transporter
+ * started or the booking changed meanwhile.
+ */
+async function release(booking: Pick<BookingRow, "id" | "consumer_id" | "transporter_id" | "pickup_address">): Promise<boolean> {
+  const { data: released, error } = await supabaseAdmin
+    .from("bookings")
+    .update({
+      status: "pending",
+      transporter_id: null,
+      accepted_at: null,
+      claimed_at: null,
+      dispatch_after: new Date().toISOString(), // dispatch at once
+      dispatch_round: 0,
+      dispatched_at: null,
+      dispatch_started_at: null, // the expiry window starts again
+      status_reason: RELEASE_REASON,
+    })
+    .eq("id", booking.id)
+    .eq("status", "accepted")
+    .eq("transporter_id", booking.transporter_id)
+    .select("id")
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!released) {
+    return false;
+  }
+
+  await push(booking.transporter_id, notificationHandlers.claimReleased(booking.id, booking.pickup_address));
+  await push(booking.consumer_id, notificationHandlers.findingNewTransporter(booking.id));
+
+  try {
+    await dispatch.advance(booking.id);
+  } catch (dispatchError) {
+    // The release stands; the dispatch cron offers the booking on its next run
+    console.error(`Dispatch of released booking ${booking.id} failed:`, dispatchError);
+  }
+  return true;
+}
+
+async function releaseClaims(now: Date, result: SchedulerRunResult): Promise<void> {
+  const deadline = new Date(now.getTime() - START_GRACE_MINUTES * 60 * 1000);
+  const { data: overdue, error } = await supabaseAdmin
+    .from("bookings")
+    .select("id, consumer_id, transporter_id, pickup_address")
+    .eq("status", "accepted")
+    // Only claims; a job accepted from a dispatch offer is the transporter's to run late
+    .not("claimed_at", "is", null)
+    .lte("scheduled_at", deadline.toISOString())
+    .order("scheduled_at", { ascending: true })
+    .limit(100);
+
+  if (error) throw error;
+
+  for (const booking of overdue || []) {
+    try {
+      if (await release(booking)) {
+        result.released.push(booking.id);
+      }
+    } catch (releaseError) {
+      console.error(`Release of booking ${booking.id} failed:`, releaseError);
+      result.failed.push({ bookingId: booking.id, error: errorMessage(releaseError, "Release failed") });
+    }
+  }
+}
+
+export const scheduler = {
+  /**
+   * Remind both parties of upcoming scheduled bookings and release claims
+   * whose trip didn't start within the grace period. Run by the cron; `now`
+   * can be moved to try the reminders and releases out locally.
+   */
+  async run(now = new Date()): Promise<SchedulerRunResult> {
+    const result: SchedulerRunResult = { reminders: 0, released: [], failed: [] };
+
+    await sendReminders(now, result);
+    await releaseClaims(now, result);
+
+    return result;
+  },
+};
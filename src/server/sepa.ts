@@ -0,0 +1,131 @@
+// SEPA credit transfer initiation (ISO 20022 pain.001.001.03), the file format
+// Finnish banks accept for outgoing batch payments
+
+export interface SepaParty {
+  name: string;
+  iban: string;
+  bic?: string;
+}
+
+export interface SepaCreditTransfer {
+  endToEndId: string; // max 35 characters, shown to the creditor
+  amount: number; // EUR
+  creditor: SepaParty;
+  remittanceInfo: string; // max 140 characters
+}
+
+export interface SepaBatch {
+  messageId: string; // max 35 characters, unique per file
+  createdAt: Date;
+  executionDate: string; // YYYY-MM-DD
+  debtor: SepaParty;
+  transfers: SepaCreditTransfer[];
+}
+
+export function normalizeIban(iban: string): string {
+  return iban.replace(/\s+/g, "").toUpperCase();
+}
+
+/**
+ * ISO 13616 check: country code, check digits and the mod-97 remainder
+ */
+export function isValidIban(iban: string): boolean {
+  const value = normalizeIban(iban);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(value)) {
+    return false;
+  }
+
+  const rearranged = value.slice(4) + value.slice(0, 4);
+  const digits = rearranged.replace(/[A-Z]/g, (letter) => String(letter.charCodeAt(0) - 55));
+
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+// Only the SEPA Latin character set is safe across banks; ä, ö and å become a, o and a
+function sepaText(value: string, maxLength: number): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9/\-?:().,'+ ]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, maxLength);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+const text = (value: string, maxLength: number) => escapeXml(sepaText(value, maxLength));
+const formatAmount = (eur: number) => (Math.round(eur * 100) / 100).toFixed(2);
+
+function controlSum(transfers: SepaCreditTransfer[]): string {
+  const cents = transfers.reduce((sum, transfer) => sum + Math.round(transfer.amount * 100), 0);
+  return (cents / 100).toFixed(2);
+}
+
+function agent(bic?: string): string {
+  return bic
+    ? `<FinInstnId><BIC>${escapeXml(bic)}</BIC></FinInstnId>`
+    : "<FinInstnId><Othr><Id>NOTPROVIDED</Id></Othr></FinInstnId>";
+}
+
+/**
+ * Build the pain.001 document for one batch: a single payment information
+ * block debiting our account, with one credit transfer per payout
+ */
+export function buildPain001(batch: SepaBatch): string {
+  const count = batch.transfers.length;
+  const sum = controlSum(batch.transfers);
+
+  const transfers = batch.transfers
+    .map(
+      (transfer) => `
+      <CdtTrfTxInf>
+        <PmtId><EndToEndId>${text(transfer.endToEndId, 35)}</EndToEndId></PmtId>
+        <Amt><InstdAmt Ccy="EUR">${formatAmount(transfer.amount)}</InstdAmt></Amt>${
+          transfer.creditor.bic ? `\n        <CdtrAgt>${agent(transfer.creditor.bic)}</CdtrAgt>` : ""
+        }
+        <Cdtr><Nm>${text(transfer.creditor.name, 70)}</Nm></Cdtr>
+        <CdtrAcct><Id><IBAN>${normalizeIban(transfer.creditor.iban)}</IBAN></Id></CdtrAcct>
+        <RmtInf><Ustrd>${text(transfer.remittanceInfo, 140)}</Ustrd></RmtInf>
+      </CdtTrfTxInf>`
+    )
+    .join("");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <CstmrCdtTrfInitn>
+    <GrpHdr>
+      <MsgId>${text(batch.messageId, 35)}</MsgId>
+      <CreDtTm>${batch.createdAt.toISOString().slice(0, 19)}</CreDtTm>
+      <NbOfTxs>${count}</NbOfTxs>
+      <CtrlSum>${sum}</CtrlSum>
+      <InitgPty><Nm>${text(batch.debtor.name, 70)}</Nm></InitgPty>
+    </GrpHdr>
+    <PmtInf>
+      <PmtInfId>${text(batch.messageId, 35)}</PmtInfId>
+      <PmtMtd>TRF</PmtMtd>
+      <BtchBookg>true</BtchBookg>
+      <NbOfTxs>${count}</NbOfTxs>
+      <CtrlSum>${sum}</CtrlSum>
+      <PmtTpInf><SvcLvl><Cd>SEPA</Cd></SvcLvl></PmtTpInf>
+      <ReqdExctnDt>${batch.executionDate}</ReqdExctnDt>
+      <Dbtr><Nm>${text(batch.debtor.name, 70)}</Nm></Dbtr>
+      <DbtrAcct><Id><IBAN>${normalizeIban(batch.debtor.iban)}</IBAN></Id></DbtrAcct>
+      <DbtrAgt>${agent(batch.debtor.bic)}</DbtrAgt>
+      <ChrgBr>SLEV</ChrgBr>${transfers}
+    </PmtInf>
+  </CstmrCdtTrfInitn>
+</Document>
+`;
+}
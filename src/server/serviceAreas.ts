@@ -0,0 +1,54 @@
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import { geometryArea, geometryContains, isAreaGeometry, type AreaGeometry, type LatLngLiteral } from "@/lib/geo";
+
+export interface ServiceArea {
+  id: string;
+  name: string;
+  geometry: AreaGeometry;
+  surcharge: number;
+}
+
+export const serviceAreas = {
+  /**
+   * Active zones, smallest first so enclaves (Kauniainen inside Espoo) win
+   */
+  async getActiveAreas(): Promise<ServiceArea[]> {
+    const { data, error } = await supabaseAdmin
+      .from("service_areas")
+      .select("id, name, geojson, surcharge")
+      .eq("is_active", true);
+
+    if (error) throw error;
+
+    return (data || [])
+      .filter((row) => {
+        if (!isAreaGeometry(row.geojson)) {
+          console.error("Ignoring service area with invalid geometry:", row.id, row.name);
+          return false;
+        }
+        return true;
+      })
+      .map((row) => ({
+        id: row.id,
+        name: row.name,
+        geometry: row.geojson as unknown as AreaGeometry,
+        surcharge: Number(row.surcharge) || 0,
+      }))
+      .sort((a, b) => geometryArea(a.geometry) - geometryArea(b.geometry));
+  },
+
+  /**
+   * Most specific zone containing the point, or null when it is outside every zone
+   */
+  locate(areas: ServiceArea[], point: LatLngLiteral): ServiceArea | null {
+    return areas.find((area) => geometryContains(area.geometry, point)) || null;
+  },
+
+  /**
+   * Surcharge for a trip; a zone is charged once even when both ends are in it
+   */
+  tripSurcharge(zones: ServiceArea[]): number {
+    const distinct = new Map(zones.map((zone) => [zone.id, zone.surcharge]));
+    return Array.from(distinct.values()).reduce((sum, surcharge) => sum + surcharge, 0);
+  },
+};
@@ -0,0 +1,156 @@
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import { notificationHandlers } from "@/lib/notifications";
+import { availabilityAt, localTime, type ShiftCalendar } from "@/lib/shifts";
+import { sendPush } from "./push";
+
+export type ShiftErrorCode = "OFF_SHIFT" | "TIME_OFF";
+
+// Errors going online outside the transporter's calendar (shown to them as-is)
+export class ShiftError extends Error {
+  code: ShiftErrorCode;
+
+  constructor(code: ShiftErrorCode, message: string) {
+    super(message);
+    this.name = "ShiftError";
+    this.code = code;
+  }
+}
+
+// HTTP status for each error code in the API routes
+export const SHIFT_ERROR_STATUS: Record<ShiftErrorCode, number> = {
+  OFF_SHIFT: 409,
+  TIME_OFF: 409,
+};
+
+const SHIFT_ERRORS: Record<ShiftErrorCode, string> = {
+  OFF_SHIFT: "You're outside your working hours. Add a shift for now to go online.",
+  TIME_OFF: "You're on time off today. Remove it from your calendar to go online.",
+};
+
+export interface OnlineStatus {
+  isOnline: boolean;
+  onlineUntil: string | null; // when the shift cron takes them offline; null if not within a week
+}
+
+export interface ShiftRunResult {
+  offline: string[]; // transporters taken offline in this run
+  failed: { transporterId: string; error: string }[];
+}
+
+export const shifts = {
+  /**
+   * Working hours of each transporter, with the days off still ahead.
+   * Every id gets a calendar; an empty one means available all week.
+   */
+  async getCalendars(transporterIds: string[]): Promise<Map<string, ShiftCalendar>> {
+    const calendars = new Map<string, ShiftCalendar>(transporterIds.map((id) => [id, { shifts: [], timeOff: [] }]));
+    if (transporterIds.length === 0) {
+      return calendars;
+    }
+
+    const [shiftRows, timeOffRows] = await Promise.all([
+      supabaseAdmin
+        .from("transporter_shifts")
+        .select("transporter_id, weekday, starts_at, ends_at")
+        .in("transporter_id", transporterIds),
+      supabaseAdmin
+        .from("transporter_time_off")
+        .select("transporter_id, starts_on, ends_on")
+        .in("transporter_id", transporterIds)
+        .gte("ends_on", localTime(new Date()).date),
+    ]);
+
+    if (shiftRows.error) throw shiftRows.error;
+    if (timeOffRows.error) throw timeOffRows.error;
+
+    for (const { transporter_id, ...shift } of shiftRows.data || []) {
+      calendars.get(transporter_id)?.shifts.push(shift);
+    }
+    for (const { transporter_id, ...block } of timeOffRows.data || []) {
+      calendars.get(transporter_id)?.timeOff.push(block);
+    }
+
+    return calendars;
+  },
+
+  /**
+   * Go online or offline. Going online is only allowed while the calendar has
+   * the transporter working; they are taken offline again when that ends.
+   */
+  async setOnline(transporterId: string, isOnline: boolean): Promise<OnlineStatus> {
+    let onlineUntil: string | null = null;
+
+    if (isOnline) {
+      const calendar = (await shifts.getCalendars([transporterId])).get(transporterId);
+      const availability = availabilityAt(calendar, new Date());
+      if (!availability.available) {
+        throw new ShiftError(availability.reason, SHIFT_ERRORS[availability.reason]);
+      }
+      onlineUntil = availability.until?.toISOString() ?? null;
+    }
+
+    const { error } = await supabaseAdmin
+      .from("profiles")
+      .update({ is_online: isOnline })
+      .eq("id", transporterId);
+
+    if (error) throw error;
+
+    return { isOnline, onlineUntil };
+  },
+
+  /**
+   * Take offline every online transporter whose shift has ended or whose time
+   * off has started, and tell them. Run by the cron.
+   */
+  async run(): Promise<ShiftRunResult> {
+    const result: ShiftRunResult = { offline: [], failed: [] };
+
+    const { data: online, error } = await supabaseAdmin
+      .from("profiles")
+      .select("id")
+      .eq("is_online", true)
+      .eq("role", "transporter");
+
+    if (error) throw error;
+
+    const now = new Date();
+    const calendars = await shifts.getCalendars((online || []).map((profile) => profile.id));
+
+    for (const [transporterId, calendar] of calendars) {
+      const availability = availabilityAt(calendar, now);
+      if (availability.available) continue;
+
+      try {
+        // Only if still online, in case they went offline meanwhile
+        const { data: updated, error: updateError } = await supabaseAdmin
+          .from("profiles")
+          .update({ is_online: false })
+          .eq("id", transporterId)
+          .eq("is_online", true)
+          .select("id")
+          .maybeSingle();
+
+        if (updateError) throw updateError;
+        if (!updated) continue;
+
+        result.offline.push(transporterId);
+      } catch (offlineError) {
+        console.error(`Taking transporter ${transporterId} offline failed:`, offlineError);
+        result.failed.push({
+          transporterId,
+          error: offlineError instanceof Error ? offlineError.message : "Going offline failed",
+        });
+        continue;
+      }
+
+      try {
+        await sendPush(transporterId, notificationHandlers.shiftEnded(availability.reason === "TIME_OFF"));
+      } catch (pushError) {
+        console.error(`Push to ${transporterId} failed:`, pushError);
+      }
+    }
+
+    return result;
+  },
+};
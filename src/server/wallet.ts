@@ -0,0 +1,125 @@
+import { randomUUID } from "crypto";
+import { supabaseAdmin } from "@/integrations/supabase/admin";
+import type { Database } from "@/integrations/supabase/database.types";
+import { PaymentError } from "./paymentGateway";
+
+type WalletTransactionRow = Database["public"]["Tables"]["wallet_transactions"]["Row"];
+type WalletTransactionType = Database["public"]["Enums"]["wallet_transaction_type"];
+
+// Credit given to a wallet; the booking's payment share moves only through setHold
+export interface WalletCredit {
+  userId: string;
+  type: Exclude<WalletTransactionType, "payment" | "payment_release">;
+  amount: number; // EUR, positive
+  description: string;
+  idempotencyKey: string;
+  bookingId?: string | null;
+  referralId?: string | null;
+  createdBy?: string | null;
+}
+
+// Rows that make up a booking's hold on the wallet
+const HOLD_TYPES: WalletTransactionType[] = ["payment", "payment_release"];
+
+const toCents = (eur: number) => Math.round(eur * 100);
+const toEur = (cents: number) => cents / 100;
+
+export const wallet = {
+  /**
+   * The user's credit in EUR. With a booking, what that booking already holds
+   * counts as available, since paying again moves the same hold.
+   */
+  async getBalance(userId: string, bookingId?: string): Promise<number> {
+    const { data, error } = await supabaseAdmin
+      .from("wallet_transactions")
+      .select("amount, type, booking_id")
+      .eq("user_id", userId);
+
+    if (error) throw error;
+    const cents = (data || [])
+      .filter((row) => !bookingId || row.booking_id !== bookingId || !HOLD_TYPES.includes(row.type))
+      .reduce((sum, row) => sum + toCents(Number(row.amount)), 0);
+    return toEur(cents);
+  },
+
+  /**
+   * Set how much of the user's wallet the booking holds, releasing any
+   * difference back. Returns the amount held, which is less than asked when
+   * the wallet can't cover it.
+   */
+  async setHold(userId: string, bookingId: string, amount: number): Promise<number> {
+    const { data, error } = await supabaseAdmin.rpc("wallet_set_hold", {
+      p_user_id: userId,
+      p_booking_id: bookingId,
+      p_amount: toEur(toCents(Math.max(amount, 0))),
+    });
+
+    if (error) throw error;
+    return Number(data);
+  },
+
+  // Add credit once per idempotency key; a repeat returns the credit already given
+  async credit(credit: WalletCredit): Promise<WalletTransactionRow> {
+    if (toCents(credit.amount) <= 0) {
+      throw new PaymentError("NOT_ALLOWED", "Wallet credit must be positive");
+    }
+
+    const { error } = await supabaseAdmin
+      .from("wallet_transactions")
+      .upsert(
+        {
+          user_id: credit.userId,
+          type: credit.type,
+          amount: toEur(toCents(credit.amount)),
+          description: credit.description,
+          booking_id: credit.bookingId || null,
+          referral_id: credit.referralId || null,
+          created_by: credit.createdBy || null,
+          idempotency_key: credit.idempotencyKey,
+        },
+        { onConflict: "idempotency_key", ignoreDuplicates: true }
+      );
+
+    if (error) throw error;
+
+    const { data, error: fetchError } = await supabaseAdmin
+      .from("wallet_transactions")
+      .select("*")
+      .eq("idempotency_key", credit.idempotencyKey)
+      .single();
+
+    if (fetchError) throw fetchError;
+    return data;
+  },
+
+  /**
+   * Add credit to a consumer's wallet (admins), for example as a goodwill
+   * gesture or for money received outside the app
+   */
+  async topUp(userId: string, amount: number, note: string | null, adminId: string): Promise<WalletTransactionRow> {
+    const { data: profiles, error } = await supabaseAdmin
+      .from("profiles")
+      .select("id, role")
+      .in("id", [userId, adminId]);
+
+    if (error) throw error;
+    if (profiles?.find((profile) => profile.id === adminId)?.role !== "admin") {
+      throw new PaymentError("FORBIDDEN", "Only admins can top up wallets");
+    }
+    if (profiles?.find((profile) => profile.id === userId)?.role !== "consumer") {
+      throw new PaymentError("NOT_FOUND", "Consumer not found");
+    }
+    if (!Number.isFinite(amount) || toCents(amount) <= 0) {
+      throw new PaymentError("NOT_ALLOWED", "Enter an amount above zero");
+    }
+
+    return this.credit({
+      userId,
+      type: "top_up",
+      amount,
+      description: note?.trim() || "Wallet top-up",
+      idempotencyKey: `top-up-${randomUUID()}`,
+      createdBy: adminId,
+    });
+  },
+};
@@ -0,0 +1,87 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { ResolvedPlace } from "@/server/geocoding";
+import { apiClient } from "./apiClient";
+
+export type SavedAddress = Database["public"]["Tables"]["saved_addresses"]["Row"];
+export type { ResolvedPlace } from "@/server/geocoding";
+
+export const addressService = {
+  // Typeahead suggestions from the server geocoder
+  async suggest(query: string): Promise<ResolvedPlace[]> {
+    try {
+      const { suggestions } = await apiClient.post<{ suggestions: ResolvedPlace[] }>(
+        "/api/geocoding/suggest",
+        { query }
+      );
+      return suggestions;
+    } catch (error) {
+      console.error("Error fetching address suggestions:", error);
+      return [];
+    }
+  },
+
+  // Saved address -> place the booking API accepts without geocoding
+  toPlace(saved: SavedAddress): ResolvedPlace {
+    return {
+      address: saved.address,
+      lat: Number(saved.lat),
+      lng: Number(saved.lng),
+      token: saved.place_token,
+    };
+  },
+
+  async getSavedAddresses(userId: string): Promise<SavedAddress[]> {
+    const { data, error } = await supabase
+      .from("saved_addresses")
+      .select("*")
+      .eq("user_id", userId)
+      .order("label");
+
+    if (error) {
+      console.error("Error fetching saved addresses:", error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  async saveAddress(userId: string, label: string, place: ResolvedPlace) {
+    const { data, error } = await supabase
+      .from("saved_addresses")
+      .insert({
+        user_id: userId,
+        label,
+        address: place.address,
+        lat: place.lat,
+        lng: place.lng,
+        place_token: place.token,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error saving address:", error);
+      return {
+        success: false,
+        error: error.code === "23505" ? `You already have an address called "${label}"` : error.message
+      };
+    }
+
+    return { success: true, data };
+  },
+
+  async deleteSavedAddress(id: string) {
+    const { error } = await supabase
+      .from("saved_addresses")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      console.error("Error deleting saved address:", error);
+      return false;
+    }
+
+    return true;
+  },
+};
@@ -0,0 +1,38 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export const apiClient = {
+  /**
+   * POST JSON to an internal API route, authenticated with the current session
+   */
+  async post<T>(path: string, body: unknown): Promise<T> {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    const response = await fetch(path, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(session ? { Authorization: `Bearer ${session.access_token}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new ApiError(data.message || "Request failed", response.status, data.code);
+    }
+
+    return data as T;
+  },
+};
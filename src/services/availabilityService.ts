@@ -0,0 +1,130 @@
+import { supabase } from "@/integrations/supabase/client";
+import { localTime, type ShiftRow, type TimeOffRow } from "@/lib/shifts";
+import type { OnlineStatus } from "@/server/shifts";
+import { apiClient, ApiError } from "./apiClient";
+
+export type { ShiftCalendar, ShiftRow, TimeOffRow } from "@/lib/shifts";
+export type { OnlineStatus } from "@/server/shifts";
+
+// A shift being edited; times are "HH:MM"
+export interface ShiftInput {
+  weekday: number;
+  startsAt: string;
+  endsAt: string;
+}
+
+export interface TimeOffInput {
+  startsOn: string;
+  endsOn: string;
+  reason?: string;
+}
+
+export const availabilityService = {
+  // Go online or offline; going online outside working hours is refused
+  async setOnline(isOnline: boolean) {
+    try {
+      const data = await apiClient.post<OnlineStatus>("/api/availability/status", { isOnline });
+      return { success: true, data };
+    } catch (error) {
+      console.error("Error updating online status:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Could not update your status",
+        code: error instanceof ApiError ? error.code : undefined
+      };
+    }
+  },
+
+  // Weekly shifts and the days off still ahead
+  async getCalendar(transporterId: string): Promise<{ shifts: ShiftRow[]; timeOff: TimeOffRow[] }> {
+    const today = localTime(new Date()).date;
+    const [shifts, timeOff] = await Promise.all([
+      supabase
+        .from("transporter_shifts")
+        .select("*")
+        .eq("transporter_id", transporterId)
+        .order("weekday")
+        .order("starts_at"),
+      supabase
+        .from("transporter_time_off")
+        .select("*")
+        .eq("transporter_id", transporterId)
+        .gte("ends_on", today)
+        .order("starts_on"),
+    ]);
+
+    if (shifts.error) console.error("Error fetching shifts:", shifts.error);
+    if (timeOff.error) console.error("Error fetching time off:", timeOff.error);
+
+    return { shifts: shifts.data || [], timeOff: timeOff.data || [] };
+  },
+
+  // Replace the whole week; no shifts at all means available all week
+  async saveShifts(transporterId: string, shifts: ShiftInput[]) {
+    const { error: deleteError } = await supabase
+      .from("transporter_shifts")
+      .delete()
+      .eq("transporter_id", transporterId);
+
+    if (deleteError) {
+      console.error("Error clearing shifts:", deleteError);
+      return { success: false, error: deleteError.message };
+    }
+
+    if (shifts.length === 0) {
+      return { success: true, data: [] as ShiftRow[] };
+    }
+
+    const { data, error } = await supabase
+      .from("transporter_shifts")
+      .insert(shifts.map((shift) => ({
+        transporter_id: transporterId,
+        weekday: shift.weekday,
+        starts_at: shift.startsAt,
+        // Midnight at the end of the day is picked as 00:00
+        ends_at: shift.endsAt === "00:00" ? "24:00" : shift.endsAt,
+      })))
+      .select();
+
+    if (error) {
+      console.error("Error saving shifts:", error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, data };
+  },
+
+  async addTimeOff(transporterId: string, input: TimeOffInput) {
+    const { data, error } = await supabase
+      .from("transporter_time_off")
+      .insert({
+        transporter_id: transporterId,
+        starts_on: input.startsOn,
+        ends_on: input.endsOn,
+        reason: input.reason || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error adding time off:", error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, data };
+  },
+
+  async removeTimeOff(timeOffId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from("transporter_time_off")
+      .delete()
+      .eq("id", timeOffId);
+
+    if (error) {
+      console.error("Error removing time off:", error);
+      return false;
+    }
+
+    return true;
+  },
+};
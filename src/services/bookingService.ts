@@ -1,220 +1,106 @@
 import { supabase } from "@/integrations/supabase/client";
 import type { Database } from "@/integrations/supabase/types";
-import { geocodingService } from "./geocodingService";
-import { notificationService, notificationHandlers } from "./notificationService";
+import type { BookingExtras, StopInput, TripQuote } from "@/server/pricingEngine";
+import type { ResolvedPlace } from "@/server/geocoding";
+import { VEHICLE_ITEM_TYPES } from "@/lib/itemTypes";
+import { canTransition } from "@/lib/bookingStatus";
+import { apiClient, ApiError } from "./apiClient";
+import { bookingTransitions } from "./bookingTransitions";
+import type { CancellationQuote } from "@/server/cancellationPolicy";
+import type { ReferralOffer } from "@/server/promotions";
 
 export type Booking = Database["public"]["Tables"]["bookings"]["Row"] & {
   transporter_name?: string;
   consumer_name?: string;
   transporter_earnings?: number;
   item_photos?: string[];
+  offer_expires_at?: string; // open job offers: until when the transporter can answer
+  offer_distance_km?: number;
+  // Consumer bookings; those with refunds or an invoice can't be deleted
+  refunds?: { id: string }[];
+  invoice?: { id: string } | null;
 };
 export type BookingStatus = Database["public"]["Enums"]["booking_status"];
+export type BookingStop = Database["public"]["Tables"]["booking_stops"]["Row"];
+export type BookingEvent = Database["public"]["Tables"]["booking_events"]["Row"] & {
+  actor_name?: string;
+  actor_role?: string;
+};
+export type { BookingExtras, ExtraLineItem, PriceBreakdown, StopInput, TripQuote } from "@/server/pricingEngine";
+export type { CancellationQuote } from "@/server/cancellationPolicy";
+export type { ReferralOffer } from "@/server/promotions";
+
+// A quote; a friend's referral code is described rather than priced
+export type CheckoutQuote = TripQuote & { referral?: ReferralOffer };
 
 type BookingInsert = Database["public"]["Tables"]["bookings"]["Insert"];
-type BookingUpdate = Database["public"]["Tables"]["bookings"]["Update"];
 type ItemType = Database["public"]["Enums"]["item_type"];
+type VehicleType = Database["public"]["Enums"]["vehicle_type"];
 type ItemSize = Database["public"]["Enums"]["item_size"];
 
 export interface BookingFormData {
   pickupAddress: string;
-  pickupLat: number;
-  pickupLng: number;
+  pickupPlace?: ResolvedPlace;
   dropoffAddress: string;
-  dropoffLat: number;
-  dropoffLng: number;
+  dropoffPlace?: ResolvedPlace;
+  additionalStops?: StopInput[]; // between the pickup and the final dropoff
   itemSize: string;
+  itemType: ItemType;
+  estimatedHours?: number;
   itemDescription?: string;
   specialInstructions?: string;
   scheduledFor: string;
   itemPhotos?: string[];
+  extras?: BookingExtras;
+  promoCode?: string; // promotion or referral code
+  rebookOf?: string; // the consumer's expired booking this one replaces
+  prioritySurge?: boolean; // take the priority surcharge offered when rebooking (default true)
 }
 
-interface PriceBreakdown {
-  distanceKm: number;
-  basePrice: number;
-  distancePrice: number;
-  extrasPrice: number;
-  totalPrice: number;
-  platformFee: number;
-  transporterEarnings: number;
-}
-
-// Calculate distance between two coordinates (Haversine formula)
-function calculateDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371; // Radius of the Earth in km
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLon = ((lon2 - lon1) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  const distance = R * c;
-  return distance; // Distance in km
-}
-
-// Calculate price based on distance and item size
-export function calculatePriceBreakdown(
-  pickupLat: number,
-  pickupLng: number,
-  dropoffLat: number,
-  dropoffLng: number,
-  itemSize: string
-): PriceBreakdown {
-  const distance = calculateDistance(pickupLat, pickupLng, dropoffLat, dropoffLng);
-  const roundedDistance = Math.round(distance * 100) / 100;
-  
-  // Base price in EUR
-  const basePrice = 25;
-  
-  // Size multiplier
-  const sizeMultipliers: Record<string, number> = {
-    small: 1,
-    medium: 1.5,
-    large: 2,
-  };
-  
-  const sizeMultiplier = sizeMultipliers[itemSize] || 1;
-  
-  // Distance pricing: €2 per km
-  const distancePrice = roundedDistance * 2;
-  
-  // Total price calculation
-  const extrasPrice = 0; // Future implementation
-  const subTotal = (basePrice + distancePrice) * sizeMultiplier + extrasPrice;
-  const totalPrice = Math.round(subTotal * 100) / 100;
-  
-  // Fee calculation (20% platform fee)
-  const platformFee = Math.round((totalPrice * 0.2) * 100) / 100;
-  const transporterEarnings = Math.round((totalPrice - platformFee) * 100) / 100;
-  
-  return {
-    distanceKm: roundedDistance,
-    basePrice,
-    distancePrice: Math.round(distancePrice * 100) / 100,
-    extrasPrice,
-    totalPrice,
-    platformFee,
-    transporterEarnings,
-  };
-}
-
-// For frontend display compatibility
-export function calculatePrice(
-  pickupLat: number,
-  pickupLng: number,
-  dropoffLat: number,
-  dropoffLng: number,
-  itemSize: string
-): number {
-  const breakdown = calculatePriceBreakdown(pickupLat, pickupLng, dropoffLat, dropoffLng, itemSize);
-  return breakdown.totalPrice;
+/**
+ * Booking status implied by stop progress: items are on board after the first
+ * completed pickup, and the booking is delivered once every stop is done.
+ * Returns null when the current status already fits or cannot move there directly.
+ */
+export function statusForStops(stops: BookingStop[], current: BookingStatus): BookingStatus | null {
+  let implied: BookingStatus | null = null;
+
+  if (stops.length > 0 && stops.every((stop) => stop.status === "completed")) {
+    implied = "delivered";
+  } else if (stops.some((stop) => stop.stop_type === "pickup" && stop.status === "completed")) {
+    implied = "picked_up";
+  }
+
+  return implied && canTransition(current, implied) ? implied : null;
 }
 
 export const bookingService = {
-  // Create a new booking
-  async createBooking(userId: string, formData: BookingFormData) {
+  // Get a server-side price quote (same engine that prices the booking)
+  async getQuote(
+    formData: Pick<BookingFormData, "pickupAddress" | "dropoffAddress" | "pickupPlace" | "dropoffPlace" | "additionalStops" | "itemSize" | "itemType" | "estimatedHours" | "extras" | "promoCode" | "rebookOf" | "prioritySurge">
+  ) {
+    try {
+      const data = await apiClient.post<CheckoutQuote>("/api/pricing/quote", formData);
+      return { success: true, data };
+    } catch (error) {
+      console.error("Error fetching quote:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Price calculation failed",
+        code: error instanceof ApiError ? error.code : undefined
+      };
+    }
+  },
+
+  // Create a new booking (geocoded and priced on the server)
+  async createBooking(formData: BookingFormData) {
     try {
       console.log("🚀 Creating booking with addresses:", {
         pickup: formData.pickupAddress,
         dropoff: formData.dropoffAddress,
       });
 
-      // Geocode pickup address with validation
-      console.log("📍 Geocoding pickup address...");
-      const pickupCoords = await geocodingService.geocodeAddress(formData.pickupAddress);
-      
-      if (!pickupCoords) {
-        throw new Error("Could not find pickup address. Please enter a valid address in Helsinki area.");
-      }
-
-      if (!await geocodingService.validateCoordinates(pickupCoords.lat, pickupCoords.lng)) {
-        throw new Error("Invalid pickup coordinates. Please enter a specific street address.");
-      }
-
-      console.log("✅ Pickup coordinates validated:", pickupCoords);
-
-      // Geocode dropoff address with validation
-      console.log("📍 Geocoding dropoff address...");
-      const dropoffCoords = await geocodingService.geocodeAddress(formData.dropoffAddress);
-      
-      if (!dropoffCoords) {
-        throw new Error("Could not find dropoff address. Please enter a valid address in Helsinki area.");
-      }
-
-      if (!await geocodingService.validateCoordinates(dropoffCoords.lat, dropoffCoords.lng)) {
-        throw new Error("Invalid dropoff coordinates. Please enter a specific street address.");
-      }
-
-      console.log("✅ Dropoff coordinates validated:", dropoffCoords);
-
-      // Calculate distance with real coordinates
-      const distance = geocodingService.calculateDistance(
-        pickupCoords.lat,
-        pickupCoords.lng,
-        dropoffCoords.lat,
-        dropoffCoords.lng
-      );
-
-      console.log("📏 Distance calculated:", distance, "km");
-
-      // Validate distance is reasonable (not 0, not too large)
-      if (distance === 0) {
-        throw new Error("Pickup and dropoff addresses appear to be the same location. Please check the addresses.");
-      }
-
-      if (distance > 100) {
-        throw new Error(`Distance (${distance} km) exceeds maximum allowed range. Please choose addresses within Helsinki metropolitan area.`);
-      }
-
-      // Calculate pricing with validated coordinates
-      const pricing = calculatePriceBreakdown(
-        pickupCoords.lat,
-        pickupCoords.lng,
-        dropoffCoords.lat,
-        dropoffCoords.lng,
-        formData.itemSize
-      );
-
-      console.log("💰 Pricing calculated:", pricing);
-
-      // Create booking with validated data
-      const { data, error } = await supabase
-        .from("bookings")
-        .insert({
-          consumer_id: userId,
-          pickup_address: pickupCoords.formatted_address || formData.pickupAddress,
-          pickup_lat: pickupCoords.lat,
-          pickup_lng: pickupCoords.lng,
-          dropoff_address: dropoffCoords.formatted_address || formData.dropoffAddress,
-          dropoff_lat: dropoffCoords.lat,
-          dropoff_lng: dropoffCoords.lng,
-          item_size: formData.itemSize as "small" | "medium" | "large",
-          item_description: formData.itemDescription || null,
-          special_instructions: formData.specialInstructions || null,
-          scheduled_at: formData.scheduledFor || null,
-          item_photos: formData.itemPhotos || null,
-          distance_km: distance,
-          base_price: pricing.basePrice,
-          distance_price: pricing.distancePrice,
-          extras_price: pricing.extrasPrice,
-          total_price: pricing.totalPrice,
-          platform_fee: pricing.platformFee,
-          transporter_earnings: pricing.transporterEarnings,
-          status: "pending",
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
+      const data = await apiClient.post<Booking>("/api/bookings/create", formData);
 
       console.log("✅ Booking created successfully:", data.id);
       return { success: true, data };
@@ -222,7 +108,8 @@ export const bookingService = {
       console.error("❌ Error creating booking:", error);
       return { 
         success: false, 
-        error: error instanceof Error ? error.message : "Failed to create booking" 
+        error: error instanceof Error ? error.message : "Failed to create booking",
+        code: error instanceof ApiError ? error.code : undefined
       };
     }
   },
@@ -255,7 +142,9 @@ export const bookingService = {
         .from("bookings")
         .select(`
           *,
-          transporter:profiles!transporter_id(full_name)
+          transporter:profiles!transporter_id(full_name),
+          refunds(id),
+          invoice:invoices(id)
         `)
         .eq("consumer_id", consumerId)
         .order("created_at", { ascending: false });
@@ -272,27 +161,93 @@ export const bookingService = {
     }
   },
 
-  // Get available bookings for transporters
-  async getAvailableBookings(): Promise<Booking[]> {
+  // Get the jobs currently offered to this transporter (RLS hides the rest),
+  // optionally limited to item types they can carry
+  async getAvailableBookings(itemTypes?: ItemType[]): Promise<Booking[]> {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from("bookings")
-        .select("*")
+        .select(`
+          *,
+          offer:dispatch_offers!inner(expires_at, distance_km)
+        `)
         .eq("status", "pending")
-        .order("created_at", { ascending: false });
+        .eq("offer.status", "offered");
+
+      if (itemTypes && itemTypes.length > 0) {
+        // Legacy bookings without an item type stay visible to everyone
+        query = query.or(`item_type.is.null,item_type.in.(${itemTypes.join(",")})`);
+      }
+
+      const { data, error } = await query.order("created_at", { ascending: false });
 
       if (error) {
         console.error("Error fetching available bookings:", error);
         return [];
       }
 
-      return data || [];
+      // Transporters only see their own offer of each booking
+      return (data || []).map(({ offer, ...booking }) => ({
+        ...booking,
+        offer_expires_at: offer[0]?.expires_at,
+        offer_distance_km: offer[0]?.distance_km
+      }));
     } catch (error) {
       console.error("Error in getAvailableBookings:", error);
       return [];
     }
   },
 
+  // Get scheduled bookings still open for transporters to claim, soonest first,
+  // optionally limited to item types they can carry
+  async getClaimableBookings(itemTypes?: ItemType[]): Promise<Booking[]> {
+    try {
+      let query = supabase
+        .from("bookings")
+        .select("*")
+        .eq("status", "pending")
+        .is("transporter_id", null)
+        .gt("dispatch_after", new Date().toISOString());
+
+      if (itemTypes && itemTypes.length > 0) {
+        query = query.or(`item_type.is.null,item_type.in.(${itemTypes.join(",")})`);
+      }
+
+      const { data, error } = await query.order("scheduled_at", { ascending: true });
+
+      if (error) {
+        console.error("Error fetching claimable bookings:", error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error("Error in getClaimableBookings:", error);
+      return [];
+    }
+  },
+
+  // Get the item types a transporter's registered vehicle can carry
+  async getHandledItemTypes(transporterId: string): Promise<ItemType[]> {
+    try {
+      const { data, error } = await supabase
+        .from("transporter_applications")
+        .select("vehicle_type")
+        .eq("user_id", transporterId)
+        .order("submitted_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const vehicleType: VehicleType = data?.vehicle_type || "van";
+      return VEHICLE_ITEM_TYPES[vehicleType];
+    } catch (error) {
+      console.error("Error in getHandledItemTypes:", error);
+      return VEHICLE_ITEM_TYPES.van;
+    }
+  },
+
   // Get pending bookings (alias for getAvailableBookings)
   async getPendingBookings(): Promise<Booking[]> {
     return this.getAvailableBookings();
@@ -327,92 +282,173 @@ export const bookingService = {
     }
   },
 
-  // Accept a booking (transporter)
-  async acceptBooking(bookingId: string, transporterId: string): Promise<boolean> {
+  // Accept the job offered to this transporter; fails once the offer expired
+  async acceptBooking(bookingId: string) {
     try {
-      // Update booking with optimistic locking
-      // Only update if status is still 'pending' AND transporter_id is null
-      const { data, error } = await supabase
-        .from("bookings")
-        .update({ 
-          status: "accepted",
-          transporter_id: transporterId 
-        })
-        .eq("id", bookingId)
-        .eq("status", "pending")
-        .is("transporter_id", null)
-        .select();
+      await apiClient.post<{ success: boolean }>("/api/dispatch/respond", { bookingId, response: "accept" });
+    } catch (error) {
+      console.error("Error accepting job offer:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Could not accept the job"
+      };
+    }
 
-      if (error) {
-        console.error("Error accepting booking:", error);
-        return false;
-      }
+    await bookingTransitions.announce(bookingId, "accepted");
+    return { success: true };
+  },
 
-      // Check if update was successful (at least one row updated)
-      if (!data || data.length === 0) {
-        console.log("Booking was already taken or doesn't exist");
-        return false;
-      }
+  // Claim a scheduled job ahead of time; it is released again if the trip isn't started on time
+  async claimBooking(bookingId: string) {
+    try {
+      await apiClient.post<{ success: boolean }>("/api/dispatch/claim", { bookingId });
+    } catch (error) {
+      console.error("Error claiming scheduled job:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Could not claim the job"
+      };
+    }
 
-      console.log("Booking accepted successfully:", data[0]);
-      return true;
+    await bookingTransitions.announce(bookingId, "accepted");
+    return { success: true };
+  },
+
+  // Pass on the job offered to this transporter; it moves on to the next one
+  async declineOffer(bookingId: string) {
+    try {
+      await apiClient.post<{ success: boolean }>("/api/dispatch/respond", { bookingId, response: "decline" });
+      return { success: true };
     } catch (error) {
-      console.error("Error in acceptBooking:", error);
-      return false;
+      console.error("Error declining job offer:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Could not decline the job"
+      };
     }
   },
 
-  // Update booking status
-  async updateBookingStatus(
-    bookingId: string,
-    status: BookingStatus
-  ): Promise<boolean> {
+  // The one way to change a booking's status
+  async transitionStatus(bookingId: string, status: BookingStatus, reason?: string) {
+    return bookingTransitions.transition(bookingId, status, { reason });
+  },
+
+  // Fee, refund and penalty for cancelling now, to show before the user confirms
+  async getCancellationQuote(bookingId: string) {
     try {
-      const updates: BookingUpdate = { status };
+      const data = await apiClient.post<CancellationQuote>("/api/bookings/cancellation-quote", { bookingId });
+      return { success: true, data };
+    } catch (error) {
+      console.error("Error fetching cancellation quote:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Could not calculate cancellation fee"
+      };
+    }
+  },
 
-      // Add timestamps for specific statuses
-      if (status === "delivered") {
-        updates.completed_at = new Date().toISOString();
-      }
+  // Cancel under the cancellation policy on the quote the user confirmed; the server captures the
+  // fee or refunds what the policy returns. CONFLICT means the quote changed and must be shown again
+  async cancelBooking(quote: CancellationQuote, reason?: string) {
+    const { bookingId, status, fee, transporterPenalty } = quote;
+    let settlement: CancellationQuote & { refundError?: string };
+    try {
+      settlement = await apiClient.post<CancellationQuote & { refundError?: string }>("/api/bookings/cancel", {
+        bookingId,
+        reason,
+        quote: { status, fee, transporterPenalty },
+      });
+    } catch (error) {
+      console.error("Error cancelling booking:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to cancel booking",
+        code: error instanceof ApiError ? error.code : undefined
+      };
+    }
 
-      const { error } = await supabase
-        .from("bookings")
-        .update(updates)
-        .eq("id", bookingId);
+    await bookingTransitions.announce(bookingId, "cancelled", reason);
 
-      if (error) {
-        console.error("Error updating booking status:", error);
-        return false;
-      }
+    const { refundError, ...data } = settlement;
+    return { success: true, data, refundError };
+  },
 
-      return true;
-    } catch (error) {
-      console.error("Error in updateBookingStatus:", error);
-      return false;
+  // Status history of a booking, oldest first
+  async getBookingEvents(bookingId: string): Promise<BookingEvent[]> {
+    const { data, error } = await supabase
+      .from("booking_events")
+      .select(`
+        *,
+        actor:profiles!actor_id(full_name, role)
+      `)
+      .eq("booking_id", bookingId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching booking events:", error);
+      return [];
     }
+
+    return (data || []).map(({ actor, ...event }) => ({
+      ...event,
+      actor_name: actor?.full_name,
+      actor_role: actor?.role
+    }));
   },
 
-  // Cancel booking
-  async cancelBooking(bookingId: string): Promise<boolean> {
-    try {
-      const { error } = await supabase
-        .from("bookings")
-        .update({ 
-          status: "cancelled",
-          cancelled_at: new Date().toISOString()
-        })
-        .eq("id", bookingId);
+  // Ordered stops of a booking
+  async getBookingStops(bookingId: string): Promise<BookingStop[]> {
+    const { data, error } = await supabase
+      .from("booking_stops")
+      .select("*")
+      .eq("booking_id", bookingId)
+      .order("position");
 
-      if (error) {
-        console.error("Error cancelling booking:", error);
-        return false;
-      }
+    if (error) {
+      console.error("Error fetching booking stops:", error);
+      return [];
+    }
 
-      return true;
-    } catch (error) {
-      console.error("Error in cancelBooking:", error);
-      return false;
+    return data || [];
+  },
+
+  // Stops for several bookings, grouped by booking id
+  async getStopsForBookings(bookingIds: string[]): Promise<Record<string, BookingStop[]>> {
+    if (bookingIds.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from("booking_stops")
+      .select("*")
+      .in("booking_id", bookingIds)
+      .order("position");
+
+    if (error) {
+      console.error("Error fetching booking stops:", error);
+      return {};
+    }
+
+    return (data || []).reduce<Record<string, BookingStop[]>>((grouped, stop) => {
+      (grouped[stop.booking_id] ||= []).push(stop);
+      return grouped;
+    }, {});
+  },
+
+  // Driver marks a stop as arrived or completed
+  async updateStopStatus(stopId: string, status: "arrived" | "completed"): Promise<BookingStop | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from("booking_stops")
+      .update(status === "arrived" ? { status, arrived_at: now } : { status, completed_at: now })
+      .eq("id", stopId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating stop status:", error);
+      return null;
     }
+
+    return data;
   },
 
   // Submit a review for a booking
@@ -435,69 +471,20 @@ export const bookingService = {
   },
 
   /**
-   * Permanently delete a completed or cancelled booking
+   * Permanently delete a completed or cancelled booking. Bookings with
+   * refunds or an invoice are kept, RLS leaves them out.
    */
   async deleteBooking(bookingId: string): Promise<boolean> {
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from("bookings")
       .delete()
-      .eq("id", bookingId);
+      .eq("id", bookingId)
+      .select("id");
 
     if (error) {
       console.error("Error deleting booking:", error);
       return false;
     }
-    return true;
-  },
-
-  async updateStatus(bookingId: string, status: BookingStatus) {
-    const { data, error } = await supabase
-      .from("bookings")
-      .update({ status })
-      .eq("id", bookingId)
-      .select(`
-        *,
-        transporter:profiles!transporter_id(full_name)
-      `)
-      .single();
-
-    if (error) {
-      console.error("Error updating booking status:", error);
-      return null;
-    }
-    
-    // Trigger Notifications based on status
-    if (data && data.consumer_id) {
-      const transporterName = data.transporter?.full_name || "Transporter";
-      
-      let payload = null;
-      
-      switch (status) {
-        case "accepted":
-          payload = notificationHandlers.bookingAccepted(transporterName);
-          break;
-        case "en_route_pickup":
-          payload = notificationHandlers.enRouteToPickup(transporterName, "Calculating...");
-          break;
-        case "picked_up":
-          payload = notificationHandlers.itemPickedUp(transporterName);
-          break;
-        case "en_route_dropoff":
-          payload = notificationHandlers.enRouteToDropoff(transporterName, "Calculating...");
-          break;
-        case "delivered":
-          payload = notificationHandlers.itemDelivered();
-          break;
-        case "cancelled":
-           payload = notificationHandlers.bookingCancelled("Your booking has been cancelled");
-           break;
-      }
-      
-      if (payload) {
-        await notificationService.sendPushNotification(data.consumer_id, payload);
-      }
-    }
-
-    return data;
+    return (data || []).length > 0;
   },
 };
\ No newline at end of file
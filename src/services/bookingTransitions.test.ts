@@ -0,0 +1,240 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { notificationHandlers } from "@/lib/notifications";
+import { createBookingTransitions, type TransitionDeps } from "./bookingTransitions";
+
+// The default instance is built from the real clients; the tests only use their own deps
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+vi.mock("./chatService", () => ({ chatService: {} }));
+vi.mock("./paymentService", () => ({ paymentService: {} }));
+vi.mock("./notificationService", async () => ({
+  ...(await vi.importActual<typeof import("@/lib/notifications")>("@/lib/notifications")),
+  notificationService: {},
+}));
+
+const BOOKING_ID = "booking-1";
+const CONSUMER_ID = "consumer-1";
+const TRANSPORTER_ID = "transporter-1";
+const NOW = new Date("2026-03-02T10:00:00.000Z");
+
+// A supabase query that resolves to `result` however it is chained
+function query(result: { data: unknown; error: unknown }) {
+  const builder = {
+    select: vi.fn(() => builder),
+    update: vi.fn(() => builder),
+    eq: vi.fn(() => builder),
+    single: vi.fn(async () => result),
+    maybeSingle: vi.fn(async () => result),
+  };
+  return builder;
+}
+
+const bookingRow = (status: string, overrides: Record<string, unknown> = {}) => ({
+  id: BOOKING_ID,
+  status,
+  consumer_id: CONSUMER_ID,
+  transporter_id: TRANSPORTER_ID,
+  transporter: { full_name: "Ann" },
+  ...overrides,
+});
+
+function setup(queries: ReturnType<typeof query>[], sessionUserId = TRANSPORTER_ID) {
+  const from = vi.fn();
+  for (const q of queries) from.mockReturnValueOnce(q);
+
+  const deps = {
+    supabase: {
+      from,
+      auth: { getSession: vi.fn(async () => ({ data: { session: { user: { id: sessionUserId } } } })) },
+    },
+    chat: { sendSystemMessage: vi.fn(async () => null) },
+    notifications: { sendPushNotification: vi.fn(async () => undefined) },
+    payments: { capturePayment: vi.fn(async () => ({ success: true })) },
+    now: () => NOW,
+  };
+
+  return { deps, transitions: createBookingTransitions(deps as unknown as TransitionDeps) };
+}
+
+describe("createBookingTransitions", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  describe("transition", () => {
+    it("moves the booking from the status it read and announces it", async () => {
+      const read = query({ data: bookingRow("en_route_pickup"), error: null });
+      const update = query({ data: bookingRow("picked_up"), error: null });
+      const { deps, transitions } = setup([read, update]);
+
+      const result = await transitions.transition(BOOKING_ID, "picked_up");
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ id: BOOKING_ID, status: "picked_up" });
+      expect(result.data).not.toHaveProperty("transporter");
+      expect(update.update).toHaveBeenCalledWith({ status: "picked_up", status_reason: null });
+      expect(update.eq).toHaveBeenCalledWith("id", BOOKING_ID);
+      expect(update.eq).toHaveBeenCalledWith("status", "en_route_pickup");
+      expect(deps.payments.capturePayment).not.toHaveBeenCalled();
+    });
+
+    it("refuses a transition the table doesn't allow without writing", async () => {
+      const read = query({ data: bookingRow("picked_up"), error: null });
+      const { deps, transitions } = setup([read]);
+
+      const result = await transitions.transition(BOOKING_ID, "delivered");
+
+      expect(result).toEqual({
+        success: false,
+        error: "A booking that is picked up cannot be marked delivered",
+      });
+      expect(deps.supabase.from).toHaveBeenCalledTimes(1);
+      expect(deps.chat.sendSystemMessage).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ["pending", "accepted", "Jobs are accepted through their offer"],
+      ["accepted", "cancelled", "Cancellations must go through the cancellation policy"],
+      ["accepted", "pending", "Jobs can't be put back to pending"],
+      ["pending", "expired", "Only bookings nobody accepts in time expire"],
+    ] as const)("leaves %s -> %s to the server", async (from, to, error) => {
+      const read = query({ data: bookingRow(from), error: null });
+      const { deps, transitions } = setup([read]);
+
+      const result = await transitions.transition(BOOKING_ID, to);
+
+      expect(result).toEqual({ success: false, error });
+      expect(deps.supabase.from).toHaveBeenCalledTimes(1);
+    });
+
+    it("reports a booking it can't read", async () => {
+      const read = query({ data: null, error: { message: "not found" } });
+      const { transitions } = setup([read]);
+
+      const result = await transitions.transition(BOOKING_ID, "picked_up");
+
+      expect(result).toEqual({ success: false, error: "Booking not found" });
+    });
+
+    it("reports a conflict when the status changed after it was read", async () => {
+      const read = query({ data: bookingRow("en_route_pickup"), error: null });
+      const update = query({ data: null, error: null });
+      const { deps, transitions } = setup([read, update]);
+
+      const result = await transitions.transition(BOOKING_ID, "picked_up");
+
+      expect(result).toEqual({
+        success: false,
+        error: "The booking was changed by someone else. Please refresh.",
+      });
+      expect(deps.chat.sendSystemMessage).not.toHaveBeenCalled();
+      expect(deps.notifications.sendPushNotification).not.toHaveBeenCalled();
+    });
+
+    it("returns the update error", async () => {
+      const read = query({ data: bookingRow("en_route_pickup"), error: null });
+      const update = query({ data: null, error: { message: "permission denied" } });
+      const { transitions } = setup([read, update]);
+
+      const result = await transitions.transition(BOOKING_ID, "picked_up");
+
+      expect(result).toEqual({ success: false, error: "permission denied" });
+    });
+
+    it("stamps completed_at and captures the payment on delivery", async () => {
+      const read = query({ data: bookingRow("en_route_dropoff"), error: null });
+      const update = query({ data: bookingRow("delivered"), error: null });
+      const { deps, transitions } = setup([read, update]);
+
+      const result = await transitions.transition(BOOKING_ID, "delivered", { reason: "Left at the door" });
+
+      expect(result.success).toBe(true);
+      expect(update.update).toHaveBeenCalledWith({
+        status: "delivered",
+        status_reason: "Left at the door",
+        completed_at: NOW.toISOString(),
+      });
+      expect(deps.payments.capturePayment).toHaveBeenCalledWith(BOOKING_ID);
+    });
+
+    it("keeps the delivery when the capture fails", async () => {
+      const read = query({ data: bookingRow("en_route_dropoff"), error: null });
+      const update = query({ data: bookingRow("delivered"), error: null });
+      const { deps, transitions } = setup([read, update]);
+      deps.payments.capturePayment.mockResolvedValueOnce({ success: false, error: "card declined" } as never);
+
+      const result = await transitions.transition(BOOKING_ID, "delivered");
+
+      expect(result.success).toBe(true);
+      expect(deps.chat.sendSystemMessage).toHaveBeenCalledWith(BOOKING_ID, "The items were delivered.");
+      expect(deps.notifications.sendPushNotification).toHaveBeenCalledWith(CONSUMER_ID, notificationHandlers.itemDelivered());
+    });
+
+    it("posts the chat message and pushes the consumer", async () => {
+      const read = query({ data: bookingRow("en_route_pickup"), error: null });
+      const update = query({ data: bookingRow("picked_up"), error: null });
+      const { deps, transitions } = setup([read, update]);
+
+      await transitions.transition(BOOKING_ID, "picked_up");
+
+      expect(deps.chat.sendSystemMessage).toHaveBeenCalledWith(BOOKING_ID, "Ann picked up the items.");
+      expect(deps.notifications.sendPushNotification).toHaveBeenCalledWith(
+        CONSUMER_ID,
+        notificationHandlers.itemPickedUp("Ann")
+      );
+    });
+  });
+
+  describe("announce", () => {
+    it("tells the transporter when the consumer cancelled", async () => {
+      const load = query({ data: bookingRow("cancelled"), error: null });
+      const { deps, transitions } = setup([load], CONSUMER_ID);
+
+      await transitions.announce(BOOKING_ID, "cancelled", "Plans changed");
+
+      expect(deps.chat.sendSystemMessage).toHaveBeenCalledWith(BOOKING_ID, "The booking was cancelled. Plans changed");
+      expect(deps.notifications.sendPushNotification).toHaveBeenCalledTimes(1);
+      expect(deps.notifications.sendPushNotification).toHaveBeenCalledWith(
+        TRANSPORTER_ID,
+        expect.objectContaining({
+          body: "Plans changed",
+          data: expect.objectContaining({ bookingId: BOOKING_ID, url: "/transporter/dashboard" }),
+        })
+      );
+    });
+
+    it("tells the consumer when the transporter cancelled", async () => {
+      const load = query({ data: bookingRow("cancelled"), error: null });
+      const { deps, transitions } = setup([load], TRANSPORTER_ID);
+
+      await transitions.announce(BOOKING_ID, "cancelled");
+
+      expect(deps.notifications.sendPushNotification).toHaveBeenCalledWith(
+        CONSUMER_ID,
+        expect.objectContaining({
+          body: "Your booking has been cancelled",
+          data: expect.objectContaining({ url: "/consumer/dashboard" }),
+        })
+      );
+    });
+
+    it("skips the chat and the push when nobody else is on the booking", async () => {
+      const load = query({ data: bookingRow("cancelled", { transporter_id: null, transporter: null }), error: null });
+      const { deps, transitions } = setup([load], CONSUMER_ID);
+
+      await transitions.announce(BOOKING_ID, "cancelled", "Plans changed");
+
+      expect(deps.chat.sendSystemMessage).not.toHaveBeenCalled();
+      expect(deps.notifications.sendPushNotification).not.toHaveBeenCalled();
+    });
+
+    it("does nothing when the booking can't be loaded", async () => {
+      const load = query({ data: null, error: { message: "not found" } });
+      const { deps, transitions } = setup([load]);
+
+      await transitions.announce(BOOKING_ID, "delivered");
+
+      expect(deps.chat.sendSystemMessage).not.toHaveBeenCalled();
+      expect(deps.notifications.sendPushNotification).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { BOOKING_STATUS_LABELS, canTransition, type BookingStatus } from "@/lib/bookingStatus";
+import { chatService } from "./chatService";
+import { notificationService, notificationHandlers, type NotificationPayload } from "./notificationService";
+import { paymentService } from "./paymentService";
+
+type BookingRow = Database["public"]["Tables"]["bookings"]["Row"];
+type BookingUpdate = Database["public"]["Tables"]["bookings"]["Update"];
+
+export interface TransitionOptions {
+  reason?: string;
+}
+
+export interface TransitionResult {
+  success: boolean;
+  data?: BookingRow;
+  error?: string;
+}
+
+// Everything a transition touches, so it can run against mocks
+export interface TransitionDeps {
+  supabase: SupabaseClient<Database>;
+  chat: Pick<typeof chatService, "sendSystemMessage">;
+  notifications: Pick<typeof notificationService, "sendPushNotification">;
+  payments: Pick<typeof paymentService, "capturePayment">;
+  now?: () => Date;
+}
+
+// Chat line posted in the booking conversation for each status
+const SYSTEM_MESSAGES: Partial<Record<BookingStatus, (transporterName: string) => string>> = {
+  accepted: (name) => `${name} accepted the booking.`,
+  en_route_pickup: (name) => `${name} is on the way to the pickup.`,
+  picked_up: (name) => `${name} picked up the items.`,
+  en_route_dropoff: (name) => `${name} is on the way to the dropoff.`,
+  delivered: () => "The items were delivered.",
+  cancelled: () => "The booking was cancelled.",
+};
+
+function consumerPush(status: BookingStatus, transporterName: string): NotificationPayload | null {
+  switch (status) {
+    case "accepted":
+      return notificationHandlers.bookingAccepted(transporterName);
+    case "en_route_pickup":
+      return notificationHandlers.enRouteToPickup(transporterName, "Calculating...");
+    case "picked_up":
+      return notificationHandlers.itemPickedUp(transporterName);
+    case "en_route_dropoff":
+      return notificationHandlers.enRouteToDropoff(transporterName, "Calculating...");
+    case "delivered":
+      return notificationHandlers.itemDelivered();
+    default:
+      return null;
+  }
+}
+
+export function createBookingTransitions(deps: TransitionDeps) {
+  const now = deps.now || (() => new Date());
+
+  const announceChange = async (booking: BookingRow, to: BookingStatus, transporterName: string, reason?: string) => {
+    // The chat only exists once a transporter is assigned
+    const message = SYSTEM_MESSAGES[to];
+    if (message && booking.transporter_id) {
+      const suffix = to === "cancelled" && reason ? ` ${reason}` : "";
+      await deps.chat.sendSystemMessage(booking.id, message(transporterName) + suffix);
+    }
+
+    if (to === "cancelled") {
+      // Tell whoever did not cancel
+      const { data: { session } } = await deps.supabase.auth.getSession();
+      const recipient = session?.user.id === booking.consumer_id ? booking.transporter_id : booking.consumer_id;
+      if (recipient) {
+        const payload = notificationHandlers.bookingCancelled(reason || "Your booking has been cancelled");
+        await deps.notifications.sendPushNotification(recipient, {
+          ...payload,
+          data: {
+            ...payload.data,
+            bookingId: booking.id,
+            url: recipient === booking.consumer_id ? "/consumer/dashboard" : "/transporter/dashboard",
+          },
+        });
+      }
+    } else if (booking.consumer_id) {
+      const payload = consumerPush(to, transporterName);
+      if (payload) {
+        await deps.notifications.sendPushNotification(booking.consumer_id, payload);
+      }
+    }
+  };
+
+  const withTransporter = (data: unknown) => {
+    const { transporter, ...booking } = data as BookingRow & { transporter?: { full_name: string | null } | null };
+    return { booking: booking as BookingRow, transporterName: transporter?.full_name || "Transporter" };
+  };
+
+  return {
+    /**
+     * Move a booking to `to`: checks the transition table, stamps the matching
+     * timestamp, posts a system chat message and notifies the other party.
+     * Delivering captures the payment held on the consumer's card.
+     * Jobs are accepted through their dispatch offer or claimed ahead of time,
+     * and cancellations are settled by /api/bookings/cancel instead.
+     * Capture, chat and push failures are logged but do not undo the status change.
+     */
+    async transition(bookingId: string, to: BookingStatus, options: TransitionOptions = {}): Promise<TransitionResult> {
+      const { data: current, error: readError } = await deps.supabase
+        .from("bookings")
+        .select("status, consumer_id, transporter_id")
+        .eq("id", bookingId)
+        .single();
+
+      if (readError || !current?.status) {
+        console.error("Error reading booking status:", readError);
+        return { success: false, error: "Booking not found" };
+      }
+
+      const from = current.status;
+      if (!canTransition(from, to)) {
+        console.error(`Invalid booking status transition: ${from} -> ${to}`);
+        return {
+          success: false,
+          error: `A booking that is ${BOOKING_STATUS_LABELS[from].toLowerCase()} cannot be marked ${BOOKING_STATUS_LABELS[to].toLowerCase()}`
+        };
+      }
+
+      // Cancelling settles fees and refunds on the server; see bookingService.cancelBooking
+      if (to === "cancelled") {
+        return { success: false, error: "Cancellations must go through the cancellation policy" };
+      }
+
+      // Accepting answers the transporter's offer on the server; see bookingService.acceptBooking
+      if (to === "accepted") {
+        return { success: false, error: "Jobs are accepted through their offer" };
+      }
+
+      // Only the scheduler releases a job back to pending; see src/server/scheduler.ts
+      if (to === "pending") {
+        return { success: false, error: "Jobs can't be put back to pending" };
+      }
+
+      // Expiry releases the payment on the server; see src/server/bookingExpiry.ts
+      if (to === "expired") {
+        return { success: false, error: "Only bookings nobody accepts in time expire" };
+      }
+
+      const timestamp = now().toISOString();
+      const updates: BookingUpdate = { status: to, status_reason: options.reason || null };
+      if (to === "delivered") {
+        updates.completed_at = timestamp;
+      }
+
+      // Only from the status we checked, in case someone else moved it meanwhile
+      const { data, error } = await deps.supabase
+        .from("bookings")
+        .update(updates)
+        .eq("id", bookingId)
+        .eq("status", from)
+        .select(`
+          *,
+          transporter:profiles!transporter_id(full_name)
+        `)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error updating booking status:", error);
+        return { success: false, error: error.message };
+      }
+
+      if (!data) {
+        return { success: false, error: "The booking was changed by someone else. Please refresh." };
+      }
+
+      if (to === "delivered") {
+        // The capture route re-checks the status, so a failed capture can simply be retried
+        const capture = await deps.payments.capturePayment(bookingId);
+        if (!capture.success) {
+          console.error(`Payment capture for delivered booking ${bookingId} failed:`, capture.error);
+        }
+      }
+
+      const { booking, transporterName } = withTransporter(data);
+      await announceChange(booking, to, transporterName, options.reason);
+
+      return { success: true, data: booking };
+    },
+
+    /**
+     * Chat message and push for a status change made elsewhere (e.g. a server-side cancellation)
+     */
+    async announce(bookingId: string, to: BookingStatus, reason?: string): Promise<void> {
+      const { data, error } = await deps.supabase
+        .from("bookings")
+        .select(`
+          *,
+          transporter:profiles!transporter_id(full_name)
+        `)
+        .eq("id", bookingId)
+        .single();
+
+      if (error || !data) {
+        console.error("Error loading booking for status announcement:", error);
+        return;
+      }
+
+      const { booking, transporterName } = withTransporter(data);
+      await announceChange(booking, to, transporterName, reason);
+    },
+  };
+}
+
+export const bookingTransitions = createBookingTransitions({
+  supabase,
+  chat: chatService,
+  notifications: notificationService,
+  payments: paymentService,
+});
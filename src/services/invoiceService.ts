@@ -0,0 +1,24 @@
+import type { InvoiceDownload, InvoiceLine } from "@/server/invoices";
+import { apiClient } from "./apiClient";
+
+export type { InvoiceDownload, InvoiceLine };
+
+export const invoiceService = {
+  /**
+   * The booking's VAT invoice (issued on first request) with a short-lived link to its PDF
+   */
+  async getInvoice(
+    bookingId: string
+  ): Promise<{ success: boolean; data?: InvoiceDownload; error?: string }> {
+    try {
+      const data = await apiClient.post<InvoiceDownload>("/api/invoices/download", { bookingId });
+      return { success: true, data };
+    } catch (error) {
+      console.error("Error getting invoice:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Could not create the invoice",
+      };
+    }
+  },
+};
@@ -1,5 +1,7 @@
 import { supabase } from "@/integrations/supabase/client";
 import type { Database } from "@/integrations/supabase/types";
+import type { LatLng, RouteResult } from "@/server/routing";
+import { apiClient } from "@/services/apiClient";
 
 type LocationUpdate = Database["public"]["Tables"]["location_updates"]["Row"];
 type LocationInsert = Database["public"]["Tables"]["location_updates"]["Insert"];
@@ -112,6 +114,16 @@ export const locationService = {
     return channel;
   },
 
+  // Road distance, duration and polyline through the waypoints (server routing provider)
+  async getRoute(waypoints: LatLng[]): Promise<RouteResult | null> {
+    try {
+      return await apiClient.post<RouteResult>("/api/routing/route", { waypoints });
+    } catch (error) {
+      console.error("Error fetching route:", error);
+      return null;
+    }
+  },
+
   // Request browser geolocation
   async getCurrentPosition(): Promise<{ latitude: number; longitude: number } | null> {
     return new Promise((resolve) => {
@@ -169,4 +181,38 @@ export const locationService = {
   stopContinuousTracking(intervalId: NodeJS.Timeout) {
     clearInterval(intervalId);
   },
+
+  // Tell dispatch where an online transporter is (whether they are online is profiles.is_online).
+  // Without a position the last one is kept, and ages out of dispatch after an hour.
+  async reportPosition(transporterId: string): Promise<boolean> {
+    const position = await this.getCurrentPosition();
+    if (!position) {
+      return false;
+    }
+
+    const { error } = await supabase
+      .from("transporter_availability")
+      .upsert(
+        {
+          transporter_id: transporterId,
+          last_location_lat: position.latitude,
+          last_location_lng: position.longitude,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "transporter_id" }
+      );
+
+    if (error) {
+      console.error("Error reporting position:", error);
+      return false;
+    }
+
+    return true;
+  },
+
+  // Report the position of an online transporter every 2 minutes, so nearby jobs reach them
+  startAvailabilityHeartbeat(transporterId: string): NodeJS.Timeout {
+    this.reportPosition(transporterId);
+    return setInterval(() => this.reportPosition(transporterId), 120000);
+  },
 };
\ No newline at end of file
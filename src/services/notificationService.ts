@@ -1,4 +1,7 @@
 import { supabase } from "@/integrations/supabase/client";
+import type { NotificationPayload } from "@/lib/notifications";
+
+export { notificationHandlers, type NotificationPayload } from "@/lib/notifications";
 
 export interface PushSubscription {
   endpoint: string;
@@ -8,16 +11,6 @@ export interface PushSubscription {
   };
 }
 
-export interface NotificationPayload {
-  title: string;
-  body: string;
-  icon?: string;
-  badge?: string;
-  data?: Record<string, unknown>;
-  tag?: string;
-  requireInteraction?: boolean;
-}
-
 class NotificationService {
   private registration: ServiceWorkerRegistration | null = null;
   private subscription: PushSubscription | null = null;
@@ -220,151 +213,4 @@ class NotificationService {
   }
 }
 
-// Notification event handlers for different scenarios
-export const notificationHandlers = {
-  /**
-   * New booking request (for transporter)
-   */
-  newBookingRequest: (bookingId: string, pickup: string, dropoff: string) => ({
-    title: "🚚 New Booking Request!",
-    body: `From ${pickup} to ${dropoff}`,
-    icon: "/favicon.ico",
-    tag: `booking-${bookingId}`,
-    requireInteraction: true,
-    data: {
-      type: "new_booking",
-      bookingId,
-      url: "/transporter/dashboard",
-    },
-  }),
-
-  /**
-   * Booking accepted (for consumer)
-   */
-  bookingAccepted: (transporterName: string) => ({
-    title: "✅ Booking Accepted!",
-    body: `${transporterName} has accepted your booking request`,
-    icon: "/favicon.ico",
-    tag: "booking-accepted",
-    data: {
-      type: "booking_accepted",
-      url: "/consumer/dashboard",
-    },
-  }),
-
-  /**
-   * Transporter en route to pickup (for consumer)
-   */
-  enRouteToPickup: (transporterName: string, eta: string) => ({
-    title: "🚗 Transporter En Route!",
-    body: `${transporterName} is on the way to pick up. ETA: ${eta}`,
-    icon: "/favicon.ico",
-    tag: "en-route-pickup",
-    requireInteraction: true,
-    data: {
-      type: "en_route_pickup",
-      url: "/consumer/dashboard",
-    },
-  }),
-
-  /**
-   * Item picked up (for consumer)
-   */
-  itemPickedUp: (transporterName: string) => ({
-    title: "📦 Item Picked Up!",
-    body: `${transporterName} has picked up your item and is heading to the destination`,
-    icon: "/favicon.ico",
-    tag: "picked-up",
-    data: {
-      type: "picked_up",
-      url: "/consumer/dashboard",
-    },
-  }),
-
-  /**
-   * Transporter en route to dropoff (for consumer)
-   */
-  enRouteToDropoff: (transporterName: string, eta: string) => ({
-    title: "🚚 On the Way to Destination!",
-    body: `${transporterName} is delivering your item. ETA: ${eta}`,
-    icon: "/favicon.ico",
-    tag: "en-route-dropoff",
-    data: {
-      type: "en_route_dropoff",
-      url: "/consumer/dashboard",
-    },
-  }),
-
-  /**
-   * Item delivered (for consumer)
-   */
-  itemDelivered: () => ({
-    title: "🎉 Item Delivered!",
-    body: "Your item has been successfully delivered. Please rate your experience!",
-    icon: "/favicon.ico",
-    tag: "delivered",
-    requireInteraction: true,
-    data: {
-      type: "delivered",
-      url: "/consumer/dashboard",
-    },
-  }),
-
-  /**
-   * New chat message (for both)
-   */
-  newChatMessage: (senderName: string, message: string) => ({
-    title: `💬 ${senderName}`,
-    body: message.length > 50 ? message.substring(0, 50) + "..." : message,
-    icon: "/favicon.ico",
-    tag: "chat-message",
-    data: {
-      type: "chat_message",
-      url: "/consumer/dashboard",
-    },
-  }),
-
-  /**
-   * Payment successful (for consumer)
-   */
-  paymentSuccessful: (amount: number) => ({
-    title: "💳 Payment Successful",
-    body: `Your payment of €${amount.toFixed(2)} has been processed`,
-    icon: "/favicon.ico",
-    tag: "payment-success",
-    data: {
-      type: "payment_success",
-      url: "/consumer/dashboard",
-    },
-  }),
-
-  /**
-   * Earning received (for transporter)
-   */
-  earningReceived: (amount: number) => ({
-    title: "💰 Earning Received!",
-    body: `You've earned €${amount.toFixed(2)} from a completed delivery`,
-    icon: "/favicon.ico",
-    tag: "earning-received",
-    data: {
-      type: "earning_received",
-      url: "/transporter/dashboard",
-    },
-  }),
-
-  /**
-   * Booking cancelled (for both)
-   */
-  bookingCancelled: (reason: string) => ({
-    title: "❌ Booking Cancelled",
-    body: reason || "The booking has been cancelled",
-    icon: "/favicon.ico",
-    tag: "booking-cancelled",
-    data: {
-      type: "booking_cancelled",
-      url: "/consumer/dashboard",
-    },
-  }),
-};
-
 export const notificationService = new NotificationService();
\ No newline at end of file
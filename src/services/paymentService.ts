@@ -1,50 +1,33 @@
 import { supabase } from "@/integrations/supabase/client";
-import type { Database } from "@/integrations/supabase/types";
-
-type PaymentStatus = Database["public"]["Enums"]["payment_status"];
-
-export interface PaymentIntent {
-  id: string;
-  clientSecret: string;
-  amount: number;
-  currency: string;
-  status: string;
-}
-
-export interface MobilePayPayment {
-  paymentId: string;
-  redirectUrl: string;
-  amount: number;
-}
+import type {
+  MobilePayStart,
+  PaymentAuthorization,
+  PaymentSummary,
+  RefundDestination,
+  RefundReason,
+  RefundResult,
+} from "@/server/bookingPayments";
+import { apiClient } from "./apiClient";
+
+export type { MobilePayStart, PaymentAuthorization, PaymentSummary, RefundDestination, RefundReason, RefundResult };
 
 export const paymentService = {
   /**
-   * Create a Stripe Payment Intent for card payments
+   * Hold the booking total on a card. With a saved payment method the server
+   * confirms it; otherwise confirm the returned client secret with Stripe.js.
+   * With useWallet the wallet pays what it can and the card the rest.
    */
-  async createStripePaymentIntent(
+  async authorizeCardPayment(
     bookingId: string,
-    amount: number,
-    paymentMethodId?: string
-  ): Promise<{ success: boolean; data?: PaymentIntent; error?: string }> {
+    paymentMethodId?: string,
+    useWallet = false
+  ): Promise<{ success: boolean; data?: PaymentAuthorization; error?: string }> {
     try {
-      // Call backend API to create payment intent
-      const response = await fetch("/api/payment/create-intent", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          bookingId,
-          amount: Math.round(amount * 100), // Convert to cents
-          currency: "eur",
-          paymentMethodId, // Optional: for saved payment methods
-        }),
+      const data = await apiClient.post<PaymentAuthorization>("/api/payment/create-intent", {
+        bookingId,
+        paymentMethodId, // Optional: for saved payment methods
+        useWallet,
       });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || "Failed to create payment intent");
-      }
-
-      const data = await response.json();
       return { success: true, data };
     } catch (error) {
       console.error("Error creating payment intent:", error);
@@ -56,30 +39,15 @@ export const paymentService = {
   },
 
   /**
-   * Create MobilePay payment
+   * Start a MobilePay payment, less the wallet share with useWallet; send the
+   * user to the returned redirectUrl
    */
   async createMobilePayPayment(
     bookingId: string,
-    amount: number
-  ): Promise<{ success: boolean; data?: MobilePayPayment; error?: string }> {
+    useWallet = false
+  ): Promise<{ success: boolean; data?: MobilePayStart; error?: string }> {
     try {
-      // Call backend API to create MobilePay payment
-      const response = await fetch("/api/payment/mobilepay", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          bookingId,
-          amount: Math.round(amount * 100), // Convert to cents
-          currency: "eur",
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || "Failed to create MobilePay payment");
-      }
-
-      const data = await response.json();
+      const data = await apiClient.post<MobilePayStart>("/api/payment/mobilepay", { bookingId, useWallet });
       return { success: true, data };
     } catch (error) {
       console.error("Error creating MobilePay payment:", error);
@@ -91,125 +59,110 @@ export const paymentService = {
   },
 
   /**
-   * Confirm payment and update booking
+   * Pay the whole booking from the wallet balance
    */
-  async confirmPayment(
+  async payWithWallet(
     bookingId: string
-  ): Promise<{ success: boolean; error: string | null }> {
+  ): Promise<{ success: boolean; data?: PaymentSummary; error?: string }> {
     try {
-      // In production, this would verify the payment with Stripe
-      // For now, we'll simulate successful confirmation
-      
-      // Update booking status to accepted (payment confirmed)
-      const { error: bookingError } = await supabase
-        .from("bookings")
-        .update({ status: "accepted" })
-        .eq("id", bookingId);
-
-      if (bookingError) throw bookingError;
-
-      return { success: true, error: null };
+      const data = await apiClient.post<PaymentSummary>("/api/payment/wallet", { bookingId });
+      return { success: true, data };
     } catch (error) {
-      console.error("Error confirming payment:", error);
+      console.error("Error paying with wallet:", error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : "Payment confirmation failed",
+        error: error instanceof Error ? error.message : "Wallet payment failed",
       };
     }
   },
 
   /**
-   * Get payment details for a booking
+   * Current payment of a booking, checked with MobilePay while it is pending
    */
-  async getPaymentByBooking(bookingId: string) {
+  async getPaymentStatus(
+    bookingId: string
+  ): Promise<{ success: boolean; data?: PaymentSummary | null; error?: string }> {
     try {
-      const { data, error } = await supabase
-        .from("payments")
-        .select("*")
-        .eq("booking_id", bookingId)
-        .maybeSingle();
-
-      if (error) throw error;
-      return data;
+      const data = await apiClient.post<PaymentSummary | null>("/api/payment/status", { bookingId });
+      return { success: true, data };
     } catch (error) {
-      console.error("Error fetching payment:", error);
-      return null;
+      console.error("Error fetching payment status:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Could not load payment status",
+      };
     }
   },
 
   /**
-   * Record payment in database
+   * Check with Stripe that the card payment was authorized and record it
    */
-  async recordPayment(
-    bookingId: string,
-    paymentIntentId: string,
-    amount: number,
-    status: PaymentStatus = "pending"
-  ): Promise<boolean> {
+  async confirmPayment(
+    bookingId: string
+  ): Promise<{ success: boolean; data?: PaymentAuthorization; error?: string }> {
     try {
-      const { error } = await supabase.from("payments").insert({
-        booking_id: bookingId,
-        stripe_payment_intent_id: paymentIntentId,
-        amount,
-        currency: "EUR",
-        status,
-      });
+      const data = await apiClient.post<PaymentAuthorization>("/api/payment/confirm", { bookingId });
+      return { success: true, data };
+    } catch (error) {
+      console.error("Error confirming payment:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Payment confirmation failed",
+      };
+    }
+  },
 
-      if (error) throw error;
-      return true;
+  /**
+   * Charge the held amount of a delivered booking
+   */
+  async capturePayment(
+    bookingId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      await apiClient.post<PaymentSummary | null>("/api/payment/capture", { bookingId });
+      return { success: true };
     } catch (error) {
-      console.error("Error recording payment:", error);
-      return false;
+      console.error("Error capturing payment:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Payment capture failed",
+      };
     }
   },
 
   /**
-   * Update payment status
+   * Get payment details for a booking
    */
-  async updatePaymentStatus(
-    paymentIntentId: string,
-    status: PaymentStatus
-  ): Promise<boolean> {
+  async getPaymentByBooking(bookingId: string) {
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from("payments")
-        .update({ status, updated_at: new Date().toISOString() })
-        .eq("stripe_payment_intent_id", paymentIntentId);
+        .select("*")
+        .eq("booking_id", bookingId)
+        .maybeSingle();
 
       if (error) throw error;
-      return true;
+      return data;
     } catch (error) {
-      console.error("Error updating payment status:", error);
-      return false;
+      console.error("Error fetching payment:", error);
+      return null;
     }
   },
 
   /**
-   * Process refund
+   * Refund part or all of a captured payment (admins), with a reason for the
+   * refund ledger, back the original way or into the consumer's wallet
    */
   async processRefund(
-    paymentIntentId: string,
-    amount: number
-  ): Promise<{ success: boolean; error?: string }> {
+    bookingId: string,
+    amount: number,
+    reason: RefundReason,
+    note?: string,
+    destination: RefundDestination = "original"
+  ): Promise<{ success: boolean; data?: RefundResult; error?: string }> {
     try {
-      const response = await fetch("/api/payment/refund", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          paymentIntentId,
-          amount: Math.round(amount * 100), // Convert to cents
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || "Refund failed");
-      }
-
-      // Update payment status in database
-      await this.updatePaymentStatus(paymentIntentId, "refunded");
-
-      return { success: true };
+      const data = await apiClient.post<RefundResult>("/api/payment/refund", { bookingId, amount, reason, note, destination });
+      return { success: true, data };
     } catch (error) {
       console.error("Error processing refund:", error);
       return {
@@ -218,4 +171,4 @@ export const paymentService = {
       };
     }
   },
-};
\ No newline at end of file
+};
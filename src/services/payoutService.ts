@@ -0,0 +1,58 @@
+import type { Database } from "@/integrations/supabase/database.types";
+import type { PayoutBatchResult } from "@/server/payoutBatches";
+import type { LedgerLine, PayoutBalance, TransporterPayouts } from "@/server/payoutLedger";
+import { apiClient } from "./apiClient";
+
+export type { LedgerLine, PayoutBalance, PayoutBatchResult, TransporterPayouts };
+
+type PayoutBatch = Database["public"]["Tables"]["payout_batches"]["Row"];
+
+export const payoutService = {
+  /**
+   * The signed-in transporter's balances, payouts and ledger activity
+   */
+  async getMyPayouts(): Promise<{ success: boolean; data?: TransporterPayouts; error?: string }> {
+    try {
+      const data = await apiClient.post<TransporterPayouts>("/api/payouts/summary", {});
+      return { success: true, data };
+    } catch (error) {
+      console.error("Error loading payouts:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to load payouts",
+      };
+    }
+  },
+
+  /**
+   * Run this week's payout batch now instead of waiting for the scheduler (admins)
+   */
+  async runWeeklyBatch(): Promise<{ success: boolean; data?: PayoutBatchResult; error?: string }> {
+    try {
+      const data = await apiClient.post<PayoutBatchResult>("/api/cron/weekly-payouts", {});
+      return { success: true, data };
+    } catch (error) {
+      console.error("Error running payout batch:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Payout batch failed",
+      };
+    }
+  },
+
+  /**
+   * Mark a batch paid after the bank executed its pain.001 file (admins)
+   */
+  async settleBatch(batchId: string): Promise<{ success: boolean; data?: PayoutBatch; error?: string }> {
+    try {
+      const data = await apiClient.post<PayoutBatch>("/api/payouts/settle", { batchId });
+      return { success: true, data };
+    } catch (error) {
+      console.error("Error settling payout batch:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to settle payout batch",
+      };
+    }
+  },
+};
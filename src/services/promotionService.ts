@@ -0,0 +1,84 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type PromotionRow = Database["public"]["Tables"]["promotions"]["Row"];
+export type PromotionType = Database["public"]["Enums"]["promotion_type"];
+export type PromotionWithUsage = PromotionRow & { redemptions: number };
+
+export interface PromotionInput {
+  code: string;
+  description?: string;
+  discountType: PromotionType;
+  value: number; // percent, or EUR for fixed discounts
+  maxDiscount?: number | null;
+  startsAt?: string;
+  expiresAt?: string | null;
+  usageLimit?: number | null;
+  perUserLimit?: number | null;
+}
+
+export const promotionService = {
+  // Every promotion with how many bookings used it (admin only by RLS)
+  async getAll(): Promise<PromotionWithUsage[]> {
+    const { data, error } = await supabase
+      .from("promotions")
+      .select("*, promotion_redemptions(count)")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching promotions:", error);
+      return [];
+    }
+
+    return (data || []).map(({ promotion_redemptions, ...promotion }) => ({
+      ...promotion,
+      redemptions: promotion_redemptions[0]?.count ?? 0,
+    }));
+  },
+
+  async create(input: PromotionInput, createdBy: string) {
+    const { data, error } = await supabase
+      .from("promotions")
+      .insert({
+        code: input.code.trim().toUpperCase(),
+        description: input.description || null,
+        discount_type: input.discountType,
+        value: input.value,
+        max_discount: input.discountType === "fixed" ? null : input.maxDiscount ?? null,
+        ...(input.startsAt ? { starts_at: input.startsAt } : {}),
+        expires_at: input.expiresAt || null,
+        usage_limit: input.usageLimit ?? null,
+        per_user_limit: input.perUserLimit ?? null,
+        created_by: createdBy,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating promotion:", error);
+      return {
+        success: false,
+        error: error.code === "23505" ? "A promotion with this code already exists" : error.message,
+      };
+    }
+
+    return { success: true, data };
+  },
+
+  // Codes are never deleted once used; switching one off stops new redemptions
+  async setActive(id: string, isActive: boolean) {
+    const { data, error } = await supabase
+      .from("promotions")
+      .update({ is_active: isActive })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating promotion:", error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, data };
+  },
+};
@@ -1,8 +1,8 @@
 import { supabase } from "@/integrations/supabase/client";
-import type { Database } from "@/integrations/supabase/types";
+import type { CardSetup, SavedCardResult } from "@/server/savedCards";
+import { apiClient } from "./apiClient";
 
-type SavedPaymentMethod = Database["public"]["Tables"]["saved_payment_methods"]["Row"];
-type SavedPaymentMethodInsert = Database["public"]["Tables"]["saved_payment_methods"]["Insert"];
+export type { CardSetup, SavedCardResult };
 
 export const savedPaymentMethodService = {
   /**
@@ -55,19 +55,37 @@ export const savedPaymentMethodService = {
   },
 
   /**
-   * Save a new payment method
+   * Start saving a card: confirm the returned client secret with Stripe.js
+   * (confirmCardSetup), then call saveCard. The test payment method is
+   * confirmed by the server instead, when Stripe.js is not configured.
    */
-  async savePaymentMethod(paymentMethod: SavedPaymentMethodInsert) {
+  async startCardSetup(testPaymentMethodId?: string) {
     try {
-      const { data, error } = await supabase
-        .from("saved_payment_methods")
-        .insert(paymentMethod)
-        .select()
-        .single();
+      const data = await apiClient.post<CardSetup>("/api/payment-methods/setup", {
+        paymentMethodId: testPaymentMethodId,
+      });
+      return { data, error: null };
+    } catch (error) {
+      console.error("Error starting card setup:", error);
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : "Failed to start saving the card",
+      };
+    }
+  },
 
-      if (error) throw error;
+  /**
+   * Save the card of a confirmed SetupIntent. The server reads the card from
+   * Stripe and returns the existing card when this one was saved before.
+   */
+  async saveCard(setupIntentId: string, cardholderName: string) {
+    try {
+      const data = await apiClient.post<SavedCardResult>("/api/payment-methods/save", {
+        setupIntentId,
+        cardholderName,
+      });
 
-      console.log("Saved payment method:", { id: data.id, last4: data.card_last4 });
+      console.log("Saved payment method:", { id: data.card.id, last4: data.card.card_last4, duplicate: data.duplicate });
       return { data, error: null };
     } catch (error) {
       console.error("Error saving payment method:", error);
@@ -105,17 +123,11 @@ export const savedPaymentMethodService = {
   },
 
   /**
-   * Delete a saved payment method
+   * Delete a saved payment method; it is detached from the Stripe Customer too
    */
-  async deletePaymentMethod(paymentMethodId: string, userId: string) {
+  async deletePaymentMethod(paymentMethodId: string) {
     try {
-      const { error } = await supabase
-        .from("saved_payment_methods")
-        .delete()
-        .eq("id", paymentMethodId)
-        .eq("user_id", userId);
-
-      if (error) throw error;
+      await apiClient.post<{ success: boolean }>("/api/payment-methods/delete", { savedCardId: paymentMethodId });
 
       console.log("Deleted payment method:", { id: paymentMethodId });
       return { error: null };
@@ -126,35 +138,4 @@ export const savedPaymentMethodService = {
       };
     }
   },
-
-  /**
-   * Check if card already exists (by last 4 digits and expiry)
-   */
-  async checkDuplicateCard(
-    userId: string,
-    last4: string,
-    expMonth: number,
-    expYear: number
-  ) {
-    try {
-      const { data, error } = await supabase
-        .from("saved_payment_methods")
-        .select("id")
-        .eq("user_id", userId)
-        .eq("card_last4", last4)
-        .eq("card_exp_month", expMonth)
-        .eq("card_exp_year", expYear)
-        .maybeSingle();
-
-      if (error) throw error;
-
-      return { exists: !!data, error: null };
-    } catch (error) {
-      console.error("Error checking duplicate card:", error);
-      return {
-        exists: false,
-        error: error instanceof Error ? error.message : "Failed to check duplicate card",
-      };
-    }
-  },
-};
\ No newline at end of file
+};
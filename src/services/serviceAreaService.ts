@@ -0,0 +1,78 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/database.types";
+import type { Database } from "@/integrations/supabase/types";
+import type { AreaGeometry } from "@/lib/geo";
+
+export type ServiceAreaRow = Database["public"]["Tables"]["service_areas"]["Row"];
+
+export const serviceAreaService = {
+  // All zones, active or not (admin only by RLS)
+  async getAll(): Promise<ServiceAreaRow[]> {
+    const { data, error } = await supabase
+      .from("service_areas")
+      .select("*")
+      .order("name");
+
+    if (error) {
+      console.error("Error fetching service areas:", error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  // New zones start inactive so they can be checked on the map first
+  async create(name: string, geometry: AreaGeometry, surcharge: number) {
+    const { data, error } = await supabase
+      .from("service_areas")
+      .insert({ name, geojson: geometry as unknown as Json, surcharge, is_active: false })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating service area:", error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, data };
+  },
+
+  async update(
+    id: string,
+    updates: { name?: string; geometry?: AreaGeometry; surcharge?: number; isActive?: boolean }
+  ) {
+    const { data, error } = await supabase
+      .from("service_areas")
+      .update({
+        ...(updates.name !== undefined ? { name: updates.name } : {}),
+        ...(updates.geometry ? { geojson: updates.geometry as unknown as Json } : {}),
+        ...(updates.surcharge !== undefined ? { surcharge: updates.surcharge } : {}),
+        ...(updates.isActive !== undefined ? { is_active: updates.isActive } : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating service area:", error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, data };
+  },
+
+  async remove(id: string) {
+    const { error } = await supabase
+      .from("service_areas")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      console.error("Error deleting service area:", error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  },
+};
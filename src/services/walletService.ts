@@ -0,0 +1,74 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { apiClient } from "./apiClient";
+
+export type WalletTransaction = Database["public"]["Tables"]["wallet_transactions"]["Row"];
+export type Referral = Database["public"]["Tables"]["referrals"]["Row"];
+
+export interface Wallet {
+  balance: number; // EUR of credit
+  transactions: WalletTransaction[];
+}
+
+const toCents = (eur: number) => Math.round(eur * 100);
+
+export const walletService = {
+  // The user's credit and its history, newest first (own rows only by RLS)
+  async getWallet(userId: string): Promise<Wallet> {
+    const { data, error } = await supabase
+      .from("wallet_transactions")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching wallet:", error);
+      return { balance: 0, transactions: [] };
+    }
+
+    const cents = (data || []).reduce((sum, transaction) => sum + toCents(Number(transaction.amount)), 0);
+    return { balance: cents / 100, transactions: data || [] };
+  },
+
+  // Credit the booking already holds from an unfinished payment can pay it again
+  availableFor(wallet: Wallet, bookingId: string): number {
+    const held = wallet.transactions
+      .filter((transaction) => transaction.booking_id === bookingId && (transaction.type === "payment" || transaction.type === "payment_release"))
+      .reduce((sum, transaction) => sum - toCents(Number(transaction.amount)), 0);
+    return (toCents(wallet.balance) + held) / 100;
+  },
+
+  // Add credit to a consumer's wallet (admins)
+  async topUp(
+    userId: string,
+    amount: number,
+    note?: string
+  ): Promise<{ success: boolean; data?: WalletTransaction; error?: string }> {
+    try {
+      const data = await apiClient.post<WalletTransaction>("/api/wallet/top-up", { userId, amount, note });
+      return { success: true, data };
+    } catch (error) {
+      console.error("Error topping up wallet:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Wallet top-up failed",
+      };
+    }
+  },
+
+  // Friends who entered the user's referral code
+  async getReferrals(userId: string): Promise<Referral[]> {
+    const { data, error } = await supabase
+      .from("referrals")
+      .select("*")
+      .eq("referrer_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching referrals:", error);
+      return [];
+    }
+
+    return data || [];
+  },
+};
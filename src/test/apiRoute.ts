@@ -0,0 +1,29 @@
+// Records what the route answered
+export function createResponse() {
+  const response = {
+    statusCode: 200,
+    body: undefined as unknown,
+    headers: {} as Record<string, unknown>,
+    status(code: number) {
+      response.statusCode = code;
+      return response;
+    },
+    json(body: unknown) {
+      response.body = body;
+      return response;
+    },
+    send(body: unknown) {
+      response.body = body;
+      return response;
+    },
+    setHeader(name: string, value: unknown) {
+      response.headers[name.toLowerCase()] = value;
+      return response;
+    },
+    end() {
+      return response;
+    },
+  };
+  return response;
+}
+
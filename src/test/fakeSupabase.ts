@@ -0,0 +1,123 @@
+import { vi } from "vitest";
+
+// One `supabase.from(table)...` chain, as it was built when it ran
+export interface FakeQuery {
+  table: string;
+  action: "select" | "insert" | "update" | "upsert" | "delete";
+  values?: unknown; // rows passed to insert, update or upsert
+  match: Record<string, unknown>; // .eq() filters
+  filters: [string, ...unknown[]][]; // every other filter, e.g. ["in", "status", [...]]
+  single: boolean; // ended in .single() or .maybeSingle()
+}
+
+export interface FakeResult {
+  data?: unknown;
+  error?: unknown;
+  count?: number;
+}
+
+export type QueryHandler = (query: FakeQuery) => FakeResult | undefined;
+export type RpcHandler = (name: string, args: Record<string, unknown>) => FakeResult | undefined;
+
+const FILTERS = ["neq", "gt", "gte", "lt", "lte", "in", "is", "not", "or", "like", "ilike", "contains", "filter"];
+const MODIFIERS = ["order", "limit", "range", "returns"];
+
+/**
+ * In-memory stand-in for a Supabase client. Every query is recorded and
+ * answered by the handler (no rows and no error unless it says otherwise).
+ * Pass it to vi.mock for "@/integrations/supabase/admin" or "/client".
+ */
+export function createFakeSupabase() {
+  let queryHandler: QueryHandler = () => undefined;
+  let rpcHandler: RpcHandler = () => undefined;
+  const queries: FakeQuery[] = [];
+  const rpcs: { name: string; args: Record<string, unknown> }[] = [];
+
+  const respond = (result: FakeResult | undefined) => ({
+    data: result?.data ?? null,
+    error: result?.error ?? null,
+    count: result?.count ?? null,
+  });
+
+  const from = (table: string) => {
+    const query: FakeQuery = { table, action: "select", match: {}, filters: [], single: false };
+    const run = async () => {
+      queries.push(query);
+      return respond(queryHandler(query));
+    };
+
+    const act = (action: FakeQuery["action"], values?: unknown) => {
+      query.action = action;
+      query.values = values;
+      return chain;
+    };
+
+    const chain: Record<string, unknown> = {
+      select: () => chain,
+      insert: (values: unknown) => act("insert", values),
+      update: (values: unknown) => act("update", values),
+      upsert: (values: unknown) => act("upsert", values),
+      delete: () => act("delete"),
+      eq: (column: string, value: unknown) => {
+        query.match[column] = value;
+        return chain;
+      },
+      single: () => {
+        query.single = true;
+        return run();
+      },
+      maybeSingle: () => {
+        query.single = true;
+        return run();
+      },
+      then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) => run().then(resolve, reject),
+    };
+    for (const name of FILTERS) {
+      chain[name] = (...args: unknown[]) => {
+        query.filters.push([name, ...args]);
+        return chain;
+      };
+    }
+    for (const name of MODIFIERS) {
+      chain[name] = () => chain;
+    }
+
+    return chain;
+  };
+
+  return {
+    from: vi.fn(from),
+    rpc: vi.fn(async (name: string, args: Record<string, unknown> = {}) => {
+      rpcs.push({ name, args });
+      return respond(rpcHandler(name, args));
+    }),
+    auth: {
+      getUser: vi.fn(async () => ({ data: { user: null as { id: string } | null }, error: null as unknown })),
+      getSession: vi.fn(async () => ({ data: { session: null }, error: null })),
+    },
+    queries,
+    rpcs,
+
+    onQuery(handler: QueryHandler) {
+      queryHandler = handler;
+    },
+
+    onRpc(handler: RpcHandler) {
+      rpcHandler = handler;
+    },
+
+    // Queries on `table`, optionally only one kind of them
+    queriesOn(table: string, action?: FakeQuery["action"]) {
+      return queries.filter((query) => query.table === table && (!action || query.action === action));
+    },
+
+    reset() {
+      queryHandler = () => undefined;
+      rpcHandler = () => undefined;
+      queries.length = 0;
+      rpcs.length = 0;
+    },
+  };
+}
+
+export type FakeSupabase = ReturnType<typeof createFakeSupabase>;
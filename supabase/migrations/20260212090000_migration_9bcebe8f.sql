@@ -0,0 +1,43 @@
+-- Create versioned pricing tariffs used by the server-side pricing engine
+CREATE TABLE pricing_tariffs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  version INTEGER UNIQUE NOT NULL,
+  base_fee NUMERIC(8, 2) NOT NULL,
+  distance_bands JSONB NOT NULL, -- [{ "up_to_km": 10, "per_km": 2 }, { "up_to_km": null, "per_km": 1.5 }]
+  size_multipliers JSONB NOT NULL, -- { "small": 1, "medium": 1.5, "large": 2 }
+  minimum_fare NUMERIC(8, 2) NOT NULL DEFAULT 0,
+  platform_fee_percent NUMERIC(5, 2) NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  effective_from TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS (the pricing engine reads tariffs with the service role)
+ALTER TABLE pricing_tariffs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage pricing tariffs" ON pricing_tariffs
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE INDEX idx_pricing_tariffs_active ON pricing_tariffs(is_active, effective_from DESC);
+
+-- Seed version 1 with the rates previously hard-coded in bookingService
+INSERT INTO pricing_tariffs (version, base_fee, distance_bands, size_multipliers, minimum_fare, platform_fee_percent, is_active)
+VALUES (
+  1,
+  25,
+  '[{ "up_to_km": null, "per_km": 2 }]'::jsonb,
+  '{ "small": 1, "medium": 1.5, "large": 2 }'::jsonb,
+  25,
+  20,
+  true
+);
+
+-- Record which tariff produced each booking price
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS tariff_version INTEGER REFERENCES pricing_tariffs(version);
+
+COMMENT ON COLUMN bookings.tariff_version IS 'Version of pricing_tariffs used by the server to price this booking';
+
+-- Bookings are now inserted by the server after pricing, never directly by the browser
+DROP POLICY IF EXISTS "Consumers can create bookings" ON bookings;
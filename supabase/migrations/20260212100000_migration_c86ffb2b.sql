@@ -0,0 +1,21 @@
+-- Add tariff rates for optional booking extras
+ALTER TABLE pricing_tariffs
+  ADD COLUMN IF NOT EXISTS extras_rates JSONB NOT NULL DEFAULT '{ "stairs_per_floor": 5, "helper": 25, "assembly": 30, "packing_materials": 15 }'::jsonb;
+
+COMMENT ON COLUMN pricing_tariffs.extras_rates IS 'EUR rates for extras: stairs_per_floor (per floor carried without elevator), helper (per extra helper), assembly, packing_materials';
+
+-- Store the extras requested for each booking and the priced line items
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS pickup_floor INTEGER NOT NULL DEFAULT 0 CHECK (pickup_floor >= 0),
+  ADD COLUMN IF NOT EXISTS pickup_has_elevator BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS dropoff_floor INTEGER NOT NULL DEFAULT 0 CHECK (dropoff_floor >= 0),
+  ADD COLUMN IF NOT EXISTS dropoff_has_elevator BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS helper_count INTEGER NOT NULL DEFAULT 0 CHECK (helper_count >= 0 AND helper_count <= 3),
+  ADD COLUMN IF NOT EXISTS needs_assembly BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS packing_materials BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS extras_breakdown JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN bookings.pickup_floor IS 'Floors above street level at pickup (0 = street level)';
+COMMENT ON COLUMN bookings.helper_count IS 'Additional helpers requested on top of the driver';
+COMMENT ON COLUMN bookings.needs_assembly IS 'Furniture assembly and/or disassembly requested';
+COMMENT ON COLUMN bookings.extras_breakdown IS 'Priced extras line items [{ code, label, quantity, unitPrice, amount }] as charged at booking time';
@@ -0,0 +1,21 @@
+-- Per item type pricing rules: flat surcharges and hourly pricing for home moves
+ALTER TABLE pricing_tariffs
+  ADD COLUMN IF NOT EXISTS item_type_rules JSONB NOT NULL DEFAULT '{
+    "small_furniture": {},
+    "large_furniture": { "surcharge": 10 },
+    "appliances": { "surcharge": 10 },
+    "fragile": { "surcharge": 15 },
+    "home_move": { "hourly_rate": 65, "min_hours": 2 }
+  }'::jsonb;
+
+COMMENT ON COLUMN pricing_tariffs.item_type_rules IS 'Per item_type rules: surcharge (EUR, flat) and/or hourly_rate + min_hours (replaces base fee and size multiplier)';
+
+-- item_type is in use again alongside item_size
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS item_type_surcharge NUMERIC(8, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS estimated_hours NUMERIC(4, 1);
+
+COMMENT ON COLUMN bookings.item_type IS 'Category of the move; drives per-type pricing rules and which vehicles can take the job. NULL only on legacy bookings.';
+COMMENT ON COLUMN bookings.estimated_hours IS 'Hours requested for hourly-priced item types (home_move)';
+
+CREATE INDEX IF NOT EXISTS idx_bookings_status_item_type ON bookings(status, item_type);
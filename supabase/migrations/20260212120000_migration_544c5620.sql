@@ -0,0 +1,21 @@
+-- Server-side geocoding cache, keyed by normalized address per provider
+CREATE TABLE geocode_cache (
+  normalized_address TEXT NOT NULL,
+  provider TEXT NOT NULL, -- google | nominatim | digitransit | fixture
+  lat NUMERIC(10, 7) NOT NULL,
+  lng NUMERIC(10, 7) NOT NULL,
+  formatted_address TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (normalized_address, provider)
+);
+
+-- Enable RLS (only the server reads and writes the cache, via the service role)
+ALTER TABLE geocode_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view geocode cache" ON geocode_cache
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE INDEX idx_geocode_cache_updated_at ON geocode_cache(updated_at);
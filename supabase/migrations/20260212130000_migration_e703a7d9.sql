@@ -0,0 +1,37 @@
+-- Admin-managed service areas (GeoJSON polygons) replacing the Finland bounding box check
+CREATE TABLE service_areas (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  geojson JSONB NOT NULL, -- GeoJSON Polygon or MultiPolygon geometry, [lng, lat] positions
+  surcharge NUMERIC(8, 2) NOT NULL DEFAULT 0 CHECK (surcharge >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS (the pricing engine reads zones with the service role)
+ALTER TABLE service_areas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active service areas" ON service_areas
+  FOR SELECT USING (is_active = true);
+
+CREATE POLICY "Admins can manage service areas" ON service_areas
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE INDEX idx_service_areas_active ON service_areas(is_active);
+
+-- Seed the capital region with approximate outlines; refine them on /admin/service-areas
+INSERT INTO service_areas (name, geojson, is_active) VALUES
+  ('Helsinki', '{"type":"Polygon","coordinates":[[[24.78,60.15],[24.83,60.26],[25.00,60.30],[25.20,60.27],[25.26,60.21],[25.20,60.13],[24.90,60.10],[24.78,60.15]]]}'::jsonb, true),
+  ('Espoo', '{"type":"Polygon","coordinates":[[[24.50,60.12],[24.50,60.32],[24.70,60.36],[24.85,60.27],[24.83,60.15],[24.78,60.12],[24.60,60.10],[24.50,60.12]]]}'::jsonb, true),
+  ('Vantaa', '{"type":"Polygon","coordinates":[[[24.82,60.26],[24.85,60.37],[25.05,60.39],[25.26,60.33],[25.20,60.27],[25.00,60.30],[24.82,60.26]]]}'::jsonb, true),
+  ('Kauniainen', '{"type":"Polygon","coordinates":[[[24.70,60.200],[24.70,60.220],[24.745,60.220],[24.745,60.200],[24.70,60.200]]]}'::jsonb, true);
+
+-- Zones and surcharge applied to each booking
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS pickup_service_area_id UUID REFERENCES service_areas(id) ON DELETE SET NULL;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS dropoff_service_area_id UUID REFERENCES service_areas(id) ON DELETE SET NULL;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS service_area_surcharge NUMERIC(8, 2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN bookings.service_area_surcharge IS 'Sum of the surcharges of the distinct pickup and dropoff service areas';
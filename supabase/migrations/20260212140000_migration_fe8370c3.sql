@@ -0,0 +1,30 @@
+-- Consumer address book ("Home", "Storage unit", ...) used by the booking form typeahead
+CREATE TABLE saved_addresses (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  address TEXT NOT NULL,
+  lat NUMERIC(10, 7) NOT NULL,
+  lng NUMERIC(10, 7) NOT NULL,
+  place_token TEXT NOT NULL, -- server signature over address/lat/lng, lets bookings skip geocoding
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, label)
+);
+
+-- Enable RLS
+ALTER TABLE saved_addresses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own saved addresses" ON saved_addresses
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own saved addresses" ON saved_addresses
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own saved addresses" ON saved_addresses
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own saved addresses" ON saved_addresses
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX idx_saved_addresses_user_id ON saved_addresses(user_id);
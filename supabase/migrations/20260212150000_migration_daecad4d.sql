@@ -0,0 +1,69 @@
+-- Ordered pickup/dropoff stops per booking (bookings.pickup_* / dropoff_* keep the first pickup and last dropoff)
+CREATE TYPE stop_type AS ENUM ('pickup', 'dropoff');
+CREATE TYPE stop_status AS ENUM ('pending', 'arrived', 'completed');
+
+CREATE TABLE booking_stops (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL CHECK (position >= 0),
+  stop_type stop_type NOT NULL,
+  address TEXT NOT NULL,
+  lat NUMERIC(10, 7) NOT NULL,
+  lng NUMERIC(10, 7) NOT NULL,
+  contact_name TEXT,
+  contact_phone TEXT,
+  instructions TEXT,
+  status stop_status NOT NULL DEFAULT 'pending',
+  arrived_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (booking_id, position)
+);
+
+-- Enable RLS (stops are created by the server together with the booking)
+ALTER TABLE booking_stops ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view stops for their bookings" ON booking_stops
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id = booking_stops.booking_id
+      AND (bookings.consumer_id = auth.uid() OR bookings.transporter_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Transporters can update stops of their bookings" ON booking_stops
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id = booking_stops.booking_id
+      AND bookings.transporter_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage booking stops" ON booking_stops
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE INDEX idx_booking_stops_booking_id ON booking_stops(booking_id, position);
+
+-- Existing bookings become two-stop routes
+INSERT INTO booking_stops (booking_id, position, stop_type, address, lat, lng, status, completed_at)
+SELECT id, 0, 'pickup', pickup_address, pickup_lat, pickup_lng,
+  CASE WHEN status IN ('picked_up', 'en_route_dropoff', 'delivered') THEN 'completed'::stop_status ELSE 'pending'::stop_status END,
+  NULL
+FROM bookings;
+
+INSERT INTO booking_stops (booking_id, position, stop_type, address, lat, lng, status, completed_at)
+SELECT id, 1, 'dropoff', dropoff_address, dropoff_lat, dropoff_lng,
+  CASE WHEN status = 'delivered' THEN 'completed'::stop_status ELSE 'pending'::stop_status END,
+  completed_at
+FROM bookings;
+
+-- Rate for each stop beyond the first pickup and final dropoff
+UPDATE pricing_tariffs SET extras_rates = extras_rates || '{"extra_stop": 10}'::jsonb;
+ALTER TABLE pricing_tariffs ALTER COLUMN extras_rates
+  SET DEFAULT '{"stairs_per_floor": 5, "helper": 25, "assembly": 30, "packing_materials": 15, "extra_stop": 10}'::jsonb;
+
+COMMENT ON COLUMN pricing_tariffs.extras_rates IS 'EUR rates for extras: stairs_per_floor (per floor carried without elevator), helper (per extra helper), assembly, packing_materials, extra_stop (per stop beyond the first pickup and final dropoff)';
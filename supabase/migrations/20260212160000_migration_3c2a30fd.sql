@@ -0,0 +1,114 @@
+-- Booking status state machine: allowed transitions, enforced on every bookings update, with an audit trail
+CREATE TABLE booking_status_transitions (
+  from_status booking_status NOT NULL,
+  to_status booking_status NOT NULL,
+  PRIMARY KEY (from_status, to_status)
+);
+
+-- Keep in sync with BOOKING_TRANSITIONS in src/lib/bookingStatus.ts
+INSERT INTO booking_status_transitions (from_status, to_status) VALUES
+  ('pending', 'accepted'),
+  ('pending', 'cancelled'),
+  ('accepted', 'en_route_pickup'),
+  ('accepted', 'cancelled'),
+  ('en_route_pickup', 'picked_up'),
+  ('en_route_pickup', 'cancelled'),
+  ('picked_up', 'en_route_dropoff'),
+  ('en_route_dropoff', 'delivered');
+
+ALTER TABLE booking_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view booking status transitions" ON booking_status_transitions
+  FOR SELECT USING (true);
+
+-- Audit trail of every status change
+CREATE TABLE booking_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  from_status booking_status,
+  to_status booking_status NOT NULL,
+  actor_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_booking_events_booking_id ON booking_events(booking_id, created_at);
+
+-- Enable RLS (rows are only written by the bookings trigger)
+ALTER TABLE booking_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view events for their bookings" ON booking_events
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id = booking_events.booking_id
+      AND (bookings.consumer_id = auth.uid() OR bookings.transporter_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can view all booking events" ON booking_events
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- Written alongside a status change and copied into the event
+ALTER TABLE bookings ADD COLUMN status_reason TEXT;
+ALTER TABLE bookings ADD COLUMN status_changed_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN bookings.status_reason IS 'Reason given with the latest status change; recorded in booking_events';
+COMMENT ON COLUMN bookings.status_changed_by IS 'Actor for status changes made with the service role; signed-in users are taken from auth.uid()';
+
+-- Reject status changes that are not in booking_status_transitions
+CREATE OR REPLACE FUNCTION enforce_booking_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT EXISTS (
+    SELECT 1 FROM booking_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Invalid booking status transition: % -> %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- A reason or actor left over from the previous change does not apply to this one
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status_reason IS NOT DISTINCT FROM OLD.status_reason THEN
+      NEW.status_reason := NULL;
+    END IF;
+    IF NEW.status_changed_by IS NOT DISTINCT FROM OLD.status_changed_by THEN
+      NEW.status_changed_by := NULL;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_enforce_booking_status_transition
+  BEFORE UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_booking_status_transition();
+
+-- Record creation and every status change
+CREATE OR REPLACE FUNCTION record_booking_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO booking_events (booking_id, from_status, to_status, actor_id, reason)
+    VALUES (NEW.id, NULL, NEW.status, COALESCE(auth.uid(), NEW.status_changed_by, NEW.consumer_id), NEW.status_reason);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO booking_events (booking_id, from_status, to_status, actor_id, reason)
+    VALUES (NEW.id, OLD.status, NEW.status, COALESCE(auth.uid(), NEW.status_changed_by), NEW.status_reason);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER trigger_record_booking_event
+  AFTER INSERT OR UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION record_booking_event();
+
+-- Existing bookings start their history with the status they have now
+INSERT INTO booking_events (booking_id, from_status, to_status, actor_id, reason, created_at)
+SELECT id, NULL, status, NULL, 'Recorded when booking history was introduced', COALESCE(updated_at, created_at)
+FROM bookings;
@@ -0,0 +1,47 @@
+-- Versioned cancellation policy: what a consumer pays for cancelling at each stage and what a transporter forfeits
+CREATE TABLE cancellation_policies (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  version INTEGER NOT NULL UNIQUE,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  effective_from TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  consumer_fees JSONB NOT NULL DEFAULT '{}'::jsonb,
+  transporter_compensation_percent NUMERIC(5, 2) NOT NULL DEFAULT 0,
+  transporter_penalty NUMERIC(8, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE cancellation_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active cancellation policies" ON cancellation_policies
+  FOR SELECT USING (is_active = true);
+
+CREATE POLICY "Admins can manage cancellation policies" ON cancellation_policies
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+COMMENT ON COLUMN cancellation_policies.consumer_fees IS 'Fee when the consumer cancels, keyed by booking status: {"accepted": {"percent": 10, "minimum": 5}}. Statuses not listed are free';
+COMMENT ON COLUMN cancellation_policies.transporter_compensation_percent IS 'Share of a consumer cancellation fee paid to the assigned transporter';
+COMMENT ON COLUMN cancellation_policies.transporter_penalty IS 'EUR charged to a transporter who cancels an accepted job; the consumer is refunded in full';
+
+INSERT INTO cancellation_policies (version, is_active, consumer_fees, transporter_compensation_percent, transporter_penalty)
+VALUES (
+  1,
+  true,
+  '{"accepted": {"percent": 10, "minimum": 5}, "en_route_pickup": {"percent": 25, "minimum": 15}}'::jsonb,
+  80,
+  15
+);
+
+-- Settlement recorded when a booking is cancelled
+ALTER TABLE bookings ADD COLUMN cancelled_by user_role;
+ALTER TABLE bookings ADD COLUMN cancellation_fee NUMERIC(8, 2);
+ALTER TABLE bookings ADD COLUMN refund_amount NUMERIC(8, 2);
+ALTER TABLE bookings ADD COLUMN transporter_compensation NUMERIC(8, 2);
+ALTER TABLE bookings ADD COLUMN transporter_penalty NUMERIC(8, 2);
+ALTER TABLE bookings ADD COLUMN cancellation_policy_version INTEGER REFERENCES cancellation_policies(version);
+
+COMMENT ON COLUMN bookings.cancellation_fee IS 'EUR kept from the consumer payment under the cancellation policy';
+COMMENT ON COLUMN bookings.refund_amount IS 'EUR returned to the consumer on cancellation';
+COMMENT ON COLUMN bookings.transporter_compensation IS 'EUR owed to the transporter out of the cancellation fee';
+COMMENT ON COLUMN bookings.transporter_penalty IS 'EUR owed by the transporter for cancelling an accepted job';
@@ -0,0 +1,17 @@
+-- Card payments are authorized when the booking is made and captured on delivery
+ALTER TYPE payment_status ADD VALUE IF NOT EXISTS 'authorized' AFTER 'pending';
+ALTER TYPE payment_status ADD VALUE IF NOT EXISTS 'cancelled' AFTER 'refunded';
+
+ALTER TABLE payments ADD COLUMN captured_amount NUMERIC(8, 2) NOT NULL DEFAULT 0;
+ALTER TABLE payments ADD COLUMN authorized_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE payments ADD COLUMN captured_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN payments.amount IS 'EUR authorized on the card when the booking was made';
+COMMENT ON COLUMN payments.captured_amount IS 'EUR actually charged: the full amount on delivery, or the cancellation fee';
+COMMENT ON COLUMN payments.status IS 'pending -> authorized (held on the card) -> succeeded (captured) | cancelled (hold released); refunded once the captured amount is returned in full';
+
+-- One PaymentIntent per booking; its idempotency keys are derived from the booking id
+CREATE UNIQUE INDEX idx_payments_booking_unique ON payments(booking_id);
+
+-- Payments that existed before authorization were charged in full
+UPDATE payments SET captured_amount = amount, captured_at = updated_at WHERE status IN ('succeeded', 'refunded');
@@ -0,0 +1,35 @@
+-- Payment provider webhooks. Every event is stored before it is processed, so redeliveries are recognised and skipped
+CREATE TYPE payment_provider AS ENUM ('stripe', 'mobilepay');
+
+CREATE TABLE payment_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  provider payment_provider NOT NULL,
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+  payload JSONB NOT NULL,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (provider, event_id)
+);
+
+ALTER TABLE payment_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view payment events" ON payment_events
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE INDEX idx_payment_events_payment ON payment_events(payment_id);
+CREATE INDEX idx_payment_events_unprocessed ON payment_events(created_at) WHERE processed_at IS NULL;
+
+COMMENT ON COLUMN payment_events.event_id IS 'Stripe event id, or reference:name:pspReference for MobilePay';
+COMMENT ON COLUMN payment_events.processed_at IS 'Set once the event was applied; a redelivery of an unprocessed event is retried';
+COMMENT ON COLUMN payment_events.error IS 'Why the last processing attempt failed';
+
+-- Which provider a payment went through and its reference there (MobilePay's payment reference)
+ALTER TABLE payments ADD COLUMN provider payment_provider NOT NULL DEFAULT 'stripe';
+ALTER TABLE payments ADD COLUMN provider_reference TEXT;
+
+CREATE UNIQUE INDEX idx_payments_provider_reference ON payments(provider, provider_reference) WHERE provider_reference IS NOT NULL;
@@ -0,0 +1,7 @@
+-- MobilePay payments have no PaymentIntent; they are identified by provider_reference instead
+ALTER TABLE payments ALTER COLUMN stripe_payment_intent_id DROP NOT NULL;
+
+ALTER TABLE payments ADD CONSTRAINT payments_provider_reference_check CHECK (
+  (provider = 'stripe' AND stripe_payment_intent_id IS NOT NULL)
+  OR (provider = 'mobilepay' AND provider_reference IS NOT NULL)
+);
@@ -0,0 +1,42 @@
+-- Refund ledger: one row per refund against a payment, with who started it and why
+CREATE TYPE refund_reason AS ENUM ('cancellation', 'late_arrival', 'damaged_items', 'service_issue', 'duplicate_charge', 'goodwill', 'other');
+CREATE TYPE refund_status AS ENUM ('pending', 'succeeded', 'failed');
+
+CREATE TABLE refunds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  amount NUMERIC(8, 2) NOT NULL CHECK (amount > 0),
+  reason refund_reason NOT NULL,
+  note TEXT,
+  initiated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  status refund_status NOT NULL DEFAULT 'pending',
+  provider payment_provider NOT NULL,
+  provider_reference TEXT,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Consumers can view refunds for their bookings" ON refunds
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id = refunds.booking_id
+      AND bookings.consumer_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all refunds" ON refunds
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE INDEX idx_refunds_payment ON refunds(payment_id);
+CREATE INDEX idx_refunds_booking ON refunds(booking_id);
+
+COMMENT ON COLUMN refunds.initiated_by IS 'Admin who issued the refund, or the user whose cancellation triggered it';
+COMMENT ON COLUMN refunds.status IS 'pending until the provider accepts the refund; failed refunds are kept with their error';
+COMMENT ON COLUMN refunds.provider_reference IS 'Stripe refund id, or the MobilePay pspReference of the refund';
@@ -0,0 +1,186 @@
+-- Transporter payouts: a double-entry ledger of what each transporter is owed, and the weekly SEPA batches that pay it out
+CREATE TYPE ledger_account AS ENUM ('customer_funds', 'platform_revenue', 'transporter_payable', 'payouts_in_transit', 'bank');
+CREATE TYPE ledger_transaction_type AS ENUM ('earning', 'compensation', 'penalty', 'adjustment', 'payout', 'payout_settled', 'payout_returned');
+CREATE TYPE payout_batch_status AS ENUM ('created', 'settled');
+CREATE TYPE payout_status AS ENUM ('pending', 'paid', 'returned');
+
+-- One batch per week, exported as a pain.001 credit transfer file for the bank
+CREATE TABLE payout_batches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  period_end DATE NOT NULL UNIQUE,
+  message_id TEXT NOT NULL UNIQUE,
+  status payout_batch_status NOT NULL DEFAULT 'created',
+  payout_count INTEGER NOT NULL DEFAULT 0,
+  total_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  pain001_xml TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  settled_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE payouts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  batch_id UUID NOT NULL REFERENCES payout_batches(id) ON DELETE RESTRICT,
+  transporter_id UUID NOT NULL REFERENCES profiles(id) ON DELETE RESTRICT,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  iban TEXT NOT NULL,
+  beneficiary_name TEXT NOT NULL,
+  end_to_end_id TEXT NOT NULL UNIQUE,
+  status payout_status NOT NULL DEFAULT 'pending',
+  failure_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  paid_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (batch_id, transporter_id)
+);
+
+CREATE TABLE ledger_transactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  type ledger_transaction_type NOT NULL,
+  transporter_id UUID NOT NULL REFERENCES profiles(id) ON DELETE RESTRICT,
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  payout_id UUID REFERENCES payouts(id) ON DELETE RESTRICT,
+  description TEXT,
+  idempotency_key TEXT NOT NULL UNIQUE,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Debits are positive and credits negative; every transaction's entries sum to zero
+CREATE TABLE ledger_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  transaction_id UUID NOT NULL REFERENCES ledger_transactions(id) ON DELETE RESTRICT,
+  account ledger_account NOT NULL,
+  transporter_id UUID REFERENCES profiles(id) ON DELETE RESTRICT,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount <> 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_ledger_transactions_transporter ON ledger_transactions(transporter_id, created_at);
+CREATE INDEX idx_ledger_transactions_booking ON ledger_transactions(booking_id);
+CREATE INDEX idx_ledger_entries_transaction ON ledger_entries(transaction_id);
+CREATE INDEX idx_ledger_entries_balance ON ledger_entries(transporter_id, account);
+CREATE INDEX idx_payouts_transporter ON payouts(transporter_id, created_at);
+CREATE INDEX idx_payouts_batch ON payouts(batch_id);
+
+-- Enable RLS (all writes go through the service role)
+ALTER TABLE payout_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view payout batches" ON payout_batches
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Transporters can view their payouts" ON payouts
+  FOR SELECT USING (transporter_id = auth.uid());
+
+CREATE POLICY "Admins can view all payouts" ON payouts
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Transporters can view their ledger transactions" ON ledger_transactions
+  FOR SELECT USING (transporter_id = auth.uid());
+
+CREATE POLICY "Admins can view all ledger transactions" ON ledger_transactions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Transporters can view their ledger entries" ON ledger_entries
+  FOR SELECT USING (transporter_id = auth.uid());
+
+CREATE POLICY "Admins can view all ledger entries" ON ledger_entries
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- The ledger is append-only: mistakes are corrected with an adjustment, never by editing entries
+CREATE OR REPLACE FUNCTION prevent_ledger_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Ledger % rows cannot be changed or deleted', TG_TABLE_NAME
+    USING ERRCODE = 'check_violation';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER ledger_entries_append_only
+  BEFORE UPDATE OR DELETE ON ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION prevent_ledger_changes();
+
+-- Transactions may still lose their booking link when a booking is deleted
+CREATE TRIGGER ledger_transactions_append_only
+  BEFORE DELETE ON ledger_transactions
+  FOR EACH ROW EXECUTE FUNCTION prevent_ledger_changes();
+
+-- Post a balanced transaction with its entries in one statement. p_entries is
+-- [{ "account": ..., "amount": ... }]; the transporter is set on the
+-- transporter_payable and payouts_in_transit entries. Posting the same
+-- idempotency key again returns the existing transaction.
+CREATE OR REPLACE FUNCTION post_ledger_transaction(
+  p_type ledger_transaction_type,
+  p_transporter_id UUID,
+  p_idempotency_key TEXT,
+  p_entries JSONB,
+  p_booking_id UUID DEFAULT NULL,
+  p_payout_id UUID DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+  v_total NUMERIC;
+BEGIN
+  SELECT id INTO v_id FROM ledger_transactions WHERE idempotency_key = p_idempotency_key;
+  IF FOUND THEN
+    RETURN v_id;
+  END IF;
+
+  SELECT COALESCE(SUM((entry->>'amount')::NUMERIC), 0) INTO v_total
+  FROM jsonb_array_elements(p_entries) entry;
+
+  IF jsonb_array_length(p_entries) < 2 OR v_total <> 0 THEN
+    RAISE EXCEPTION 'Ledger transaction % does not balance (off by %)', p_idempotency_key, v_total
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO ledger_transactions (type, transporter_id, booking_id, payout_id, description, idempotency_key, created_by)
+  VALUES (p_type, p_transporter_id, p_booking_id, p_payout_id, p_description, p_idempotency_key, p_created_by)
+  RETURNING id INTO v_id;
+
+  INSERT INTO ledger_entries (transaction_id, account, transporter_id, amount)
+  SELECT
+    v_id,
+    (entry->>'account')::ledger_account,
+    CASE WHEN entry->>'account' IN ('transporter_payable', 'payouts_in_transit') THEN p_transporter_id END,
+    (entry->>'amount')::NUMERIC
+  FROM jsonb_array_elements(p_entries) entry
+  WHERE (entry->>'amount')::NUMERIC <> 0;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION post_ledger_transaction FROM PUBLIC, anon, authenticated;
+
+-- What each transporter is owed and has on its way to their bank, from the ledger
+CREATE OR REPLACE FUNCTION transporter_balances(p_transporter_id UUID DEFAULT NULL)
+RETURNS TABLE (transporter_id UUID, owed NUMERIC, in_transit NUMERIC) AS $$
+  SELECT
+    ledger_entries.transporter_id,
+    -COALESCE(SUM(amount) FILTER (WHERE account = 'transporter_payable'), 0),
+    -COALESCE(SUM(amount) FILTER (WHERE account = 'payouts_in_transit'), 0)
+  FROM ledger_entries
+  WHERE ledger_entries.transporter_id IS NOT NULL
+    AND (p_transporter_id IS NULL OR ledger_entries.transporter_id = p_transporter_id)
+  GROUP BY ledger_entries.transporter_id;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION transporter_balances FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN ledger_entries.amount IS 'EUR; positive debits, negative credits. transporter_payable credits are money owed to the transporter';
+COMMENT ON COLUMN ledger_transactions.idempotency_key IS 'earning-<booking>, penalty-<booking>, payout-<payout> and so on; posting twice is a no-op';
+COMMENT ON COLUMN payouts.end_to_end_id IS 'EndToEndId of the credit transfer in the pain.001 file, shown on the transporter''s bank statement';
+COMMENT ON COLUMN payout_batches.period_end IS 'Date the batch was run; earnings posted before it are included';
@@ -0,0 +1,34 @@
+-- Saved cards come only from SetupIntents the server confirmed with Stripe,
+-- attached to one Stripe Customer per profile
+
+CREATE TABLE stripe_customers (
+  profile_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  customer_id TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE stripe_customers ENABLE ROW LEVEL SECURITY;
+
+-- Written by the server only
+CREATE POLICY "Users can view their own Stripe customer"
+  ON stripe_customers FOR SELECT
+  USING (auth.uid() = profile_id);
+
+ALTER TABLE saved_payment_methods
+  ADD COLUMN card_fingerprint TEXT,
+  ADD COLUMN stripe_setup_intent_id TEXT;
+
+CREATE UNIQUE INDEX idx_saved_payment_methods_fingerprint ON saved_payment_methods(user_id, card_fingerprint);
+CREATE UNIQUE INDEX idx_saved_payment_methods_setup_intent ON saved_payment_methods(stripe_setup_intent_id);
+
+-- Methods the client made up can no longer be saved, and removing one detaches it at Stripe
+DROP POLICY IF EXISTS "Users can insert their own payment methods" ON saved_payment_methods;
+DROP POLICY IF EXISTS "Users can delete their own payment methods" ON saved_payment_methods;
+
+-- Users may still pick their default card and rename it, nothing else
+REVOKE UPDATE ON saved_payment_methods FROM anon, authenticated;
+GRANT UPDATE (is_default, cardholder_name, updated_at) ON saved_payment_methods TO authenticated;
+
+COMMENT ON TABLE stripe_customers IS 'The Stripe Customer each profile''s saved cards are attached to';
+COMMENT ON COLUMN saved_payment_methods.card_fingerprint IS 'Stripe card fingerprint; the same card number is saved once per user';
+COMMENT ON COLUMN saved_payment_methods.stripe_setup_intent_id IS 'SetupIntent that saved the card, confirmed server-side with Stripe';
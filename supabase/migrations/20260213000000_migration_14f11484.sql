@@ -0,0 +1,124 @@
+-- VAT invoices for bookings: gapless yearly numbering, frozen content and a
+-- server-rendered PDF in private storage
+
+-- Business customers are invoiced to their company
+ALTER TABLE profiles
+  ADD COLUMN company_name TEXT,
+  ADD COLUMN business_id TEXT CHECK (business_id IS NULL OR business_id ~ '^[0-9]{7}-[0-9]$');
+
+COMMENT ON COLUMN profiles.company_name IS 'Company invoices are addressed to, for business customers';
+COMMENT ON COLUMN profiles.business_id IS 'Finnish business ID (Y-tunnus), e.g. 1234567-8';
+
+CREATE TABLE invoice_counters (
+  year INTEGER PRIMARY KEY,
+  last_number INTEGER NOT NULL DEFAULT 0
+);
+
+ALTER TABLE invoice_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE invoices (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  invoice_number TEXT NOT NULL UNIQUE,
+  booking_id UUID NOT NULL UNIQUE REFERENCES bookings(id) ON DELETE RESTRICT,
+  consumer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE RESTRICT,
+  customer_name TEXT,
+  customer_email TEXT,
+  company_name TEXT,
+  business_id TEXT,
+  lines JSONB NOT NULL,
+  net_amount NUMERIC(10, 2) NOT NULL,
+  vat_amount NUMERIC(10, 2) NOT NULL,
+  total_amount NUMERIC(10, 2) NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'EUR',
+  pdf_path TEXT,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_invoices_consumer ON invoices(consumer_id, issued_at DESC);
+
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Consumers can view their own invoices"
+  ON invoices FOR SELECT
+  USING (auth.uid() = consumer_id);
+
+CREATE POLICY "Admins can view all invoices"
+  ON invoices FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+-- An issued invoice never changes; only its PDF can be attached later
+CREATE OR REPLACE FUNCTION prevent_invoice_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Invoices cannot be deleted';
+  END IF;
+  IF (to_jsonb(NEW) - 'pdf_path') IS DISTINCT FROM (to_jsonb(OLD) - 'pdf_path') THEN
+    RAISE EXCEPTION 'Issued invoices cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_prevent_invoice_changes
+  BEFORE UPDATE OR DELETE ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_invoice_changes();
+
+-- Issue the booking's invoice, or return the one already issued. The number is
+-- taken from the year's counter in the same transaction, so numbers have no gaps.
+CREATE OR REPLACE FUNCTION issue_invoice(
+  p_booking_id UUID,
+  p_consumer_id UUID,
+  p_customer_name TEXT,
+  p_customer_email TEXT,
+  p_company_name TEXT,
+  p_business_id TEXT,
+  p_lines JSONB,
+  p_net_amount NUMERIC,
+  p_vat_amount NUMERIC,
+  p_total_amount NUMERIC
+)
+RETURNS UUID AS $$
+DECLARE
+  v_invoice_id UUID;
+  v_year INTEGER := EXTRACT(YEAR FROM NOW() AT TIME ZONE 'Europe/Helsinki');
+  v_number INTEGER;
+BEGIN
+  -- One booking at a time, so concurrent requests can't take two numbers
+  PERFORM pg_advisory_xact_lock(hashtext('invoice-' || p_booking_id::TEXT));
+
+  SELECT id INTO v_invoice_id FROM invoices WHERE booking_id = p_booking_id;
+  IF FOUND THEN
+    RETURN v_invoice_id;
+  END IF;
+
+  INSERT INTO invoice_counters (year, last_number)
+  VALUES (v_year, 1)
+  ON CONFLICT (year) DO UPDATE SET last_number = invoice_counters.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  INSERT INTO invoices (
+    invoice_number, booking_id, consumer_id, customer_name, customer_email,
+    company_name, business_id, lines, net_amount, vat_amount, total_amount
+  )
+  VALUES (
+    v_year || '-' || LPAD(v_number::TEXT, 6, '0'), p_booking_id, p_consumer_id, p_customer_name, p_customer_email,
+    p_company_name, p_business_id, p_lines, p_net_amount, p_vat_amount, p_total_amount
+  )
+  RETURNING id INTO v_invoice_id;
+
+  RETURN v_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION issue_invoice(UUID, UUID, TEXT, TEXT, TEXT, TEXT, JSONB, NUMERIC, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- PDFs are private and handed out through short-lived signed URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('invoices', 'invoices', false)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE invoices IS 'VAT invoices for delivered bookings and cancellation fees; numbered <year>-<000001>';
+COMMENT ON COLUMN invoices.lines IS 'Frozen invoice lines: description, gross, net, VAT rate and VAT amount';
+COMMENT ON COLUMN invoices.pdf_path IS 'Path of the rendered PDF in the invoices storage bucket';
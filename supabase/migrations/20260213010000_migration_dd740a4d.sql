@@ -0,0 +1,195 @@
+-- Promotions (promo codes with limits and expiry), referral rewards and the
+-- wallet credit they are paid into
+
+CREATE TYPE promotion_type AS ENUM ('percentage', 'fixed', 'first_ride');
+CREATE TYPE referral_status AS ENUM ('pending', 'rewarded');
+CREATE TYPE wallet_transaction_type AS ENUM ('referral_reward');
+
+-- Discounts given at checkout are the platform's cost, not the transporter's
+ALTER TYPE ledger_account ADD VALUE IF NOT EXISTS 'promotions';
+
+CREATE TABLE promotions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code TEXT NOT NULL UNIQUE CHECK (code = UPPER(code) AND code ~ '^[A-Z0-9_-]{3,32}$'),
+  description TEXT,
+  discount_type promotion_type NOT NULL,
+  value NUMERIC(10, 2) NOT NULL CHECK (value > 0),
+  max_discount NUMERIC(10, 2) CHECK (max_discount IS NULL OR max_discount > 0),
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  usage_limit INTEGER CHECK (usage_limit IS NULL OR usage_limit > 0),
+  per_user_limit INTEGER DEFAULT 1 CHECK (per_user_limit IS NULL OR per_user_limit > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (discount_type = 'fixed' OR value <= 100),
+  CHECK (expires_at IS NULL OR expires_at > starts_at)
+);
+
+-- Enable RLS (codes are validated and redeemed with the service role)
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage promotions" ON promotions
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE TABLE promotion_redemptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  promotion_id UUID NOT NULL REFERENCES promotions(id) ON DELETE RESTRICT,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  booking_id UUID NOT NULL UNIQUE REFERENCES bookings(id) ON DELETE CASCADE,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_promotion_redemptions_promotion ON promotion_redemptions(promotion_id, user_id);
+
+ALTER TABLE promotion_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own redemptions" ON promotion_redemptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all redemptions" ON promotion_redemptions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- The discount is taken off what the consumer pays; platform_fee and
+-- transporter_earnings stay computed on the fare before it
+ALTER TABLE bookings
+  ADD COLUMN promotion_id UUID REFERENCES promotions(id) ON DELETE SET NULL,
+  ADD COLUMN discount_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0);
+
+COMMENT ON COLUMN bookings.discount_amount IS 'Promotion discount included in total_price; funded by the platform';
+
+-- Every profile gets a code to invite friends with
+ALTER TABLE profiles
+  ADD COLUMN referral_code TEXT UNIQUE DEFAULT UPPER(SUBSTR(MD5(RANDOM()::TEXT || CLOCK_TIMESTAMP()::TEXT), 1, 8));
+
+-- Owners may edit their profile, but not the code others were given
+CREATE OR REPLACE FUNCTION keep_referral_code()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    NEW.referral_code := OLD.referral_code;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_keep_referral_code
+  BEFORE UPDATE OF referral_code ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_referral_code();
+
+COMMENT ON COLUMN profiles.referral_code IS 'Code a new consumer enters at checkout to be referred by this profile';
+
+CREATE TABLE referrals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  referrer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  referee_id UUID NOT NULL UNIQUE REFERENCES profiles(id) ON DELETE CASCADE,
+  status referral_status NOT NULL DEFAULT 'pending',
+  referrer_reward NUMERIC(10, 2) NOT NULL CHECK (referrer_reward >= 0),
+  referee_reward NUMERIC(10, 2) NOT NULL CHECK (referee_reward >= 0),
+  rewarded_booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  rewarded_at TIMESTAMP WITH TIME ZONE,
+  CHECK (referrer_id <> referee_id)
+);
+
+CREATE INDEX idx_referrals_referrer ON referrals(referrer_id);
+
+ALTER TABLE referrals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their referrals" ON referrals
+  FOR SELECT USING (auth.uid() = referrer_id OR auth.uid() = referee_id);
+
+CREATE POLICY "Admins can view all referrals" ON referrals
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- Wallet credit: an append-only list of changes, the balance is their sum
+CREATE TABLE wallet_transactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type wallet_transaction_type NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount <> 0),
+  description TEXT,
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  referral_id UUID REFERENCES referrals(id) ON DELETE SET NULL,
+  idempotency_key TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_wallet_transactions_user ON wallet_transactions(user_id, created_at DESC);
+
+ALTER TABLE wallet_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own wallet" ON wallet_transactions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all wallets" ON wallet_transactions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- Record a booking's use of a promotion. The promotion row is locked, so
+-- concurrent checkouts can't go over the usage limits; redemptions of
+-- cancelled bookings don't count towards them.
+CREATE OR REPLACE FUNCTION redeem_promotion(
+  p_promotion_id UUID,
+  p_user_id UUID,
+  p_booking_id UUID,
+  p_amount NUMERIC
+)
+RETURNS UUID AS $$
+DECLARE
+  v_promotion promotions%ROWTYPE;
+  v_redemption_id UUID;
+BEGIN
+  SELECT * INTO v_promotion FROM promotions WHERE id = p_promotion_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_promotion.is_active
+    OR v_promotion.starts_at > NOW()
+    OR (v_promotion.expires_at IS NOT NULL AND v_promotion.expires_at <= NOW()) THEN
+    RAISE EXCEPTION 'PROMOTION_INACTIVE';
+  END IF;
+
+  IF v_promotion.usage_limit IS NOT NULL AND (
+    SELECT COUNT(*) FROM promotion_redemptions r JOIN bookings b ON b.id = r.booking_id
+    WHERE r.promotion_id = p_promotion_id AND b.status <> 'cancelled'
+  ) >= v_promotion.usage_limit THEN
+    RAISE EXCEPTION 'PROMOTION_USED_UP';
+  END IF;
+
+  IF v_promotion.per_user_limit IS NOT NULL AND (
+    SELECT COUNT(*) FROM promotion_redemptions r JOIN bookings b ON b.id = r.booking_id
+    WHERE r.promotion_id = p_promotion_id AND r.user_id = p_user_id AND b.status <> 'cancelled'
+  ) >= v_promotion.per_user_limit THEN
+    RAISE EXCEPTION 'PROMOTION_USER_LIMIT';
+  END IF;
+
+  IF v_promotion.discount_type = 'first_ride' AND EXISTS (
+    SELECT 1 FROM bookings
+    WHERE consumer_id = p_user_id AND id <> p_booking_id AND status <> 'cancelled'
+  ) THEN
+    RAISE EXCEPTION 'PROMOTION_FIRST_RIDE_ONLY';
+  END IF;
+
+  INSERT INTO promotion_redemptions (promotion_id, user_id, booking_id, amount)
+  VALUES (p_promotion_id, p_user_id, p_booking_id, p_amount)
+  RETURNING id INTO v_redemption_id;
+
+  RETURN v_redemption_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION redeem_promotion(UUID, UUID, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE promotions IS 'Promo codes: percentage or fixed discounts, or a percentage off a consumer''s first booking';
+COMMENT ON COLUMN promotions.max_discount IS 'Cap in EUR on percentage discounts';
+COMMENT ON COLUMN promotions.per_user_limit IS 'Bookings per consumer that can use the code; NULL = unlimited';
+COMMENT ON TABLE referrals IS 'Referee entered the referrer''s code; both get wallet credit when the referee''s first booking is delivered';
+COMMENT ON TABLE wallet_transactions IS 'Changes to a user''s wallet credit in EUR; idempotency_key makes each grant happen once';
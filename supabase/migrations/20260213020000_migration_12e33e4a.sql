@@ -0,0 +1,77 @@
+-- Wallet credit as a payment method: top-ups by admins, the wallet share of a
+-- booking's payment, and refunds credited back to the wallet
+ALTER TYPE wallet_transaction_type ADD VALUE IF NOT EXISTS 'top_up';
+ALTER TYPE wallet_transaction_type ADD VALUE IF NOT EXISTS 'payment';
+ALTER TYPE wallet_transaction_type ADD VALUE IF NOT EXISTS 'payment_release';
+ALTER TYPE wallet_transaction_type ADD VALUE IF NOT EXISTS 'refund';
+
+-- A booking paid entirely from the wallet has no card or MobilePay payment
+ALTER TYPE payment_provider ADD VALUE IF NOT EXISTS 'wallet';
+
+ALTER TABLE wallet_transactions
+  ADD COLUMN created_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_wallet_transactions_booking ON wallet_transactions(booking_id) WHERE booking_id IS NOT NULL;
+
+ALTER TABLE payments
+  ADD COLUMN wallet_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (wallet_amount >= 0),
+  ADD COLUMN wallet_refund_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (wallet_refund_amount >= 0);
+
+-- Wallet payments are identified by the booking alone
+ALTER TABLE payments DROP CONSTRAINT payments_provider_reference_check;
+ALTER TABLE payments ADD CONSTRAINT payments_provider_reference_check CHECK (
+  (provider = 'stripe' AND stripe_payment_intent_id IS NOT NULL)
+  OR (provider = 'mobilepay' AND provider_reference IS NOT NULL)
+  OR provider NOT IN ('stripe', 'mobilepay')
+);
+
+-- Set how much of the user's wallet a booking holds. The hold is the sum of
+-- the booking's payment and payment_release rows, so it is moved to the
+-- target by inserting the difference. The target is capped at what the
+-- wallet can cover; the user's wallet is locked so two bookings can't spend
+-- the same credit. Returns the amount now held.
+CREATE OR REPLACE FUNCTION wallet_set_hold(
+  p_user_id UUID,
+  p_booking_id UUID,
+  p_amount NUMERIC
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_balance NUMERIC;
+  v_held NUMERIC;
+  v_target NUMERIC;
+  v_steps INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('wallet-' || p_user_id::TEXT));
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_balance
+  FROM wallet_transactions WHERE user_id = p_user_id;
+
+  SELECT COALESCE(-SUM(amount), 0), COUNT(*) INTO v_held, v_steps
+  FROM wallet_transactions
+  WHERE user_id = p_user_id AND booking_id = p_booking_id AND type IN ('payment', 'payment_release');
+
+  v_target := GREATEST(LEAST(ROUND(p_amount, 2), v_balance + v_held), 0);
+
+  IF v_target <> v_held THEN
+    INSERT INTO wallet_transactions (user_id, type, amount, description, booking_id, idempotency_key)
+    VALUES (
+      p_user_id,
+      CASE WHEN v_target > v_held THEN 'payment' ELSE 'payment_release' END::wallet_transaction_type,
+      v_held - v_target,
+      CASE WHEN v_target > v_held THEN 'Paid towards a booking' ELSE 'Returned from a booking' END,
+      p_booking_id,
+      'booking-' || p_booking_id || '-wallet-' || (v_steps + 1)
+    );
+  END IF;
+
+  RETURN v_target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION wallet_set_hold(UUID, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN payments.amount IS 'EUR authorized at the card or MobilePay provider; the wallet share is in wallet_amount';
+COMMENT ON COLUMN payments.wallet_amount IS 'EUR of the booking paid from the consumer''s wallet (debited when paying, kept on delivery)';
+COMMENT ON COLUMN payments.wallet_refund_amount IS 'EUR refunded into the consumer''s wallet; refund_amount covers refunds to the card or MobilePay';
+COMMENT ON COLUMN wallet_transactions.created_by IS 'Admin who made a top-up';
@@ -0,0 +1,91 @@
+-- Proximity dispatch: a new booking is offered to online, approved transporters
+-- near the pickup first, in rings of growing radius until someone accepts.
+-- Every offer is logged in dispatch_offers.
+
+CREATE TYPE dispatch_offer_status AS ENUM ('offered', 'accepted', 'closed');
+
+CREATE TABLE dispatch_offers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  transporter_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  round SMALLINT NOT NULL CHECK (round > 0),
+  radius_km NUMERIC(6, 1) NOT NULL,
+  distance_km NUMERIC(7, 2) NOT NULL,
+  status dispatch_offer_status NOT NULL DEFAULT 'offered',
+  push_sent BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  responded_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (booking_id, transporter_id)
+);
+
+CREATE INDEX idx_dispatch_offers_transporter ON dispatch_offers(transporter_id, status);
+
+-- Offers are written with the service role
+ALTER TABLE dispatch_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Transporters can view their offers" ON dispatch_offers
+  FOR SELECT USING (auth.uid() = transporter_id);
+
+CREATE POLICY "Admins can view all offers" ON dispatch_offers
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+ALTER TABLE bookings
+  ADD COLUMN dispatch_round SMALLINT NOT NULL DEFAULT 0,
+  ADD COLUMN dispatched_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_bookings_dispatch ON bookings(dispatched_at) WHERE status = 'pending';
+
+-- A pending booking is only visible to, and can only be accepted by, the
+-- transporters it was offered to
+DROP POLICY IF EXISTS "Transporters can view pending bookings" ON bookings;
+
+CREATE POLICY "Transporters can view bookings offered to them" ON bookings
+  FOR SELECT USING (
+    status = 'pending' AND
+    EXISTS (SELECT 1 FROM dispatch_offers WHERE booking_id = bookings.id AND transporter_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Transporters can update their bookings and accept pending jobs" ON bookings;
+
+CREATE POLICY "Transporters can update their bookings and accept offered jobs" ON bookings
+  FOR UPDATE USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'transporter')
+    AND (
+      transporter_id = auth.uid() OR
+      (
+        status = 'pending' AND transporter_id IS NULL AND
+        EXISTS (SELECT 1 FROM dispatch_offers WHERE booking_id = bookings.id AND transporter_id = auth.uid())
+      )
+    )
+  );
+
+-- Once a booking leaves pending its open offers are settled: accepted for the
+-- transporter who took it, closed for everyone else
+CREATE OR REPLACE FUNCTION close_dispatch_offers()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE dispatch_offers
+  SET
+    status = CASE
+      WHEN NEW.status = 'accepted' AND transporter_id = NEW.transporter_id THEN 'accepted'
+      ELSE 'closed'
+    END::dispatch_offer_status,
+    responded_at = NOW()
+  WHERE booking_id = NEW.id AND status = 'offered';
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_close_dispatch_offers
+  AFTER UPDATE OF status ON bookings
+  FOR EACH ROW
+  WHEN (OLD.status = 'pending' AND NEW.status <> 'pending')
+  EXECUTE FUNCTION close_dispatch_offers();
+
+COMMENT ON TABLE dispatch_offers IS 'One row per transporter a booking was offered to, with the dispatch round, ring radius and distance to the pickup';
+COMMENT ON COLUMN dispatch_offers.push_sent IS 'Whether at least one of the transporter''s devices accepted the new booking push';
+COMMENT ON COLUMN bookings.dispatch_round IS 'Dispatch rings offered so far; 0 = not dispatched yet';
+COMMENT ON COLUMN bookings.dispatched_at IS 'When the last dispatch ring was offered';
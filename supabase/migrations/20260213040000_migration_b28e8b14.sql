@@ -0,0 +1,98 @@
+-- Exclusive job offers: a booking is offered to one transporter at a time,
+-- who accepts or declines before the offer expires; then it moves on to the
+-- next nearest transporter. Declines and timeouts feed the acceptance rate.
+ALTER TYPE dispatch_offer_status ADD VALUE IF NOT EXISTS 'declined';
+ALTER TYPE dispatch_offer_status ADD VALUE IF NOT EXISTS 'expired';
+
+-- Offers broadcast to a whole ring are withdrawn; the dispatch cron offers
+-- those bookings again, one transporter at a time
+DELETE FROM dispatch_offers WHERE status = 'offered';
+
+ALTER TABLE dispatch_offers ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE;
+UPDATE dispatch_offers SET expires_at = created_at;
+ALTER TABLE dispatch_offers ALTER COLUMN expires_at SET NOT NULL;
+
+-- At most one open offer per booking
+CREATE UNIQUE INDEX idx_dispatch_offers_open ON dispatch_offers(booking_id) WHERE status = 'offered';
+
+-- A transporter sees a pending booking only while their offer is open
+DROP POLICY IF EXISTS "Transporters can view bookings offered to them" ON bookings;
+
+CREATE POLICY "Transporters can view bookings offered to them" ON bookings
+  FOR SELECT USING (
+    status = 'pending' AND
+    EXISTS (
+      SELECT 1 FROM dispatch_offers
+      WHERE booking_id = bookings.id AND transporter_id = auth.uid()
+        AND status = 'offered' AND expires_at > NOW()
+    )
+  );
+
+-- Accepting goes through accept_dispatch_offer, so transporters only update their own bookings
+DROP POLICY IF EXISTS "Transporters can update their bookings and accept offered jobs" ON bookings;
+
+CREATE POLICY "Transporters can update their bookings" ON bookings
+  FOR UPDATE USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'transporter')
+    AND transporter_id = auth.uid()
+  );
+
+-- Assign the booking to the transporter holding its open offer. The offer row
+-- is locked, so an accept can't cross with the offer expiring or moving on;
+-- trigger_close_dispatch_offers then marks the offer accepted.
+CREATE OR REPLACE FUNCTION accept_dispatch_offer(
+  p_booking_id UUID,
+  p_transporter_id UUID
+)
+RETURNS VOID AS $$
+DECLARE
+  v_offer dispatch_offers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_offer
+  FROM dispatch_offers
+  WHERE booking_id = p_booking_id AND transporter_id = p_transporter_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_offer.status <> 'offered' THEN
+    RAISE EXCEPTION 'OFFER_NOT_OPEN';
+  END IF;
+
+  IF v_offer.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'OFFER_EXPIRED';
+  END IF;
+
+  UPDATE bookings
+  SET
+    status = 'accepted',
+    transporter_id = p_transporter_id,
+    accepted_at = NOW(),
+    status_reason = NULL,
+    status_changed_by = p_transporter_id
+  WHERE id = p_booking_id AND status = 'pending' AND transporter_id IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'BOOKING_UNAVAILABLE';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION accept_dispatch_offer(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Offers each transporter accepted, declined and let expire. Runs with the
+-- caller's rights: admins get every transporter, a transporter their own row.
+CREATE OR REPLACE FUNCTION dispatch_acceptance_rates(p_since TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE (transporter_id UUID, accepted BIGINT, declined BIGINT, expired BIGINT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.transporter_id,
+    COUNT(*) FILTER (WHERE o.status = 'accepted'),
+    COUNT(*) FILTER (WHERE o.status = 'declined'),
+    COUNT(*) FILTER (WHERE o.status = 'expired')
+  FROM dispatch_offers o
+  WHERE p_since IS NULL OR o.created_at >= p_since
+  GROUP BY o.transporter_id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON COLUMN dispatch_offers.expires_at IS 'The transporter has until then to accept or decline; afterwards the offer is expired and the next transporter gets one';
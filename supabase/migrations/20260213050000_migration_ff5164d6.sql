@@ -0,0 +1,47 @@
+-- Scheduled bookings: a booking for later is open for transporters to claim
+-- until shortly before it starts, when dispatch takes over. Both parties get
+-- reminders, and a claim the transporter doesn't start on time is released
+-- back to pending and dispatched again.
+
+ALTER TABLE bookings ADD COLUMN dispatch_after TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN bookings.dispatch_after IS 'Scheduled bookings: open for transporters to claim until then, after which dispatch offers it; NULL dispatches at once';
+
+CREATE INDEX idx_bookings_scheduled ON bookings(scheduled_at) WHERE scheduled_at IS NOT NULL;
+
+-- A claim that was never started goes back to pending (see src/server/scheduler.ts).
+-- Keep in sync with BOOKING_TRANSITIONS in src/lib/bookingStatus.ts
+INSERT INTO booking_status_transitions (from_status, to_status) VALUES
+  ('accepted', 'pending')
+ON CONFLICT DO NOTHING;
+
+-- Approved transporters see scheduled bookings that are open to claim
+CREATE POLICY "Transporters can view scheduled bookings open to claim" ON bookings
+  FOR SELECT USING (
+    status = 'pending' AND transporter_id IS NULL AND dispatch_after > NOW() AND
+    EXISTS (
+      SELECT 1 FROM transporter_applications
+      WHERE user_id = auth.uid() AND status = 'approved'
+    )
+  );
+
+-- One row per reminder sent, so every reminder goes out once per recipient
+CREATE TABLE booking_reminders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  recipient_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  offset_minutes INTEGER NOT NULL CHECK (offset_minutes > 0),
+  push_sent BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (booking_id, recipient_id, offset_minutes)
+);
+
+-- Reminders are written with the service role
+ALTER TABLE booking_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all reminders" ON booking_reminders
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+COMMENT ON COLUMN booking_reminders.offset_minutes IS 'How long before scheduled_at the reminder was due (SCHEDULE_REMINDER_OFFSETS_MINUTES)';
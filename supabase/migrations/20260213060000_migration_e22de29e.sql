@@ -0,0 +1,3 @@
+-- Pending bookings nobody accepted in time end as expired. Added on its own,
+-- since a new enum value can only be used once this migration has committed.
+ALTER TYPE booking_status ADD VALUE IF NOT EXISTS 'expired';
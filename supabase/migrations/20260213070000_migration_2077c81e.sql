@@ -0,0 +1,82 @@
+-- Booking expiry: a pending booking no transporter accepted within the expiry
+-- window (src/server/bookingExpiry.ts) moves to expired, its payment hold is
+-- released and the consumer is offered to rebook, optionally with a priority
+-- surcharge on top of the fare.
+
+-- Keep in sync with BOOKING_TRANSITIONS in src/lib/bookingStatus.ts
+INSERT INTO booking_status_transitions (from_status, to_status) VALUES
+  ('pending', 'expired')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE bookings
+  ADD COLUMN expired_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN surge_amount NUMERIC(8, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN rebooked_from UUID REFERENCES bookings(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_bookings_pending_created ON bookings(created_at) WHERE status = 'pending';
+
+-- Consumers may clear expired bookings from their dashboard, like finished ones
+DROP POLICY IF EXISTS "Consumers can delete their completed or cancelled bookings" ON bookings;
+CREATE POLICY "Consumers can delete their finished bookings"
+ON bookings
+FOR DELETE
+TO public
+USING (
+  consumer_id = auth.uid()
+  AND status IN ('delivered', 'cancelled', 'expired')
+);
+
+-- Expired bookings don't use up promotions, like cancelled ones
+CREATE OR REPLACE FUNCTION redeem_promotion(
+  p_promotion_id UUID,
+  p_user_id UUID,
+  p_booking_id UUID,
+  p_amount NUMERIC
+)
+RETURNS UUID AS $$
+DECLARE
+  v_promotion promotions%ROWTYPE;
+  v_redemption_id UUID;
+BEGIN
+  SELECT * INTO v_promotion FROM promotions WHERE id = p_promotion_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_promotion.is_active
+    OR v_promotion.starts_at > NOW()
+    OR (v_promotion.expires_at IS NOT NULL AND v_promotion.expires_at <= NOW()) THEN
+    RAISE EXCEPTION 'PROMOTION_INACTIVE';
+  END IF;
+
+  IF v_promotion.usage_limit IS NOT NULL AND (
+    SELECT COUNT(*) FROM promotion_redemptions r JOIN bookings b ON b.id = r.booking_id
+    WHERE r.promotion_id = p_promotion_id AND b.status NOT IN ('cancelled', 'expired')
+  ) >= v_promotion.usage_limit THEN
+    RAISE EXCEPTION 'PROMOTION_USED_UP';
+  END IF;
+
+  IF v_promotion.per_user_limit IS NOT NULL AND (
+    SELECT COUNT(*) FROM promotion_redemptions r JOIN bookings b ON b.id = r.booking_id
+    WHERE r.promotion_id = p_promotion_id AND r.user_id = p_user_id AND b.status NOT IN ('cancelled', 'expired')
+  ) >= v_promotion.per_user_limit THEN
+    RAISE EXCEPTION 'PROMOTION_USER_LIMIT';
+  END IF;
+
+  IF v_promotion.discount_type = 'first_ride' AND EXISTS (
+    SELECT 1 FROM bookings
+    WHERE consumer_id = p_user_id AND id <> p_booking_id AND status NOT IN ('cancelled', 'expired')
+  ) THEN
+    RAISE EXCEPTION 'PROMOTION_FIRST_RIDE_ONLY';
+  END IF;
+
+  INSERT INTO promotion_redemptions (promotion_id, user_id, booking_id, amount)
+  VALUES (p_promotion_id, p_user_id, p_booking_id, p_amount)
+  RETURNING id INTO v_redemption_id;
+
+  RETURN v_redemption_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION redeem_promotion(UUID, UUID, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN bookings.expired_at IS 'When the booking expired without a transporter accepting it';
+COMMENT ON COLUMN bookings.surge_amount IS 'Priority surcharge included in the fare when an expired booking was rebooked; split with the transporter like the rest of the fare';
+COMMENT ON COLUMN bookings.rebooked_from IS 'The expired booking this one was rebooked from';
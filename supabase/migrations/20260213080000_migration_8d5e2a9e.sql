@@ -0,0 +1,61 @@
+-- Transporter working hours: a weekly calendar of shifts and blocks of time off
+-- (src/server/shifts.ts). Dispatch only offers jobs to a transporter who is
+-- online and available by their calendar, and the shifts cron takes them offline
+-- when their shift ends. A transporter without shifts is available all week.
+CREATE TABLE transporter_shifts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  transporter_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 1 AND 7), -- ISO: 1 = Monday
+  starts_at TIME NOT NULL,
+  ends_at TIME NOT NULL, -- '24:00' for a shift running until midnight
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE TABLE transporter_time_off (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  transporter_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL, -- inclusive
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (ends_on >= starts_on)
+);
+
+-- Enable RLS
+ALTER TABLE transporter_shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transporter_time_off ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Transporters can manage their own shifts" ON transporter_shifts
+  FOR ALL USING (transporter_id = auth.uid()) WITH CHECK (transporter_id = auth.uid());
+
+CREATE POLICY "Admins can view all shifts" ON transporter_shifts
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Transporters can manage their own time off" ON transporter_time_off
+  FOR ALL USING (transporter_id = auth.uid()) WITH CHECK (transporter_id = auth.uid());
+
+CREATE POLICY "Admins can view all time off" ON transporter_time_off
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE INDEX idx_transporter_shifts_transporter ON transporter_shifts(transporter_id, weekday);
+CREATE INDEX idx_transporter_time_off_transporter ON transporter_time_off(transporter_id, ends_on);
+
+COMMENT ON COLUMN transporter_shifts.starts_at IS 'Local time in Europe/Helsinki, like ends_at';
+COMMENT ON COLUMN transporter_time_off.ends_on IS 'Last day off, inclusive';
+
+-- profiles.is_online is now the only online flag; transporter_availability keeps
+-- the last reported position. Transporters whose two flags disagreed go offline.
+UPDATE profiles SET is_online = false
+WHERE is_online AND NOT EXISTS (
+  SELECT 1 FROM transporter_availability a WHERE a.transporter_id = profiles.id AND a.is_online
+);
+
+DROP INDEX IF EXISTS idx_availability_online;
+ALTER TABLE transporter_availability DROP COLUMN is_online;
+CREATE INDEX idx_availability_location ON transporter_availability(last_location_lat, last_location_lng);
+CREATE INDEX idx_profiles_online ON profiles(id) WHERE is_online;
@@ -0,0 +1,46 @@
+-- Refunds are reserved on the payment before any money moves. The payment row
+-- is locked, so two refunds at the same time can't together go past what was paid.
+
+CREATE OR REPLACE FUNCTION reserve_payment_refund(
+  p_payment_id UUID,
+  p_refund NUMERIC,
+  p_wallet_refund NUMERIC
+)
+RETURNS TABLE (previous_refund NUMERIC, previous_wallet_refund NUMERIC) AS $$
+DECLARE
+  v_payment payments%ROWTYPE;
+  v_refund NUMERIC;
+  v_wallet_refund NUMERIC;
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PAYMENT_NOT_FOUND';
+  END IF;
+
+  v_refund := COALESCE(v_payment.refund_amount, 0) + ROUND(p_refund, 2);
+  v_wallet_refund := v_payment.wallet_refund_amount + ROUND(p_wallet_refund, 2);
+
+  IF v_refund < 0 OR v_wallet_refund < 0
+    OR v_refund > v_payment.captured_amount
+    OR v_refund + v_wallet_refund > v_payment.captured_amount + v_payment.wallet_amount THEN
+    RAISE EXCEPTION 'REFUND_EXCEEDS_PAYMENT';
+  END IF;
+
+  UPDATE payments SET
+    refund_amount = v_refund,
+    wallet_refund_amount = v_wallet_refund,
+    status = CASE
+      WHEN v_refund + v_wallet_refund >= v_payment.captured_amount + v_payment.wallet_amount THEN 'refunded'
+      ELSE 'succeeded'
+    END::payment_status,
+    updated_at = NOW()
+  WHERE id = p_payment_id;
+
+  -- The totals before this reservation
+  RETURN QUERY SELECT COALESCE(v_payment.refund_amount, 0), v_payment.wallet_refund_amount;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION reserve_payment_refund(UUID, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION reserve_payment_refund(UUID, NUMERIC, NUMERIC) IS 'Add to (or, negative, give back from) a payment''s refund totals under a row lock; returns the totals before';
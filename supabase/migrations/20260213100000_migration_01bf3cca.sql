@@ -0,0 +1,49 @@
+-- Refunds are kept for good: deleting a booking or payment no longer takes its
+-- refund rows with it, and refund rows can't be deleted themselves
+ALTER TABLE refunds DROP CONSTRAINT refunds_payment_id_fkey;
+ALTER TABLE refunds
+  ADD CONSTRAINT refunds_payment_id_fkey FOREIGN KEY (payment_id) REFERENCES payments(id) ON DELETE RESTRICT;
+
+ALTER TABLE refunds DROP CONSTRAINT refunds_booking_id_fkey;
+ALTER TABLE refunds
+  ADD CONSTRAINT refunds_booking_id_fkey FOREIGN KEY (booking_id) REFERENCES bookings(id) ON DELETE RESTRICT;
+
+-- Only the outcome of a pending refund is filled in later
+CREATE OR REPLACE FUNCTION prevent_refund_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Refunds cannot be deleted'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF OLD.status <> 'pending'
+    OR NEW.payment_id <> OLD.payment_id
+    OR NEW.booking_id <> OLD.booking_id
+    OR NEW.amount <> OLD.amount
+    OR NEW.reason <> OLD.reason
+    OR NEW.provider <> OLD.provider
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Completed refunds cannot be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER refunds_append_only
+  BEFORE UPDATE OR DELETE ON refunds
+  FOR EACH ROW EXECUTE FUNCTION prevent_refund_changes();
+
+-- Bookings with refunds stay, so consumers can only delete those without
+DROP POLICY IF EXISTS "Consumers can delete their finished bookings" ON bookings;
+CREATE POLICY "Consumers can delete their finished bookings"
+ON bookings
+FOR DELETE
+TO public
+USING (
+  consumer_id = auth.uid()
+  AND status IN ('delivered', 'cancelled', 'expired')
+  AND NOT EXISTS (SELECT 1 FROM refunds WHERE refunds.booking_id = bookings.id)
+);
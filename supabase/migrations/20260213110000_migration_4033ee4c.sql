@@ -0,0 +1,13 @@
+-- Invoiced bookings stay with their invoice, so consumers can only delete
+-- finished bookings that have neither an invoice nor refunds
+DROP POLICY IF EXISTS "Consumers can delete their finished bookings" ON bookings;
+CREATE POLICY "Consumers can delete their finished bookings"
+ON bookings
+FOR DELETE
+TO public
+USING (
+  consumer_id = auth.uid()
+  AND status IN ('delivered', 'cancelled', 'expired')
+  AND NOT EXISTS (SELECT 1 FROM refunds WHERE refunds.booking_id = bookings.id)
+  AND NOT EXISTS (SELECT 1 FROM invoices WHERE invoices.booking_id = bookings.id)
+);
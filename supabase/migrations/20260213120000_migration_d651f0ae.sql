@@ -0,0 +1,7 @@
+-- A batch is only done once all its payouts and the pain.001 file are in;
+-- a run that failed halfway is finished by the next one
+ALTER TABLE payout_batches ADD COLUMN completed_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE payout_batches SET completed_at = created_at;
+
+COMMENT ON COLUMN payout_batches.completed_at IS 'When the batch''s payouts and pain.001 file were all created; NULL while a run is unfinished';
@@ -0,0 +1,75 @@
+-- Users update their bookings' status, ratings and the like from the app, but
+-- the price, who it is paid to and what was priced are set by the server only
+DROP POLICY IF EXISTS "Transporters can update their bookings" ON bookings;
+
+-- Consumers cancel through /api/bookings/cancel, which settles the payment
+-- and the wallet hold; a direct update would leave both in place
+DROP POLICY IF EXISTS "Consumers can cancel their own pending bookings" ON bookings;
+DROP POLICY IF EXISTS "Consumers can update their cancelled bookings" ON bookings;
+
+CREATE POLICY "Transporters can update their bookings" ON bookings
+  FOR UPDATE USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'transporter')
+    AND transporter_id = auth.uid()
+  )
+  WITH CHECK (transporter_id = auth.uid());
+
+-- Runs as the calling role, so the server (service role) and SECURITY DEFINER
+-- functions like accept_dispatch_offer can still change these
+CREATE OR REPLACE FUNCTION protect_booking_pricing()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user = 'authenticated' AND (
+    NEW.consumer_id IS DISTINCT FROM OLD.consumer_id
+    OR NEW.transporter_id IS DISTINCT FROM OLD.transporter_id
+    OR NEW.total_price IS DISTINCT FROM OLD.total_price
+    OR NEW.platform_fee IS DISTINCT FROM OLD.platform_fee
+    OR NEW.transporter_earnings IS DISTINCT FROM OLD.transporter_earnings
+    OR NEW.discount_amount IS DISTINCT FROM OLD.discount_amount
+    OR NEW.promotion_id IS DISTINCT FROM OLD.promotion_id
+    OR NEW.base_price IS DISTINCT FROM OLD.base_price
+    OR NEW.distance_price IS DISTINCT FROM OLD.distance_price
+    OR NEW.item_type_surcharge IS DISTINCT FROM OLD.item_type_surcharge
+    OR NEW.service_area_surcharge IS DISTINCT FROM OLD.service_area_surcharge
+    OR NEW.extras_price IS DISTINCT FROM OLD.extras_price
+    OR NEW.extras_breakdown IS DISTINCT FROM OLD.extras_breakdown
+    OR NEW.surge_amount IS DISTINCT FROM OLD.surge_amount
+    OR NEW.cancellation_fee IS DISTINCT FROM OLD.cancellation_fee
+    OR NEW.refund_amount IS DISTINCT FROM OLD.refund_amount
+    OR NEW.transporter_compensation IS DISTINCT FROM OLD.transporter_compensation
+    OR NEW.transporter_penalty IS DISTINCT FROM OLD.transporter_penalty
+    -- The route and load the price was calculated for
+    OR NEW.pickup_address IS DISTINCT FROM OLD.pickup_address
+    OR NEW.pickup_lat IS DISTINCT FROM OLD.pickup_lat
+    OR NEW.pickup_lng IS DISTINCT FROM OLD.pickup_lng
+    OR NEW.pickup_service_area_id IS DISTINCT FROM OLD.pickup_service_area_id
+    OR NEW.dropoff_address IS DISTINCT FROM OLD.dropoff_address
+    OR NEW.dropoff_lat IS DISTINCT FROM OLD.dropoff_lat
+    OR NEW.dropoff_lng IS DISTINCT FROM OLD.dropoff_lng
+    OR NEW.dropoff_service_area_id IS DISTINCT FROM OLD.dropoff_service_area_id
+    OR NEW.distance_km IS DISTINCT FROM OLD.distance_km
+    OR NEW.item_size IS DISTINCT FROM OLD.item_size
+    OR NEW.item_type IS DISTINCT FROM OLD.item_type
+    OR NEW.pickup_floor IS DISTINCT FROM OLD.pickup_floor
+    OR NEW.pickup_has_elevator IS DISTINCT FROM OLD.pickup_has_elevator
+    OR NEW.dropoff_floor IS DISTINCT FROM OLD.dropoff_floor
+    OR NEW.dropoff_has_elevator IS DISTINCT FROM OLD.dropoff_has_elevator
+    OR NEW.helper_count IS DISTINCT FROM OLD.helper_count
+    OR NEW.needs_assembly IS DISTINCT FROM OLD.needs_assembly
+    OR NEW.packing_materials IS DISTINCT FROM OLD.packing_materials
+    OR NEW.tariff_version IS DISTINCT FROM OLD.tariff_version
+    -- When it is dispatched, reminded and released
+    OR NEW.scheduled_at IS DISTINCT FROM OLD.scheduled_at
+    OR NEW.dispatch_after IS DISTINCT FROM OLD.dispatch_after
+  ) THEN
+    RAISE EXCEPTION 'Booking prices, routes and parties can only be changed by the server'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_booking_pricing
+  BEFORE UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION protect_booking_pricing();
@@ -0,0 +1,67 @@
+-- Bookings are only offered or claimed once their payment is authorized (see
+-- src/server/dispatch.ts); accepting and claiming check it again
+
+-- Whether the booking's payment is held or charged. Runs with the owner's
+-- rights, as transporters can't read payments of bookings not yet theirs
+CREATE OR REPLACE FUNCTION booking_is_paid(p_booking_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM payments
+    WHERE booking_id = p_booking_id AND status IN ('authorized', 'succeeded')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION accept_dispatch_offer(
+  p_booking_id UUID,
+  p_transporter_id UUID
+)
+RETURNS VOID AS $$
+DECLARE
+  v_offer dispatch_offers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_offer
+  FROM dispatch_offers
+  WHERE booking_id = p_booking_id AND transporter_id = p_transporter_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_offer.status <> 'offered' THEN
+    RAISE EXCEPTION 'OFFER_NOT_OPEN';
+  END IF;
+
+  IF v_offer.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'OFFER_EXPIRED';
+  END IF;
+
+  IF NOT booking_is_paid(p_booking_id) THEN
+    RAISE EXCEPTION 'BOOKING_UNPAID';
+  END IF;
+
+  UPDATE bookings
+  SET
+    status = 'accepted',
+    transporter_id = p_transporter_id,
+    accepted_at = NOW(),
+    status_reason = NULL,
+    status_changed_by = p_transporter_id
+  WHERE id = p_booking_id AND status = 'pending' AND transporter_id IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'BOOKING_UNAVAILABLE';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION accept_dispatch_offer(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Unpaid scheduled bookings aren't listed for claiming
+DROP POLICY IF EXISTS "Transporters can view scheduled bookings open to claim" ON bookings;
+
+CREATE POLICY "Transporters can view scheduled bookings open to claim" ON bookings
+  FOR SELECT USING (
+    status = 'pending' AND transporter_id IS NULL AND dispatch_after > NOW() AND
+    EXISTS (
+      SELECT 1 FROM transporter_applications
+      WHERE user_id = auth.uid() AND status = 'approved'
+    ) AND
+    booking_is_paid(id)
+  );
@@ -0,0 +1,40 @@
+-- Cancellations whose money hasn't been settled yet: the hold captured or
+-- released, the refund made and the transporter's compensation or penalty
+-- posted. A row is added in the same update that cancels the booking and
+-- removed once /api/bookings/cancel or the settle-cancellations cron has
+-- settled it (see bookingPayments.settleCancellation)
+CREATE TABLE cancellation_settlements (
+  -- No cascade: a booking can't be deleted while its money is still held
+  booking_id UUID PRIMARY KEY REFERENCES bookings(id),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_cancellation_settlements_created_at ON cancellation_settlements(created_at);
+
+-- Written and read with the service role only
+ALTER TABLE cancellation_settlements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view cancellation settlements" ON cancellation_settlements
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE OR REPLACE FUNCTION queue_cancellation_settlement()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    INSERT INTO cancellation_settlements (booking_id)
+    VALUES (NEW.id)
+    ON CONFLICT (booking_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_queue_cancellation_settlement
+  AFTER UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_cancellation_settlement();
@@ -0,0 +1,11 @@
+-- Claims are told apart from jobs accepted through dispatch, so the scheduler
+-- only releases a claim the transporter didn't start (see src/server/scheduler.ts)
+ALTER TABLE bookings ADD COLUMN claimed_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN bookings.claimed_at IS 'When a transporter claimed the scheduled booking ahead of dispatch; NULL when accepted from an offer';
+
+UPDATE bookings
+SET claimed_at = accepted_at
+WHERE status = 'accepted' AND status_reason = 'Claimed in advance';
+
+CREATE INDEX idx_bookings_claimed ON bookings(scheduled_at) WHERE claimed_at IS NOT NULL;
@@ -0,0 +1,10 @@
+-- Pending bookings expire BOOKING_EXPIRY_MINUTES after their first offer
+-- (see src/server/bookingExpiry.ts); dispatched_at moves with every ring
+ALTER TABLE bookings ADD COLUMN dispatch_started_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN bookings.dispatch_started_at IS 'When dispatch first offered the booking; reset when a claim is released';
+
+-- Bookings already being offered count from their latest ring
+UPDATE bookings
+SET dispatch_started_at = dispatched_at
+WHERE status = 'pending' AND dispatched_at IS NOT NULL;